@@ -9,6 +9,8 @@
  */
 
 import type * as activities from "../activities.js";
+import type * as agentMemories from "../agentMemories.js";
+import type * as agentRuns from "../agentRuns.js";
 import type * as agentTemplates from "../agentTemplates.js";
 import type * as agents from "../agents.js";
 import type * as agents_reader from "../agents_reader.js";
@@ -18,6 +20,7 @@ import type * as brain from "../brain.js";
 import type * as crons from "../crons.js";
 import type * as departments from "../departments.js";
 import type * as documents from "../documents.js";
+import type * as embeddings from "../embeddings.js";
 import type * as executors from "../executors.js";
 import type * as http from "../http.js";
 import type * as http_gmail from "../http_gmail.js";
@@ -25,9 +28,27 @@ import type * as integrations from "../integrations.js";
 import type * as integrations_gmail from "../integrations_gmail.js";
 import type * as invites from "../invites.js";
 import type * as knowledge from "../knowledge.js";
+import type * as knowledgeCollections from "../knowledgeCollections.js";
 import type * as knowledgeNode from "../knowledgeNode.js";
+import type * as knowledgeSources from "../knowledgeSources.js";
+import type * as knowledgeSourcesNode from "../knowledgeSourcesNode.js";
+import type * as lib_agentKinds from "../lib/agentKinds.js";
+import type * as lib_citations from "../lib/citations.js";
 import type * as lib_deptContext from "../lib/deptContext.js";
+import type * as lib_embeddingCounts from "../lib/embeddingCounts.js";
+import type * as lib_embeddings from "../lib/embeddings.js";
+import type * as lib_knowledgeChunks from "../lib/knowledgeChunks.js";
+import type * as lib_knowledgeExtractors from "../lib/knowledgeExtractors.js";
+import type * as lib_knowledgeScope from "../lib/knowledgeScope.js";
+import type * as lib_llmProviders from "../lib/llmProviders.js";
 import type * as lib_orgAuthorization from "../lib/orgAuthorization.js";
+import type * as lib_schedules from "../lib/schedules.js";
+import type * as lib_stepBudget from "../lib/stepBudget.js";
+import type * as lib_taskSearch from "../lib/taskSearch.js";
+import type * as lib_toolRegistry from "../lib/toolRegistry.js";
+import type * as lib_usageCounters from "../lib/usageCounters.js";
+import type * as lib_usagePricing from "../lib/usagePricing.js";
+import type * as lib_workflows from "../lib/workflows.js";
 import type * as memory from "../memory.js";
 import type * as messages from "../messages.js";
 import type * as migrations from "../migrations.js";
@@ -37,11 +58,16 @@ import type * as organizations from "../organizations.js";
 import type * as planLimits from "../planLimits.js";
 import type * as plans from "../plans.js";
 import type * as reviews from "../reviews.js";
+import type * as spendingLimits from "../spendingLimits.js";
 import type * as stripe from "../stripe.js";
+import type * as taskSchedules from "../taskSchedules.js";
+import type * as taskViews from "../taskViews.js";
 import type * as tasks from "../tasks.js";
 import type * as telegram from "../telegram.js";
+import type * as threadSummaries from "../threadSummaries.js";
 import type * as thread_subscriptions from "../thread_subscriptions.js";
 import type * as thread_subscriptions_notify from "../thread_subscriptions_notify.js";
+import type * as tools_agentMemory from "../tools/agentMemory.js";
 import type * as tools_delegation from "../tools/delegation.js";
 import type * as tools_email from "../tools/email.js";
 import type * as tools_github from "../tools/github.js";
@@ -53,15 +79,18 @@ import type * as tools_gmailTools from "../tools/gmailTools.js";
 import type * as tools_image from "../tools/image.js";
 import type * as tools_knowledge from "../tools/knowledge.js";
 import type * as tools_notion from "../tools/notion.js";
+import type * as tools_registry from "../tools/registry.js";
 import type * as tools_search from "../tools/search.js";
 import type * as tools_social from "../tools/social.js";
 import type * as tools_upwork from "../tools/upwork.js";
 import type * as tools_upworkOAuth from "../tools/upworkOAuth.js";
 import type * as uprising from "../uprising.js";
+import type * as usage from "../usage.js";
 import type * as uxEvents from "../uxEvents.js";
 import type * as uxFlows from "../uxFlows.js";
 import type * as uxPing from "../uxPing.js";
 import type * as viewer from "../viewer.js";
+import type * as workflows from "../workflows.js";
 
 import type {
   ApiFromModules,
@@ -71,6 +100,8 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   activities: typeof activities;
+  agentMemories: typeof agentMemories;
+  agentRuns: typeof agentRuns;
   agentTemplates: typeof agentTemplates;
   agents: typeof agents;
   agents_reader: typeof agents_reader;
@@ -80,6 +111,7 @@ declare const fullApi: ApiFromModules<{
   crons: typeof crons;
   departments: typeof departments;
   documents: typeof documents;
+  embeddings: typeof embeddings;
   executors: typeof executors;
   http: typeof http;
   http_gmail: typeof http_gmail;
@@ -87,9 +119,27 @@ declare const fullApi: ApiFromModules<{
   integrations_gmail: typeof integrations_gmail;
   invites: typeof invites;
   knowledge: typeof knowledge;
+  knowledgeCollections: typeof knowledgeCollections;
   knowledgeNode: typeof knowledgeNode;
+  knowledgeSources: typeof knowledgeSources;
+  knowledgeSourcesNode: typeof knowledgeSourcesNode;
+  "lib/agentKinds": typeof lib_agentKinds;
+  "lib/citations": typeof lib_citations;
   "lib/deptContext": typeof lib_deptContext;
+  "lib/embeddingCounts": typeof lib_embeddingCounts;
+  "lib/embeddings": typeof lib_embeddings;
+  "lib/knowledgeChunks": typeof lib_knowledgeChunks;
+  "lib/knowledgeExtractors": typeof lib_knowledgeExtractors;
+  "lib/knowledgeScope": typeof lib_knowledgeScope;
+  "lib/llmProviders": typeof lib_llmProviders;
   "lib/orgAuthorization": typeof lib_orgAuthorization;
+  "lib/schedules": typeof lib_schedules;
+  "lib/stepBudget": typeof lib_stepBudget;
+  "lib/taskSearch": typeof lib_taskSearch;
+  "lib/toolRegistry": typeof lib_toolRegistry;
+  "lib/usageCounters": typeof lib_usageCounters;
+  "lib/usagePricing": typeof lib_usagePricing;
+  "lib/workflows": typeof lib_workflows;
   memory: typeof memory;
   messages: typeof messages;
   migrations: typeof migrations;
@@ -99,11 +149,16 @@ declare const fullApi: ApiFromModules<{
   planLimits: typeof planLimits;
   plans: typeof plans;
   reviews: typeof reviews;
+  spendingLimits: typeof spendingLimits;
   stripe: typeof stripe;
+  taskSchedules: typeof taskSchedules;
+  taskViews: typeof taskViews;
   tasks: typeof tasks;
   telegram: typeof telegram;
+  threadSummaries: typeof threadSummaries;
   thread_subscriptions: typeof thread_subscriptions;
   thread_subscriptions_notify: typeof thread_subscriptions_notify;
+  "tools/agentMemory": typeof tools_agentMemory;
   "tools/delegation": typeof tools_delegation;
   "tools/email": typeof tools_email;
   "tools/github": typeof tools_github;
@@ -115,15 +170,18 @@ declare const fullApi: ApiFromModules<{
   "tools/image": typeof tools_image;
   "tools/knowledge": typeof tools_knowledge;
   "tools/notion": typeof tools_notion;
+  "tools/registry": typeof tools_registry;
   "tools/search": typeof tools_search;
   "tools/social": typeof tools_social;
   "tools/upwork": typeof tools_upwork;
   "tools/upworkOAuth": typeof tools_upworkOAuth;
   uprising: typeof uprising;
+  usage: typeof usage;
   uxEvents: typeof uxEvents;
   uxFlows: typeof uxFlows;
   uxPing: typeof uxPing;
   viewer: typeof viewer;
+  workflows: typeof workflows;
 }>;
 
 /**
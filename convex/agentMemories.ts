@@ -0,0 +1,310 @@
+import { internalMutation, internalQuery, mutation, query, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { dropEmbeddingCounts, moveSlotEmbeddingCounts } from "./lib/embeddingCounts";
+import { embeddingSlotValidator, isSlotEmbeddingCurrent, slotWritesPatch, slotWritesValidator } from "./lib/embeddings";
+import { requireAuthenticatedUser, requireDepartmentOrgMembership } from "./lib/orgAuthorization";
+
+/**
+ * Facts agents store for themselves with the `remember` tool and drop with
+ * `forget` (see tools/agentMemory). A memory is private to the agent that wrote
+ * it ("agent") or readable by every agent of the department ("department").
+ */
+
+export const memoryScope = v.union(v.literal("agent"), v.literal("department"));
+
+export const MAX_MEMORY_CHARS = 1000;
+// Memories quoted in the system prompt of a run.
+const MEMORY_CONTEXT_LIMIT = 6;
+// Recent memories considered when full-text search finds too few.
+const RECENT_SCAN_SIZE = 50;
+// Convex full-text search accepts at most 16 terms.
+const MAX_SEARCH_TERMS = 16;
+const PURGE_BATCH_SIZE = 200;
+const LIST_LIMIT = 200;
+
+export type AgentMemorySummary = {
+  _id: Id<"agentMemories">;
+  scope: "agent" | "department";
+  agentSessionKey: string;
+  content: string;
+  sourceTaskId?: Id<"tasks">;
+  expiresAt?: number;
+  createdAt: number;
+};
+
+function summarize(memory: Doc<"agentMemories">): AgentMemorySummary {
+  return {
+    _id: memory._id,
+    scope: memory.scope,
+    agentSessionKey: memory.agentSessionKey,
+    content: memory.content,
+    sourceTaskId: memory.sourceTaskId,
+    expiresAt: memory.expiresAt,
+    createdAt: memory.createdAt,
+  };
+}
+
+function isMemoryVisibleTo(
+  memory: Pick<Doc<"agentMemories">, "scope" | "agentSessionKey" | "expiresAt">,
+  agentSessionKey: string,
+  now = Date.now()
+): boolean {
+  if (memory.expiresAt !== undefined && memory.expiresAt <= now) return false;
+  return memory.scope === "department" || memory.agentSessionKey === agentSessionKey;
+}
+
+/**
+ * Memories an agent should see for a task: full-text matches on `queryText`
+ * first, topped up with the most recent ones.
+ */
+export async function loadRelevantMemories(
+  ctx: QueryCtx,
+  args: {
+    departmentId: Id<"departments">;
+    agentSessionKey: string;
+    queryText: string;
+    limit?: number;
+  }
+): Promise<AgentMemorySummary[]> {
+  const limit = args.limit ?? MEMORY_CONTEXT_LIMIT;
+  const now = Date.now();
+  const searchText = args.queryText.split(/\s+/).filter(Boolean).slice(0, MAX_SEARCH_TERMS).join(" ");
+  const [matches, recent] = await Promise.all([
+    searchText
+      ? ctx.db
+        .query("agentMemories")
+        .withSearchIndex("search_content", (q) => q.search("content", searchText).eq("departmentId", args.departmentId))
+        .take(limit * 4)
+      : Promise.resolve([]),
+    ctx.db
+      .query("agentMemories")
+      .withIndex("by_department_createdAt", (q) => q.eq("departmentId", args.departmentId))
+      .order("desc")
+      .take(RECENT_SCAN_SIZE),
+  ]);
+
+  const selected = new Map<string, AgentMemorySummary>();
+  for (const memory of [...matches, ...recent]) {
+    if (selected.size >= limit) break;
+    if (!isMemoryVisibleTo(memory, args.agentSessionKey, now)) continue;
+    if (!selected.has(memory._id)) selected.set(memory._id, summarize(memory));
+  }
+  return Array.from(selected.values());
+}
+
+/**
+ * Memories stored in a department, newest first, for human review.
+ */
+export const listByDepartment = query({
+  args: { departmentId: v.id("departments") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+    const memories = await ctx.db
+      .query("agentMemories")
+      .withIndex("by_department_createdAt", (q) => q.eq("departmentId", args.departmentId))
+      .order("desc")
+      .take(LIST_LIMIT);
+    const agents = await ctx.db
+      .query("agents")
+      .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+      .collect();
+    const agentNames = new Map(agents.map((agent) => [agent.sessionKey, agent.name]));
+
+    const now = Date.now();
+    return await Promise.all(
+      memories.map(async (memory) => {
+        const task = memory.sourceTaskId ? await ctx.db.get("tasks", memory.sourceTaskId) : null;
+        return {
+          ...summarize(memory),
+          updatedAt: memory.updatedAt,
+          agentName: agentNames.get(memory.agentSessionKey) ?? memory.agentSessionKey,
+          sourceTaskTitle: task?.title,
+          expired: memory.expiresAt !== undefined && memory.expiresAt <= now,
+        };
+      })
+    );
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("agentMemories") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    const memory = await ctx.db.get("agentMemories", args.id);
+    if (!memory) return { ok: true, deleted: false };
+    await requireDepartmentOrgMembership(ctx, userId, memory.departmentId);
+    await ctx.db.delete("agentMemories", args.id);
+    await dropEmbeddingCounts(ctx, memory.departmentId, "memories", memory);
+    return { ok: true, deleted: true };
+  },
+});
+
+/**
+ * internal:agentMemories:fetchByIds
+ * Vector hits for an agent, without expired memories, other agents' private
+ * ones or vectors from another embedding model.
+ */
+export const fetchByIds = internalQuery({
+  args: {
+    ids: v.array(v.id("agentMemories")),
+    agentSessionKey: v.string(),
+    // Vector slot the ids were searched in and the model of the query vector
+    slot: v.optional(embeddingSlotValidator),
+    embeddingModel: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<AgentMemorySummary[]> => {
+    const memories = await Promise.all(args.ids.map((id) => ctx.db.get("agentMemories", id)));
+    const now = Date.now();
+    return memories
+      .filter((memory): memory is Doc<"agentMemories"> => memory !== null)
+      .filter((memory) => isMemoryVisibleTo(memory, args.agentSessionKey, now))
+      .filter((memory) => !args.embeddingModel || isSlotEmbeddingCurrent(memory, args.slot ?? "a", args.embeddingModel))
+      .map(summarize);
+  },
+});
+
+/**
+ * internal:agentMemories:searchForAgent
+ * Full-text fallback for `forget` when no embedding is available.
+ */
+export const searchForAgent = internalQuery({
+  args: {
+    departmentId: v.id("departments"),
+    agentSessionKey: v.string(),
+    query: v.string(),
+    limit: v.number(),
+  },
+  handler: async (ctx, args): Promise<AgentMemorySummary[]> => {
+    const searchText = args.query.split(/\s+/).filter(Boolean).slice(0, MAX_SEARCH_TERMS).join(" ");
+    if (!searchText) return [];
+    const matches = await ctx.db
+      .query("agentMemories")
+      .withSearchIndex("search_content", (q) => q.search("content", searchText).eq("departmentId", args.departmentId))
+      .take(args.limit * 3);
+    const now = Date.now();
+    return matches
+      .filter((memory) => isMemoryVisibleTo(memory, args.agentSessionKey, now))
+      .slice(0, args.limit)
+      .map(summarize);
+  },
+});
+
+/**
+ * internal:agentMemories:insert
+ */
+export const insert = internalMutation({
+  args: {
+    departmentId: v.id("departments"),
+    scope: memoryScope,
+    agentSessionKey: v.string(),
+    content: v.string(),
+    writes: slotWritesValidator,
+    sourceTaskId: v.optional(v.id("tasks")),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const { writes, ...fields } = args;
+    const id = await ctx.db.insert("agentMemories", {
+      ...fields,
+      ...slotWritesPatch(writes),
+      content: args.content.slice(0, MAX_MEMORY_CHARS),
+      createdAt: now,
+      updatedAt: now,
+    });
+    await moveSlotEmbeddingCounts(ctx, args.departmentId, "memories", null, writes);
+    return { id };
+  },
+});
+
+/**
+ * internal:agentMemories:refresh
+ * Re-states an existing memory instead of storing a near-duplicate.
+ */
+export const refresh = internalMutation({
+  args: {
+    id: v.id("agentMemories"),
+    content: v.string(),
+    writes: slotWritesValidator,
+    sourceTaskId: v.optional(v.id("tasks")),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const memory = await ctx.db.get("agentMemories", args.id);
+    if (!memory) return { ok: false };
+    await ctx.db.patch("agentMemories", args.id, {
+      ...slotWritesPatch(args.writes),
+      content: args.content.slice(0, MAX_MEMORY_CHARS),
+      sourceTaskId: args.sourceTaskId ?? memory.sourceTaskId,
+      expiresAt: args.expiresAt,
+      updatedAt: Date.now(),
+    });
+    await moveSlotEmbeddingCounts(ctx, memory.departmentId, "memories", memory, args.writes);
+    return { ok: true };
+  },
+});
+
+/**
+ * internal:agentMemories:saveEmbedding
+ * Used by the embedding migration; the content is left untouched.
+ */
+export const saveEmbedding = internalMutation({
+  args: {
+    id: v.id("agentMemories"),
+    writes: slotWritesValidator,
+  },
+  handler: async (ctx, args) => {
+    const memory = await ctx.db.get("agentMemories", args.id);
+    if (!memory) return { ok: false };
+    await ctx.db.patch("agentMemories", args.id, slotWritesPatch(args.writes));
+    await moveSlotEmbeddingCounts(ctx, memory.departmentId, "memories", memory, args.writes);
+    return { ok: true };
+  },
+});
+
+/**
+ * internal:agentMemories:removeForAgent
+ * Agents may only forget memories they can see.
+ */
+export const removeForAgent = internalMutation({
+  args: {
+    id: v.id("agentMemories"),
+    departmentId: v.id("departments"),
+    agentSessionKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const memory = await ctx.db.get("agentMemories", args.id);
+    if (!memory || memory.departmentId !== args.departmentId || !isMemoryVisibleTo(memory, args.agentSessionKey)) {
+      return { deleted: false };
+    }
+    await ctx.db.delete("agentMemories", args.id);
+    await dropEmbeddingCounts(ctx, memory.departmentId, "memories", memory);
+    return { deleted: true, content: memory.content };
+  },
+});
+
+/**
+ * internal:agentMemories:purgeExpired
+ * Cron entry point: deletes expired memories in batches.
+ */
+export const purgeExpired = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("agentMemories")
+      .withIndex("by_expiresAt", (q) => q.gt("expiresAt", 0).lte("expiresAt", Date.now()))
+      .take(PURGE_BATCH_SIZE);
+    for (const memory of expired) {
+      await ctx.db.delete("agentMemories", memory._id);
+      await dropEmbeddingCounts(ctx, memory.departmentId, "memories", memory);
+    }
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.agentMemories.purgeExpired, {});
+    }
+    return { deleted: expired.length };
+  },
+});
@@ -0,0 +1,200 @@
+import { internalMutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireAuthenticatedUser, requireDepartmentOrgMembership } from "./lib/orgAuthorization";
+import { bumpUsageCounters } from "./lib/usageCounters";
+
+// Traces keep enough of each payload to debug a run without bloating documents.
+const TRACE_TEXT_MAX_CHARS = 8_000;
+
+function clipTraceText(value: string | undefined): string | undefined {
+    if (value === undefined) return undefined;
+    return value.length > TRACE_TEXT_MAX_CHARS ? `${value.slice(0, TRACE_TEXT_MAX_CHARS)}...` : value;
+}
+
+const runStatusValidator = v.union(
+    v.literal("completed"),
+    v.literal("checkpointed"),
+    v.literal("failed")
+);
+
+/**
+ * internal:agentRuns:start
+ * Opens the trace row for one thinkInternal invocation.
+ */
+export const start = internalMutation({
+    args: {
+        departmentId: v.id("departments"),
+        taskId: v.id("tasks"),
+        agentSessionKey: v.string(),
+        triggerKey: v.optional(v.string()),
+        checkpointId: v.optional(v.id("brainCheckpoints")),
+    },
+    handler: async (ctx, args) => {
+        return await ctx.db.insert("agentRuns", {
+            ...args,
+            status: "running",
+            llmCalls: 0,
+            toolCalls: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            startedAt: Date.now(),
+        });
+    },
+});
+
+/**
+ * internal:agentRuns:setModel
+ * Records the provider/model once credentials are resolved.
+ */
+export const setModel = internalMutation({
+    args: {
+        runId: v.id("agentRuns"),
+        provider: v.string(),
+        model: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        await ctx.db.patch("agentRuns", args.runId, {
+            provider: args.provider,
+            model: args.model,
+        });
+    },
+});
+
+/**
+ * internal:agentRuns:recordLlmCall
+ */
+export const recordLlmCall = internalMutation({
+    args: {
+        runId: v.id("agentRuns"),
+        model: v.optional(v.string()),
+        protocol: v.union(v.literal("native"), v.literal("text")),
+        promptChars: v.number(),
+        messageCount: v.number(),
+        maxTokens: v.number(),
+        response: v.optional(v.string()),
+        requestedTools: v.optional(v.array(v.string())),
+        inputTokens: v.optional(v.number()),
+        outputTokens: v.optional(v.number()),
+        error: v.optional(v.string()),
+        latencyMs: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const run = await ctx.db.get("agentRuns", args.runId);
+        if (!run) return;
+        const sequence = (run.llmCalls ?? 0) + (run.toolCalls ?? 0);
+        await ctx.db.insert("agentRunSteps", {
+            ...args,
+            taskId: run.taskId,
+            sequence,
+            kind: "llm_call",
+            response: clipTraceText(args.response),
+            error: clipTraceText(args.error),
+            createdAt: Date.now(),
+        });
+        await ctx.db.patch("agentRuns", args.runId, {
+            llmCalls: (run.llmCalls ?? 0) + 1,
+            inputTokens: (run.inputTokens ?? 0) + (args.inputTokens ?? 0),
+            outputTokens: (run.outputTokens ?? 0) + (args.outputTokens ?? 0),
+        });
+    },
+});
+
+/**
+ * internal:agentRuns:recordToolCall
+ * `observation` is the JSON payload fed back to the model as TOOL_OBSERVATION.
+ * Also meters the call against the org's monthly `tool_calls` quota.
+ */
+export const recordToolCall = internalMutation({
+    args: {
+        runId: v.id("agentRuns"),
+        toolName: v.string(),
+        toolArgs: v.string(),
+        observation: v.string(),
+        ok: v.boolean(),
+        error: v.optional(v.string()),
+        latencyMs: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const run = await ctx.db.get("agentRuns", args.runId);
+        if (!run) return;
+        const sequence = (run.llmCalls ?? 0) + (run.toolCalls ?? 0);
+        await ctx.db.insert("agentRunSteps", {
+            ...args,
+            taskId: run.taskId,
+            sequence,
+            kind: "tool_call",
+            toolArgs: clipTraceText(args.toolArgs),
+            observation: clipTraceText(args.observation),
+            error: clipTraceText(args.error),
+            createdAt: Date.now(),
+        });
+        await ctx.db.patch("agentRuns", args.runId, {
+            toolCalls: (run.toolCalls ?? 0) + 1,
+        });
+        const department = await ctx.db.get("departments", run.departmentId);
+        if (department?.orgId) {
+            await bumpUsageCounters(ctx, department.orgId, run.departmentId, { toolCalls: 1 });
+        }
+    },
+});
+
+/**
+ * internal:agentRuns:finish
+ */
+export const finish = internalMutation({
+    args: {
+        runId: v.id("agentRuns"),
+        status: runStatusValidator,
+        error: v.optional(v.string()),
+        finalResponse: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const run = await ctx.db.get("agentRuns", args.runId);
+        if (!run) return;
+        const now = Date.now();
+        await ctx.db.patch("agentRuns", args.runId, {
+            status: args.status,
+            error: clipTraceText(args.error),
+            finalResponse: clipTraceText(args.finalResponse),
+            finishedAt: now,
+            durationMs: now - run.startedAt,
+        });
+    },
+});
+
+/**
+ * Recent runs for a task, newest first, each with its LLM and tool steps.
+ */
+export const listByTask = query({
+    args: {
+        departmentId: v.id("departments"),
+        taskId: v.id("tasks"),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const task = await ctx.db.get("tasks", args.taskId);
+        if (!task || task.departmentId !== args.departmentId) {
+            throw new Error("Task not found in this department");
+        }
+
+        const limit = Math.max(1, Math.min(args.limit ?? 10, 50));
+        const runs = await ctx.db
+            .query("agentRuns")
+            .withIndex("by_task_startedAt", (q) => q.eq("taskId", args.taskId))
+            .order("desc")
+            .take(limit);
+
+        return await Promise.all(
+            runs.map(async (run) => ({
+                ...run,
+                steps: await ctx.db
+                    .query("agentRunSteps")
+                    .withIndex("by_run_sequence", (q) => q.eq("runId", run._id))
+                    .collect(),
+            }))
+        );
+    },
+});
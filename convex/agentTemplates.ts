@@ -1,9 +1,11 @@
 import { internalMutation, mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { checkLimit } from "./plans";
+import { assertToolsAllowed, checkLimit } from "./plans";
 import { internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { agentKindValidator, type AgentKind } from "./lib/agentKinds";
+import { buildModelSettingsPatch, modelSettingsUpdateArgs } from "./lib/llmProviders";
 
 function pickMostRecent<T extends { _creationTime: number; lastSeenAt?: number }>(rows: T[]): T {
     return [...rows].sort((a, b) => {
@@ -23,6 +25,7 @@ function toSafePublicTemplate(template: any) {
         description: template.description ?? "",
         systemPrompt: template.systemPrompt,
         capabilities: template.capabilities ?? [],
+        kind: template.kind,
         visibility: template.visibility ?? "public",
         creatorId: template.creatorId,
         installCount: template.installCount ?? 0n,
@@ -34,6 +37,7 @@ function toSafePublicTemplate(template: any) {
 const PUBLIC_MARKETPLACE_SEED: Array<{
     name: string;
     role: string;
+    kind: AgentKind;
     description: string;
     systemPrompt: string;
     capabilities: string[];
@@ -41,6 +45,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Jarvis",
         role: "Squad Lead",
+        kind: "orchestrator",
         description: "Coordena o esquadrão e transforma pedidos complexos em planos delegáveis.",
         systemPrompt:
             "You are Jarvis, the orchestration lead. Break requests into clear specialist tasks, delegate decisively, and synthesize outcomes into concise executive updates.",
@@ -49,6 +54,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Fury",
         role: "Intel Research Operator",
+        kind: "researcher",
         description: "Pesquisa sinais externos com rigor e reporta evidências acionáveis com contexto.",
         systemPrompt:
             "You are Fury. Hunt for reliable external intelligence quickly, cross-check sources, and report practical findings with risk notes.",
@@ -57,6 +63,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Friday",
         role: "Developer Operations Agent",
+        kind: "specialist",
         description: "Apoia execução de engenharia com plano técnico claro e foco em entrega.",
         systemPrompt:
             "You are Friday. Support engineering execution with precise technical analysis, code-work planning, and repository-level action proposals.",
@@ -65,6 +72,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Shuri",
         role: "Systems Architect",
+        kind: "specialist",
         description: "Converte ideias vagas em arquitetura robusta com tradeoffs pragmáticos.",
         systemPrompt:
             "You are Shuri. Transform vague requests into robust technical architecture and implementation blueprints with pragmatic tradeoffs.",
@@ -73,6 +81,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Vision",
         role: "Research Specialist",
+        kind: "researcher",
         description: "Entrega pesquisa de alto sinal com síntese objetiva e recomendação prática.",
         systemPrompt:
             "You are Vision. Produce high-signal research summaries with direct citations, timeline context, and actionable recommendations.",
@@ -81,6 +90,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Loki",
         role: "Creative Strategy Agent",
+        kind: "specialist",
         description: "Cria estratégias e narrativas ousadas com clareza e coerência executiva.",
         systemPrompt:
             "You are Loki. Generate bold strategy options, messaging angles, and scenario plans while keeping outputs coherent and decision-ready.",
@@ -89,6 +99,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Quill",
         role: "Social Media Specialist",
+        kind: "specialist",
         description: "Escreve conteúdo social com gancho forte, tom de marca e ritmo de plataforma.",
         systemPrompt:
             "You are Quill. Craft clear, brand-safe social content with strong hooks and concise tone adapted to platform constraints.",
@@ -97,6 +108,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Wanda",
         role: "Design Specialist",
+        kind: "designer",
         description: "Transforma ideias abstratas em direção visual clara para produção.",
         systemPrompt:
             "You are the Designer. When you receive an image request, your ONLY goal is to call the generate_image tool. You must create a high-quality, descriptive English prompt for DALL-E 3 based on the user's request.",
@@ -105,6 +117,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Pepper",
         role: "Communications Specialist",
+        kind: "inbox-manager",
         description: "Produz comunicações profissionais com assunto objetivo e CTA claro.",
         systemPrompt:
             "You are Pepper. You now have full access to the user's Gmail inbox. " +
@@ -117,6 +130,7 @@ const PUBLIC_MARKETPLACE_SEED: Array<{
     {
         name: "Wong",
         role: "Knowledge Operations Specialist",
+        kind: "specialist",
         description: "Mantém conhecimento institucional organizado, rastreável e atualizado.",
         systemPrompt:
             "You are Wong. Maintain institutional knowledge with clean structure, traceable updates, and consistent documentation hygiene.",
@@ -147,6 +161,7 @@ ${personalityLines.join("\n")}
 const CERTIFIED_SQUAD_SEED: Array<{
     name: string;
     role: string;
+    kind: AgentKind;
     description: string;
     capabilities: string[];
     systemPrompt: string;
@@ -154,6 +169,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Jarvis",
         role: "Squad Lead",
+        kind: "orchestrator",
         description: "Coordenador do esquadrão, focado em delegar e orquestrar tarefas complexas.",
         capabilities: ["delegate_task", "search_knowledge"],
         systemPrompt: buildSoulMarkdown(
@@ -171,6 +187,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Shuri",
         role: "Product Analyst",
+        kind: "specialist",
         description: "Analista de produto cética, mestre em encontrar edge cases e falhas de UX.",
         capabilities: ["web_search"],
         systemPrompt: buildSoulMarkdown(
@@ -188,6 +205,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Fury",
         role: "Customer Researcher",
+        kind: "researcher",
         description: "Pesquisador obstinado que analisa feedbacks e dados de mercado com profundidade.",
         capabilities: ["web_search"],
         systemPrompt: buildSoulMarkdown(
@@ -205,6 +223,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Vision",
         role: "SEO Analyst",
+        kind: "researcher",
         description: "Estrategista de SEO focado em intenção de busca e tendências em tempo real.",
         capabilities: ["web_search"],
         systemPrompt: buildSoulMarkdown(
@@ -222,6 +241,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Loki",
         role: "Content Writer",
+        kind: "specialist",
         description: "Redator criativo que domina a arte da escrita persuasiva e voz de marca.",
         capabilities: [],
         systemPrompt: buildSoulMarkdown(
@@ -239,6 +259,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Quill",
         role: "Social Media",
+        kind: "specialist",
         description: "Gestor de redes sociais focado em engajamento, ganchos virais e build-in-public.",
         capabilities: ["post_to_x"],
         systemPrompt: buildSoulMarkdown(
@@ -256,6 +277,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Wanda",
         role: "Designer",
+        kind: "designer",
         description: "Designer visual que transforma conceitos em mockups e artes de alta qualidade.",
         capabilities: ["generate_image"],
         systemPrompt: buildSoulMarkdown(
@@ -273,6 +295,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Pepper",
         role: "Email Marketing",
+        kind: "inbox-manager",
         description: "Especialista em CRM e e-mail marketing para fluxos de conversão e retenção.",
         capabilities: ["send_email", "list_emails", "get_email_details", "search_emails"],
         systemPrompt: buildSoulMarkdown(
@@ -292,6 +315,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Friday",
         role: "Developer",
+        kind: "specialist",
         description: "Desenvolvedor focado em código limpo, testado e arquiteturas robustas.",
         capabilities: ["create_github_issue", "create_pull_request"],
         systemPrompt: buildSoulMarkdown(
@@ -309,6 +333,7 @@ const CERTIFIED_SQUAD_SEED: Array<{
     {
         name: "Wong",
         role: "Documentation",
+        kind: "specialist",
         description: "Mestre da documentação e organização de bases de conhecimento no Notion.",
         capabilities: ["create_notion_page"],
         systemPrompt: buildSoulMarkdown(
@@ -349,11 +374,16 @@ export const create = mutation({
         description: v.optional(v.string()),
         systemPrompt: v.optional(v.string()),
         capabilities: v.optional(v.array(v.string())),
+        kind: v.optional(agentKindValidator),
+        protocol: v.optional(v.string()),
+        forcedTools: v.optional(v.array(v.string())),
         createdByUserId: v.optional(v.id("users")),
+        ...modelSettingsUpdateArgs,
     },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) throw new Error("Unauthorized");
+        const modelSettings = buildModelSettingsPatch(args);
 
         return await ctx.db.insert("agentTemplates", {
             departmentId: args.departmentId,
@@ -363,6 +393,9 @@ export const create = mutation({
             description: args.description ?? `${args.role} specialist for ${args.name}.`,
             systemPrompt: args.systemPrompt,
             capabilities: args.capabilities,
+            kind: args.kind ?? "specialist",
+            protocol: args.protocol?.trim() || undefined,
+            forcedTools: args.forcedTools,
             isPublic: false,
             visibility: "private",
             creatorId: userId,
@@ -370,6 +403,7 @@ export const create = mutation({
             rating: 0,
             createdAt: Date.now(),
             createdByUserId: args.createdByUserId,
+            ...modelSettings,
         });
     },
 });
@@ -722,6 +756,7 @@ export const seedPublicMarketplace = mutation({
                     description: entry.description,
                     systemPrompt: entry.systemPrompt,
                     capabilities: entry.capabilities,
+                    kind: entry.kind,
                     isPublic: true,
                     visibility: "public",
                     creatorId: undefined,
@@ -735,6 +770,7 @@ export const seedPublicMarketplace = mutation({
             } else {
                 await ctx.db.patch(found._id, {
                     role: entry.role,
+                    kind: entry.kind,
                     description: entry.description,
                     systemPrompt: entry.systemPrompt,
                     capabilities: entry.capabilities,
@@ -775,6 +811,7 @@ export const seedCertifiedSquad = mutation({
                     description: entry.description,
                     systemPrompt: entry.systemPrompt,
                     capabilities: entry.capabilities,
+                    kind: entry.kind,
                     isPublic: true,
                     visibility: "public",
                     creatorId: undefined, // System-owned (schema does not allow null)
@@ -789,6 +826,7 @@ export const seedCertifiedSquad = mutation({
                 for (const match of matches) {
                     await ctx.db.patch(match._id, {
                         role: entry.role,
+                        kind: entry.kind,
                         description: entry.description,
                         systemPrompt: entry.systemPrompt,
                         capabilities: entry.capabilities,
@@ -828,6 +866,11 @@ export const update = mutation({
         description: v.optional(v.string()),
         systemPrompt: v.optional(v.string()),
         capabilities: v.optional(v.array(v.string())),
+        kind: v.optional(agentKindValidator),
+        // Empty string / empty list falls back to the kind's defaults.
+        protocol: v.optional(v.string()),
+        forcedTools: v.optional(v.array(v.string())),
+        ...modelSettingsUpdateArgs,
     },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
@@ -843,9 +886,11 @@ export const update = mutation({
             template.createdByUserId === userId;
 
         let isOrgAdmin = false;
+        let templateOrgId: Id<"organizations"> | undefined;
         if (template.departmentId) {
             const dept = await ctx.db.get(template.departmentId);
             if (dept?.orgId) {
+                templateOrgId = dept.orgId;
                 const membership = await ctx.db
                     .query("orgMemberships")
                     .withIndex("by_userId_orgId", (q) =>
@@ -860,6 +905,19 @@ export const update = mutation({
             throw new Error("Access denied: only creator or org admin can update this template.");
         }
 
+        if (args.capabilities && templateOrgId) {
+            await assertToolsAllowed(ctx, templateOrgId, args.capabilities);
+        }
+        if (args.forcedTools && templateOrgId) {
+            await assertToolsAllowed(ctx, templateOrgId, args.forcedTools);
+        }
+        const modelSettingsPatch = buildModelSettingsPatch(args, template);
+        // Model settings and kind are runtime config: keep hired agents in sync with their template.
+        const hiredAgentsPatch = {
+            ...modelSettingsPatch,
+            ...(args.kind !== undefined ? { kind: args.kind } : {}),
+        };
+
         await ctx.db.patch("agentTemplates", args.id, {
             ...(args.name !== undefined ? { name: args.name } : {}),
             ...(args.avatar !== undefined ? { avatar: args.avatar } : {}),
@@ -867,8 +925,26 @@ export const update = mutation({
             ...(args.description !== undefined ? { description: args.description } : {}),
             ...(args.systemPrompt !== undefined ? { systemPrompt: args.systemPrompt } : {}),
             ...(args.capabilities !== undefined ? { capabilities: args.capabilities } : {}),
+            ...(args.kind !== undefined ? { kind: args.kind } : {}),
+            ...(args.protocol !== undefined ? { protocol: args.protocol.trim() || undefined } : {}),
+            ...(args.forcedTools !== undefined
+                ? { forcedTools: args.forcedTools.length > 0 ? args.forcedTools : undefined }
+                : {}),
+            ...modelSettingsPatch,
         });
 
+        if (Object.keys(hiredAgentsPatch).length > 0 && template.departmentId) {
+            const hiredAgents = await ctx.db
+                .query("agents")
+                .withIndex("by_department_template", (q) =>
+                    q.eq("departmentId", template.departmentId).eq("templateId", args.id)
+                )
+                .collect();
+            for (const agent of hiredAgents) {
+                await ctx.db.patch("agents", agent._id, hiredAgentsPatch);
+            }
+        }
+
         return { ok: true };
     },
 });
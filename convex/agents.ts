@@ -1,7 +1,10 @@
 import { v } from "convex/values";
 import { internalMutation, mutation, query } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { checkLimit } from "./plans";
+import { assertToolsAllowed, checkLimit } from "./plans";
+import type { Doc } from "./_generated/dataModel";
+import { AGENT_KIND_PROFILES, agentKindValidator, resolveAgentKind, type AgentKind } from "./lib/agentKinds";
+import { buildModelSettingsPatch, modelSettingsUpdateArgs } from "./lib/llmProviders";
 
 const PEPPER_GMAIL_READ_TOOLS = [
     "list_emails",
@@ -20,12 +23,20 @@ const CAPABILITY_TOOL_MAP: Record<string, string[]> = {
     quill: ["post_to_x", "update_task_status"],
 };
 
-function withPepperGmailReadTools(agentLikeName: string, tools?: string[] | null): string[] {
+function withKindForcedTools(template: Doc<"agentTemplates">, tools?: string[] | null): string[] {
     const base = Array.isArray(tools) ? tools : [];
-    if (normalizeAgentSlug(agentLikeName) !== "pepper") {
-        return base;
-    }
-    return Array.from(new Set([...base, "send_email", ...PEPPER_GMAIL_READ_TOOLS]));
+    const forcedTools = template.forcedTools ?? AGENT_KIND_PROFILES[resolveAgentKind(template)].forcedTools;
+    return forcedTools.length > 0 ? Array.from(new Set([...base, ...forcedTools])) : base;
+}
+
+function templateModelSettings(template: Doc<"agentTemplates">) {
+    return {
+        llmProvider: template.llmProvider,
+        model: template.model,
+        temperature: template.temperature,
+        maxOutputTokens: template.maxOutputTokens,
+        maxToolIterations: template.maxToolIterations,
+    };
 }
 
 function normalizeAgentSlug(value: string): string {
@@ -121,12 +132,12 @@ export const listByDept = query({
                 : telegramIntegration?.name;
 
         return agents.map((agent) => {
-            const isSquadLead =
-                agent.name.toLowerCase() === "jarvis" ||
-                agent.role.toLowerCase().includes("squad lead");
+            const kind = resolveAgentKind(agent);
+            const isSquadLead = kind === "orchestrator";
 
             return {
                 ...agent,
+                kind,
                 hasTelegram: isSquadLead ? hasTelegram : false,
                 telegramBotName: isSquadLead ? telegramBotName : undefined,
             };
@@ -198,10 +209,8 @@ export const upsertFromTemplateForDepartment = internalMutation({
 
         const slug = normalizeAgentSlug(template.name);
         const sessionKey = buildTemplateSessionKey(template.name, department.slug ?? "main");
-        const templateAllowedTools = withPepperGmailReadTools(
-            template.name,
-            template.capabilities ?? []
-        );
+        const templateAllowedTools = withKindForcedTools(template, template.capabilities ?? []);
+        const kind = resolveAgentKind(template);
 
         const byTemplateCandidates = await ctx.db
             .query("agents")
@@ -224,6 +233,8 @@ export const upsertFromTemplateForDepartment = internalMutation({
                 description: template.description ?? `${template.role} specialist.`,
                 systemPrompt: template.systemPrompt,
                 allowedTools: templateAllowedTools,
+                kind,
+                ...templateModelSettings(template),
                 sessionKey: keeperSessionKey,
                 lastSeenAt: Date.now(),
             });
@@ -260,6 +271,8 @@ export const upsertFromTemplateForDepartment = internalMutation({
                 description: template.description ?? `${template.role} specialist.`,
                 systemPrompt: template.systemPrompt,
                 allowedTools: templateAllowedTools,
+                kind,
+                ...templateModelSettings(template),
                 sessionKey: legacySessionKey,
                 lastSeenAt: Date.now(),
             });
@@ -279,6 +292,8 @@ export const upsertFromTemplateForDepartment = internalMutation({
             lastSeenAt: Date.now(),
             systemPrompt: template.systemPrompt,
             allowedTools: templateAllowedTools,
+            kind,
+            ...templateModelSettings(template),
         });
 
         return { ok: true, agentId, created: true, dedupedLegacy: false };
@@ -567,15 +582,15 @@ export const alignSquadCapabilities = mutation({
             byName.set(agent.name.toLowerCase(), agent);
         }
 
-        const ensuredAgents = [
-            { name: "Jarvis", role: "Head of Operations", sessionKey: `agent:jarvis:${deptSlug}` },
-            { name: "Vision", role: "Research Specialist", sessionKey: "agent:vision:main" },
-            { name: "Fury", role: "Research Specialist", sessionKey: "agent:fury:main" },
-            { name: "Pepper", role: "Communications Specialist", sessionKey: "agent:pepper:main" },
-            { name: "Friday", role: "PlugandSay", sessionKey: "agent:main:main" },
-            { name: "Wanda", role: "Design Specialist", sessionKey: "agent:wanda:main" },
-            { name: "Wong", role: "Knowledge Ops Specialist", sessionKey: "agent:wong:main" },
-            { name: "Quill", role: "Social Media Specialist", sessionKey: "agent:quill:main" },
+        const ensuredAgents: Array<{ name: string; role: string; sessionKey: string; kind: AgentKind }> = [
+            { name: "Jarvis", role: "Head of Operations", sessionKey: `agent:jarvis:${deptSlug}`, kind: "orchestrator" },
+            { name: "Vision", role: "Research Specialist", sessionKey: "agent:vision:main", kind: "researcher" },
+            { name: "Fury", role: "Research Specialist", sessionKey: "agent:fury:main", kind: "researcher" },
+            { name: "Pepper", role: "Communications Specialist", sessionKey: "agent:pepper:main", kind: "inbox-manager" },
+            { name: "Friday", role: "PlugandSay", sessionKey: "agent:main:main", kind: "specialist" },
+            { name: "Wanda", role: "Design Specialist", sessionKey: "agent:wanda:main", kind: "designer" },
+            { name: "Wong", role: "Knowledge Ops Specialist", sessionKey: "agent:wong:main", kind: "specialist" },
+            { name: "Quill", role: "Social Media Specialist", sessionKey: "agent:quill:main", kind: "specialist" },
         ];
 
         let created = 0;
@@ -598,6 +613,7 @@ export const alignSquadCapabilities = mutation({
                     lastSeenAt: now,
                     allowedTools,
                     systemPrompt: undefined,
+                    kind: entry.kind,
                 });
                 created += 1;
                 continue;
@@ -607,6 +623,7 @@ export const alignSquadCapabilities = mutation({
                 slug: normalizeAgentSlug(entry.name),
                 allowedTools,
                 role: existing.role || entry.role,
+                kind: existing.kind ?? entry.kind,
                 lastSeenAt: now,
             });
             updated += 1;
@@ -628,6 +645,9 @@ export const createCustom = mutation({
         description: v.string(),
         systemPrompt: v.optional(v.string()),
         allowedTools: v.optional(v.array(v.string())),
+        kind: v.optional(agentKindValidator),
+        protocol: v.optional(v.string()),
+        ...modelSettingsUpdateArgs,
     },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
@@ -668,6 +688,8 @@ export const createCustom = mutation({
         const sessionKey = buildDeterministicSessionKeyFromSlug(slug, department.slug ?? "main");
         const now = Date.now();
         const capabilities = args.allowedTools ?? [];
+        await assertToolsAllowed(ctx, department.orgId, capabilities);
+        const modelSettings = buildModelSettingsPatch(args);
 
         const templateId = await ctx.db.insert("agentTemplates", {
             departmentId: args.departmentId,
@@ -685,6 +707,9 @@ export const createCustom = mutation({
             createdAt: now,
             createdByUserId: userId,
             orgId: department.orgId,
+            kind: args.kind ?? "specialist",
+            protocol: args.protocol?.trim() || undefined,
+            ...modelSettings,
         });
 
         const agentId = await ctx.db.insert("agents", {
@@ -700,6 +725,8 @@ export const createCustom = mutation({
             lastSeenAt: now,
             systemPrompt: args.systemPrompt,
             allowedTools: capabilities,
+            kind: args.kind ?? "specialist",
+            ...modelSettings,
         });
 
         return agentId;
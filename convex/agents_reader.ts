@@ -62,9 +62,9 @@ export const readTaskThreadOnce = mutation({
             };
         }
 
-        // 4) Relevant messages = not written by THIS reader
+        // 4) Relevant messages = not written by THIS reader (streaming drafts are not final yet)
         const relevantMessages = allMessages.filter(
-            (m) => m.fromSessionKey !== args.readerSessionKey
+            (m) => m.fromSessionKey !== args.readerSessionKey && !m.isDraft
         );
 
         if (relevantMessages.length === 0) {
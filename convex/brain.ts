@@ -3,11 +3,39 @@ import { v } from "convex/values";
 import { api, internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import type { Id } from "./_generated/dataModel";
+import {
+    ECONOMY_CHAT_MODELS,
+    normalizeLlmProvider,
+    resolveAgentModelSettings,
+    resolveLlmCredentials,
+    supportsNativeToolCalls,
+    type LlmChatMessage,
+} from "./lib/llmProviders";
+import { AGENT_KIND_PROFILES, resolveAgentKind, type AgentKind } from "./lib/agentKinds";
+import {
+    citationLabelFor,
+    citationSourceValidator,
+    formatSourcesLine,
+    selectCitations,
+    type CitationSource,
+} from "./lib/citations";
+import {
+    createStepBudgetTracker,
+    resolveStepBudget,
+    type StepBudget,
+    type StepBudgetExhaustion,
+} from "./lib/stepBudget";
+import { formatToolSignatures, hasAliasPermission, isToolPermitted } from "./lib/toolRegistry";
+import { isToolAllowedOnPlan } from "./plans";
+import type { RunAllowance, SpendingScope } from "./spendingLimits";
+import { loadRelevantMemories, type AgentMemorySummary } from "./agentMemories";
+import { loadThreadWindow } from "./threadSummaries";
+import { listExecutableToolDefinitions, runRegisteredTool } from "./tools/registry";
 
-const MAX_TOOL_ITERATIONS = 2;
 const TOOL_BLOB_GLOBAL_REGEX = /\[TOOL:\s*[a-zA-Z0-9_-]+\s+ARG:\s*\{[\s\S]*?\}\s*\]/g;
 const MEMORY_USED_MARKER_REGEX = /\[MEMORY_USED\]\s*/g;
-const INTERNAL_MARKER_LINE_REGEX = /^\[[A-Z0-9_:-]{2,}\]\s*/gm;
+// All-digit labels like [12] are citation footnotes, not markers.
+const INTERNAL_MARKER_LINE_REGEX = /^\[(?!\d+\])[A-Z0-9_:-]{2,}\]\s*/gm;
 const MARKDOWN_IMAGE_REGEX = /!\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/gi;
 const ORGANIZATION_LANGUAGE_VALIDATOR = v.union(
     v.literal("en"),
@@ -18,16 +46,16 @@ const ORGANIZATION_LANGUAGE_VALIDATOR = v.union(
 type OrganizationLanguage = "en" | "es" | "pt";
 
 type ToolCall = {
+    // Present only for structured (native) tool calls.
+    id?: string;
     name: string;
     args: Record<string, any>;
 };
-type LlmMessage = {
-    role: "assistant" | "user" | "system";
-    content: string;
-};
+type LlmMessage = LlmChatMessage;
 type SquadMember = {
     name: string;
     role: string;
+    kind: AgentKind;
     sessionKey: string;
     status: string;
 };
@@ -87,6 +115,12 @@ function localizedMemoryFallbackIntro(language: OrganizationLanguage): string {
     return "Encontrei estes trechos no Knowledge Base:";
 }
 
+function localizedSourcesLabel(language: OrganizationLanguage): string {
+    if (language === "en") return "Sources";
+    if (language === "es") return "Fuentes";
+    return "Fontes";
+}
+
 function localizedMemoryFallbackOutro(language: OrganizationLanguage): string {
     if (language === "en") {
         return "If you want, I can extract only the date and key facts in an objective format.";
@@ -97,6 +131,25 @@ function localizedMemoryFallbackOutro(language: OrganizationLanguage): string {
     return "Se quiser, eu extraio apenas a data e os dados-chave em formato objetivo.";
 }
 
+function localizedSpendingLimitNotice(language: OrganizationLanguage, scope: SpendingScope): string {
+    if (scope === "plan") {
+        if (language === "en") {
+            return "I can't run right now: this organization has reached its plan's monthly AI usage quota. An admin can upgrade the plan in Billing.";
+        }
+        if (language === "es") {
+            return "No puedo ejecutar ahora: esta organización alcanzó la cuota mensual de uso de IA de su plan. Un administrador puede mejorar el plan en Facturación.";
+        }
+        return "Não consigo executar agora: esta organização atingiu a cota mensal de uso de IA do plano. Um admin pode fazer upgrade em Billing.";
+    }
+    if (language === "en") {
+        return `I can't run right now: the monthly AI spending limit for this ${scope === "department" ? "department" : "organization"} has been reached. An admin can raise it in Billing.`;
+    }
+    if (language === "es") {
+        return `No puedo ejecutar ahora: se alcanzó el límite mensual de gasto en IA de ${scope === "department" ? "este departamento" : "esta organización"}. Un administrador puede aumentarlo en Facturación.`;
+    }
+    return `Não consigo executar agora: o limite mensal de gasto com IA ${scope === "department" ? "deste departamento" : "desta organização"} foi atingido. Um admin pode aumentá-lo em Billing.`;
+}
+
 async function getDepartmentLanguageFromDb(
     ctx: any,
     departmentId: any
@@ -107,13 +160,20 @@ async function getDepartmentLanguageFromDb(
     return normalizeOrganizationLanguage((organization as { language?: string } | null)?.language);
 }
 
-function formatLongTermMemoryContext(memories: any[]): string {
+// Memories are numbered through `citationSources` so the same source keeps its number across searches in a run.
+function formatLongTermMemoryContext(memories: any[], citationSources: CitationSource[]): string {
     const top = memories.slice(0, 5);
-    const lines = top.map((m: any, idx: number) => {
+    const lines = top.map((m: any) => {
         const date = m?.date ? new Date(m.date).toISOString().slice(0, 10) : "unknown-date";
-        return `${idx + 1}. [${m?.kind || "memory"}] ${m?.title || "Untitled"} | ${date} | score=${(m?.score ?? 0).toFixed(3)}\n${m?.snippet || ""}`;
+        const label = citationLabelFor(citationSources, m);
+        const prefix = label === null ? "-" : `[${label}]`;
+        return `${prefix} [${m?.kind || "memory"}] ${m?.title || "Untitled"} | ${date} | score=${(m?.score ?? 0).toFixed(3)}\n${m?.snippet || ""}`;
     });
-    return `=== LONG-TERM MEMORY CONTEXT ===\n${lines.join("\n\n")}\n=== END LONG-TERM MEMORY CONTEXT ===`;
+    return (
+        `=== LONG-TERM MEMORY CONTEXT ===\n${lines.join("\n\n")}\n` +
+        `When you use one of these sources, cite it inline by its number, e.g. [1].\n` +
+        `=== END LONG-TERM MEMORY CONTEXT ===`
+    );
 }
 
 function formatEmptyLongTermMemoryContext(query?: string): string {
@@ -121,9 +181,20 @@ function formatEmptyLongTermMemoryContext(query?: string): string {
     return `=== LONG-TERM MEMORY CONTEXT ===\nNo relevant memories found${suffix}.\n=== END LONG-TERM MEMORY CONTEXT ===`;
 }
 
+// Ids are shown so the agent can pass them to 'forget'.
+function formatAgentMemories(memories: AgentMemorySummary[], agentSessionKey: string): string {
+    if (memories.length === 0) return "";
+    const lines = memories.map((memory) => {
+        const owner = memory.agentSessionKey === agentSessionKey ? "yours" : "department";
+        const date = new Date(memory.createdAt).toISOString().slice(0, 10);
+        return `- (${memory._id}) ${memory.content} | ${owner} | ${date}`;
+    });
+    return `=== AGENT MEMORIES ===\n${lines.join("\n")}\n=== END AGENT MEMORIES ===`;
+}
+
 function formatSquadRoster(squad: SquadMember[]): string {
     if (!squad || squad.length === 0) return "=== SQUAD ROSTER ===\n(no agents found)\n=== END SQUAD ROSTER ===";
-    const lines = squad.map((m) => `- ${m.name} | ${m.role} | ${m.status}`);
+    const lines = squad.map((m) => `- ${m.name} | ${m.role} | ${m.kind} | ${m.status}`);
     return `=== SQUAD ROSTER ===\n${lines.join("\n")}\n=== END SQUAD ROSTER ===`;
 }
 
@@ -193,6 +264,13 @@ function isToolBlobContent(content: string): boolean {
     return normalized.startsWith("[TOOL:") || normalized.includes("[TOOL:");
 }
 
+function telegramChatIdFromTask(task: { title: string; description: string }): number | null {
+    const chatIdFromDescription = task.description.match(/Telegram Chat ID:\s*(\d+)/i);
+    const chatIdFromLegacyTitle = task.title.match(/\((\d+)\)$/);
+    const rawChatId = chatIdFromDescription?.[1] || chatIdFromLegacyTitle?.[1];
+    return rawChatId ? parseInt(rawChatId, 10) : null;
+}
+
 async function wasRecentlySentByAgent(
     ctx: any,
     taskId: any,
@@ -280,6 +358,98 @@ function formatToolCallEcho(toolCalls: ToolCall[]): string {
         .join("\n");
 }
 
+const TEXT_TOOL_PROTOCOL_INSTRUCTION =
+    "When a tool is needed, output one or more tool calls in this format: [TOOL: name ARG: {json}].";
+
+/**
+ * Rewrites structured tool turns into the legacy text protocol, used when a
+ * provider rejects native tool calling mid-run.
+ */
+function toTextProtocolMessages(messages: LlmMessage[]): Array<{ role: "assistant" | "user" | "system"; content: string }> {
+    return messages.map((message) => {
+        if (message.role === "tool") {
+            return { role: "system" as const, content: `TOOL_OBSERVATION ${message.content}` };
+        }
+        if (message.role === "assistant" && message.toolCalls && message.toolCalls.length > 0) {
+            const echo = formatToolCallEcho(message.toolCalls);
+            return { role: "assistant" as const, content: message.content ? `${message.content}\n${echo}` : echo };
+        }
+        return { role: message.role, content: message.content };
+    });
+}
+
+// Keeps checkpoint documents well under the Convex document size limit (1 MiB, up to 3 bytes per char).
+const CHECKPOINT_MESSAGE_MAX_CHARS = 20_000;
+const CHECKPOINT_TOTAL_MAX_CHARS = 300_000;
+// Older messages are cut to this once the checkpoint is over its total.
+const CHECKPOINT_OLD_MESSAGE_CHARS = 1_000;
+const DROPPED_TOOL_RESULT = JSON.stringify({ ok: true, omitted: "Older tool result dropped to fit the checkpoint." });
+const THINK_LOCK_TTL_MS = 120_000;
+// Backoff 5s, 10s, 20s, 40s, then 60s: well past a held lock's TTL.
+const CHECKPOINT_LOCK_MAX_ATTEMPTS = 8;
+
+class ThinkLockLostError extends Error {}
+
+function clipCheckpointContent(content: string, maxChars: number): string {
+    return content.length > maxChars ? `${content.slice(0, maxChars)}...` : content;
+}
+
+function checkpointMessageChars(message: LlmMessage): number {
+    const toolCalls = message.role === "assistant" && message.toolCalls ? JSON.stringify(message.toolCalls).length : 0;
+    return message.content.length + toolCalls;
+}
+
+function isToolResultMessage(message: LlmMessage): boolean {
+    return message.role === "tool" || (message.role === "system" && message.content.startsWith("TOOL_OBSERVATION "));
+}
+
+/**
+ * Caps each message, then the checkpoint as a whole: the oldest tool results are replaced
+ * first, then the oldest messages are shortened. Tool messages stay in place so native
+ * tool calls keep their results.
+ */
+function compactCheckpoint(
+    messages: LlmMessage[],
+    pendingTurn: { content: string; toolCalls: ToolCall[] }
+): { messages: LlmMessage[]; pendingTurn: { content: string; toolCalls: ToolCall[] } } {
+    const compactTurn = { ...pendingTurn, content: clipCheckpointContent(pendingTurn.content, CHECKPOINT_MESSAGE_MAX_CHARS) };
+    const compacted = messages.map((message) => ({
+        ...message,
+        content: clipCheckpointContent(message.content, CHECKPOINT_MESSAGE_MAX_CHARS),
+    }));
+    let total =
+        compactTurn.content.length +
+        JSON.stringify(compactTurn.toolCalls).length +
+        compacted.reduce((sum, message) => sum + checkpointMessageChars(message), 0);
+
+    for (let index = 0; index < compacted.length && total > CHECKPOINT_TOTAL_MAX_CHARS; index++) {
+        const message = compacted[index];
+        if (!isToolResultMessage(message)) continue;
+        const content = message.role === "tool" ? DROPPED_TOOL_RESULT : `TOOL_OBSERVATION ${DROPPED_TOOL_RESULT}`;
+        if (content.length >= message.content.length) continue;
+        total -= message.content.length - content.length;
+        compacted[index] = { ...message, content };
+    }
+    for (let index = 0; index < compacted.length && total > CHECKPOINT_TOTAL_MAX_CHARS; index++) {
+        const message = compacted[index];
+        const content = clipCheckpointContent(message.content, CHECKPOINT_OLD_MESSAGE_CHARS);
+        total -= message.content.length - content.length;
+        compacted[index] = { ...message, content };
+    }
+    return { messages: compacted, pendingTurn: compactTurn };
+}
+
+function describeStepBudgetExhaustion(reason: StepBudgetExhaustion, budget: StepBudget): string {
+    switch (reason) {
+        case "wall_clock":
+            return `the run time limit was reached (max ${Math.round(budget.maxRunMs / 1000)}s)`;
+        case "tokens":
+            return `the token budget was reached (max ${budget.maxRunTokens} tokens)`;
+        default:
+            return `the tool execution limit was reached (max ${budget.maxToolIterations} iterations)`;
+    }
+}
+
 function sanitizePublicAssistantContent(content: string): string {
     return content
         .replace(TOOL_BLOB_GLOBAL_REGEX, "")
@@ -386,21 +556,8 @@ async function executeTool(
     toolCall: ToolCall,
     allowedTools?: string[]
 ): Promise<any> {
-    const permissionAliases: Record<string, string[]> = {
-        gmail_send_email: ["send_email"],
-        send_email: ["gmail_send_email"],
-        list_emails: ["gmail_list_inbox"],
-        gmail_list_inbox: ["list_emails", "search_emails"],
-        get_email_details: ["gmail_get_message"],
-        gmail_get_message: ["get_email_details"],
-        search_emails: ["gmail_list_inbox", "list_emails"],
-        search_upwork_jobs: ["upwork_search_jobs"],
-        upwork_search_jobs: ["search_upwork_jobs"],
-    };
-    const aliasMatches =
-        permissionAliases[toolCall.name]?.some((alias) => allowedTools?.includes(alias)) ?? false;
-    const isToolAllowed =
-        !allowedTools || allowedTools.includes(toolCall.name) || aliasMatches;
+    const aliasMatches = hasAliasPermission(toolCall.name, allowedTools);
+    const isToolAllowed = isToolPermitted(toolCall.name, allowedTools);
 
     console.log("[brain.executeTool] attempting", {
         toolName: toolCall.name,
@@ -422,420 +579,12 @@ async function executeTool(
         throw new Error(`Permission Denied: Agent is not allowed to use tool '${toolCall.name}'.`);
     }
 
-    if (toolCall.name === "web_search") {
-        const query = typeof toolCall.args.query === "string" ? toolCall.args.query : "";
-        if (!query) throw new Error("Tool 'web_search' requires a non-empty 'query' string.");
-        return await ctx.runAction(internal.tools.search.webSearch, {
-            departmentId,
-            query,
-        });
-    }
-
-    if (toolCall.name === "send_email") {
-        const to = typeof toolCall.args.to === "string" ? toolCall.args.to : "";
-        const subject = typeof toolCall.args.subject === "string" ? toolCall.args.subject : "";
-        const body = typeof toolCall.args.body === "string" ? toolCall.args.body : "";
-
-        if (!to || !subject || !body) {
-            throw new Error("Tool 'send_email' requires 'to', 'subject', and 'body' strings.");
-        }
-
-        return await ctx.runAction(internal.tools.email.sendEmail, {
-            departmentId,
-            to,
-            subject,
-            body,
-        });
-    }
-
-    if (toolCall.name === "list_emails") {
-        const limit =
-            typeof toolCall.args.limit === "number" && Number.isFinite(toolCall.args.limit)
-                ? toolCall.args.limit
-                : typeof toolCall.args.maxResults === "number" && Number.isFinite(toolCall.args.maxResults)
-                    ? toolCall.args.maxResults
-                    : undefined;
-
-        return await ctx.runAction((internal as any).tools.gmail.list_emails, {
-            departmentId,
-            limit,
-        });
-    }
-
-    if (toolCall.name === "get_email_details") {
-        const emailId =
-            typeof toolCall.args.emailId === "string"
-                ? toolCall.args.emailId
-                : typeof toolCall.args.messageId === "string"
-                    ? toolCall.args.messageId
-                    : "";
-        if (!emailId.trim()) {
-            throw new Error("Tool 'get_email_details' requires a non-empty 'emailId'.");
-        }
-
-        return await ctx.runAction((internal as any).tools.gmail.get_email_details, {
-            departmentId,
-            emailId,
-        });
-    }
-
-    if (toolCall.name === "search_emails") {
-        const query =
-            typeof toolCall.args.query === "string"
-                ? toolCall.args.query
-                : typeof toolCall.args.q === "string"
-                    ? toolCall.args.q
-                    : "";
-        const limit =
-            typeof toolCall.args.limit === "number" && Number.isFinite(toolCall.args.limit)
-                ? toolCall.args.limit
-                : typeof toolCall.args.maxResults === "number" && Number.isFinite(toolCall.args.maxResults)
-                    ? toolCall.args.maxResults
-                    : undefined;
-        if (!query.trim()) {
-            throw new Error("Tool 'search_emails' requires a non-empty 'query'.");
-        }
-
-        return await ctx.runAction((internal as any).tools.gmail.search_emails, {
-            departmentId,
-            query,
-            limit,
-        });
-    }
-
-    if (toolCall.name === "search_upwork_jobs") {
-        const query =
-            typeof toolCall.args.query === "string"
-                ? toolCall.args.query
-                : typeof toolCall.args.q === "string"
-                    ? toolCall.args.q
-                    : "";
-        const limit =
-            typeof toolCall.args.limit === "number" && Number.isFinite(toolCall.args.limit)
-                ? toolCall.args.limit
-                : typeof toolCall.args.maxResults === "number" && Number.isFinite(toolCall.args.maxResults)
-                    ? toolCall.args.maxResults
-                    : undefined;
-        if (!query.trim()) {
-            throw new Error("Tool 'search_upwork_jobs' requires a non-empty 'query'.");
-        }
-
-        return await ctx.runAction((internal as any).tools.upwork.searchJobs, {
-            departmentId,
-            query,
-            limit,
-        });
-    }
-
-    if (toolCall.name === "gmail_list_inbox") {
-        const q = typeof toolCall.args.q === "string" ? toolCall.args.q : undefined;
-        const pageToken = typeof toolCall.args.pageToken === "string" ? toolCall.args.pageToken : undefined;
-        const maxResults =
-            typeof toolCall.args.maxResults === "number" && Number.isFinite(toolCall.args.maxResults)
-                ? toolCall.args.maxResults
-                : undefined;
-
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailListInbox, {
-            departmentId,
-            q,
-            maxResults,
-            pageToken,
-        });
-    }
-
-    if (toolCall.name === "gmail_get_message") {
-        const messageId = typeof toolCall.args.messageId === "string" ? toolCall.args.messageId : "";
-        const format =
-            toolCall.args.format === "minimal" ||
-                toolCall.args.format === "full" ||
-                toolCall.args.format === "metadata" ||
-                toolCall.args.format === "raw"
-                ? toolCall.args.format
-                : undefined;
-        if (!messageId.trim()) {
-            throw new Error("Tool 'gmail_get_message' requires a non-empty 'messageId'.");
-        }
-
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailGetMessage, {
-            departmentId,
-            messageId,
-            format,
-        });
-    }
-
-    if (toolCall.name === "gmail_list_labels") {
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailListLabels, {
-            departmentId,
-        });
-    }
-
-    if (toolCall.name === "gmail_get_capabilities") {
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailGetCapabilities, {
-            departmentId,
-        });
-    }
-
-    if (toolCall.name === "gmail_send_email") {
-        const to = typeof toolCall.args.to === "string" ? toolCall.args.to : "";
-        const subject = typeof toolCall.args.subject === "string" ? toolCall.args.subject : "";
-        const body = typeof toolCall.args.body === "string" ? toolCall.args.body : undefined;
-        const text = typeof toolCall.args.text === "string" ? toolCall.args.text : body;
-        const html = typeof toolCall.args.html === "string" ? toolCall.args.html : undefined;
-        const cc = typeof toolCall.args.cc === "string" ? toolCall.args.cc : undefined;
-        const bcc = typeof toolCall.args.bcc === "string" ? toolCall.args.bcc : undefined;
-        const replyTo = typeof toolCall.args.replyTo === "string" ? toolCall.args.replyTo : undefined;
-        const threadId = typeof toolCall.args.threadId === "string" ? toolCall.args.threadId : undefined;
-
-        if (!to.trim() || !subject.trim() || (!text?.trim() && !html?.trim())) {
-            throw new Error("Tool 'gmail_send_email' requires 'to', 'subject', and at least one of 'text' or 'html'.");
-        }
-
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailSendEmail, {
-            departmentId,
-            to,
-            subject,
-            text,
-            html,
-            cc,
-            bcc,
-            replyTo,
-            threadId,
-        });
-    }
-
-    if (toolCall.name === "gmail_mark_read") {
-        const messageId = typeof toolCall.args.messageId === "string" ? toolCall.args.messageId : "";
-        if (!messageId.trim()) {
-            throw new Error("Tool 'gmail_mark_read' requires a non-empty 'messageId'.");
-        }
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailMarkRead, {
-            departmentId,
-            messageId,
-        });
-    }
-
-    if (toolCall.name === "gmail_mark_unread") {
-        const messageId = typeof toolCall.args.messageId === "string" ? toolCall.args.messageId : "";
-        if (!messageId.trim()) {
-            throw new Error("Tool 'gmail_mark_unread' requires a non-empty 'messageId'.");
-        }
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailMarkUnread, {
-            departmentId,
-            messageId,
-        });
-    }
-
-    if (toolCall.name === "gmail_archive_message") {
-        const messageId = typeof toolCall.args.messageId === "string" ? toolCall.args.messageId : "";
-        if (!messageId.trim()) {
-            throw new Error("Tool 'gmail_archive_message' requires a non-empty 'messageId'.");
-        }
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailArchiveMessage, {
-            departmentId,
-            messageId,
-        });
-    }
-
-    if (toolCall.name === "gmail_unarchive_message") {
-        const messageId = typeof toolCall.args.messageId === "string" ? toolCall.args.messageId : "";
-        if (!messageId.trim()) {
-            throw new Error("Tool 'gmail_unarchive_message' requires a non-empty 'messageId'.");
-        }
-        return await ctx.runAction((internal as any).tools.gmailTools.gmailUnarchiveMessage, {
-            departmentId,
-            messageId,
-        });
-    }
-
-    if (toolCall.name === "search_knowledge") {
-        const query = typeof toolCall.args.query === "string" ? toolCall.args.query : "";
-        const limit =
-            typeof toolCall.args.limit === "number" && Number.isFinite(toolCall.args.limit)
-                ? toolCall.args.limit
-                : 5;
-        if (!query) throw new Error("Tool 'search_knowledge' requires a non-empty 'query' string.");
-        return await ctx.runAction(internal.tools.knowledge.searchKnowledge, {
-            departmentId,
-            query,
-            limit,
-        });
-    }
-
-    if (toolCall.name === "delegate_task") {
-        const title = typeof toolCall.args.title === "string" ? toolCall.args.title : "";
-        const description = typeof toolCall.args.description === "string" ? toolCall.args.description : "";
-        const instruction = typeof toolCall.args.instruction === "string" ? toolCall.args.instruction : "";
-        const assigneesFromArray = Array.isArray(toolCall.args.assignees)
-            ? toolCall.args.assignees.filter((x: any) => typeof x === "string")
-            : [];
-        const assigneesFromSingle =
-            typeof toolCall.args.assignee === "string"
-                ? [toolCall.args.assignee]
-                : typeof toolCall.args.assigneeName === "string"
-                    ? [toolCall.args.assigneeName]
-                    : [];
-        const assignees = [...assigneesFromArray, ...assigneesFromSingle];
-        const priority =
-            toolCall.args.priority === "low" ||
-                toolCall.args.priority === "medium" ||
-                toolCall.args.priority === "high"
-                ? toolCall.args.priority
-                : undefined;
-        const tags = Array.isArray(toolCall.args.tags)
-            ? toolCall.args.tags.filter((x: any) => typeof x === "string")
-            : undefined;
-
-        return await ctx.runAction(internal.tools.delegation.delegateTask, {
-            departmentId,
-            parentTaskId: taskId,
-            delegatorSessionKey,
-            title,
-            description,
-            assignees,
-            instruction,
-            priority,
-            tags,
-        });
-    }
-
-    if (toolCall.name === "update_task_status") {
-        const requestedStatus = toolCall.args.status === "review" || toolCall.args.status === "done"
-            ? toolCall.args.status
-            : null;
-        const summary = typeof toolCall.args.summary === "string" ? toolCall.args.summary : undefined;
-        if (!requestedStatus) {
-            throw new Error("Tool 'update_task_status' requires status to be 'review' or 'done'.");
-        }
-        return await ctx.runAction((internal as any).tools.delegation.updateTaskStatus, {
-            departmentId,
-            taskId,
-            bySessionKey: delegatorSessionKey,
-            status: requestedStatus,
-            summary,
-        });
-    }
-
-    if (toolCall.name === "generate_image") {
-        let prompt = typeof toolCall.args.prompt === "string" ? toolCall.args.prompt : "";
-        const size =
-            toolCall.args.size === "1024x1024" ||
-                toolCall.args.size === "1024x1792" ||
-                toolCall.args.size === "1792x1024"
-                ? toolCall.args.size
-                : undefined;
-        const quality =
-            toolCall.args.quality === "standard" || toolCall.args.quality === "hd"
-                ? toolCall.args.quality
-                : undefined;
-        const style =
-            toolCall.args.style === "vivid" || toolCall.args.style === "natural"
-                ? toolCall.args.style
-                : undefined;
-
-        if (!prompt.trim()) {
-            const taskPromptFallback = await ctx.runQuery(internal.brain.getTaskPromptFallback, {
-                departmentId,
-                taskId,
-            });
-            prompt = taskPromptFallback?.prompt ?? "";
-        }
-
-        if (!prompt.trim()) {
-            throw new Error("Tool 'generate_image' requires a non-empty 'prompt' string (and task context fallback was empty).");
-        }
-
-        return await ctx.runAction(internal.tools.image.generateImage, {
-            departmentId,
-            taskId,
-            createdBySessionKey: delegatorSessionKey,
-            prompt,
-            size,
-            quality,
-            style,
-        });
-    }
-
-    if (toolCall.name === "create_github_issue") {
-        const owner = typeof toolCall.args.owner === "string" ? toolCall.args.owner : undefined;
-        const repo = typeof toolCall.args.repo === "string" ? toolCall.args.repo : undefined;
-        const title = typeof toolCall.args.title === "string" ? toolCall.args.title : "";
-        const body = typeof toolCall.args.body === "string" ? toolCall.args.body : undefined;
-        const labels = Array.isArray(toolCall.args.labels)
-            ? toolCall.args.labels.filter((x: any) => typeof x === "string")
-            : undefined;
-
-        if (!title.trim()) {
-            throw new Error("Tool 'create_github_issue' requires a non-empty 'title'.");
-        }
-
-        return await ctx.runAction(internal.tools.github.createGithubIssue, {
-            departmentId,
-            owner,
-            repo,
-            title,
-            body,
-            labels,
-        });
-    }
-
-    if (toolCall.name === "create_pull_request") {
-        const owner = typeof toolCall.args.owner === "string" ? toolCall.args.owner : undefined;
-        const repo = typeof toolCall.args.repo === "string" ? toolCall.args.repo : undefined;
-        const title = typeof toolCall.args.title === "string" ? toolCall.args.title : "";
-        const head = typeof toolCall.args.head === "string" ? toolCall.args.head : "";
-        const base = typeof toolCall.args.base === "string" ? toolCall.args.base : "";
-        const body = typeof toolCall.args.body === "string" ? toolCall.args.body : undefined;
-        const draft = typeof toolCall.args.draft === "boolean" ? toolCall.args.draft : undefined;
-
-        if (!title.trim() || !head.trim() || !base.trim()) {
-            throw new Error("Tool 'create_pull_request' requires non-empty 'title', 'head', and 'base'.");
-        }
-
-        return await ctx.runAction(internal.tools.github.createPullRequest, {
-            departmentId,
-            owner,
-            repo,
-            title,
-            head,
-            base,
-            body,
-            draft,
-        });
-    }
-
-    if (toolCall.name === "create_notion_page") {
-        const parentPageId = typeof toolCall.args.parentPageId === "string" ? toolCall.args.parentPageId : undefined;
-        const title = typeof toolCall.args.title === "string" ? toolCall.args.title : "";
-        const content = typeof toolCall.args.content === "string" ? toolCall.args.content : undefined;
-
-        if (!title.trim()) {
-            throw new Error("Tool 'create_notion_page' requires non-empty 'title'.");
-        }
-
-        return await ctx.runAction(internal.tools.notion.createNotionPage, {
-            departmentId,
-            parentPageId,
-            title,
-            content,
-        });
-    }
-
-    if (toolCall.name === "post_to_x") {
-        const text = typeof toolCall.args.text === "string" ? toolCall.args.text : "";
-        const replyToId = typeof toolCall.args.replyToId === "string" ? toolCall.args.replyToId : undefined;
-
-        if (!text.trim()) {
-            throw new Error("Tool 'post_to_x' requires a non-empty 'text'.");
-        }
-
-        return await ctx.runAction(internal.tools.social.postToX, {
-            departmentId,
-            text,
-            replyToId,
-        });
-    }
-
-    throw new Error(`Unknown tool '${toolCall.name}'.`);
+    // 2. Validate args against the registry schema and dispatch
+    return await runRegisteredTool(
+        { ctx, departmentId, taskId, agentSessionKey: delegatorSessionKey },
+        toolCall.name,
+        toolCall.args
+    );
 }
 
 /**
@@ -983,6 +732,10 @@ export const thinkInternal = internalAction({
         agentSessionKey: v.string(),
         triggerKey: v.optional(v.string()),
         language: v.optional(ORGANIZATION_LANGUAGE_VALIDATOR),
+        // Set when resuming a run that ran out of step budget.
+        checkpointId: v.optional(v.id("brainCheckpoints")),
+        // Times a resume found the task locked by another run.
+        lockAttempt: v.optional(v.number()),
     },
     handler: async (ctx, args) => {
         const lockKey = args.triggerKey || `think:${String(args.taskId)}:${args.agentSessionKey}`;
@@ -990,144 +743,276 @@ export const thinkInternal = internalAction({
             taskId: args.taskId,
             agentSessionKey: args.agentSessionKey,
             lockKey,
-            ttlMs: 20_000,
+            // Refreshed between steps; released in finally.
+            ttlMs: THINK_LOCK_TTL_MS,
         });
         if (!lock?.acquired) {
+            // A resume must not be dropped: another trigger got the lock first, so wait for it.
+            if (args.checkpointId && lock?.reason !== "task_not_found") {
+                const lockAttempt = (args.lockAttempt ?? 0) + 1;
+                if (lockAttempt <= CHECKPOINT_LOCK_MAX_ATTEMPTS) {
+                    await ctx.scheduler.runAfter(
+                        Math.min(5_000 * 2 ** (lockAttempt - 1), 60_000),
+                        internal.brain.thinkInternal,
+                        { ...args, lockAttempt }
+                    );
+                } else {
+                    await ctx.runMutation(internal.brain.abandonCheckpoint, {
+                        checkpointId: args.checkpointId,
+                        reason: lock?.reason ?? "locked",
+                    });
+                }
+            }
             return;
         }
+        let continuationCheckpointId: Id<"brainCheckpoints"> | null = null;
+        const runId = await ctx.runMutation(internal.agentRuns.start, {
+            departmentId: args.departmentId,
+            taskId: args.taskId,
+            agentSessionKey: args.agentSessionKey,
+            triggerKey: args.triggerKey,
+            checkpointId: args.checkpointId,
+        });
+        let runStatus: "completed" | "checkpointed" | "failed" = "completed";
+        let runError: string | undefined;
+        let runFinalResponse: string | undefined;
+        // Streamed reply shown in the thread until messages:finalize saves it; discarded otherwise.
+        let draftMessageId: Id<"messages"> | undefined;
         try {
-            // 1. Fetch integration key for this specific department (BYOK)
-            const integration = await ctx.runQuery(internal.integrations.getByTypeForDepartment, {
-                departmentId: args.departmentId,
-                type: "openai",
-            });
-            const apiKey = integration?.config?.key || integration?.config?.token;
-            console.log(
-                `Thinking for Department: ${String(args.departmentId)} - Key Found: ${apiKey ? "Yes" : "No"}`
-            );
-
             const context = await ctx.runQuery(internal.brain.getAssembledContext, {
                 taskId: args.taskId,
                 agentSessionKey: args.agentSessionKey,
             });
 
             if (!context) return;
+
+            const checkpoint = args.checkpointId
+                ? await ctx.runMutation(internal.brain.claimCheckpoint, {
+                    checkpointId: args.checkpointId,
+                    taskId: args.taskId,
+                    agentSessionKey: args.agentSessionKey,
+                })
+                : null;
+            if (args.checkpointId && !checkpoint) {
+                runError = "Checkpoint already resumed or not found.";
+                return;
+            }
+
             const targetLanguage = normalizeOrganizationLanguage(
                 args.language ?? context.organizationLanguage
             );
             const targetLanguageLabel = organizationLanguageLabel(targetLanguage);
 
+            // Plan quotas and org/department spending caps, metered from the usage ledger.
+            const allowance = await ctx.runQuery(internal.spendingLimits.evaluateRun, {
+                departmentId: args.departmentId,
+            });
+            const blockRun = async (blocked: Extract<RunAllowance, { decision: "block" }>) => {
+                runStatus = "failed";
+                runError = blocked.reason;
+                const notice = localizedSpendingLimitNotice(targetLanguage, blocked.scope);
+                // One notice per thread per hour is enough; repeated triggers stay silent.
+                if (await wasRecentlySentByAgent(ctx, args.taskId, args.agentSessionKey, notice, 60 * 60_000)) return;
+                await ctx.runMutation(api.messages.create, {
+                    departmentId: args.departmentId,
+                    taskId: args.taskId,
+                    fromSessionKey: args.agentSessionKey,
+                    content: notice,
+                });
+                const chatId = telegramChatIdFromTask(context.task);
+                if (chatId !== null) {
+                    await ctx.runAction(api.telegram.sendMessage, {
+                        departmentId: args.departmentId,
+                        chatId,
+                        text: notice,
+                        language: targetLanguage,
+                    });
+                }
+            };
+            if (allowance.decision === "block") {
+                await blockRun(allowance);
+                return;
+            }
+
+            if (context.threadSummaryDue) {
+                await ctx.scheduler.runAfter(0, internal.threadSummaries.summarize, { taskId: args.taskId });
+            }
+
+            // 1. Resolve LLM provider + key for this specific department (BYOK)
+            const llm = await resolveLlmCredentials(
+                ctx,
+                args.departmentId,
+                normalizeLlmProvider(context.agent.llmProvider ?? context.template?.llmProvider)
+            );
+            const configuredModelSettings = resolveAgentModelSettings(llm.provider, context.agent, context.template);
+            const modelSettings =
+                allowance.decision === "downgrade"
+                    ? { ...configuredModelSettings, model: ECONOMY_CHAT_MODELS[llm.provider] }
+                    : configuredModelSettings;
+            if (allowance.decision === "downgrade") {
+                console.log(
+                    `[brain.think] ${allowance.scope} spending limit reached; downgrading to ${modelSettings.model}`
+                );
+            }
+            const stepBudget = resolveStepBudget(context.task.stepBudget, context.agent, context.template);
+            const budget = createStepBudgetTracker(stepBudget);
+            await ctx.runMutation(internal.agentRuns.setModel, {
+                runId,
+                provider: llm.provider,
+                model: modelSettings.model,
+            });
+            const llmOptions = {
+                apiKey: llm.apiKey,
+                provider: llm.provider,
+                model: modelSettings.model,
+                temperature: modelSettings.temperature,
+                usageContext: {
+                    departmentId: args.departmentId,
+                    taskId: args.taskId,
+                    agentSessionKey: args.agentSessionKey,
+                    source: "brain",
+                },
+            };
+            // Structured tool calling when the model supports it; [TOOL: ...] text protocol otherwise.
+            const nativeToolCalling = supportsNativeToolCalls(llm.provider, modelSettings.model);
+            const toolCallHint = (name: string, exampleArgs: string) =>
+                nativeToolCalling ? `the ${name} tool with ${exampleArgs}` : `[TOOL: ${name} ARG: ${exampleArgs}]`;
+            console.log(
+                `Thinking for Department: ${String(args.departmentId)} - Provider: ${llm.provider} (${llm.source})`
+            );
+
             if (context.task.status === "inbox") {
-                await ctx.runMutation(api.tasks.setStatus, {
+                await ctx.runMutation(internal.tasks.setStatusInternal, {
                     departmentId: args.departmentId,
                     taskId: args.taskId,
                     status: "assigned",
-                    bySessionKey: args.agentSessionKey,
+                    // Bookkeeping move, not the agent's decision: the workflow's agent rules do not apply.
+                    bySessionKey: "system:brain",
                     reason: "brain_auto_start",
                 });
             }
 
-        // Determine System Prompt (Soul)
-        // Priority: Agent Custom Prompt -> Template Prompt -> Default
-        const customPrompt = context.agent.systemPrompt;
-        const templatePrompt = context.template?.systemPrompt;
-        const baseSystemPrompt = customPrompt || templatePrompt || "Be helpful and efficient.";
-
-        const isSquadLead =
-            context.agent.name?.toLowerCase() === "jarvis" ||
-            context.agent.sessionKey?.toLowerCase().includes("jarvis");
-        const squadRoster = isSquadLead ? formatSquadRoster(context.squad || []) : "";
-        if (isSquadLead) {
-            console.log(`[SQUAD ROSTER COUNT]: ${(context.squad ?? []).length}`);
-        }
-        const subtaskProgress = isSquadLead ? formatSubtaskProgress(context.subtasks || []) : "";
-        const provenanceData = isSquadLead ? formatProvenanceData(context.subtasks || []) : "";
-        const delegateToolContract =
-            `Tool contract for delegate_task: when calling it, you MUST include a concise 'title', ` +
-            `a detailed 'description' that gives specialist context, an 'instruction', and an 'assignees' array.`;
-        const specialistCompletionContract =
-            `You are a TECHNICAL AGENT. You are forbidden from saying you finished a task in plain text. ` +
-            `You MUST use your tools. If you don't use the tool, the task is NOT considered finished. ` +
-            `When you finish your assigned task, you MUST call [TOOL: update_task_status ARG: {"status":"review","summary":"..."}].`;
-        const wandaProtocol =
-            `WANDA PROTOCOL: you are the squad's Designer. ` +
-            `On image requests, you MUST call [TOOL: generate_image ARG: {"prompt":"..."}] first, ` +
-            `using a high-quality artistic English prompt. Then call update_task_status with status "review".`;
-        const visionProtocol =
-            `VISION PROTOCOL: deliver your result and then call update_task_status with status "review".`;
-        const isPepper =
-            context.agent.name?.toLowerCase() === "pepper" ||
-            context.agent.sessionKey?.toLowerCase().includes(":pepper:");
-        const pepperGmailReadTools = ["list_emails", "get_email_details", "search_emails", "send_email"];
-        const pepperProtocol =
-            `PEPPER GMAIL PROTOCOL: You now have full access to the user's Gmail. ` +
-            `If asked for the last email, call [TOOL: list_emails ARG: {"limit": 10}] first to find the message id, ` +
-            `then call [TOOL: get_email_details ARG: {"emailId":"..."}] to read and summarize it. ` +
-            `For filtered lookup, use [TOOL: search_emails ARG: {"query":"...","limit":10}]. ` +
-            `Do not say you cannot access the inbox while these tools are available.`;
-        const baseAllowedTools = context.agent.allowedTools ?? [];
-        const baseAllowedToolsWithPepper = isPepper
-            ? Array.from(new Set([...baseAllowedTools, ...pepperGmailReadTools]))
-            : baseAllowedTools;
-        const effectiveAllowedTools = isSquadLead
-            ? baseAllowedToolsWithPepper
-            : Array.from(new Set([...(baseAllowedToolsWithPepper ?? []), "update_task_status"]));
-        console.log("[brain.think] tool policy", {
-            agentSessionKey: args.agentSessionKey,
-            agentName: context.agent.name,
-            departmentId: String(args.departmentId),
-            taskId: String(args.taskId),
-            isSquadLead,
-            effectiveAllowedTools: effectiveAllowedTools ?? null,
-        });
+            // Determine System Prompt (Soul)
+            // Priority: Agent Custom Prompt -> Template Prompt -> Default
+            const customPrompt = context.agent.systemPrompt;
+            const templatePrompt = context.template?.systemPrompt;
+            const baseSystemPrompt = customPrompt || templatePrompt || "Be helpful and efficient.";
+
+            const agentKind = resolveAgentKind(context.agent, context.template);
+            const kindProfile = AGENT_KIND_PROFILES[agentKind];
+            const isSquadLead = agentKind === "orchestrator";
+            const squadRoster = isSquadLead ? formatSquadRoster(context.squad || []) : "";
+            if (isSquadLead) {
+                console.log(`[SQUAD ROSTER COUNT]: ${(context.squad ?? []).length}`);
+            }
+            const subtaskProgress = isSquadLead ? formatSubtaskProgress(context.subtasks || []) : "";
+            const provenanceData = isSquadLead ? formatProvenanceData(context.subtasks || []) : "";
+            const delegateToolContract =
+                `Tool contract for delegate_task: when calling it, you MUST include a concise 'title', ` +
+                `a detailed 'description' that gives specialist context, an 'instruction', and an 'assignees' array. ` +
+                `When a subtask needs the output of another one (e.g. writing after research), delegate the prerequisite first ` +
+                `and pass its title in 'dependsOn': the dependent subtask stays blocked and its specialist wakes when the prerequisite is done.`;
+            const specialistCompletionContract =
+                `You are a TECHNICAL AGENT. You are forbidden from saying you finished a task in plain text. ` +
+                `You MUST use your tools. If you don't use the tool, the task is NOT considered finished. ` +
+                `When you finish your assigned task, you MUST call ${toolCallHint("update_task_status", `{"status":"review","summary":"..."}`)}.`;
+            // A template can replace its kind's protocol text and forced tools.
+            const kindProtocol = context.template?.protocol?.trim() || kindProfile.protocol?.(toolCallHint) || "";
+            const forcedTools = context.template?.forcedTools ?? kindProfile.forcedTools;
+            const requiredTool = kindProfile.requiredTool;
+            const baseAllowedTools = Array.from(new Set([...(context.agent.allowedTools ?? []), ...forcedTools]));
+            const effectiveAllowedTools = (isSquadLead
+                ? baseAllowedTools
+                : Array.from(new Set([...baseAllowedTools, "update_task_status"])))
+                .filter((toolName) => isToolAllowedOnPlan(context.organizationPlan, toolName));
+            const mentionSquadByKind = (kind: AgentKind, fallback: string) => {
+                const names = (context.squad ?? [])
+                    .filter((member) => member.kind === kind)
+                    .map((member) => `@${member.name}`);
+                return names.length > 0 ? names.join(" or ") : fallback;
+            };
+            const researcherMention = mentionSquadByKind("researcher", "a research specialist from your roster");
+            const inboxManagerMention = mentionSquadByKind("inbox-manager", "the email specialist from your roster");
+            const agentMemories = formatAgentMemories(context.memories ?? [], args.agentSessionKey);
+            const nativeToolDefinitions = nativeToolCalling ? listExecutableToolDefinitions(effectiveAllowedTools) : [];
+            let useNativeTools = nativeToolDefinitions.length > 0;
+            console.log("[brain.think] tool policy", {
+                agentSessionKey: args.agentSessionKey,
+                agentName: context.agent.name,
+                departmentId: String(args.departmentId),
+                taskId: String(args.taskId),
+                agentKind,
+                effectiveAllowedTools: effectiveAllowedTools ?? null,
+                nativeToolCalling: useNativeTools,
+            });
 
             const systemPrompt = `You are ${context.agent.name}, acting as ${context.agent.role}.\n` +
                 `Department Context: ${context.department.name}\n` +
                 `Task: ${context.task.title}\n` +
                 `Description: ${context.task.description}\n\n` +
+                (context.threadSummary
+                    ? `=== EARLIER IN THIS THREAD (summary) ===\n${context.threadSummary}\n=== END EARLIER IN THIS THREAD ===\n\n`
+                    : "") +
                 `Your current "Soul" (System Prompt): ${baseSystemPrompt}\n\n` +
                 `Language Protocol: You must communicate exclusively in ${targetLanguageLabel}. ` +
                 `All tool outputs must be summarized in ${targetLanguageLabel}.\n\n` +
-            `Instruction: Respond to the thread in character. Keep it concise. ` +
-            `Execute tools IMMEDIATELY. Do not announce what you are going to do. ` +
-            `If a tool is needed, call it directly. Your final response to the user should happen only AFTER tool results are back. ` +
-            `NEVER send a message saying what you ARE GOING to do. ONLY send a message AFTER tools finish confirming what HAS BEEN done. ` +
-            `When a tool is needed, output one or more tool calls in this format: [TOOL: name ARG: {json}]. ` +
-            `You have access to Organizational Memory using the tool 'search_knowledge'. ` +
-            `Use it when the user asks about past decisions, prior tasks, or historical context. ` +
-            (isSquadLead
-                ? `You are an ORCHESTRATOR. Your primary goal is to MOVE THE KANBAN. ` +
-                `You are a SQUAD LEAD. If the user asks for anything involving search, design, code, or email, you are STRICTLY FORBIDDEN from replying with only text. ` +
-                `You MUST use the delegate_task tool. Your response MUST start with the [TOOL:...] block. ` +
-                `When you decide to delegate, you must emit the [TOOL: delegate_task] block IMMEDIATELY. ` +
-                `Do not provide an intro like "Vou pedir ao..." unless tool execution fails. ` +
-                `Talk to the user only to confirm success AFTER tasks are created. ` +
-                `As Squad Lead, you have a team. DO NOT say you cannot do something. ` +
-                `ACTION OVER MEMORY: for real-time requests (emails, inbox, web search, current code/repo state), ` +
-                `Knowledge Base snippets are context only and must NOT replace action. ` +
-                `When real-time execution is needed, delegate to specialists immediately. ` +
-                `If you need information from the web, use 'delegate_task' to ask @Vision. ` +
-                `If the user asks anything about Gmail/inbox/unread/last email/how many emails, ` +
-                `you MUST delegate immediately to @Pepper with 'delegate_task'. ` +
-                `Never answer that email access is unavailable at Squad Lead level. ` +
-                `Prioritize delegation to specialists instead of trying to execute every specialty yourself. ` +
-                `Specialists (Vision/Pepper) need clear context, expected output, and constraints to work effectively. ` +
-                `${delegateToolContract}\n${squadRoster}\n${subtaskProgress}\n${provenanceData}\n` +
-                `If a child task is DONE/REVIEW, read PROVENANCE_DATA and provide the final answer in the original channel. ` +
-                `When PROVENANCE_DATA has completed child results, you MUST do two things in sequence: ` +
-                `1) send a concise final summary to the user; ` +
-                `2) IMMEDIATELY call [TOOL: update_task_status ARG: {"status":"done","summary":"..."}] to close your own task. ` +
-                `Never leave the parent task open after returning the final summary. ` +
-                `If a specialist generated a file or image, your final report MUST include the link, and for images include markdown ![Image](url). ` +
-                `Do not say the specialist is still working when completed result data exists.\n`
-                : `${specialistCompletionContract}\n${context.agent.name?.toLowerCase() === "wanda" ? wandaProtocol : ""}\n${context.agent.name?.toLowerCase() === "vision" ? visionProtocol : ""}\n${isPepper ? pepperProtocol : ""}\n`) +
-            `After receiving tool observations, produce the final answer for the user.` +
-            (effectiveAllowedTools ? `\nAllowed Tools: ${effectiveAllowedTools.join(", ")}` : "");
-
-            const conversationMessages: LlmMessage[] = context.messages.map((m: any) => ({
-                role: m.fromSessionKey === args.agentSessionKey ? "assistant" : "user",
-                content: m.content,
-            }));
+                `Instruction: Respond to the thread in character. Keep it concise. ` +
+                `Execute tools IMMEDIATELY. Do not announce what you are going to do. ` +
+                `If a tool is needed, call it directly. Your final response to the user should happen only AFTER tool results are back. ` +
+                `NEVER send a message saying what you ARE GOING to do. ONLY send a message AFTER tools finish confirming what HAS BEEN done. ` +
+                (useNativeTools
+                    ? `When a tool is needed, call it through the function-calling interface. Never write tool calls as plain text. `
+                    : `${TEXT_TOOL_PROTOCOL_INSTRUCTION} `) +
+                `You have access to Organizational Memory using the tool 'search_knowledge'. ` +
+                `Use it when the user asks about past decisions, prior tasks, or historical context. ` +
+                (effectiveAllowedTools.includes("remember")
+                    ? `Use 'remember' to keep durable facts (preferences, decisions, recurring details) for future tasks` +
+                    (effectiveAllowedTools.includes("forget") ? ` and 'forget' to delete one that is wrong or outdated` : "") +
+                    `. `
+                    : "") +
+                (agentMemories ? `\n${agentMemories}\n` : "") +
+                (isSquadLead
+                    ? `You are an ORCHESTRATOR. Your primary goal is to MOVE THE KANBAN. ` +
+                    `You are a SQUAD LEAD. If the user asks for anything involving search, design, code, or email, you are STRICTLY FORBIDDEN from replying with only text. ` +
+                    `You MUST use the delegate_task tool. ` +
+                    (useNativeTools
+                        ? `When you decide to delegate, call delegate_task IMMEDIATELY. `
+                        : `Your response MUST start with the [TOOL:...] block. ` +
+                        `When you decide to delegate, you must emit the [TOOL: delegate_task] block IMMEDIATELY. `) +
+                    `Do not provide an intro like "Vou pedir ao..." unless tool execution fails. ` +
+                    `Talk to the user only to confirm success AFTER tasks are created. ` +
+                    `As Squad Lead, you have a team. DO NOT say you cannot do something. ` +
+                    `ACTION OVER MEMORY: for real-time requests (emails, inbox, web search, current code/repo state), ` +
+                    `Knowledge Base snippets are context only and must NOT replace action. ` +
+                    `When real-time execution is needed, delegate to specialists immediately. ` +
+                    `If you need information from the web, use 'delegate_task' to ask ${researcherMention}. ` +
+                    `If the user asks anything about Gmail/inbox/unread/last email/how many emails, ` +
+                    `you MUST delegate immediately to ${inboxManagerMention} with 'delegate_task'. ` +
+                    `Never answer that email access is unavailable at Squad Lead level. ` +
+                    `Prioritize delegation to specialists instead of trying to execute every specialty yourself. ` +
+                    `Specialists need clear context, expected output, and constraints to work effectively. ` +
+                    `${delegateToolContract}\n${squadRoster}\n${subtaskProgress}\n${provenanceData}\n` +
+                    `If a child task is DONE/REVIEW, read PROVENANCE_DATA and provide the final answer in the original channel. ` +
+                    `When PROVENANCE_DATA has completed child results, you MUST do two things in sequence: ` +
+                    `1) send a concise final summary to the user; ` +
+                    `2) IMMEDIATELY call ${toolCallHint("update_task_status", `{"status":"done","summary":"..."}`)} to close your own task. ` +
+                    `Never leave the parent task open after returning the final summary. ` +
+                    `If a specialist generated a file or image, your final report MUST include the link, and for images include markdown ![Image](url). ` +
+                    `Do not say the specialist is still working when completed result data exists.\n`
+                    : `${specialistCompletionContract}\n`) +
+                (kindProtocol ? `${kindProtocol}\n` : "") +
+                `After receiving tool observations, produce the final answer for the user.` +
+                (effectiveAllowedTools ? `\nAllowed Tools: ${effectiveAllowedTools.join(", ")}` : "") +
+                (!useNativeTools && effectiveAllowedTools
+                    ? `\nTool arguments: ${formatToolSignatures(listExecutableToolDefinitions(effectiveAllowedTools))}`
+                    : "");
+
+            const conversationMessages: LlmMessage[] = checkpoint
+                ? (checkpoint.messages as LlmMessage[])
+                : context.messages.map((m: any) => ({
+                    role: m.fromSessionKey === args.agentSessionKey ? "assistant" : "user",
+                    content: m.content,
+                }));
             const latestHumanMessage = [...(context.messages ?? [])]
                 .reverse()
                 .find((m: any) =>
@@ -1136,13 +1021,16 @@ export const thinkInternal = internalAction({
                     !String(m.fromSessionKey ?? "").startsWith("agent:")
                 );
 
-            let usedLongTermMemory = false;
+            let usedLongTermMemory = checkpoint?.usedLongTermMemory ?? false;
             const surfacedMemories: any[] = [];
-            if (latestHumanMessage?.content) {
+            const citationSources: CitationSource[] = [...(checkpoint?.citationSources ?? [])];
+            // A resumed run already carries the preloaded memory in its messages.
+            if (!checkpoint && latestHumanMessage?.content) {
                 try {
                     const memoryQuery = `${String(latestHumanMessage.content).slice(0, 500)}\n${String(context.task.title ?? "").slice(0, 200)}`;
                     const preloadedMemory = await ctx.runAction(internal.tools.knowledge.searchKnowledge, {
                         departmentId: args.departmentId,
+                        agentSessionKey: args.agentSessionKey,
                         query: memoryQuery,
                         limit: 8,
                     });
@@ -1155,7 +1043,7 @@ export const thinkInternal = internalAction({
                     conversationMessages.push({
                         role: "system",
                         content: memories.length > 0
-                            ? formatLongTermMemoryContext(memories)
+                            ? formatLongTermMemoryContext(memories, citationSources)
                             : formatEmptyLongTermMemoryContext(String(latestHumanMessage.content)),
                     });
                     if (memories.length > 0) {
@@ -1166,64 +1054,201 @@ export const thinkInternal = internalAction({
                 }
             }
 
-            let response = await ctx.runAction(api.openai.chat, {
-                systemPrompt,
-                messages: conversationMessages,
-                apiKey,
-                maxTokens: 900,
+            const traceLlmCall = async (
+                protocol: "native" | "text",
+                maxTokens: number,
+                startedAt: number,
+                outcome: {
+                    response?: string;
+                    requestedTools?: string[];
+                    usage?: { inputTokens: number; outputTokens: number };
+                    error?: string;
+                }
+            ) => {
+                await ctx.runMutation(internal.agentRuns.recordLlmCall, {
+                    runId,
+                    model: modelSettings.model,
+                    protocol,
+                    promptChars: conversationMessages.reduce(
+                        (total, message) => total + message.content.length,
+                        systemPrompt.length
+                    ),
+                    messageCount: conversationMessages.length,
+                    maxTokens,
+                    response: outcome.response,
+                    requestedTools: outcome.requestedTools,
+                    inputTokens: outcome.usage?.inputTokens,
+                    outputTokens: outcome.usage?.outputTokens,
+                    error: outcome.error,
+                    latencyMs: Date.now() - startedAt,
+                });
+            };
+
+            // Refreshed after every model call and tool; a run whose lock was taken over stops.
+            const keepThinkLock = async () => {
+                const { refreshed } = await ctx.runMutation(internal.brain.refreshThinkLock, {
+                    taskId: args.taskId,
+                    lockKey,
+                    ttlMs: THINK_LOCK_TTL_MS,
+                });
+                if (!refreshed) throw new ThinkLockLostError("Think lock was taken over by another run.");
+            };
+
+            const requestModel = async (maxTokens: number): Promise<{ content: string; toolCalls: ToolCall[] }> => {
+                if (useNativeTools) {
+                    const startedAt = Date.now();
+                    try {
+                        const result = await ctx.runAction(internal.openai.chatWithTools, {
+                            systemPrompt,
+                            messages: conversationMessages,
+                            tools: nativeToolDefinitions,
+                            ...llmOptions,
+                            maxTokens,
+                            draftMessageId,
+                        });
+                        console.log("[RAW LLM RESPONSE]:", result.content, result.toolCalls);
+                        budget.recordTokens(result.usage.inputTokens + result.usage.outputTokens);
+                        await traceLlmCall("native", maxTokens, startedAt, {
+                            response: result.content,
+                            requestedTools: result.toolCalls.map((call) => call.name),
+                            usage: result.usage,
+                        });
+                        // Some models still answer with a text blob despite native tools being declared.
+                        return {
+                            content: result.content,
+                            toolCalls: result.toolCalls.length > 0 ? result.toolCalls : parseAllToolCalls(result.content),
+                        };
+                    } catch (nativeError: any) {
+                        await traceLlmCall("native", maxTokens, startedAt, {
+                            error: nativeError?.message || "Native tool call failed.",
+                        });
+                        console.warn(
+                            "[brain.think] native tool calling failed, falling back to text protocol:",
+                            nativeError?.message || nativeError
+                        );
+                        useNativeTools = false;
+                        conversationMessages.push({
+                            role: "system",
+                            content:
+                                `${TEXT_TOOL_PROTOCOL_INSTRUCTION} ` +
+                                `Tool arguments: ${formatToolSignatures(nativeToolDefinitions)}`,
+                        });
+                    }
+                }
+
+                const startedAt = Date.now();
+                let textResult: { content: string; usage: { inputTokens: number; outputTokens: number } };
+                try {
+                    textResult = await ctx.runAction(internal.openai.chatWithTools, {
+                        systemPrompt,
+                        messages: toTextProtocolMessages(conversationMessages),
+                        ...llmOptions,
+                        maxTokens,
+                        draftMessageId,
+                    });
+                } catch (textError: any) {
+                    await traceLlmCall("text", maxTokens, startedAt, {
+                        error: textError?.message || "LLM call failed.",
+                    });
+                    throw textError;
+                }
+                const { content, usage } = textResult;
+                console.log("[RAW LLM RESPONSE]:", content);
+                budget.recordTokens(usage.inputTokens + usage.outputTokens);
+                const toolCalls = parseAllToolCalls(content);
+                await traceLlmCall("text", maxTokens, startedAt, {
+                    response: content,
+                    requestedTools: toolCalls.map((call) => call.name),
+                    usage,
+                });
+                return { content, toolCalls };
+            };
+            const callModel = async (maxTokens: number) => {
+                const turn = await requestModel(maxTokens);
+                await keepThinkLock();
+                return turn;
+            };
+
+            draftMessageId = await ctx.runMutation(internal.messages.createDraft, {
+                taskId: args.taskId,
+                fromSessionKey: args.agentSessionKey,
             });
-            console.log("[RAW LLM RESPONSE]:", response);
 
-            let toolIterations = 0;
-            let toolWasCalled = false;
-            let toolExecutionFailed = false;
-            let enforcedToolRetryUsed = false;
+            const initialMaxTokens = modelSettings.maxOutputTokens ?? 900;
+            // A resumed run picks up the tool calls the previous run had no budget left to execute.
+            let turn: { content: string; toolCalls: ToolCall[] } = checkpoint
+                ? checkpoint.pendingTurn
+                : await callModel(initialMaxTokens);
+
+            let toolWasCalled = Boolean(checkpoint);
+            let toolExecutionFailed = checkpoint?.toolExecutionFailed ?? false;
+            let enforcedToolRetryUsed = Boolean(checkpoint);
             let lastToolError: { tool: string; error: string } | null = null;
-            const executedToolNames = new Set<string>();
-            const isWanda = context.agent.name?.toLowerCase() === "wanda";
-            while (toolIterations < MAX_TOOL_ITERATIONS) {
-                const toolCalls = parseAllToolCalls(response);
+            let exhaustedBy: StepBudgetExhaustion | null = null;
+            let capReached: RunAllowance | null = null;
+            const executedToolNames = new Set<string>(checkpoint?.executedToolNames ?? []);
+            const requiredToolReminder = requiredTool
+                ? `${context.agent.name}, you forgot to call the tool. Call ${requiredTool} now.`
+                : null;
+            for (;;) {
+                const toolCalls = turn.toolCalls;
                 if (toolCalls.length === 0) {
                     if (!enforcedToolRetryUsed && !isSquadLead) {
                         const reminder =
-                            isWanda
-                                ? "Wanda, you forgot to call the tool. Call generate_image now."
-                                : "You are a technical agent. You must use tools and update_task_status before saying task is finished.";
-                        conversationMessages.push({ role: "assistant", content: response });
+                            requiredToolReminder ??
+                            "You are a technical agent. You must use tools and update_task_status before saying task is finished.";
+                        conversationMessages.push({ role: "assistant", content: turn.content });
                         conversationMessages.push({ role: "system", content: reminder });
-                        response = await ctx.runAction(api.openai.chat, {
-                            systemPrompt,
-                            messages: conversationMessages,
-                            apiKey,
-                        });
+                        turn = await callModel(initialMaxTokens);
                         enforcedToolRetryUsed = true;
                         continue;
                     }
                     break;
                 }
 
-                if (isWanda && !toolCalls.some((call) => call.name === "generate_image") && !enforcedToolRetryUsed) {
-                    conversationMessages.push({ role: "assistant", content: response });
-                    conversationMessages.push({ role: "system", content: "Wanda, you forgot to call the tool. Call generate_image now." });
-                    response = await ctx.runAction(api.openai.chat, {
-                        systemPrompt,
-                        messages: conversationMessages,
-                        apiKey,
-                    });
+                if (requiredToolReminder && !toolCalls.some((call) => call.name === requiredTool) && !enforcedToolRetryUsed) {
+                    conversationMessages.push({ role: "assistant", content: turn.content });
+                    conversationMessages.push({ role: "system", content: requiredToolReminder });
+                    turn = await callModel(initialMaxTokens);
                     enforcedToolRetryUsed = true;
                     continue;
                 }
-                toolIterations += 1;
+                exhaustedBy = budget.exhaustion();
+                if (exhaustedBy) break;
+                // This run's own model calls can reach a cap mid-run.
+                const currentAllowance = await ctx.runQuery(internal.spendingLimits.evaluateRun, {
+                    departmentId: args.departmentId,
+                });
+                if (
+                    currentAllowance.decision === "block" ||
+                    (currentAllowance.decision === "downgrade" && allowance.decision === "allow")
+                ) {
+                    capReached = currentAllowance;
+                    break;
+                }
+                budget.recordToolIteration();
                 toolWasCalled = true;
                 const hasDelegateTool = toolCalls.some((call) => call.name === "delegate_task");
-                const assistantToolTurn =
-                    hasDelegateTool
-                        ? formatToolCallEcho(toolCalls)
-                        : response;
-                conversationMessages.push({ role: "assistant", content: assistantToolTurn });
+                const isNativeTurn = toolCalls.every((call) => Boolean(call.id));
+                if (isNativeTurn) {
+                    conversationMessages.push({
+                        role: "assistant",
+                        content: hasDelegateTool ? "" : turn.content,
+                        toolCalls: toolCalls.map((call) => ({ id: call.id as string, name: call.name, args: call.args })),
+                    });
+                } else {
+                    const assistantToolTurn =
+                        hasDelegateTool
+                            ? formatToolCallEcho(toolCalls)
+                            : turn.content;
+                    conversationMessages.push({ role: "assistant", content: assistantToolTurn });
+                }
 
+                // Native tool results must directly follow the assistant turn; extra context goes after them.
+                const followUpNotes: string[] = [];
                 for (const toolCall of toolCalls) {
                     let observation: any;
+                    const toolStartedAt = Date.now();
                     try {
                         executedToolNames.add(toolCall.name);
                         const toolResult = await executeTool(
@@ -1248,10 +1273,30 @@ export const thinkInternal = internalAction({
                         };
                     }
 
-                    conversationMessages.push({
-                        role: "system",
-                        content: `TOOL_OBSERVATION ${JSON.stringify(observation)}`,
+                    await ctx.runMutation(internal.agentRuns.recordToolCall, {
+                        runId,
+                        toolName: toolCall.name,
+                        toolArgs: JSON.stringify(toolCall.args ?? {}),
+                        observation: JSON.stringify(observation),
+                        ok: Boolean(observation.ok),
+                        error: observation.ok ? undefined : observation.error,
+                        latencyMs: Date.now() - toolStartedAt,
                     });
+                    await keepThinkLock();
+
+                    if (isNativeTurn && toolCall.id) {
+                        conversationMessages.push({
+                            role: "tool",
+                            toolCallId: toolCall.id,
+                            name: toolCall.name,
+                            content: JSON.stringify(observation),
+                        });
+                    } else {
+                        conversationMessages.push({
+                            role: "system",
+                            content: `TOOL_OBSERVATION ${JSON.stringify(observation)}`,
+                        });
+                    }
 
                     if (observation?.ok && toolCall.name === "search_knowledge") {
                         const memories = Array.isArray(observation?.result?.memories)
@@ -1263,34 +1308,81 @@ export const thinkInternal = internalAction({
                         if (memories.length > 0) {
                             usedLongTermMemory = true;
                         }
-                        conversationMessages.push({
-                            role: "system",
-                            content: memories.length > 0
-                                ? formatLongTermMemoryContext(memories)
+                        followUpNotes.push(
+                            memories.length > 0
+                                ? formatLongTermMemoryContext(memories, citationSources)
                                 : formatEmptyLongTermMemoryContext(
                                     typeof toolCall.args?.query === "string" ? toolCall.args.query : undefined
-                                ),
-                        });
+                                )
+                        );
                     }
                 }
+                for (const note of followUpNotes) {
+                    conversationMessages.push({ role: "system", content: note });
+                }
+
+                turn = await callModel(modelSettings.maxOutputTokens ?? 1200);
+            }
 
-                response = await ctx.runAction(api.openai.chat, {
-                    systemPrompt,
-                    messages: conversationMessages,
-                    apiKey,
-                    maxTokens: 1200,
+            if (capReached?.decision === "block") {
+                await blockRun(capReached);
+                return;
+            }
+            const continuation = (checkpoint?.continuation ?? 0) + 1;
+            // A follow-up run starts on the economy model; the pending tool calls run there.
+            if (capReached?.decision === "downgrade") {
+                continuationCheckpointId = await ctx.runMutation(internal.brain.saveCheckpoint, {
+                    departmentId: args.departmentId,
+                    taskId: args.taskId,
+                    agentSessionKey: args.agentSessionKey,
+                    continuation,
+                    reason: "spending_limit",
+                    ...compactCheckpoint(conversationMessages, turn),
+                    executedToolNames: Array.from(executedToolNames),
+                    usedLongTermMemory,
+                    citationSources,
+                    toolExecutionFailed,
+                });
+                console.log(`[brain.think] ${capReached.scope} spending limit reached mid-run; continuing in follow-up run`, {
+                    taskId: String(args.taskId),
+                    continuation,
                 });
-                console.log("[RAW LLM RESPONSE]:", response);
+                runStatus = "checkpointed";
+                return;
+            }
+            if (exhaustedBy && !lastToolError && continuation <= stepBudget.maxContinuations) {
+                continuationCheckpointId = await ctx.runMutation(internal.brain.saveCheckpoint, {
+                    departmentId: args.departmentId,
+                    taskId: args.taskId,
+                    agentSessionKey: args.agentSessionKey,
+                    continuation,
+                    reason: exhaustedBy,
+                    ...compactCheckpoint(conversationMessages, turn),
+                    executedToolNames: Array.from(executedToolNames),
+                    usedLongTermMemory,
+                    citationSources,
+                    toolExecutionFailed,
+                });
+                console.log("[brain.think] step budget exhausted, continuing in follow-up run", {
+                    taskId: String(args.taskId),
+                    reason: exhaustedBy,
+                    continuation,
+                    toolIterations: budget.toolIterations,
+                    tokensUsed: budget.tokensUsed,
+                });
+                runStatus = "checkpointed";
+                return;
             }
 
-            if (parseAllToolCalls(response).length > 0) {
+            let response = turn.content;
+            if (turn.toolCalls.length > 0) {
                 response = lastToolError
                     ? `I could not complete your request because tool '${lastToolError.tool}' failed: ${lastToolError.error}`
-                    : "I could not complete your request because the tool execution limit was reached (max 2 iterations).";
+                    : `I could not complete your request because ${describeStepBudgetExhaustion(exhaustedBy ?? "tool_iterations", stepBudget)}.`;
             }
 
             if (toolExecutionFailed) {
-                await ctx.runMutation(api.tasks.setStatus, {
+                await ctx.runMutation(internal.tasks.setStatusInternal, {
                     departmentId: args.departmentId,
                     taskId: args.taskId,
                     status: "review",
@@ -1299,8 +1391,7 @@ export const thinkInternal = internalAction({
                 });
             }
 
-            const rawFinalResponse = usedLongTermMemory ? `[MEMORY_USED]\n${response}` : response;
-            let finalResponse = sanitizePublicAssistantContent(rawFinalResponse);
+            let finalResponse = sanitizePublicAssistantContent(response);
             const delegatedInThisRun = executedToolNames.has("delegate_task");
             if (delegatedInThisRun && !toolExecutionFailed) {
                 finalResponse = localizedDelegationAcknowledge(targetLanguage);
@@ -1327,7 +1418,8 @@ export const thinkInternal = internalAction({
                         const title = String(m?.title ?? "Documento");
                         const snippet = String(m?.snippet ?? "").trim();
                         const clipped = snippet.length > 420 ? `${snippet.slice(0, 420)}...` : snippet;
-                        return `${idx + 1}. ${title}\n${clipped}`;
+                        const label = citationLabelFor(citationSources, m);
+                        return `${label === null ? `${idx + 1}.` : `[${label}]`} ${title}\n${clipped}`;
                     });
                     finalResponse =
                         `${localizedMemoryFallbackIntro(targetLanguage)}\n\n` +
@@ -1345,26 +1437,33 @@ export const thinkInternal = internalAction({
             );
             console.log(`[LOG] Duplicate check complete. Should skip: ${duplicateInLast30s}`);
             if (duplicateInLast30s) {
+                runError = "Skipped: same response already sent in the last 60s.";
                 return;
             }
 
-            await ctx.runMutation(api.messages.create, {
+            runFinalResponse = finalResponse;
+
+            const citations = usedLongTermMemory ? selectCitations(citationSources, finalResponse) : [];
+
+            await ctx.runMutation(internal.messages.finalize, {
                 departmentId: args.departmentId,
                 taskId: args.taskId,
                 fromSessionKey: args.agentSessionKey,
                 content: finalResponse,
+                draftMessageId,
+                citations: citations.length > 0 ? citations : undefined,
             });
+            draftMessageId = undefined;
 
-            const chatIdFromDescription = context.task.description.match(/Telegram Chat ID:\s*(\d+)/i);
-            const chatIdFromLegacyTitle = context.task.title.match(/\((\d+)\)$/);
-            const rawChatId = chatIdFromDescription?.[1] || chatIdFromLegacyTitle?.[1];
-            if (rawChatId) {
-                const chatId = parseInt(rawChatId, 10);
-                const telegramText = sanitizeTelegramOutboundContent(finalResponse);
+            const chatId = telegramChatIdFromTask(context.task);
+            if (chatId !== null) {
+                const telegramText = sanitizeTelegramOutboundContent(finalResponse) || localizedAcknowledge(targetLanguage);
                 await ctx.runAction(api.telegram.sendMessage, {
                     departmentId: args.departmentId,
                     chatId,
-                    text: telegramText || localizedAcknowledge(targetLanguage),
+                    text: citations.length > 0
+                        ? `${telegramText}\n\n${formatSourcesLine(localizedSourcesLabel(targetLanguage), citations)}`
+                        : telegramText,
                     language: targetLanguage,
                 });
             }
@@ -1390,7 +1489,7 @@ export const thinkInternal = internalAction({
                 !explicitlyUpdatedStatus &&
                 !delegatedInThisRun;
             if (shouldAutoCompleteAsDone && context.task.status !== "done") {
-                await ctx.runMutation(api.tasks.setStatus, {
+                await ctx.runMutation(internal.tasks.setStatusInternal, {
                     departmentId: args.departmentId,
                     taskId: args.taskId,
                     status: "done",
@@ -1398,7 +1497,7 @@ export const thinkInternal = internalAction({
                     reason: "brain_auto_done_from_provenance",
                 });
             } else if (shouldAutoCompleteAsReview && context.task.status !== "review") {
-                await ctx.runMutation(api.tasks.setStatus, {
+                await ctx.runMutation(internal.tasks.setStatusInternal, {
                     departmentId: args.departmentId,
                     taskId: args.taskId,
                     status: "review",
@@ -1406,12 +1505,140 @@ export const thinkInternal = internalAction({
                     reason: "brain_auto_review",
                 });
             }
+        } catch (error: unknown) {
+            runStatus = "failed";
+            runError = error instanceof Error ? error.message : "Unknown brain error.";
+            // The run that took the lock carries on; this one just stops.
+            if (error instanceof ThinkLockLostError) return;
+            throw error;
         } finally {
+            if (draftMessageId) {
+                await ctx.runMutation(internal.messages.discardDraft, { messageId: draftMessageId });
+            }
             await ctx.runMutation(internal.brain.releaseThinkLock, {
                 taskId: args.taskId,
                 lockKey,
             });
+            await ctx.runMutation(internal.agentRuns.finish, {
+                runId,
+                status: runStatus,
+                error: runError,
+                finalResponse: runFinalResponse,
+            });
+        }
+        // Scheduled after the lock is released so the follow-up run can acquire it.
+        if (continuationCheckpointId) {
+            await ctx.scheduler.runAfter(0, internal.brain.thinkInternal, {
+                departmentId: args.departmentId,
+                taskId: args.taskId,
+                agentSessionKey: args.agentSessionKey,
+                triggerKey: `continue:${String(continuationCheckpointId)}`,
+                language: args.language,
+                checkpointId: continuationCheckpointId,
+            });
+        }
+    },
+});
+
+/**
+ * internal:brain:saveCheckpoint
+ * Persists a run that ran out of step budget, or reached a downgrading spending cap,
+ * so a follow-up run can resume it.
+ */
+export const saveCheckpoint = internalMutation({
+    args: {
+        departmentId: v.id("departments"),
+        taskId: v.id("tasks"),
+        agentSessionKey: v.string(),
+        continuation: v.number(),
+        reason: v.union(
+            v.literal("tool_iterations"),
+            v.literal("wall_clock"),
+            v.literal("tokens"),
+            v.literal("spending_limit")
+        ),
+        messages: v.any(),
+        pendingTurn: v.any(),
+        executedToolNames: v.array(v.string()),
+        usedLongTermMemory: v.boolean(),
+        citationSources: v.optional(v.array(citationSourceValidator)),
+        toolExecutionFailed: v.boolean(),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        const checkpointId = await ctx.db.insert("brainCheckpoints", {
+            ...args,
+            status: "pending",
+            createdAt: now,
+        });
+        await ctx.db.insert("activities", {
+            departmentId: args.departmentId,
+            type: "brain_checkpoint",
+            message:
+                args.reason === "spending_limit"
+                    ? `Spending limit reached; continuing on the economy model in follow-up run ${args.continuation}.`
+                    : `Step budget reached (${args.reason}); continuing in follow-up run ${args.continuation}.`,
+            sessionKey: args.agentSessionKey,
+            actorType: "agent",
+            taskId: args.taskId,
+            createdAt: now,
+        });
+        return checkpointId;
+    },
+});
+
+/**
+ * internal:brain:claimCheckpoint
+ * Marks a pending checkpoint as resumed and returns it. Returns null if it was
+ * already resumed or belongs to another task/agent, so a run is never resumed twice.
+ */
+export const claimCheckpoint = internalMutation({
+    args: {
+        checkpointId: v.id("brainCheckpoints"),
+        taskId: v.id("tasks"),
+        agentSessionKey: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const checkpoint = await ctx.db.get("brainCheckpoints", args.checkpointId);
+        if (
+            !checkpoint ||
+            checkpoint.status !== "pending" ||
+            checkpoint.taskId !== args.taskId ||
+            checkpoint.agentSessionKey !== args.agentSessionKey
+        ) {
+            return null;
         }
+        await ctx.db.patch("brainCheckpoints", args.checkpointId, {
+            status: "resumed",
+            resumedAt: Date.now(),
+        });
+        return checkpoint;
+    },
+});
+
+/**
+ * internal:brain:abandonCheckpoint
+ * Gives up on a checkpoint whose resume never got the task lock.
+ */
+export const abandonCheckpoint = internalMutation({
+    args: {
+        checkpointId: v.id("brainCheckpoints"),
+        reason: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const checkpoint = await ctx.db.get("brainCheckpoints", args.checkpointId);
+        if (!checkpoint || checkpoint.status !== "pending") return;
+        const now = Date.now();
+        await ctx.db.patch("brainCheckpoints", args.checkpointId, { status: "abandoned", resumedAt: now });
+        await ctx.db.insert("activities", {
+            departmentId: checkpoint.departmentId,
+            type: "brain_checkpoint_abandoned",
+            message: `Follow-up run ${checkpoint.continuation} could not start (${args.reason}); the run was not resumed.`,
+            sessionKey: checkpoint.agentSessionKey,
+            actorType: "agent",
+            taskId: checkpoint.taskId,
+            createdAt: now,
+        });
     },
 });
 
@@ -1441,12 +1668,8 @@ export const getAssembledContext = internalQuery({
             .unique();
         if (!agent) return null;
 
-        // Optional: get template for the "Soul"
-        const templates = await ctx.db
-            .query("agentTemplates")
-            .withIndex("by_departmentId", q => q.eq("departmentId", task.departmentId))
-            .collect();
-        const template = templates.find(t => t.name === agent.name);
+        // Optional: get template for the "Soul" (by id, so renamed agents keep it)
+        const template = agent.templateId ? await ctx.db.get("agentTemplates", agent.templateId) : null;
 
         const squad = await ctx.db
             .query("agents")
@@ -1467,6 +1690,7 @@ export const getAssembledContext = internalQuery({
                     .take(8);
                 const latestNonTool = latestMessages.find(
                     (m: any) =>
+                        !m?.isDraft &&
                         typeof m?.content === "string" &&
                         m.content.trim().length > 0 &&
                         !isToolBlobContent(String(m.content ?? ""))
@@ -1493,25 +1717,33 @@ export const getAssembledContext = internalQuery({
             })
         );
 
-        const messages = await ctx.db
-            .query("messages")
-            .withIndex("by_taskId", q => q.eq("taskId", args.taskId))
-            .order("desc")
-            .take(10);
+        // Older messages reach the LLM through the rolling thread summary.
+        const thread = await loadThreadWindow(ctx, args.taskId);
+        const messages = thread.messages;
 
-        messages.reverse(); // Chronological for LLM
+        const latestMessage = messages[messages.length - 1];
+        const memories = await loadRelevantMemories(ctx, {
+            departmentId: task.departmentId!,
+            agentSessionKey: args.agentSessionKey,
+            queryText: `${task.title} ${task.description ?? ""} ${String(latestMessage?.content ?? "").slice(0, 500)}`,
+        });
 
         return {
             task,
             department,
             organizationLanguage,
+            organizationPlan: organization?.plan,
             agent,
             template,
             messages,
+            threadSummary: thread.summary?.summary,
+            threadSummaryDue: thread.summaryDue,
             subtasks: subtasksWithLatest,
+            memories,
             squad: squad.map((a: any) => ({
                 name: a.name,
                 role: a.role,
+                kind: resolveAgentKind(a),
                 sessionKey: a.sessionKey,
                 status: a.status,
             })),
@@ -1560,6 +1792,7 @@ export const checkDuplicateMessage = internalQuery({
         let maxSimilarity = 0;
 
         const duplicated = recent.some((m) => {
+            if (m.isDraft) return false;
             if (m.fromSessionKey !== args.fromSessionKey) return false;
             if (now - m.createdAt > args.windowMs) return false;
             const similarity = trigramSimilarity(String(m.content ?? ""), expectedContent);
@@ -1596,10 +1829,12 @@ export const acquireThinkLock = internalMutation({
         const ttlMs = Math.max(1000, Math.min(args.ttlMs ?? 20_000, 120_000));
         const task = await ctx.db.get(args.taskId);
         if (!task) return { acquired: false, reason: "task_not_found" as const };
+        // Prerequisites still open: releaseDependents wakes the assignees later
+        if (task.waitingOnDependencies) return { acquired: false, reason: "waiting_on_dependencies" as const };
 
         const activeUntil = task.brainLockExpiresAt ?? 0;
         if (activeUntil > now) {
-            return { acquired: false };
+            return { acquired: false, reason: "locked" as const };
         }
 
         await ctx.db.patch(args.taskId, {
@@ -1611,6 +1846,26 @@ export const acquireThinkLock = internalMutation({
     },
 });
 
+/**
+ * internal:brain:refreshThinkLock
+ * Extends the lock while its run is still stepping, so long runs never outlive it.
+ */
+export const refreshThinkLock = internalMutation({
+    args: {
+        taskId: v.id("tasks"),
+        lockKey: v.string(),
+        ttlMs: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const task = await ctx.db.get("tasks", args.taskId);
+        if (!task?.brainLockOwner?.endsWith(`:${args.lockKey}`)) return { refreshed: false };
+        await ctx.db.patch("tasks", args.taskId, {
+            brainLockExpiresAt: Date.now() + Math.max(1000, Math.min(args.ttlMs, 120_000)),
+        });
+        return { refreshed: true };
+    },
+});
+
 export const releaseThinkLock = internalMutation({
     args: {
         taskId: v.id("tasks"),
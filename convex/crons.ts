@@ -17,4 +17,37 @@ crons.interval(
     internal.uprising.dispatchGlobal,
 );
 
+/**
+ * Knowledge source sync
+ * Every hour, re-fetches the URLs, feeds and sitemaps whose sync interval
+ * has elapsed (see knowledgeSources.dispatchDue).
+ */
+crons.interval(
+    "knowledge-source-sync",
+    { hours: 1 },
+    internal.knowledgeSources.dispatchDue,
+);
+
+/**
+ * Agent memory expiry
+ * Once a day, deletes memories stored with an expiry that has passed
+ * (see agentMemories.purgeExpired).
+ */
+crons.interval(
+    "agent-memory-expiry",
+    { hours: 24 },
+    internal.agentMemories.purgeExpired,
+);
+
+/**
+ * Scheduled tasks
+ * Every minute, creates the tasks of recurring schedules that are due
+ * (see taskSchedules.dispatchDue).
+ */
+crons.interval(
+    "task-schedules",
+    { minutes: 1 },
+    internal.taskSchedules.dispatchDue,
+);
+
 export default crons;
@@ -49,6 +49,7 @@ export const create = mutation({
                 name: "Jarvis",
                 slug: "jarvis",
                 role: "Head of Operations",
+                kind: "orchestrator",
                 description: "Coordenador do departamento focado em orquestração e delegação.",
                 sessionKey: jarvisSessionKey,
                 status: "idle",
@@ -1,6 +1,7 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { bumpEmbeddingCount } from "./lib/embeddingCounts";
 
 export const create = mutation({
     args: {
@@ -36,6 +37,7 @@ export const create = mutation({
             createdAt: now,
             createdBySessionKey: args.createdBySessionKey,
         });
+        await bumpEmbeddingCount(ctx, args.departmentId, "assets", undefined, 1);
 
         // log activity se houver task
         if (args.taskId) {
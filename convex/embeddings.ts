@@ -0,0 +1,576 @@
+import {
+    internalAction,
+    internalMutation,
+    internalQuery,
+    mutation,
+    query,
+    type ActionCtx,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { recordUsage } from "./usage";
+import {
+    DEFAULT_EMBEDDING_MODEL,
+    EMBEDDING_PROVIDERS,
+    embeddingModelId,
+    embeddingSettingsValidator,
+    embeddingSlotValidator,
+    isSlotEmbeddingCurrent,
+    normalizeEmbeddingProvider,
+    otherEmbeddingSlot,
+    requestEmbeddings,
+    type EmbeddingSettings,
+    type EmbeddingSlot,
+    type SlotWrites,
+} from "./lib/embeddings";
+import { countStaleEmbeddings } from "./lib/embeddingCounts";
+import {
+    requireAuthenticatedUser,
+    requireDepartmentOrgAdminMembership,
+    requireDepartmentOrgMembership,
+} from "./lib/orgAuthorization";
+
+/**
+ * Embedding service: picks the department's provider and model, embeds text
+ * and re-embeds stored vectors when the model changes.
+ *
+ * Provider priority: the "embeddings" integration (any provider in
+ * lib/embeddings, including a local OpenAI-compatible endpoint) -> the OpenAI
+ * integration -> OPENAI_API_KEY -> LOCAL_EMBEDDINGS_URL. Requests only go to
+ * the presets' hosts or to LOCAL_EMBEDDINGS_URL, which the operator sets: a
+ * URL typed by an admin would be fetched from the backend's network.
+ *
+ * Searches read one vector slot (lib/embeddings.EmbeddingSlot) with the model
+ * that filled it. When the configured model changes, new vectors go to the
+ * other slot and a migration fills the rest of it; reads switch slots only
+ * once it completes.
+ */
+
+export type EmbeddingUsage = {
+    departmentId: Id<"departments">;
+    source: string;
+    taskId?: Id<"tasks">;
+    agentSessionKey?: string;
+};
+
+type MigrationPhase = Doc<"embeddingMigrations">["phase"];
+
+const MIGRATION_PHASES: MigrationPhase[] = ["knowledge", "tasks", "assets", "memories"];
+// Rows scanned per step of a migration.
+const MIGRATION_PAGE_SIZE = 20;
+
+function configString(config: any, ...keys: string[]): string | undefined {
+    for (const key of keys) {
+        const value = config?.[key];
+        if (typeof value === "string" && value.trim()) return value.trim();
+    }
+    return undefined;
+}
+
+function envString(name: string): string | undefined {
+    const value = process.env[name];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Same lookup order as integrations.getByTypeForDepartment: organization first, then department.
+async function findIntegration(ctx: QueryCtx, departmentId: Id<"departments">, type: "embeddings" | "openai") {
+    const department = await ctx.db.get("departments", departmentId);
+    if (!department) return null;
+    if (department.orgId) {
+        const byOrg = await ctx.db
+            .query("integrations")
+            .withIndex("by_org_type", (q) => q.eq("orgId", department.orgId).eq("type", type))
+            .unique();
+        if (byOrg) return byOrg;
+    }
+    return await ctx.db
+        .query("integrations")
+        .withIndex("by_department_type", (q) => q.eq("departmentId", departmentId).eq("type", type))
+        .unique();
+}
+
+/**
+ * Embedding provider of a department, or null when it has none (lexical search only).
+ */
+export async function readEmbeddingSettings(
+    ctx: QueryCtx,
+    departmentId: Id<"departments">
+): Promise<EmbeddingSettings | null> {
+    const custom = await findIntegration(ctx, departmentId, "embeddings");
+    const provider = normalizeEmbeddingProvider(custom?.config?.provider);
+    if (custom && provider) {
+        const preset = EMBEDDING_PROVIDERS[provider];
+        const baseUrl = provider === "local" ? envString("LOCAL_EMBEDDINGS_URL") : preset.baseUrl;
+        if (baseUrl) {
+            return {
+                provider,
+                model: configString(custom.config, "model") ?? preset.defaultModel,
+                baseUrl,
+                apiKey: configString(custom.config, "apiKey", "key", "token"),
+            };
+        }
+    }
+
+    const openai = await findIntegration(ctx, departmentId, "openai");
+    const openaiKey = configString(openai?.config, "key", "token", "apiKey") ?? envString("OPENAI_API_KEY");
+    if (openaiKey) {
+        return {
+            provider: "openai",
+            model: DEFAULT_EMBEDDING_MODEL,
+            baseUrl: EMBEDDING_PROVIDERS.openai.baseUrl!,
+            apiKey: openaiKey,
+        };
+    }
+
+    const localUrl = envString("LOCAL_EMBEDDINGS_URL");
+    if (localUrl) {
+        return {
+            provider: "local",
+            model: envString("LOCAL_EMBEDDINGS_MODEL") ?? EMBEDDING_PROVIDERS.local.defaultModel,
+            baseUrl: localUrl,
+            apiKey: envString("LOCAL_EMBEDDINGS_API_KEY"),
+        };
+    }
+    return null;
+}
+
+/**
+ * Where a department's vectors are read and written. Searches embed the query
+ * with `serving` and read `activeSlot`. New vectors come from `configured`:
+ * in the active slot when it is the serving model, otherwise in the other
+ * slot until a migration switches reads to it.
+ */
+export type EmbeddingTargets = {
+    activeSlot: EmbeddingSlot;
+    serving: EmbeddingSettings | null;
+    configured: EmbeddingSettings | null;
+    writeSlot: EmbeddingSlot;
+};
+
+export async function readEmbeddingTargets(ctx: QueryCtx, departmentId: Id<"departments">): Promise<EmbeddingTargets> {
+    const configured = await readEmbeddingSettings(ctx, departmentId);
+    const index = await ctx.db
+        .query("embeddingIndexes")
+        .withIndex("by_departmentId", (q) => q.eq("departmentId", departmentId))
+        .unique();
+    if (!index) return { activeSlot: "a", serving: configured, configured, writeSlot: "a" };
+    // Fresh credentials win while the configured provider still serves the active slot.
+    const serves = configured !== null && embeddingModelId(configured) === index.servingModel;
+    return {
+        activeSlot: index.activeSlot,
+        serving: serves ? configured : index.servingSettings,
+        configured,
+        writeSlot: serves ? index.activeSlot : otherEmbeddingSlot(index.activeSlot),
+    };
+}
+
+/**
+ * Records the provider serving each department's searches before its
+ * embedding integration changes, so they keep working until a migration
+ * re-embeds everything with the new one. Departments already tracked keep
+ * their row.
+ */
+export async function pinEmbeddingSettings(ctx: MutationCtx, departmentIds: Id<"departments">[]): Promise<void> {
+    for (const departmentId of departmentIds) {
+        const existing = await ctx.db
+            .query("embeddingIndexes")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", departmentId))
+            .unique();
+        if (existing) continue;
+        const settings = await readEmbeddingSettings(ctx, departmentId);
+        if (!settings) continue;
+        await ctx.db.insert("embeddingIndexes", {
+            departmentId,
+            activeSlot: "a",
+            servingModel: embeddingModelId(settings),
+            servingSettings: settings,
+            updatedAt: Date.now(),
+        });
+    }
+}
+
+/**
+ * internal:embeddings:getTargets
+ */
+export const getTargets = internalQuery({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args): Promise<EmbeddingTargets> => {
+        return await readEmbeddingTargets(ctx, args.departmentId);
+    },
+});
+
+export async function resolveEmbeddingTargets(ctx: ActionCtx, departmentId: Id<"departments">): Promise<EmbeddingTargets> {
+    return await ctx.runQuery(internal.embeddings.getTargets, { departmentId });
+}
+
+/**
+ * Embeds a batch with the given settings and records the usage. Throws when
+ * the provider rejects the request.
+ */
+export async function embedTexts(
+    ctx: ActionCtx,
+    settings: EmbeddingSettings,
+    inputs: string[],
+    usage: EmbeddingUsage
+): Promise<Array<number[] | undefined>> {
+    const result = await requestEmbeddings(settings, inputs);
+    await recordUsage(ctx, {
+        departmentId: usage.departmentId,
+        taskId: usage.taskId,
+        agentSessionKey: usage.agentSessionKey,
+        kind: "embedding",
+        source: usage.source,
+        provider: settings.provider,
+        model: settings.model,
+        inputTokens: result.inputTokens,
+    });
+    return result.vectors;
+}
+
+/**
+ * Slot writes for storing each input: the serving model's vector in the
+ * active slot and, while the configured model differs, its vector in the
+ * other slot (two requests per input until the migration switches reads).
+ * Otherwise the other slot is cleared so it never keeps vectors of older
+ * content. Inputs `embed` returns no vector for clear their slot.
+ */
+export async function embedForStorage(
+    targets: EmbeddingTargets,
+    inputs: string[],
+    embed: (settings: EmbeddingSettings, inputs: string[]) => Promise<Array<number[] | undefined>>
+): Promise<SlotWrites[]> {
+    const { activeSlot, serving, configured, writeSlot } = targets;
+    const served = serving ? await embed(serving, inputs) : [];
+    const staged = configured && writeSlot !== activeSlot ? await embed(configured, inputs) : [];
+    const slotWrite = (settings: EmbeddingSettings | null, vector: number[] | undefined) =>
+        settings && vector ? { vector, model: embeddingModelId(settings) } : null;
+    return inputs.map((_, idx) => ({
+        [activeSlot]: slotWrite(serving, served[idx]),
+        [otherEmbeddingSlot(activeSlot)]: slotWrite(configured, staged[idx]),
+    }));
+}
+
+export type QueryEmbedding = { embedding: number[]; model: string; slot: EmbeddingSlot };
+
+/**
+ * Embeds a search query for the slot searches read. Returns null when the
+ * department has no provider.
+ */
+export async function embedQuery(ctx: ActionCtx, text: string, usage: EmbeddingUsage): Promise<QueryEmbedding | null> {
+    const { serving, activeSlot } = await resolveEmbeddingTargets(ctx, usage.departmentId);
+    if (!serving) return null;
+    const [embedding] = await embedTexts(ctx, serving, [text], usage);
+    if (!embedding) throw new Error("The embedding provider returned an empty vector.");
+    return { embedding, model: embeddingModelId(serving), slot: activeSlot };
+}
+
+/**
+ * Embeds one text for storage with the department's providers. Returns null
+ * when the department has none; `query` is the vector to search the active
+ * slot with, when the serving model produced one.
+ */
+export async function embedText(
+    ctx: ActionCtx,
+    text: string,
+    usage: EmbeddingUsage
+): Promise<{ writes: SlotWrites; query: QueryEmbedding | null } | null> {
+    const targets = await resolveEmbeddingTargets(ctx, usage.departmentId);
+    if (!targets.serving && !targets.configured) return null;
+    const [writes] = await embedForStorage(targets, [text], (settings, inputs) => embedTexts(ctx, settings, inputs, usage));
+    const served = writes[targets.activeSlot];
+    if (!served && !writes[otherEmbeddingSlot(targets.activeSlot)]) {
+        throw new Error("The embedding provider returned an empty vector.");
+    }
+    return {
+        writes,
+        query: served ? { embedding: served.vector, model: served.model, slot: targets.activeSlot } : null,
+    };
+}
+
+/**
+ * Current embedding model of a department, the model searches still use, how
+ * many stored rows still need the current one (from the maintained
+ * embeddingCounts), and the latest migration.
+ */
+export const status = query({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const targets = await readEmbeddingTargets(ctx, args.departmentId);
+        const settings = targets.configured;
+        const model = settings ? embeddingModelId(settings) : null;
+        const [stale, migration] = await Promise.all([
+            countStaleEmbeddings(ctx, args.departmentId, model, targets),
+            ctx.db
+                .query("embeddingMigrations")
+                .withIndex("by_department_startedAt", (q) => q.eq("departmentId", args.departmentId))
+                .order("desc")
+                .first(),
+        ]);
+
+        return {
+            provider: settings?.provider ?? null,
+            model,
+            servingModel: targets.serving ? embeddingModelId(targets.serving) : null,
+            stale,
+            totalStale: stale.knowledge + stale.tasks + stale.assets + stale.memories,
+            migration,
+        };
+    },
+});
+
+/**
+ * Re-embeds everything a department stored with another model. Admins only.
+ * A running migration for the same model is reused. Vectors go to the slot
+ * searches do not read, and reads switch to it once every row is done; when
+ * the active slot already belongs to this model, only its unreadable vectors
+ * of other models are replaced.
+ */
+export const startMigration = mutation({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgAdminMembership(ctx, userId, args.departmentId);
+
+        const settings = await readEmbeddingSettings(ctx, args.departmentId);
+        if (!settings) {
+            throw new Error("No embedding provider configured. Connect OpenAI or an embeddings endpoint first.");
+        }
+        const targetModel = embeddingModelId(settings);
+
+        const latest = await ctx.db
+            .query("embeddingMigrations")
+            .withIndex("by_department_startedAt", (q) => q.eq("departmentId", args.departmentId))
+            .order("desc")
+            .first();
+        if (latest?.status === "running") {
+            if (latest.targetModel === targetModel) return { id: latest._id, scheduled: false };
+            await ctx.db.patch("embeddingMigrations", latest._id, {
+                status: "failed",
+                lastError: `Superseded by a migration to ${targetModel}.`,
+                finishedAt: Date.now(),
+            });
+        }
+
+        const id = await ctx.db.insert("embeddingMigrations", {
+            departmentId: args.departmentId,
+            targetModel,
+            status: "running",
+            phase: MIGRATION_PHASES[0],
+            processed: 0,
+            failed: 0,
+            startedByUserId: userId,
+            startedAt: Date.now(),
+        });
+        await ctx.scheduler.runAfter(0, internal.embeddings.migrateStep, { migrationId: id });
+        return { id, scheduled: true };
+    },
+});
+
+type MigrationItem = { id: string; version?: number; text?: string };
+
+/**
+ * internal:embeddings:getMigrationPage
+ * One page of the current phase and the rows in it not embedded with the target model.
+ */
+export const getMigrationPage = internalQuery({
+    args: { migrationId: v.id("embeddingMigrations") },
+    handler: async (ctx, args) => {
+        const migration = await ctx.db.get("embeddingMigrations", args.migrationId);
+        if (!migration || migration.status !== "running") return null;
+
+        const departmentId = migration.departmentId;
+        const { writeSlot } = await readEmbeddingTargets(ctx, departmentId);
+        const paginationOpts = { numItems: MIGRATION_PAGE_SIZE, cursor: migration.cursor ?? null };
+        const isStale = (row: Doc<"knowledgeBase"> | Doc<"tasks"> | Doc<"aiAssets"> | Doc<"agentMemories">) =>
+            !isSlotEmbeddingCurrent(row, writeSlot, migration.targetModel);
+        let items: MigrationItem[];
+        let page: { continueCursor: string; isDone: boolean };
+        switch (migration.phase) {
+            case "knowledge": {
+                const result = await ctx.db
+                    .query("knowledgeBase")
+                    .withIndex("by_department_createdAt", (q) => q.eq("departmentId", departmentId))
+                    .paginate(paginationOpts);
+                items = result.page.filter(isStale).map((row) => ({ id: row._id, version: row.version ?? 1 }));
+                page = result;
+                break;
+            }
+            case "tasks": {
+                const result = await ctx.db
+                    .query("tasks")
+                    .withIndex("by_departmentId", (q) => q.eq("departmentId", departmentId))
+                    .paginate(paginationOpts);
+                items = result.page.filter(isStale).map((row) => ({ id: row._id }));
+                page = result;
+                break;
+            }
+            case "assets": {
+                const result = await ctx.db
+                    .query("aiAssets")
+                    .withIndex("by_department_taskId", (q) => q.eq("departmentId", departmentId))
+                    .paginate(paginationOpts);
+                items = result.page.filter(isStale).map((row) => ({ id: row._id }));
+                page = result;
+                break;
+            }
+            case "memories": {
+                const result = await ctx.db
+                    .query("agentMemories")
+                    .withIndex("by_department_createdAt", (q) => q.eq("departmentId", departmentId))
+                    .paginate(paginationOpts);
+                items = result.page.filter(isStale).map((row) => ({ id: row._id, text: row.content }));
+                page = result;
+                break;
+            }
+        }
+        return { migration, items, continueCursor: page.continueCursor, isDone: page.isDone };
+    },
+});
+
+/**
+ * internal:embeddings:recordMigrationProgress
+ * With `activate`, searches of the department switch to that slot and provider.
+ */
+export const recordMigrationProgress = internalMutation({
+    args: {
+        migrationId: v.id("embeddingMigrations"),
+        status: v.union(v.literal("running"), v.literal("done"), v.literal("failed")),
+        phase: v.union(v.literal("knowledge"), v.literal("tasks"), v.literal("assets"), v.literal("memories")),
+        cursor: v.optional(v.string()),
+        processed: v.number(),
+        failed: v.number(),
+        lastError: v.optional(v.string()),
+        activate: v.optional(v.object({ slot: embeddingSlotValidator, settings: embeddingSettingsValidator })),
+    },
+    handler: async (ctx, args) => {
+        const migration = await ctx.db.get("embeddingMigrations", args.migrationId);
+        if (!migration || migration.status !== "running") return { running: false };
+        if (args.activate) {
+            const serving = {
+                activeSlot: args.activate.slot,
+                servingModel: embeddingModelId(args.activate.settings),
+                servingSettings: args.activate.settings,
+                updatedAt: Date.now(),
+            };
+            const index = await ctx.db
+                .query("embeddingIndexes")
+                .withIndex("by_departmentId", (q) => q.eq("departmentId", migration.departmentId))
+                .unique();
+            if (index) {
+                await ctx.db.patch("embeddingIndexes", index._id, serving);
+            } else {
+                await ctx.db.insert("embeddingIndexes", { departmentId: migration.departmentId, ...serving });
+            }
+        }
+        await ctx.db.patch("embeddingMigrations", args.migrationId, {
+            status: args.status,
+            phase: args.phase,
+            cursor: args.cursor,
+            processed: migration.processed + args.processed,
+            failed: migration.failed + args.failed,
+            lastError: args.lastError ?? migration.lastError,
+            finishedAt: args.status === "running" ? undefined : Date.now(),
+        });
+        return { running: args.status === "running" };
+    },
+});
+
+/**
+ * internal:embeddings:migrateStep
+ * Re-embeds one page of stale rows, then schedules the next page or phase.
+ * A migration into the inactive slot switches reads to it at the end, unless
+ * some row failed: then searches stay where they are until it is run again.
+ */
+export const migrateStep = internalAction({
+    args: { migrationId: v.id("embeddingMigrations") },
+    handler: async (ctx, args): Promise<void> => {
+        const page = await ctx.runQuery(internal.embeddings.getMigrationPage, { migrationId: args.migrationId });
+        if (!page) return;
+        const { migration } = page;
+
+        const targets = await resolveEmbeddingTargets(ctx, migration.departmentId);
+        const settings = targets.configured;
+        if (!settings || embeddingModelId(settings) !== migration.targetModel) {
+            await ctx.runMutation(internal.embeddings.recordMigrationProgress, {
+                migrationId: args.migrationId,
+                status: "failed",
+                phase: migration.phase,
+                cursor: migration.cursor,
+                processed: 0,
+                failed: 0,
+                lastError: "The embedding provider changed during the migration. Start it again.",
+            });
+            return;
+        }
+        // Only the slot searches do not read is written; the active one stays as it is.
+        const slot = targets.writeSlot !== targets.activeSlot ? targets.writeSlot : undefined;
+
+        let processed = 0;
+        let failed = 0;
+        let lastError: string | undefined;
+        for (const item of page.items) {
+            try {
+                if (migration.phase === "knowledge") {
+                    if (slot) {
+                        await ctx.runAction(internal.knowledge.reembedEntry, {
+                            knowledgeId: item.id as Id<"knowledgeBase">,
+                            version: item.version,
+                            slot,
+                        });
+                    } else {
+                        await ctx.runAction(internal.knowledge.reindexEntry, {
+                            knowledgeId: item.id as Id<"knowledgeBase">,
+                            version: item.version,
+                        });
+                    }
+                } else if (migration.phase === "tasks") {
+                    await ctx.runAction(internal.memory.embedTask, { taskId: item.id as Id<"tasks">, slot });
+                } else if (migration.phase === "assets") {
+                    await ctx.runAction(internal.memory.embedDocument, { documentId: item.id as Id<"aiAssets">, slot });
+                } else {
+                    const [embedding] = await embedTexts(ctx, settings, [item.text ?? ""], {
+                        departmentId: migration.departmentId,
+                        source: "embeddings.migrate",
+                    });
+                    if (!embedding) throw new Error("The embedding provider returned an empty vector.");
+                    const write = { vector: embedding, model: migration.targetModel };
+                    await ctx.runMutation(internal.agentMemories.saveEmbedding, {
+                        id: item.id as Id<"agentMemories">,
+                        writes: slot ? { [slot]: write } : { [targets.activeSlot]: write, [otherEmbeddingSlot(targets.activeSlot)]: null },
+                    });
+                }
+                processed++;
+            } catch (error: any) {
+                failed++;
+                lastError = String(error?.message || error).slice(0, 500);
+            }
+        }
+
+        const nextPhase = MIGRATION_PHASES[MIGRATION_PHASES.indexOf(migration.phase) + 1];
+        const finished = page.isDone && !nextPhase;
+        const totalFailed = migration.failed + failed;
+        const incomplete = finished && slot !== undefined && totalFailed > 0;
+        const servingModel = targets.serving ? embeddingModelId(targets.serving) : "the previous model";
+        const { running } = await ctx.runMutation(internal.embeddings.recordMigrationProgress, {
+            migrationId: args.migrationId,
+            status: finished ? (incomplete ? "failed" : "done") : "running",
+            phase: page.isDone && nextPhase ? nextPhase : migration.phase,
+            cursor: page.isDone ? undefined : page.continueCursor,
+            processed,
+            failed,
+            lastError: incomplete
+                ? `${totalFailed} rows could not be re-embedded, so searches still use ${servingModel}. Start the migration again to retry them.`
+                : lastError,
+            activate: finished && slot && !incomplete ? { slot, settings } : undefined,
+        });
+        if (running) {
+            await ctx.scheduler.runAfter(0, internal.embeddings.migrateStep, { migrationId: args.migrationId });
+        }
+    },
+});
@@ -1,7 +1,13 @@
 import { mutation } from "./_generated/server";
 import { v } from "convex/values";
 
-function isMachineMessage(m: { fromSessionKey: string; content: string }, executorSessionKey: string) {
+function isMachineMessage(
+    m: { fromSessionKey: string; content: string; isDraft?: boolean },
+    executorSessionKey: string
+) {
+    // Rascunho em streaming ainda não é uma mensagem do thread
+    if (m.isDraft) return true;
+
     // Exclui qualquer coisa escrita pelo próprio executor
     if (m.fromSessionKey === executorSessionKey) return true;
 
@@ -13,6 +13,8 @@ import { v } from "convex/values";
 import { api, internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
 import { assertIntegrationAllowed } from "./plans";
+import { pinEmbeddingSettings } from "./embeddings";
+import { EMBEDDING_PROVIDERS, normalizeEmbeddingProvider } from "./lib/embeddings";
 import {
     requireAuthenticatedUser,
     requireDepartmentOrgAdminMembership,
@@ -36,7 +38,8 @@ type IntegrationType =
     | "notion"
     | "twitter"
     | "upwork"
-    | "dalle";
+    | "dalle"
+    | "embeddings";
 
 type IntegrationConfig = Record<string, unknown>;
 
@@ -117,6 +120,19 @@ function validateIntegrationConfig(type: IntegrationType, config: unknown) {
             requireFields(["token"]);
             break;
 
+        case "embeddings": {
+            const provider = normalizeEmbeddingProvider(cfg.provider);
+            if (!provider) {
+                throw new Error(
+                    `Unknown embedding provider. Use one of: ${Object.keys(EMBEDDING_PROVIDERS).join(", ")}`
+                );
+            }
+            // Local servers often run without a key; hosted providers need one.
+            if (provider === "local") requireFields(["baseUrl"]);
+            else requireOneOf(["apiKey", "key", "token"]);
+            break;
+        }
+
         default:
             break;
     }
@@ -126,6 +142,16 @@ function isDepartmentScopedIntegration(type: IntegrationType): boolean {
     return type === "telegram";
 }
 
+// Searches of every department keep the provider that embedded their vectors until a migration replaces it.
+async function pinOrgEmbeddingSettings(ctx: MutationCtx, orgId: Id<"organizations">, type: IntegrationType): Promise<void> {
+    if (type !== "openai" && type !== "embeddings") return;
+    const departments = await ctx.db
+        .query("departments")
+        .withIndex("by_orgId", (q) => q.eq("orgId", orgId))
+        .collect();
+    await pinEmbeddingSettings(ctx, departments.map((department) => department._id));
+}
+
 async function assertActionOrgAdmin(
     ctx: ActionCtx,
     orgId: Id<"organizations">
@@ -183,7 +209,8 @@ export const getByDepartmentType = query({
             v.literal("notion"),
             v.literal("twitter"),
             v.literal("upwork"),
-            v.literal("dalle")
+            v.literal("dalle"),
+            v.literal("embeddings")
         ),
     },
     handler: async (ctx, args) => {
@@ -239,7 +266,8 @@ export const upsert = mutation({
             v.literal("notion"),
             v.literal("twitter"),
             v.literal("upwork"),
-            v.literal("dalle")
+            v.literal("dalle"),
+            v.literal("embeddings")
         ),
         config: v.any(),
         authType: v.optional(v.string()),
@@ -306,6 +334,7 @@ export const upsert = mutation({
             ...(isDepartmentScopedIntegration(type) ? { departmentId: resolvedDepartmentId } : { departmentId: undefined }),
         };
 
+        await pinOrgEmbeddingSettings(ctx, resolvedOrgId, type);
         if (integration) {
             await ctx.db.patch(integration._id, patchBase);
         } else {
@@ -358,6 +387,7 @@ export const remove = mutation({
         }
 
         await requireOrgAdminMembership(ctx, userId, orgId);
+        await pinOrgEmbeddingSettings(ctx, orgId, integration.type as IntegrationType);
         await ctx.db.delete(args.id);
         return true;
     },
@@ -398,7 +428,8 @@ export const getByType = internalQuery({
             v.literal("notion"),
             v.literal("twitter"),
             v.literal("upwork"),
-            v.literal("dalle")
+            v.literal("dalle"),
+            v.literal("embeddings")
         ),
     },
     handler: async (ctx, args) => {
@@ -426,7 +457,8 @@ export const getByTypeForDepartment = internalQuery({
             v.literal("notion"),
             v.literal("twitter"),
             v.literal("upwork"),
-            v.literal("dalle")
+            v.literal("dalle"),
+            v.literal("embeddings")
         ),
     },
     handler: async (ctx, args) => {
@@ -624,7 +656,8 @@ export const patchConfigForDepartment = internalMutation({
             v.literal("notion"),
             v.literal("twitter"),
             v.literal("upwork"),
-            v.literal("dalle")
+            v.literal("dalle"),
+            v.literal("embeddings")
         ),
         patch: v.any(),
         authType: v.optional(v.string()),
@@ -745,7 +778,8 @@ export const patchConfigForOrg = internalMutation({
             v.literal("notion"),
             v.literal("twitter"),
             v.literal("upwork"),
-            v.literal("dalle")
+            v.literal("dalle"),
+            v.literal("embeddings")
         ),
         patch: v.any(),
         authType: v.optional(v.string()),
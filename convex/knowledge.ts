@@ -1,45 +1,317 @@
-import { action, internalMutation, mutation, query } from "./_generated/server";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type ActionCtx,
+  type MutationCtx,
+} from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
-import type { Id } from "./_generated/dataModel";
-import OpenAI from "openai";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
 import { checkLimit } from "./plans";
+import { embedForStorage, embedTexts, resolveEmbeddingTargets, type EmbeddingUsage } from "./embeddings";
+import { chunkEmbeddingInput, chunkKnowledgeText } from "./lib/knowledgeChunks";
+import {
+  embeddingModelId,
+  embeddingSlotValidator,
+  slotModelsPatch,
+  slotWritesPatch,
+  slotWritesValidator,
+  type EmbeddingSettings,
+  type SlotModels,
+} from "./lib/embeddings";
+import { bumpEmbeddingCount, dropEmbeddingCounts, moveSlotEmbeddingCounts } from "./lib/embeddingCounts";
+import { chunkScopeFields } from "./lib/knowledgeScope";
+import {
+  requireAuthenticatedUser,
+  requireDepartmentOrgAdminMembership,
+  requireDepartmentOrgMembership,
+  requireOrgAdminMembership,
+  requireOrgMembership,
+} from "./lib/orgAuthorization";
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
-const MAX_TEXT_LENGTH = 3500;
+// Inputs per embeddings request, and chunk rows per insert mutation.
+const EMBEDDING_BATCH_SIZE = 64;
+const CHUNK_INSERT_BATCH_SIZE = 32;
+const MAX_EMBEDDING_INPUT_CHARS = 6000;
+
+/**
+ * Sharing options accepted when creating an entry (see lib/knowledgeScope).
+ */
+export const knowledgeSharingArgs = {
+  scope: v.optional(v.union(v.literal("department"), v.literal("org"))),
+  collectionId: v.optional(v.id("knowledgeCollections")),
+  overridesKnowledgeId: v.optional(v.id("knowledgeBase")),
+};
 
 function toEmbeddingInput(text: string): string {
   const normalized = text.replace(/\s+/g, " ").trim();
-  if (normalized.length <= MAX_TEXT_LENGTH) return normalized;
-  return normalized.slice(0, MAX_TEXT_LENGTH);
+  if (normalized.length <= MAX_EMBEDDING_INPUT_CHARS) return normalized;
+  return normalized.slice(0, MAX_EMBEDDING_INPUT_CHARS);
+}
+
+/**
+ * Versão mais agressiva de limpeza para casos onde o texto extraído do PDF vem muito sujo.
+ */
+function toAggressiveEmbeddingInput(text: string, maxChars: number): string {
+  const normalized = text
+    .replace(/\s+/g, " ")
+    .replace(/[^A-Za-zÀ-ÿ0-9\s.,;:!?()\-_/]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (normalized.length <= maxChars) return normalized;
+  return normalized.slice(0, maxChars);
+}
+
+/**
+ * Embeds a batch of chunk inputs in one request. When the batch is rejected
+ * (usually garbage extracted from a PDF), each input is retried alone with
+ * aggressive cleanup; inputs that still fail come back undefined.
+ */
+async function embedBatch(
+  ctx: ActionCtx,
+  settings: EmbeddingSettings,
+  usage: EmbeddingUsage,
+  inputs: string[]
+): Promise<Array<number[] | undefined>> {
+  try {
+    return await embedTexts(ctx, settings, inputs, usage);
+  } catch (error: any) {
+    console.warn("[Embedding] Lote falhou, tentando trecho a trecho:", error?.message || error);
+  }
+
+  const embeddings: Array<number[] | undefined> = [];
+  for (const input of inputs) {
+    const cleaned = toAggressiveEmbeddingInput(input, 2000);
+    if (!cleaned) {
+      embeddings.push(undefined);
+      continue;
+    }
+    try {
+      const [embedding] = await embedTexts(ctx, settings, [cleaned], usage);
+      embeddings.push(embedding);
+    } catch (error: any) {
+      console.warn("[Embedding] Trecho ignorado:", error?.message || error);
+      embeddings.push(undefined);
+    }
+  }
+  return embeddings;
 }
 
-async function createEmbedding(
-  ctx: any,
-  departmentId: Id<"departments">,
-  text: string
-): Promise<number[] | undefined> {
-  const integration: any = await ctx.runQuery(internal.integrations.getByTypeForDepartment, {
-    departmentId,
-    type: "openai",
+/**
+ * Replaces the chunks of a knowledge entry: splits the text, embeds every
+ * chunk with the department's embedding provider and stores them. Chunks are
+ * kept without embedding when no provider is configured, so lexical search
+ * still sees them.
+ * With `version`, the run stops writing as soon as the entry moves past that
+ * version, so overlapping re-indexes of a quickly edited entry never mix chunks.
+ */
+export async function indexKnowledgeChunks(
+  ctx: ActionCtx,
+  args: {
+    knowledgeId: Id<"knowledgeBase">;
+    departmentId: Id<"departments">;
+    title: string;
+    text: string;
+    source: string;
+    version?: number;
+  }
+): Promise<{ chunks: number; embedded: number }> {
+  const chunks = chunkKnowledgeText(args.text);
+  const cleared = await ctx.runMutation(internal.knowledge.clearChunks, {
+    knowledgeId: args.knowledgeId,
+    version: args.version,
   });
-  const apiKey = integration?.config?.key || process.env.OPENAI_API_KEY;
-  if (!apiKey) return undefined;
+  if (cleared.stale || chunks.length === 0) return { chunks: 0, embedded: 0 };
 
-  const openai = new OpenAI({ apiKey });
-  const input = toEmbeddingInput(text);
+  const targets = await resolveEmbeddingTargets(ctx, args.departmentId);
+  if (!targets.serving && !targets.configured) {
+    console.warn(`[knowledge] Sem provedor de embeddings para o departamento ${args.departmentId}; trechos salvos sem embedding.`);
+  }
+  const usage = { departmentId: args.departmentId, source: args.source };
 
-  try {
-    const result = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input,
+  let embedded = 0;
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const embeddings = await embedForStorage(
+      targets,
+      batch.map((chunk) => toEmbeddingInput(chunkEmbeddingInput(args.title, chunk))),
+      (settings, inputs) => embedBatch(ctx, settings, usage, inputs)
+    );
+    embedded += embeddings.filter((writes) => writes.a || writes.b).length;
+
+    for (let offset = 0; offset < batch.length; offset += CHUNK_INSERT_BATCH_SIZE) {
+      const inserted = await ctx.runMutation(internal.knowledge.insertChunks, {
+        knowledgeId: args.knowledgeId,
+        version: args.version,
+        chunks: batch.slice(offset, offset + CHUNK_INSERT_BATCH_SIZE).map((chunk, idx) => ({
+          chunkIndex: chunk.index,
+          heading: chunk.heading,
+          text: chunk.text,
+          embeddings: embeddings[offset + idx],
+        })),
+      });
+      if (inserted.stale) return { chunks: 0, embedded: 0 };
+    }
+  }
+
+  return { chunks: chunks.length, embedded };
+}
+
+async function deleteChunks(ctx: MutationCtx, knowledgeId: Id<"knowledgeBase">): Promise<number> {
+  const chunks = await ctx.db
+    .query("knowledgeChunks")
+    .withIndex("by_knowledge_chunkIndex", (q) => q.eq("knowledgeId", knowledgeId))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete("knowledgeChunks", chunk._id);
+  }
+  return chunks.length;
+}
+
+function sourceLabel(entry: Pick<Doc<"knowledgeBase">, "sourceId" | "fileStorageId">): string {
+  if (entry.sourceId) return "Sync";
+  return entry.fileStorageId ? "File" : "Manual";
+}
+
+function currentVersion(entry: Doc<"knowledgeBase">): number {
+  return entry.version ?? 1;
+}
+
+function isStaleVersion(entry: Doc<"knowledgeBase">, version: number | undefined): boolean {
+  return version !== undefined && currentVersion(entry) !== version;
+}
+
+async function deleteRevisions(ctx: MutationCtx, knowledgeId: Id<"knowledgeBase">): Promise<void> {
+  const revisions = await ctx.db
+    .query("knowledgeRevisions")
+    .withIndex("by_knowledge_version", (q) => q.eq("knowledgeId", knowledgeId))
+    .collect();
+  for (const revision of revisions) {
+    await ctx.db.delete("knowledgeRevisions", revision._id);
+  }
+}
+
+/**
+ * Deletes an entry with its stored file, chunks and revisions.
+ */
+export async function deleteKnowledgeEntry(ctx: MutationCtx, entry: Doc<"knowledgeBase">): Promise<void> {
+  if (entry.fileStorageId) {
+    await ctx.storage.delete(entry.fileStorageId);
+  }
+  await deleteChunks(ctx, entry._id);
+  await deleteRevisions(ctx, entry._id);
+  await ctx.db.delete("knowledgeBase", entry._id);
+  await dropEmbeddingCounts(ctx, entry.departmentId, "knowledge", entry);
+}
+
+// Entries created before versioning have no history yet: their current content becomes the first revision.
+async function ensureInitialRevision(ctx: MutationCtx, entry: Doc<"knowledgeBase">): Promise<void> {
+  const existing = await ctx.db
+    .query("knowledgeRevisions")
+    .withIndex("by_knowledge_version", (q) => q.eq("knowledgeId", entry._id))
+    .first();
+  if (existing) return;
+  await ctx.db.insert("knowledgeRevisions", {
+    knowledgeId: entry._id,
+    departmentId: entry.departmentId,
+    version: currentVersion(entry),
+    title: entry.title,
+    text: entry.text,
+    reason: "created",
+    createdAt: entry.createdAt,
+  });
+}
+
+// Org-wide entries are edited by org admins; department entries by any member.
+async function requireEditableEntry(ctx: MutationCtx, id: Id<"knowledgeBase">) {
+  const userId = await requireAuthenticatedUser(ctx);
+  const entry = await ctx.db.get("knowledgeBase", id);
+  if (!entry?.departmentId) throw new Error("Knowledge entry not found.");
+  if (entry.scope === "org" && entry.orgId) {
+    await requireOrgAdminMembership(ctx, userId, entry.orgId);
+  } else {
+    await requireDepartmentOrgMembership(ctx, userId, entry.departmentId);
+  }
+  return { userId, entry };
+}
+
+/**
+ * Copies the entry's sharing onto its chunks after the scope or collection changed.
+ */
+export async function syncChunkScope(ctx: MutationCtx, entry: Doc<"knowledgeBase">): Promise<void> {
+  const fields = chunkScopeFields(entry);
+  const chunks = await ctx.db
+    .query("knowledgeChunks")
+    .withIndex("by_knowledge_chunkIndex", (q) => q.eq("knowledgeId", entry._id))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.patch("knowledgeChunks", chunk._id, {
+      departmentId: fields.departmentId,
+      orgId: fields.orgId,
+      sharedOrgId: fields.sharedOrgId,
+      collectionId: fields.collectionId,
     });
-    return result.data?.[0]?.embedding;
-  } catch {
-    return undefined;
   }
 }
 
+async function requireCollectionInOrg(
+  ctx: MutationCtx,
+  collectionId: Id<"knowledgeCollections">,
+  orgId: Id<"organizations">
+): Promise<void> {
+  const collection = await ctx.db.get("knowledgeCollections", collectionId);
+  if (!collection || collection.orgId !== orgId) throw new Error("Knowledge collection not found.");
+}
+
+/**
+ * Stores a new version of an entry and, when the text changed, re-embeds it in the background.
+ * Callers that index the new version themselves pass `scheduleReindex: false`.
+ */
+export async function writeRevision(
+  ctx: MutationCtx,
+  entry: Doc<"knowledgeBase">,
+  next: {
+    title: string;
+    text: string;
+    reason: "edited" | "rollback" | "synced";
+    restoredFromVersion?: number;
+    authorUserId?: Id<"users">;
+  },
+  { scheduleReindex = true }: { scheduleReindex?: boolean } = {}
+): Promise<{ version: number; reembedding: boolean }> {
+  await ensureInitialRevision(ctx, entry);
+  const version = currentVersion(entry) + 1;
+  const now = Date.now();
+  await ctx.db.insert("knowledgeRevisions", {
+    knowledgeId: entry._id,
+    departmentId: entry.departmentId,
+    version,
+    title: next.title,
+    text: next.text,
+    reason: next.reason,
+    restoredFromVersion: next.restoredFromVersion,
+    authorUserId: next.authorUserId,
+    createdAt: now,
+  });
+  await ctx.db.patch("knowledgeBase", entry._id, {
+    title: next.title,
+    text: next.text,
+    version,
+    updatedAt: now,
+  });
+
+  const reembedding = next.text !== entry.text;
+  if (reembedding && scheduleReindex) {
+    await ctx.scheduler.runAfter(0, internal.knowledge.reindexEntry, { knowledgeId: entry._id, version });
+  }
+  return { version, reembedding };
+}
+
 export const createEntry = internalMutation({
   args: {
     title: v.string(),
@@ -55,6 +327,9 @@ export const createEntry = internalMutation({
         type: v.optional(v.string()),
       })
     ),
+    ...knowledgeSharingArgs,
+    sourceId: v.optional(v.id("knowledgeSources")),
+    sourceUrl: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const department = await ctx.db.get(args.departmentId);
@@ -62,23 +337,226 @@ export const createEntry = internalMutation({
     if (!orgId) throw new Error("Department has no organization linked.");
     await checkLimit(ctx, orgId, "docs");
 
+    const scope = args.scope === "org" ? "org" : undefined;
+    if (scope) {
+      const userId = await requireAuthenticatedUser(ctx);
+      await requireOrgAdminMembership(ctx, userId, orgId);
+      if (args.collectionId) await requireCollectionInOrg(ctx, args.collectionId, orgId);
+    } else if (args.collectionId) {
+      throw new Error("Only organization-wide knowledge can belong to a collection.");
+    }
+    if (args.overridesKnowledgeId) {
+      const overridden = await ctx.db.get("knowledgeBase", args.overridesKnowledgeId);
+      if (scope || overridden?.scope !== "org" || overridden.orgId !== orgId) {
+        throw new Error("Only organization-wide knowledge can be overridden by a department.");
+      }
+    }
+
     const now = Date.now();
     const id = await ctx.db.insert("knowledgeBase", {
       title: args.title,
       text: args.text,
       fileStorageId: args.fileStorageId,
-      orgId: args.orgId,
+      orgId,
       departmentId: args.departmentId,
+      scope,
+      collectionId: scope ? args.collectionId : undefined,
+      overridesKnowledgeId: args.overridesKnowledgeId,
+      sourceId: args.sourceId,
+      sourceUrl: args.sourceUrl,
       embedding: args.embedding,
       embeddingModel: args.embeddingModel,
       metadata: args.metadata,
       createdAt: now,
       updatedAt: now,
+      version: 1,
+    });
+    await bumpEmbeddingCount(ctx, args.departmentId, "knowledge", args.embeddingModel, 1);
+    await ctx.db.insert("knowledgeRevisions", {
+      knowledgeId: id,
+      departmentId: args.departmentId,
+      version: 1,
+      title: args.title,
+      text: args.text,
+      reason: "created",
+      authorUserId: (await getAuthUserId(ctx)) ?? undefined,
+      createdAt: now,
     });
     return { id };
   },
 });
 
+/**
+ * internal:knowledge:clearChunks
+ */
+export const clearChunks = internalMutation({
+  args: {
+    knowledgeId: v.id("knowledgeBase"),
+    version: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get("knowledgeBase", args.knowledgeId);
+    if (!entry || isStaleVersion(entry, args.version)) return { deleted: 0, stale: true };
+    const deleted = await deleteChunks(ctx, args.knowledgeId);
+    // The entry's slot tags describe its chunks, so they go with them (a legacy vector keeps its tag).
+    const cleared: SlotModels = entry.embedding ? { b: null } : { a: null, b: null };
+    await ctx.db.patch("knowledgeBase", args.knowledgeId, slotModelsPatch(cleared));
+    await moveSlotEmbeddingCounts(ctx, entry.departmentId, "knowledge", entry, cleared);
+    return { deleted, stale: false };
+  },
+});
+
+/**
+ * internal:knowledge:insertChunks
+ * Once an entry has embedded chunks, its legacy whole-document embedding is dropped
+ * so the entry is only retrieved through its chunks.
+ */
+export const insertChunks = internalMutation({
+  args: {
+    knowledgeId: v.id("knowledgeBase"),
+    version: v.optional(v.number()),
+    chunks: v.array(
+      v.object({
+        chunkIndex: v.number(),
+        heading: v.optional(v.string()),
+        text: v.string(),
+        embeddings: slotWritesValidator,
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get("knowledgeBase", args.knowledgeId);
+    if (!entry || isStaleVersion(entry, args.version)) return { inserted: 0, stale: true };
+
+    const now = Date.now();
+    for (const chunk of args.chunks) {
+      await ctx.db.insert("knowledgeChunks", {
+        knowledgeId: args.knowledgeId,
+        ...chunkScopeFields(entry),
+        chunkIndex: chunk.chunkIndex,
+        heading: chunk.heading,
+        text: chunk.text,
+        ...slotWritesPatch(chunk.embeddings),
+        createdAt: now,
+      });
+    }
+
+    const embedded: SlotModels = {};
+    for (const slot of ["a", "b"] as const) {
+      const write = args.chunks.find((chunk) => chunk.embeddings[slot])?.embeddings[slot];
+      if (write) embedded[slot] = write;
+    }
+    if (embedded.a || embedded.b) {
+      await ctx.db.patch("knowledgeBase", args.knowledgeId, { embedding: undefined, ...slotModelsPatch(embedded) });
+      await moveSlotEmbeddingCounts(ctx, entry.departmentId, "knowledge", entry, embedded);
+    }
+    return { inserted: args.chunks.length, stale: false };
+  },
+});
+
+/**
+ * internal:knowledge:listChunksForEmbedding
+ */
+export const listChunksForEmbedding = internalQuery({
+  args: { knowledgeId: v.id("knowledgeBase") },
+  handler: async (ctx, args) => {
+    const chunks = await ctx.db
+      .query("knowledgeChunks")
+      .withIndex("by_knowledge_chunkIndex", (q) => q.eq("knowledgeId", args.knowledgeId))
+      .collect();
+    return chunks.map((chunk) => ({ id: chunk._id, heading: chunk.heading, text: chunk.text }));
+  },
+});
+
+/**
+ * internal:knowledge:saveChunkEmbeddings
+ * Writes one slot of existing chunks. With `complete`, every chunk of the
+ * entry now has a vector there and the entry is tagged with the model.
+ */
+export const saveChunkEmbeddings = internalMutation({
+  args: {
+    knowledgeId: v.id("knowledgeBase"),
+    version: v.optional(v.number()),
+    slot: embeddingSlotValidator,
+    model: v.string(),
+    chunks: v.array(v.object({ id: v.id("knowledgeChunks"), vector: v.array(v.float64()) })),
+    complete: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get("knowledgeBase", args.knowledgeId);
+    if (!entry || isStaleVersion(entry, args.version)) return { stale: true };
+    for (const chunk of args.chunks) {
+      const existing = await ctx.db.get("knowledgeChunks", chunk.id);
+      if (existing?.knowledgeId !== args.knowledgeId) continue;
+      await ctx.db.patch("knowledgeChunks", chunk.id, slotWritesPatch({ [args.slot]: { vector: chunk.vector, model: args.model } }));
+    }
+    if (args.complete) {
+      const tagged: SlotModels = { [args.slot]: { model: args.model } };
+      await ctx.db.patch("knowledgeBase", args.knowledgeId, slotModelsPatch(tagged));
+      await moveSlotEmbeddingCounts(ctx, entry.departmentId, "knowledge", entry, tagged);
+    }
+    return { stale: false };
+  },
+});
+
+/**
+ * internal:knowledge:listUnchunked
+ * Entries created before chunking (or whose indexing never ran).
+ */
+export const listUnchunked = internalQuery({
+  args: { limit: v.number() },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db.query("knowledgeBase").collect();
+    const pending: Array<{ id: Id<"knowledgeBase">; departmentId: Id<"departments">; title: string; text: string }> = [];
+    for (const row of rows) {
+      if (pending.length >= args.limit) break;
+      if (!row.departmentId) continue;
+      const firstChunk = await ctx.db
+        .query("knowledgeChunks")
+        .withIndex("by_knowledge_chunkIndex", (q) => q.eq("knowledgeId", row._id))
+        .first();
+      if (firstChunk) continue;
+      pending.push({ id: row._id, departmentId: row.departmentId, title: row.title, text: row.text });
+    }
+    return pending;
+  },
+});
+
+/**
+ * internal:knowledge:backfillChunks
+ * Splits and embeds entries that predate knowledgeChunks. Dry run by default.
+ */
+export const backfillChunks = internalAction({
+  args: {
+    dryRun: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ dryRun: boolean; pending: number; indexed: number; chunks: number }> => {
+    const limit = Math.max(1, Math.min(args.limit ?? 50, 500));
+    const pending: Array<{ id: Id<"knowledgeBase">; departmentId: Id<"departments">; title: string; text: string }> =
+      await ctx.runQuery(internal.knowledge.listUnchunked, { limit });
+    if (args.dryRun ?? true) {
+      return { dryRun: true, pending: pending.length, indexed: 0, chunks: 0 };
+    }
+
+    let chunks = 0;
+    for (const entry of pending) {
+      const result = await indexKnowledgeChunks(ctx, {
+        knowledgeId: entry.id,
+        departmentId: entry.departmentId,
+        title: entry.title,
+        text: entry.text,
+        source: "knowledge.backfillChunks",
+      });
+      chunks += result.chunks;
+    }
+    return { dryRun: false, pending: pending.length, indexed: pending.length, chunks };
+  },
+});
+
 export const listByDepartment = query({
   args: {
     departmentId: v.id("departments"),
@@ -92,13 +570,96 @@ export const listByDepartment = query({
       .order("desc")
       .take(limit);
 
-    return rows.map((row) => ({
+    return rows
+      .filter((row) => row.scope !== "org")
+      .map((row) => ({
+        ...row,
+        source: sourceLabel(row),
+      }));
+  },
+});
+
+/**
+ * Organization-wide entries, with their collection and, for `departmentId`,
+ * the department entry overriding each of them.
+ */
+export const listOrgShared = query({
+  args: {
+    orgId: v.id("organizations"),
+    departmentId: v.optional(v.id("departments")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    await requireOrgMembership(ctx, userId, args.orgId);
+
+    const [rows, collections, departmentRows] = await Promise.all([
+      ctx.db
+        .query("knowledgeBase")
+        .withIndex("by_org_scope_createdAt", (q) => q.eq("orgId", args.orgId).eq("scope", "org"))
+        .order("desc")
+        .collect(),
+      ctx.db
+        .query("knowledgeCollections")
+        .withIndex("by_orgId", (q) => q.eq("orgId", args.orgId))
+        .collect(),
+      args.departmentId
+        ? ctx.db
+            .query("knowledgeBase")
+            .withIndex("by_department_createdAt", (q) => q.eq("departmentId", args.departmentId))
+            .collect()
+        : Promise.resolve([]),
+    ]);
+    const collectionNames = new Map(collections.map((collection) => [collection._id, collection.name]));
+    const overrides = new Map(
+      departmentRows
+        .filter((row) => row.overridesKnowledgeId)
+        .map((row) => [row.overridesKnowledgeId, row._id])
+    );
+
+    return rows.map(({ embedding: _embedding, ...row }) => ({
       ...row,
-      source: row.fileStorageId ? "File" : "Manual",
+      source: sourceLabel(row),
+      collectionName: row.collectionId ? collectionNames.get(row.collectionId) ?? null : null,
+      overriddenBy: overrides.get(row._id) ?? null,
     }));
   },
 });
 
+/**
+ * Moves an entry between department, organization-wide and collection sharing.
+ * Anything involving organization-wide sharing needs an org admin.
+ */
+export const setSharing = mutation({
+  args: {
+    id: v.id("knowledgeBase"),
+    scope: v.union(v.literal("department"), v.literal("org")),
+    collectionId: v.optional(v.id("knowledgeCollections")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    const entry = await ctx.db.get("knowledgeBase", args.id);
+    if (!entry?.departmentId) throw new Error("Knowledge entry not found.");
+    const { department } = await requireDepartmentOrgAdminMembership(ctx, userId, entry.departmentId);
+
+    const scope = args.scope === "org" ? ("org" as const) : undefined;
+    if (!scope && args.collectionId) {
+      throw new Error("Only organization-wide knowledge can belong to a collection.");
+    }
+    if (args.collectionId) await requireCollectionInOrg(ctx, args.collectionId, department.orgId);
+
+    const next = {
+      orgId: department.orgId,
+      scope,
+      collectionId: scope ? args.collectionId : undefined,
+      overridesKnowledgeId: scope ? undefined : entry.overridesKnowledgeId,
+      updatedAt: Date.now(),
+    };
+    await ctx.db.patch("knowledgeBase", entry._id, next);
+    await syncChunkScope(ctx, { ...entry, ...next });
+    return { ok: true };
+  },
+});
+
 export const remove = mutation({
   args: {
     id: v.id("knowledgeBase"),
@@ -106,16 +667,207 @@ export const remove = mutation({
   handler: async (ctx, args) => {
     const row = await ctx.db.get(args.id);
     if (!row) return { ok: true, deleted: false };
-
-    if (row.fileStorageId) {
-      await ctx.storage.delete(row.fileStorageId);
+    if (row.scope === "org" && row.orgId) {
+      await requireOrgAdminMembership(ctx, await requireAuthenticatedUser(ctx), row.orgId);
     }
 
-    await ctx.db.delete(args.id);
+    await deleteKnowledgeEntry(ctx, row);
     return { ok: true, deleted: true };
   },
 });
 
+/**
+ * Saves an edit as a new version. Changing the text re-embeds the entry.
+ */
+export const update = mutation({
+  args: {
+    id: v.id("knowledgeBase"),
+    title: v.string(),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, entry } = await requireEditableEntry(ctx, args.id);
+    const title = args.title.trim() || entry.title;
+    const text = args.text.trim();
+    if (!text) throw new Error("Knowledge text cannot be empty.");
+    if (title === entry.title && text === entry.text) {
+      return { version: currentVersion(entry), changed: false, reembedding: false };
+    }
+
+    const result = await writeRevision(ctx, entry, { title, text, reason: "edited", authorUserId: userId });
+    return { ...result, changed: true };
+  },
+});
+
+/**
+ * Restores an earlier version. The restore is itself a new version, so history is never rewritten.
+ */
+export const rollback = mutation({
+  args: {
+    id: v.id("knowledgeBase"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, entry } = await requireEditableEntry(ctx, args.id);
+    if (args.version === currentVersion(entry)) {
+      throw new Error("This version is already the current one.");
+    }
+    const target = await ctx.db
+      .query("knowledgeRevisions")
+      .withIndex("by_knowledge_version", (q) => q.eq("knowledgeId", args.id).eq("version", args.version))
+      .unique();
+    if (!target) throw new Error("Version not found.");
+
+    return await writeRevision(ctx, entry, {
+      title: target.title,
+      text: target.text,
+      reason: "rollback",
+      restoredFromVersion: target.version,
+      authorUserId: userId,
+    });
+  },
+});
+
+/**
+ * Version history of an entry, newest first.
+ */
+export const listRevisions = query({
+  args: { id: v.id("knowledgeBase") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    const entry = await ctx.db.get("knowledgeBase", args.id);
+    if (!entry?.departmentId) throw new Error("Knowledge entry not found.");
+    await requireDepartmentOrgMembership(ctx, userId, entry.departmentId);
+
+    const revisions = await ctx.db
+      .query("knowledgeRevisions")
+      .withIndex("by_knowledge_version", (q) => q.eq("knowledgeId", args.id))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      revisions.map(async (revision) => {
+        const author = revision.authorUserId ? await ctx.db.get("users", revision.authorUserId) : null;
+        return {
+          ...revision,
+          authorName: author?.name ?? author?.email ?? null,
+          isCurrent: revision.version === currentVersion(entry),
+        };
+      })
+    );
+  },
+});
+
+/**
+ * internal:knowledge:getEntryForIndexing
+ */
+export const getEntryForIndexing = internalQuery({
+  args: { knowledgeId: v.id("knowledgeBase") },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get("knowledgeBase", args.knowledgeId);
+    if (!entry?.departmentId) return null;
+    return {
+      departmentId: entry.departmentId,
+      title: entry.title,
+      text: entry.text,
+      version: currentVersion(entry),
+    };
+  },
+});
+
+/**
+ * internal:knowledge:reindexEntry
+ * Re-chunks and re-embeds one entry at `version` (skipped once a newer version exists).
+ */
+export const reindexEntry = internalAction({
+  args: {
+    knowledgeId: v.id("knowledgeBase"),
+    version: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ chunks: number; embedded: number }> => {
+    const entry = await ctx.runQuery(internal.knowledge.getEntryForIndexing, { knowledgeId: args.knowledgeId });
+    if (!entry) return { chunks: 0, embedded: 0 };
+    if (args.version !== undefined && args.version !== entry.version) return { chunks: 0, embedded: 0 };
+
+    return await indexKnowledgeChunks(ctx, {
+      knowledgeId: args.knowledgeId,
+      departmentId: entry.departmentId,
+      title: entry.title,
+      text: entry.text,
+      source: "knowledge.reindex",
+      version: entry.version,
+    });
+  },
+});
+
+/**
+ * internal:knowledge:reembedEntry
+ * Embeds the existing chunks of one entry into `slot` with the configured
+ * model, leaving the slot searches read as it is (see embeddings.migrateStep).
+ * Entries without chunks are indexed from scratch. Throws when a chunk could
+ * not be embedded, so the entry stays pending.
+ */
+export const reembedEntry = internalAction({
+  args: {
+    knowledgeId: v.id("knowledgeBase"),
+    version: v.optional(v.number()),
+    slot: embeddingSlotValidator,
+  },
+  handler: async (ctx, args): Promise<{ chunks: number; embedded: number }> => {
+    const entry = await ctx.runQuery(internal.knowledge.getEntryForIndexing, { knowledgeId: args.knowledgeId });
+    if (!entry) return { chunks: 0, embedded: 0 };
+    if (args.version !== undefined && args.version !== entry.version) return { chunks: 0, embedded: 0 };
+
+    const chunks = await ctx.runQuery(internal.knowledge.listChunksForEmbedding, { knowledgeId: args.knowledgeId });
+    if (chunks.length === 0) {
+      return await indexKnowledgeChunks(ctx, {
+        knowledgeId: args.knowledgeId,
+        departmentId: entry.departmentId,
+        title: entry.title,
+        text: entry.text,
+        source: "knowledge.reindex",
+        version: entry.version,
+      });
+    }
+
+    const { configured } = await resolveEmbeddingTargets(ctx, entry.departmentId);
+    if (!configured) throw new Error("No embedding provider is configured for this department.");
+    const model = embeddingModelId(configured);
+
+    let embedded = 0;
+    for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const vectors = await embedBatch(
+        ctx,
+        configured,
+        { departmentId: entry.departmentId, source: "knowledge.reindex" },
+        batch.map((chunk) => toEmbeddingInput(chunkEmbeddingInput(entry.title, chunk)))
+      );
+      for (let offset = 0; offset < batch.length; offset += CHUNK_INSERT_BATCH_SIZE) {
+        const saved = batch.slice(offset, offset + CHUNK_INSERT_BATCH_SIZE).flatMap((chunk, idx) => {
+          const vector = vectors[offset + idx];
+          return vector ? [{ id: chunk.id, vector }] : [];
+        });
+        embedded += saved.length;
+        const result = await ctx.runMutation(internal.knowledge.saveChunkEmbeddings, {
+          knowledgeId: args.knowledgeId,
+          version: entry.version,
+          slot: args.slot,
+          model,
+          chunks: saved,
+          complete: embedded === chunks.length,
+        });
+        if (result.stale) return { chunks: 0, embedded: 0 };
+      }
+    }
+
+    if (embedded < chunks.length) {
+      throw new Error(`${chunks.length - embedded} of ${chunks.length} chunks could not be embedded.`);
+    }
+    return { chunks: chunks.length, embedded };
+  },
+});
+
 export const generateUploadUrl = mutation({
   args: {},
   handler: async (ctx) => {
@@ -128,6 +880,7 @@ export const ingestText = action({
     departmentId: v.id("departments"),
     title: v.string(),
     text: v.string(),
+    ...knowledgeSharingArgs,
   },
   handler: async (ctx, args): Promise<{ id: Id<"knowledgeBase"> }> => {
     const cleanText = args.text.trim();
@@ -137,16 +890,24 @@ export const ingestText = action({
       departmentId: args.departmentId,
     });
 
-    const embedding = await createEmbedding(ctx, args.departmentId, cleanText);
-
+    const title = args.title || "Manual Knowledge";
     const result = await ctx.runMutation(internal.knowledge.createEntry, {
-      title: args.title || "Manual Knowledge",
+      title,
       text: cleanText,
       departmentId: args.departmentId,
       orgId: department?.orgId,
-      embedding,
-      embeddingModel: embedding ? EMBEDDING_MODEL : undefined,
       metadata: { type: "text/manual" },
+      scope: args.scope,
+      collectionId: args.collectionId,
+      overridesKnowledgeId: args.overridesKnowledgeId,
+    });
+
+    await indexKnowledgeChunks(ctx, {
+      knowledgeId: result.id,
+      departmentId: args.departmentId,
+      title,
+      text: cleanText,
+      source: "knowledge.ingestText",
     });
 
     return { id: result.id };
@@ -0,0 +1,182 @@
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { syncChunkScope } from "./knowledge";
+import { MAX_AGENT_COLLECTIONS } from "./lib/knowledgeScope";
+import { requireAuthenticatedUser, requireOrgAdminMembership, requireOrgMembership } from "./lib/orgAuthorization";
+
+async function requireCollectionAdmin(ctx: MutationCtx, id: Id<"knowledgeCollections">) {
+  const userId = await requireAuthenticatedUser(ctx);
+  const collection = await ctx.db.get("knowledgeCollections", id);
+  if (!collection) throw new Error("Knowledge collection not found.");
+  await requireOrgAdminMembership(ctx, userId, collection.orgId);
+  return collection;
+}
+
+function cleanName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Collection name is required.");
+  return trimmed.slice(0, 80);
+}
+
+/**
+ * Collections of an organization with their entry count and attached agents.
+ */
+export const list = query({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    await requireOrgMembership(ctx, userId, args.orgId);
+
+    const collections = await ctx.db
+      .query("knowledgeCollections")
+      .withIndex("by_orgId", (q) => q.eq("orgId", args.orgId))
+      .collect();
+
+    return await Promise.all(
+      collections
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(async (collection) => {
+          const entries = await ctx.db
+            .query("knowledgeBase")
+            .withIndex("by_collectionId", (q) => q.eq("collectionId", collection._id))
+            .collect();
+          return { ...collection, entryCount: entries.length };
+        })
+    );
+  },
+});
+
+/**
+ * Agents of every department in the organization, for attaching collections.
+ */
+export const listAgents = query({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    await requireOrgMembership(ctx, userId, args.orgId);
+
+    const departments = await ctx.db
+      .query("departments")
+      .withIndex("by_orgId", (q) => q.eq("orgId", args.orgId))
+      .collect();
+    const perDepartment = await Promise.all(
+      departments.map(async (department) => {
+        const agents = await ctx.db
+          .query("agents")
+          .withIndex("by_departmentId", (q) => q.eq("departmentId", department._id))
+          .collect();
+        return agents.map((agent) => ({
+          _id: agent._id,
+          name: agent.name,
+          departmentName: department.name,
+          knowledgeCollectionIds: agent.knowledgeCollectionIds ?? [],
+        }));
+      })
+    );
+    return perDepartment.flat();
+  },
+});
+
+export const create = mutation({
+  args: {
+    orgId: v.id("organizations"),
+    name: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    await requireOrgAdminMembership(ctx, userId, args.orgId);
+    const now = Date.now();
+    const id = await ctx.db.insert("knowledgeCollections", {
+      orgId: args.orgId,
+      name: cleanName(args.name),
+      description: args.description?.trim() || undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { id };
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("knowledgeCollections"),
+    name: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireCollectionAdmin(ctx, args.id);
+    await ctx.db.patch("knowledgeCollections", args.id, {
+      name: cleanName(args.name),
+      description: args.description?.trim() || undefined,
+      updatedAt: Date.now(),
+    });
+    return { ok: true };
+  },
+});
+
+/**
+ * Deletes a collection. Its entries stay shared with the whole organization.
+ */
+export const remove = mutation({
+  args: { id: v.id("knowledgeCollections") },
+  handler: async (ctx, args) => {
+    const collection = await requireCollectionAdmin(ctx, args.id);
+
+    const entries = await ctx.db
+      .query("knowledgeBase")
+      .withIndex("by_collectionId", (q) => q.eq("collectionId", args.id))
+      .collect();
+    for (const entry of entries) {
+      await ctx.db.patch("knowledgeBase", entry._id, { collectionId: undefined });
+      await syncChunkScope(ctx, { ...entry, collectionId: undefined });
+    }
+
+    const departments = await ctx.db
+      .query("departments")
+      .withIndex("by_orgId", (q) => q.eq("orgId", collection.orgId))
+      .collect();
+    for (const department of departments) {
+      const agents = await ctx.db
+        .query("agents")
+        .withIndex("by_departmentId", (q) => q.eq("departmentId", department._id))
+        .collect();
+      for (const agent of agents) {
+        if (!agent.knowledgeCollectionIds?.includes(args.id)) continue;
+        await ctx.db.patch("agents", agent._id, {
+          knowledgeCollectionIds: agent.knowledgeCollectionIds.filter((id) => id !== args.id),
+        });
+      }
+    }
+
+    await ctx.db.delete("knowledgeCollections", args.id);
+    return { ok: true, detachedEntries: entries.length };
+  },
+});
+
+/**
+ * Attaches or detaches one collection for an agent of the organization.
+ */
+export const setAgentAccess = mutation({
+  args: {
+    id: v.id("knowledgeCollections"),
+    agentId: v.id("agents"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const collection = await requireCollectionAdmin(ctx, args.id);
+    const agent = await ctx.db.get("agents", args.agentId);
+    const department = agent?.departmentId ? await ctx.db.get("departments", agent.departmentId) : null;
+    if (!agent || department?.orgId !== collection.orgId) throw new Error("Agent not found.");
+
+    const current = (agent.knowledgeCollectionIds ?? []).filter((id) => id !== args.id);
+    if (args.enabled && current.length >= MAX_AGENT_COLLECTIONS) {
+      throw new Error(`An agent can use at most ${MAX_AGENT_COLLECTIONS} knowledge collections.`);
+    }
+    await ctx.db.patch("agents", agent._id, {
+      knowledgeCollectionIds: args.enabled ? [...current, args.id] : current,
+    });
+    return { ok: true };
+  },
+});
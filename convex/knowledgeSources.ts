@@ -0,0 +1,296 @@
+import { internalMutation, internalQuery, mutation, query, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { deleteKnowledgeEntry, writeRevision } from "./knowledge";
+import {
+  requireAuthenticatedUser,
+  requireDepartmentOrgAdminMembership,
+  requireDepartmentOrgMembership,
+} from "./lib/orgAuthorization";
+
+/**
+ * External knowledge sources (a page, an RSS feed or a sitemap) synced into
+ * knowledgeBase by the knowledge-source-sync cron. Fetching and extraction
+ * run in knowledgeSourcesNode.syncSource.
+ */
+
+const sourceKind = v.union(v.literal("url"), v.literal("rss"), v.literal("sitemap"));
+
+const DEFAULT_INTERVAL_HOURS = 24;
+const MIN_INTERVAL_HOURS = 1;
+const MAX_INTERVAL_HOURS = 24 * 30;
+// Delay between sources started by the same cron tick.
+const DISPATCH_STAGGER_MS = 10_000;
+// A sync still "running" this long after it was dispatched is assumed dead and may start again.
+const RUNNING_TIMEOUT_MS = 30 * 60 * 1000;
+
+function isSyncRunning(source: Doc<"knowledgeSources">, now: number): boolean {
+  return source.lastStatus === "running" && (source.syncStartedAt ?? 0) > now - RUNNING_TIMEOUT_MS;
+}
+
+function normalizeSourceUrl(input: string): string {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new Error("Invalid URL.");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Only http and https URLs can be synced.");
+  }
+  url.hash = "";
+  return url.toString();
+}
+
+async function requireSourceAdmin(ctx: MutationCtx, id: Id<"knowledgeSources">) {
+  const userId = await requireAuthenticatedUser(ctx);
+  const source = await ctx.db.get("knowledgeSources", id);
+  if (!source) throw new Error("Knowledge source not found.");
+  await requireDepartmentOrgAdminMembership(ctx, userId, source.departmentId);
+  return source;
+}
+
+export const listByDepartment = query({
+  args: { departmentId: v.id("departments") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+    const sources = await ctx.db
+      .query("knowledgeSources")
+      .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+      .collect();
+    return sources.sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+export const create = mutation({
+  args: {
+    departmentId: v.id("departments"),
+    kind: sourceKind,
+    url: v.string(),
+    title: v.optional(v.string()),
+    intervalHours: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuthenticatedUser(ctx);
+    const { department } = await requireDepartmentOrgAdminMembership(ctx, userId, args.departmentId);
+    const intervalHours = Math.round(
+      Math.max(MIN_INTERVAL_HOURS, Math.min(args.intervalHours ?? DEFAULT_INTERVAL_HOURS, MAX_INTERVAL_HOURS))
+    );
+
+    const now = Date.now();
+    const id = await ctx.db.insert("knowledgeSources", {
+      departmentId: args.departmentId,
+      orgId: department.orgId,
+      kind: args.kind,
+      url: normalizeSourceUrl(args.url),
+      title: args.title?.trim() || undefined,
+      enabled: true,
+      intervalHours,
+      lastStatus: "running",
+      syncStartedAt: now,
+      createdByUserId: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.knowledgeSourcesNode.syncSource, { sourceId: id });
+    return { id };
+  },
+});
+
+export const setEnabled = mutation({
+  args: {
+    id: v.id("knowledgeSources"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    await requireSourceAdmin(ctx, args.id);
+    await ctx.db.patch("knowledgeSources", args.id, { enabled: args.enabled, updatedAt: Date.now() });
+    return { ok: true };
+  },
+});
+
+export const syncNow = mutation({
+  args: { id: v.id("knowledgeSources") },
+  handler: async (ctx, args) => {
+    const source = await requireSourceAdmin(ctx, args.id);
+    const now = Date.now();
+    if (isSyncRunning(source, now)) return { scheduled: false };
+    await ctx.db.patch("knowledgeSources", args.id, { lastStatus: "running", syncStartedAt: now, updatedAt: now });
+    await ctx.scheduler.runAfter(0, internal.knowledgeSourcesNode.syncSource, { sourceId: args.id });
+    return { scheduled: true };
+  },
+});
+
+/**
+ * Removes a source. With `deletePages`, the entries it imported go too;
+ * otherwise they stay as ordinary knowledge.
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("knowledgeSources"),
+    deletePages: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    await requireSourceAdmin(ctx, args.id);
+    const pages = await ctx.db
+      .query("knowledgeBase")
+      .withIndex("by_source_url", (q) => q.eq("sourceId", args.id))
+      .collect();
+    for (const page of pages) {
+      if (args.deletePages) {
+        await deleteKnowledgeEntry(ctx, page);
+      } else {
+        await ctx.db.patch("knowledgeBase", page._id, { sourceId: undefined, contentHash: undefined });
+      }
+    }
+    await ctx.db.delete("knowledgeSources", args.id);
+    return { ok: true, pages: pages.length };
+  },
+});
+
+/**
+ * internal:knowledgeSources:dispatchDue
+ * Cron entry point: starts every enabled source whose interval has elapsed.
+ */
+export const dispatchDue = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const sources = await ctx.db
+      .query("knowledgeSources")
+      .withIndex("by_enabled", (q) => q.eq("enabled", true))
+      .collect();
+    const due = sources.filter((source) => {
+      if (isSyncRunning(source, now)) return false;
+      return (source.lastSyncAt ?? 0) + source.intervalHours * 60 * 60 * 1000 <= now;
+    });
+
+    for (let i = 0; i < due.length; i++) {
+      await ctx.db.patch("knowledgeSources", due[i]._id, {
+        lastStatus: "running",
+        syncStartedAt: now + i * DISPATCH_STAGGER_MS,
+      });
+      await ctx.scheduler.runAfter(i * DISPATCH_STAGGER_MS, internal.knowledgeSourcesNode.syncSource, {
+        sourceId: due[i]._id,
+      });
+    }
+    return { dispatched: due.length };
+  },
+});
+
+/**
+ * internal:knowledgeSources:getSource
+ */
+export const getSource = internalQuery({
+  args: { sourceId: v.id("knowledgeSources") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("knowledgeSources", args.sourceId);
+  },
+});
+
+/**
+ * internal:knowledgeSources:listPages
+ * Content hash of every page imported so far, keyed by URL.
+ */
+export const listPages = internalQuery({
+  args: { sourceId: v.id("knowledgeSources") },
+  handler: async (ctx, args) => {
+    const pages = await ctx.db
+      .query("knowledgeBase")
+      .withIndex("by_source_url", (q) => q.eq("sourceId", args.sourceId))
+      .collect();
+    return pages.map((page) => ({
+      id: page._id,
+      url: page.sourceUrl ?? "",
+      contentHash: page.contentHash,
+    }));
+  },
+});
+
+/**
+ * internal:knowledgeSources:updatePage
+ * Stores changed page content as a new revision; the sync indexes it and then saves the hash.
+ * Unchanged content means the last indexing failed, so the current version is returned for a retry.
+ */
+export const updatePage = internalMutation({
+  args: {
+    knowledgeId: v.id("knowledgeBase"),
+    title: v.string(),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get("knowledgeBase", args.knowledgeId);
+    if (!entry) return null;
+    if (entry.title === args.title && entry.text === args.text) {
+      return { id: entry._id, version: entry.version };
+    }
+    const { version } = await writeRevision(
+      ctx,
+      entry,
+      { title: args.title, text: args.text, reason: "synced" },
+      { scheduleReindex: false }
+    );
+    return { id: entry._id, version };
+  },
+});
+
+/**
+ * internal:knowledgeSources:setPageHash
+ * Marks a page as synced once its chunks are indexed, so later syncs skip it while unchanged.
+ */
+export const setPageHash = internalMutation({
+  args: {
+    knowledgeId: v.id("knowledgeBase"),
+    contentHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get("knowledgeBase", args.knowledgeId);
+    if (entry) await ctx.db.patch("knowledgeBase", entry._id, { contentHash: args.contentHash });
+  },
+});
+
+/**
+ * internal:knowledgeSources:removePages
+ * Pages that disappeared from a sitemap.
+ */
+export const removePages = internalMutation({
+  args: { ids: v.array(v.id("knowledgeBase")) },
+  handler: async (ctx, args) => {
+    for (const id of args.ids) {
+      const entry = await ctx.db.get("knowledgeBase", id);
+      if (entry) await deleteKnowledgeEntry(ctx, entry);
+    }
+    return { removed: args.ids.length };
+  },
+});
+
+/**
+ * internal:knowledgeSources:recordSyncResult
+ */
+export const recordSyncResult = internalMutation({
+  args: {
+    sourceId: v.id("knowledgeSources"),
+    status: v.union(v.literal("running"), v.literal("ok"), v.literal("error")),
+    error: v.optional(v.string()),
+    pageCount: v.optional(v.number()),
+    changedCount: v.optional(v.number()),
+    title: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const source = await ctx.db.get("knowledgeSources", args.sourceId);
+    if (!source) return { ok: false };
+    const now = Date.now();
+    await ctx.db.patch("knowledgeSources", args.sourceId, {
+      lastStatus: args.status,
+      lastSyncAt: now,
+      lastError: args.error,
+      lastPageCount: args.pageCount ?? source.lastPageCount,
+      lastChangedCount: args.changedCount ?? source.lastChangedCount,
+      title: source.title ?? args.title,
+      updatedAt: now,
+    });
+    return { ok: true };
+  },
+});
@@ -0,0 +1,429 @@
+"use node";
+
+import { internalAction, type ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { createHash } from "crypto";
+import { lookup, type LookupAddress } from "dns";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { isIP, type LookupFunction } from "net";
+import { indexKnowledgeChunks } from "./knowledge";
+import { extractHtml, extractMarkdown, KNOWLEDGE_FORMAT_MIME_TYPES } from "./lib/knowledgeExtractors";
+
+const FETCH_TIMEOUT_MS = 20_000;
+const MAX_REDIRECTS = 5;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+// Pages imported per source and child sitemaps followed from a sitemap index.
+const MAX_PAGES_PER_SOURCE = 100;
+const MAX_CHILD_SITEMAPS = 10;
+const MAX_PAGE_CHARS = 200_000;
+const MIN_PAGE_CHARS = 40;
+// Actions are killed after 10 minutes; stop taking new pages well before that so the result is recorded.
+const SYNC_TIME_BUDGET_MS = 7 * 60 * 1000;
+// Page failures quoted in lastError.
+const MAX_REPORTED_ERRORS = 3;
+const USER_AGENT = "MissionControlKnowledgeSync/1.0";
+
+type FetchedDocument = { body: string; contentType: string; url: string };
+type SyncSummary = { pages: number; changed: number; failed: number };
+
+function ipv4Octets(address: string): number[] | null {
+  const octets = address.split(".").map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.length === 4 && octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+// Eight 16-bit groups; a dotted IPv4 tail ("::ffff:127.0.0.1") becomes the last two.
+function ipv6Groups(address: string): number[] | null {
+  let text = address.toLowerCase().split("%")[0];
+  const dotted = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = ipv4Octets(dotted[1]);
+    if (!octets) return null;
+    const high = ((octets[0] << 8) | octets[1]).toString(16);
+    const low = ((octets[2] << 8) | octets[3]).toString(16);
+    text = `${text.slice(0, text.length - dotted[1].length)}${high}:${low}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (missing < 0 || (halves.length === 1 && missing !== 0)) return null;
+  const groups = [...head, ...Array<string>(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * Loopback, private, link-local, multicast and reserved addresses, including
+ * IPv4 addresses embedded in IPv6 (mapped, compatible and NAT64 forms).
+ * Anything that does not parse counts as private.
+ */
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return isPrivateIpv4(ipv4Octets(address)!);
+  if (family !== 6) return true;
+
+  const groups = ipv6Groups(address);
+  if (!groups) return true;
+  const embedded = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    // "::", "::1" and the rest of ::/96 are never public.
+    if (groups[5] === 0 && groups[6] === 0) return true;
+    return isPrivateIpv4(embedded);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return isPrivateIpv4(embedded);
+  return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+}
+
+/**
+ * Sources are registered by admins, but the fetch runs on our servers:
+ * refuse hosts that are loopback or private network addresses. Names are
+ * checked by publicLookup when the connection opens. Checked again on every redirect hop.
+ */
+function assertPublicUrl(raw: string): URL {
+  const url = new URL(raw);
+  if (url.protocol !== "https:" && url.protocol !== "http:") throw new Error(`Protocolo não suportado: ${url.protocol}`);
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal")) {
+    throw new Error(`Host não permitido: ${host}`);
+  }
+  if (isIP(host) && isPrivateAddress(host)) throw new Error(`Host não permitido: ${host}`);
+  return url;
+}
+
+// DNS lookup for the request socket: the addresses it checks are the ones connected to, so a
+// name that re-resolves to a private address after a first public answer cannot slip through.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, "", 0);
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      return callback(new Error(`Host não permitido: ${hostname}`), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function openRequest(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(
+      url,
+      {
+        headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml,application/xml,text/xml,text/plain,*/*;q=0.5" },
+        lookup: publicLookup,
+        signal,
+      },
+      resolve
+    );
+    request.on("error", reject);
+  });
+}
+
+// Counts bytes as they arrive so a body without content-length cannot grow past the limit.
+async function readLimitedBody(response: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    total += chunk.byteLength;
+    if (total > MAX_RESPONSE_BYTES) {
+      response.destroy();
+      throw new Error("Resposta grande demais.");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchDocument(rawUrl: string): Promise<FetchedDocument> {
+  let url = assertPublicUrl(rawUrl);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    for (let hop = 0; ; hop++) {
+      const response = await openRequest(url, controller.signal);
+      const status = response.statusCode ?? 0;
+      if (status >= 300 && status < 400) {
+        const location = response.headers.location;
+        response.destroy();
+        if (!location) throw new Error(`HTTP ${status}`);
+        if (hop >= MAX_REDIRECTS) throw new Error("Redirecionamentos demais.");
+        url = assertPublicUrl(new URL(location, url).toString());
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new Error(`HTTP ${status}`);
+      }
+      const declaredLength = Number(response.headers["content-length"] ?? 0);
+      if (declaredLength > MAX_RESPONSE_BYTES) {
+        response.destroy();
+        throw new Error("Resposta grande demais.");
+      }
+      const buffer = await readLimitedBody(response);
+      return {
+        body: buffer.toString("utf8"),
+        contentType: (response.headers["content-type"] ?? "").toLowerCase(),
+        url: url.toString(),
+      };
+    }
+  } catch (error: any) {
+    if (error?.name === "AbortError") throw new Error("Tempo esgotado ao buscar a página.");
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function xmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .trim();
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    url.hash = "";
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// RSS <item><link>, then Atom <entry><link href>.
+function feedLinks(xml: string, base: string): { title?: string; links: string[] } {
+  const links: string[] = [];
+  for (const item of xml.matchAll(/<item\b[\s\S]*?<\/item>/gi)) {
+    const link = item[0].match(/<link\b[^>]*>([\s\S]*?)<\/link>/i)?.[1];
+    if (link) links.push(xmlText(link));
+  }
+  for (const entry of xml.matchAll(/<entry\b[\s\S]*?<\/entry>/gi)) {
+    const alternate =
+      entry[0].match(/<link\b[^>]*rel="alternate"[^>]*href="([^"]+)"/i)?.[1] ??
+      entry[0].match(/<link\b[^>]*href="([^"]+)"/i)?.[1];
+    if (alternate) links.push(xmlText(alternate));
+  }
+  const title = xml.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return {
+    title: title ? xmlText(title) : undefined,
+    links: links.map((link) => resolveUrl(link, base)).filter((link): link is string => Boolean(link)),
+  };
+}
+
+function sitemapLocations(xml: string, base: string): string[] {
+  return Array.from(xml.matchAll(/<loc>([\s\S]*?)<\/loc>/gi))
+    .map((match) => resolveUrl(xmlText(match[1]), base))
+    .filter((link): link is string => Boolean(link));
+}
+
+type DiscoveredPages = {
+  title?: string;
+  urls: string[];
+  // Every page of the sitemap is in `urls`: nothing was cut and every child sitemap loaded.
+  complete: boolean;
+};
+
+async function discoverPages(source: { kind: "url" | "rss" | "sitemap"; url: string }): Promise<DiscoveredPages> {
+  if (source.kind === "url") return { urls: [source.url], complete: true };
+
+  const document = await fetchDocument(source.url);
+  if (source.kind === "rss") {
+    const feed = feedLinks(document.body, document.url);
+    if (feed.links.length === 0) throw new Error("Nenhum item encontrado no feed.");
+    const links = Array.from(new Set(feed.links));
+    return { title: feed.title, urls: links.slice(0, MAX_PAGES_PER_SOURCE), complete: links.length <= MAX_PAGES_PER_SOURCE };
+  }
+
+  let urls = sitemapLocations(document.body, document.url);
+  let complete = true;
+  if (/<sitemapindex\b/i.test(document.body)) {
+    const children = urls.slice(0, MAX_CHILD_SITEMAPS);
+    if (urls.length > MAX_CHILD_SITEMAPS) complete = false;
+    urls = [];
+    for (const child of children) {
+      if (urls.length >= MAX_PAGES_PER_SOURCE) {
+        complete = false;
+        break;
+      }
+      try {
+        const childDocument = await fetchDocument(child);
+        urls.push(...sitemapLocations(childDocument.body, childDocument.url));
+      } catch (error: any) {
+        complete = false;
+        console.warn(`[knowledgeSync] sitemap filho ignorado ${child}:`, error?.message || error);
+      }
+    }
+  }
+  if (urls.length === 0) throw new Error("Nenhuma URL encontrada no sitemap.");
+  const unique = Array.from(new Set(urls));
+  return {
+    title: new URL(document.url).hostname,
+    urls: unique.slice(0, MAX_PAGES_PER_SOURCE),
+    complete: complete && unique.length <= MAX_PAGES_PER_SOURCE,
+  };
+}
+
+function readablePage(document: FetchedDocument): { title: string; text: string; type: string } {
+  const { body, contentType } = document;
+  let text: string;
+  let title: string | undefined;
+  let type: string;
+  if (contentType.includes("html") || /^\s*<(!doctype html|html)\b/i.test(body)) {
+    title =
+      body.match(/<meta\b[^>]*property="og:title"[^>]*content="([^"]+)"/i)?.[1] ??
+      body.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    text = extractHtml(body);
+    type = KNOWLEDGE_FORMAT_MIME_TYPES.html;
+  } else if (contentType.includes("markdown") || /\.(md|markdown)$/i.test(new URL(document.url).pathname)) {
+    text = extractMarkdown(body);
+    type = KNOWLEDGE_FORMAT_MIME_TYPES.markdown;
+  } else if (contentType.startsWith("text/plain")) {
+    text = body.trim();
+    type = KNOWLEDGE_FORMAT_MIME_TYPES.text;
+  } else {
+    throw new Error(`Tipo de conteúdo não suportado: ${contentType || "desconhecido"}`);
+  }
+
+  text = text.slice(0, MAX_PAGE_CHARS);
+  if (text.length < MIN_PAGE_CHARS) throw new Error("Página sem texto legível.");
+  const url = new URL(document.url);
+  return {
+    title: (title ? xmlText(title).replace(/\s+/g, " ") : "") || `${url.hostname}${url.pathname}`,
+    text,
+    type,
+  };
+}
+
+async function syncPages(ctx: ActionCtx, source: Doc<"knowledgeSources">): Promise<SyncSummary> {
+  const startedAt = Date.now();
+  const discovered = await discoverPages(source);
+  const existing: Array<{ id: Id<"knowledgeBase">; url: string; contentHash?: string }> = await ctx.runQuery(
+    internal.knowledgeSources.listPages,
+    { sourceId: source._id }
+  );
+  const pagesByUrl = new Map(existing.map((page) => [page.url, page]));
+
+  let changed = 0;
+  let attempted = 0;
+  let firstTitle: string | undefined;
+  const failures: string[] = [];
+  for (const pageUrl of discovered.urls) {
+    if (Date.now() - startedAt > SYNC_TIME_BUDGET_MS) break;
+    attempted++;
+    try {
+      const page = readablePage(await fetchDocument(pageUrl));
+      firstTitle ??= page.title;
+      const contentHash = createHash("sha256").update(page.text).digest("hex");
+      const known = pagesByUrl.get(pageUrl);
+      if (known?.contentHash === contentHash) continue;
+
+      const target: { id: Id<"knowledgeBase">; version?: number } | null = known
+        ? await ctx.runMutation(internal.knowledgeSources.updatePage, {
+            knowledgeId: known.id,
+            title: page.title,
+            text: page.text,
+          })
+        : await ctx.runMutation(internal.knowledge.createEntry, {
+            title: page.title,
+            text: page.text,
+            departmentId: source.departmentId,
+            orgId: source.orgId,
+            sourceId: source._id,
+            sourceUrl: pageUrl,
+            metadata: { filename: pageUrl, type: page.type },
+          });
+      if (!target) continue;
+      await indexKnowledgeChunks(ctx, {
+        knowledgeId: target.id,
+        departmentId: source.departmentId,
+        title: page.title,
+        text: page.text,
+        source: "knowledgeSources.sync",
+        version: target.version,
+      });
+      // Saved only once indexed: a page whose embedding failed keeps its previous hash (or none) and is retried.
+      await ctx.runMutation(internal.knowledgeSources.setPageHash, { knowledgeId: target.id, contentHash });
+      changed++;
+    } catch (error: any) {
+      failures.push(`${pageUrl}: ${String(error?.message || error)}`);
+    }
+  }
+
+  // A partial listing (cut at the page cap, or a child sitemap that failed) says nothing about missing pages.
+  if (source.kind === "sitemap" && discovered.complete) {
+    const listed = new Set(discovered.urls);
+    const gone = existing.filter((page) => !listed.has(page.url)).map((page) => page.id);
+    if (gone.length > 0) {
+      await ctx.runMutation(internal.knowledgeSources.removePages, { ids: gone });
+      changed += gone.length;
+    }
+  }
+
+  const skipped = discovered.urls.length - attempted;
+  const problems: string[] = [];
+  if (skipped > 0) problems.push(`Tempo esgotado: ${skipped}/${discovered.urls.length} páginas ficaram para a próxima sincronização.`);
+  if (failures.length > 0) {
+    problems.push(`${failures.length}/${attempted} páginas falharam. ${failures.slice(0, MAX_REPORTED_ERRORS).join(" | ")}`);
+  }
+  await ctx.runMutation(internal.knowledgeSources.recordSyncResult, {
+    sourceId: source._id,
+    status: failures.length === attempted ? "error" : "ok",
+    error: problems.length > 0 ? problems.join(" ").slice(0, 1000) : undefined,
+    pageCount: discovered.urls.length,
+    changedCount: changed,
+    title: discovered.title ?? firstTitle,
+  });
+  console.log(
+    `[knowledgeSync] ${source.url}: ${discovered.urls.length} páginas, ${changed} alteradas, ${failures.length} falhas, ${skipped} adiadas`
+  );
+  return { pages: discovered.urls.length, changed, failed: failures.length };
+}
+
+/**
+ * internal:knowledgeSourcesNode:syncSource
+ * Fetches every page of a source and upserts it into knowledgeBase. Unchanged
+ * pages (same content hash) are skipped; changed ones become a new revision and
+ * are re-embedded; pages gone from a fully listed sitemap are removed. Any failure is
+ * recorded on the source so it never stays "running".
+ */
+export const syncSource = internalAction({
+  args: { sourceId: v.id("knowledgeSources") },
+  handler: async (ctx, args): Promise<SyncSummary> => {
+    const source = await ctx.runQuery(internal.knowledgeSources.getSource, { sourceId: args.sourceId });
+    if (!source) return { pages: 0, changed: 0, failed: 0 };
+
+    try {
+      return await syncPages(ctx, source);
+    } catch (error: any) {
+      await ctx.runMutation(internal.knowledgeSources.recordSyncResult, {
+        sourceId: args.sourceId,
+        status: "error",
+        error: String(error?.message || error).slice(0, 500),
+      });
+      return { pages: 0, changed: 0, failed: 1 };
+    }
+  },
+});
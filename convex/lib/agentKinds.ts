@@ -0,0 +1,143 @@
+import { v } from "convex/values";
+
+/**
+ * Agent kinds drive brain behavior (delegation, protocols, forced tools) instead
+ * of hardcoded agent names, so renamed or custom agents keep their behavior.
+ * Frontend-safe: the agent editor lists these kinds.
+ */
+
+export type AgentKind = "orchestrator" | "specialist" | "researcher" | "designer" | "inbox-manager";
+
+export const AGENT_KINDS: readonly AgentKind[] = [
+    "orchestrator",
+    "specialist",
+    "researcher",
+    "designer",
+    "inbox-manager",
+];
+
+export const agentKindValidator = v.union(
+    v.literal("orchestrator"),
+    v.literal("specialist"),
+    v.literal("researcher"),
+    v.literal("designer"),
+    v.literal("inbox-manager")
+);
+
+// Renders a tool call example in whichever protocol (native or [TOOL: ...] text) the run uses.
+export type ToolCallHint = (name: string, exampleArgs: string) => string;
+
+export type AgentKindProfile = {
+    label: string;
+    description: string;
+    // Tools added to the agent's allowed tools on every run.
+    forcedTools: string[];
+    // When set, a turn without this tool gets one reminder before the run may finish.
+    requiredTool?: string;
+    protocol?: (toolCallHint: ToolCallHint) => string;
+};
+
+export const AGENT_KIND_PROFILES: Record<AgentKind, AgentKindProfile> = {
+    orchestrator: {
+        label: "Orchestrator",
+        description: "Squad lead: delegates to specialists and closes the parent task.",
+        forcedTools: [],
+    },
+    specialist: {
+        label: "Specialist",
+        description: "Executes delegated work with its own tools.",
+        forcedTools: [],
+    },
+    researcher: {
+        label: "Researcher",
+        description: "Answers web and research requests from the squad lead.",
+        forcedTools: [],
+        protocol: () =>
+            `RESEARCH PROTOCOL: deliver your result and then call update_task_status with status "review".`,
+    },
+    designer: {
+        label: "Designer",
+        description: "Turns image requests into generate_image calls.",
+        forcedTools: ["generate_image"],
+        requiredTool: "generate_image",
+        protocol: (toolCallHint) =>
+            `DESIGN PROTOCOL: you are the squad's Designer. ` +
+            `On image requests, you MUST call ${toolCallHint("generate_image", `{"prompt":"..."}`)} first, ` +
+            `using a high-quality artistic English prompt. Then call update_task_status with status "review".`,
+    },
+    "inbox-manager": {
+        label: "Inbox manager",
+        description: "Reads, searches and sends Gmail on behalf of the squad.",
+        forcedTools: ["list_emails", "get_email_details", "search_emails", "send_email"],
+        protocol: (toolCallHint) =>
+            `GMAIL PROTOCOL: You now have full access to the user's Gmail. ` +
+            `If asked for the last email, call ${toolCallHint("list_emails", `{"limit": 10}`)} first to find the message id, ` +
+            `then call ${toolCallHint("get_email_details", `{"emailId":"..."}`)} to read and summarize it. ` +
+            `For filtered lookup, use ${toolCallHint("search_emails", `{"query":"...","limit":10}`)}. ` +
+            `Do not say you cannot access the inbox while these tools are available.`,
+    },
+};
+
+export function normalizeAgentKind(input: unknown): AgentKind | null {
+    const normalized = typeof input === "string" ? input.trim().toLowerCase() : "";
+    return (AGENT_KINDS as readonly string[]).includes(normalized) ? (normalized as AgentKind) : null;
+}
+
+type AgentKindSource = {
+    kind?: string | null;
+    name?: string | null;
+    role?: string | null;
+    sessionKey?: string | null;
+};
+
+/**
+ * Best guess for rows created before agents had a kind: the original squad's
+ * names and session keys, then role keywords. The backfillAgentKinds migration
+ * stores it; until then resolveAgentKind applies it to rows without a kind.
+ */
+export function inferAgentKind(agent: AgentKindSource): AgentKind {
+    const name = String(agent.name ?? "").trim().toLowerCase();
+    const sessionKey = String(agent.sessionKey ?? "").trim().toLowerCase();
+    const role = String(agent.role ?? "").trim().toLowerCase();
+
+    if (name === "jarvis" || sessionKey.startsWith("agent:jarvis:")) return "orchestrator";
+    if (name === "wanda") return "designer";
+    if (name === "pepper" || sessionKey.includes(":pepper:")) return "inbox-manager";
+    if (name === "vision") return "researcher";
+
+    if (/squad lead|orchestrat|head of operations/.test(role)) return "orchestrator";
+    if (/design/.test(role)) return "designer";
+    if (/research|seo/.test(role)) return "researcher";
+    return "specialist";
+}
+
+/**
+ * Agent override, then template, then inference for legacy rows. Agents created now always
+ * store a kind, so a new custom agent called "Jarvis" does not become the squad lead.
+ */
+export function resolveAgentKind(agent: AgentKindSource, template?: { kind?: string | null } | null): AgentKind {
+    return normalizeAgentKind(agent.kind) ?? normalizeAgentKind(template?.kind) ?? inferAgentKind(agent);
+}
+
+/**
+ * The department's squad lead, used when child tasks complete and for inbound
+ * channel messages. The most recently active orchestrator wins.
+ */
+export function findOrchestrator<T extends AgentKindSource & { lastSeenAt?: number }>(agents: T[]): T | undefined {
+    return agents
+        .filter((agent) => resolveAgentKind(agent) === "orchestrator")
+        .sort((a, b) => (b.lastSeenAt ?? 0) - (a.lastSeenAt ?? 0))[0];
+}
+
+/**
+ * Whether sessionKey acts as the department's squad lead. The delegation tools and the
+ * workflow transition rules both use this, so they never disagree about who may close a task.
+ */
+export function isSquadLeadSession<T extends AgentKindSource & { lastSeenAt?: number }>(
+    agents: T[],
+    sessionKey: string
+): boolean {
+    const agent = agents.find((candidate) => candidate.sessionKey === sessionKey);
+    if (agent && resolveAgentKind(agent) === "orchestrator") return true;
+    return findOrchestrator(agents)?.sessionKey === sessionKey;
+}
@@ -0,0 +1,89 @@
+import { v } from "convex/values";
+
+/**
+ * Source citations for agent answers built from long-term memory. Every
+ * memory surfaced during a run gets a stable number; the model cites it
+ * inline as "[n]" and the saved message keeps the matching sources.
+ */
+
+export type CitationKind = "knowledge" | "asset" | "task";
+
+export type CitationSource = {
+    kind: CitationKind;
+    // knowledgeBase, aiAssets or tasks id, depending on `kind`.
+    sourceId: string;
+    title: string;
+    // Task that produced an asset, so the UI can link to it.
+    taskId?: string;
+};
+
+export type MemoryCitation = CitationSource & { label: number };
+
+export const citationSourceValidator = v.object({
+    kind: v.union(v.literal("knowledge"), v.literal("asset"), v.literal("task")),
+    sourceId: v.string(),
+    title: v.string(),
+    taskId: v.optional(v.string()),
+});
+
+export const memoryCitationValidator = v.object({
+    label: v.number(),
+    kind: v.union(v.literal("knowledge"), v.literal("asset"), v.literal("task")),
+    sourceId: v.string(),
+    title: v.string(),
+    taskId: v.optional(v.string()),
+});
+
+const CITATION_REFERENCE_REGEX = /\[(\d{1,3})\]/g;
+
+function isCitationKind(kind: unknown): kind is CitationKind {
+    return kind === "knowledge" || kind === "asset" || kind === "task";
+}
+
+// Rows search_knowledge only returned as a "recent" fallback did not match the query.
+function isRecentFallback(memory: any): boolean {
+    const matchedBy = Array.isArray(memory?.matchedBy) ? memory.matchedBy : [];
+    return matchedBy.length > 0 && matchedBy.every((match: unknown) => match === "recent");
+}
+
+/**
+ * Label of a search_knowledge memory, registering it in `sources` on first
+ * sight. Returns null for rows that are not citable, including "recent"
+ * fallback rows.
+ */
+export function citationLabelFor(sources: CitationSource[], memory: any): number | null {
+    const kind = memory?.kind;
+    const sourceId = typeof memory?.id === "string" ? memory.id : "";
+    if (!isCitationKind(kind) || !sourceId || isRecentFallback(memory)) return null;
+
+    const existing = sources.findIndex((source) => source.kind === kind && source.sourceId === sourceId);
+    if (existing !== -1) return existing + 1;
+
+    sources.push({
+        kind,
+        sourceId,
+        title: String(memory?.title ?? "").trim() || "Untitled",
+        taskId: typeof memory?.taskId === "string" ? memory.taskId : undefined,
+    });
+    return sources.length;
+}
+
+/**
+ * Sources the answer cites inline; an answer without inline citations gets none.
+ */
+export function selectCitations(sources: CitationSource[], response: string): MemoryCitation[] {
+    const labeled = sources.map((source, idx) => ({ ...source, label: idx + 1 }));
+    const cited = new Set<number>();
+    for (const match of response.matchAll(CITATION_REFERENCE_REGEX)) {
+        const label = Number(match[1]);
+        if (label >= 1 && label <= sources.length) cited.add(label);
+    }
+    return labeled.filter((citation) => cited.has(citation.label));
+}
+
+/**
+ * One-line source list for channels without footnotes, e.g. Telegram.
+ */
+export function formatSourcesLine(prefix: string, citations: MemoryCitation[]): string {
+    return `${prefix}: ${citations.map((citation) => `[${citation.label}] ${citation.title}`).join("; ")}`;
+}
@@ -0,0 +1,137 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import {
+    DEFAULT_EMBEDDING_MODEL,
+    slotModelsPatch,
+    type EmbeddingSlot,
+    type SlotModels,
+    type StoredEmbeddings,
+} from "./embeddings";
+
+/**
+ * Per-department row counts by embedding model, one row per (table, slot, model).
+ * Every insert, delete and re-embed of a searchable row keeps them current so
+ * embeddings.status never has to scan the tables. Slot "a" counts every row,
+ * untagged ones under the default OpenAI model like isEmbeddingModelCurrent;
+ * slot "b" only counts rows holding a vector there.
+ */
+
+export type EmbeddingCountTable = Doc<"embeddingCounts">["table"];
+
+export const EMBEDDING_COUNT_TABLES: EmbeddingCountTable[] = ["knowledge", "tasks", "assets", "memories"];
+
+function countedModel(embeddingModel: string | undefined): string {
+    return embeddingModel ?? DEFAULT_EMBEDDING_MODEL;
+}
+
+export async function bumpEmbeddingCount(
+    ctx: MutationCtx,
+    departmentId: Id<"departments"> | undefined,
+    table: EmbeddingCountTable,
+    embeddingModel: string | undefined,
+    delta: number,
+    slot: EmbeddingSlot = "a"
+): Promise<void> {
+    if (!departmentId || delta === 0) return;
+    if (slot === "b" && embeddingModel === undefined) return;
+    const model = countedModel(embeddingModel);
+    const slotKey = slot === "b" ? "b" : undefined;
+    const existing = await ctx.db
+        .query("embeddingCounts")
+        .withIndex("by_department_table_slot_model", (q) =>
+            q.eq("departmentId", departmentId).eq("table", table).eq("slot", slotKey).eq("model", model)
+        )
+        .unique();
+    const now = Date.now();
+    if (existing) {
+        await ctx.db.patch("embeddingCounts", existing._id, { count: existing.count + delta, updatedAt: now });
+        return;
+    }
+    await ctx.db.insert("embeddingCounts", { departmentId, table, model, slot: slotKey, count: delta, updatedAt: now });
+}
+
+/**
+ * A row re-embedded from one model to another.
+ */
+export async function moveEmbeddingCount(
+    ctx: MutationCtx,
+    departmentId: Id<"departments"> | undefined,
+    table: EmbeddingCountTable,
+    fromModel: string | undefined,
+    toModel: string | undefined,
+    slot: EmbeddingSlot = "a"
+): Promise<void> {
+    if (slot === "a" ? countedModel(fromModel) === countedModel(toModel) : fromModel === toModel) return;
+    await bumpEmbeddingCount(ctx, departmentId, table, fromModel, -1, slot);
+    await bumpEmbeddingCount(ctx, departmentId, table, toModel, 1, slot);
+}
+
+/**
+ * Counts after `writes` replaced the slots of `previous` (null for a new row).
+ */
+export async function moveSlotEmbeddingCounts(
+    ctx: MutationCtx,
+    departmentId: Id<"departments"> | undefined,
+    table: EmbeddingCountTable,
+    previous: StoredEmbeddings | null,
+    writes: SlotModels
+): Promise<void> {
+    const next = slotModelsPatch(writes);
+    if (!previous) {
+        await bumpEmbeddingCount(ctx, departmentId, table, next.embeddingModel, 1);
+        await bumpEmbeddingCount(ctx, departmentId, table, next.embeddingModelB, 1, "b");
+        return;
+    }
+    if (writes.a !== undefined) {
+        await moveEmbeddingCount(ctx, departmentId, table, previous.embeddingModel, next.embeddingModel);
+    }
+    if (writes.b !== undefined) {
+        await moveEmbeddingCount(ctx, departmentId, table, previous.embeddingModelB, next.embeddingModelB, "b");
+    }
+}
+
+/**
+ * A searchable row deleted.
+ */
+export async function dropEmbeddingCounts(
+    ctx: MutationCtx,
+    departmentId: Id<"departments"> | undefined,
+    table: EmbeddingCountTable,
+    row: StoredEmbeddings
+): Promise<void> {
+    await bumpEmbeddingCount(ctx, departmentId, table, row.embeddingModel, -1);
+    await bumpEmbeddingCount(ctx, departmentId, table, row.embeddingModelB, -1, "b");
+}
+
+/**
+ * Rows of each table that still need a `model` vector in `writeSlot` (all
+ * zero without a model). While `writeSlot` is not the one searches read,
+ * that is every row holding a vector in the active slot minus those already
+ * re-embedded.
+ */
+export async function countStaleEmbeddings(
+    ctx: QueryCtx,
+    departmentId: Id<"departments">,
+    model: string | null,
+    slots: { activeSlot: EmbeddingSlot; writeSlot: EmbeddingSlot }
+): Promise<Record<EmbeddingCountTable, number>> {
+    const stale: Record<EmbeddingCountTable, number> = { knowledge: 0, tasks: 0, assets: 0, memories: 0 };
+    if (model === null) return stale;
+    const rows = await ctx.db
+        .query("embeddingCounts")
+        .withIndex("by_department_table_slot_model", (q) => q.eq("departmentId", departmentId))
+        .collect();
+    const inSlot = (row: Doc<"embeddingCounts">, slot: EmbeddingSlot) => (row.slot ?? "a") === slot;
+    for (const row of rows) {
+        if (!inSlot(row, slots.activeSlot)) continue;
+        if (slots.writeSlot !== slots.activeSlot || row.model !== model) stale[row.table] += Math.max(0, row.count);
+    }
+    if (slots.writeSlot !== slots.activeSlot) {
+        for (const row of rows) {
+            if (inSlot(row, slots.writeSlot) && row.model === model) {
+                stale[row.table] = Math.max(0, stale[row.table] - row.count);
+            }
+        }
+    }
+    return stale;
+}
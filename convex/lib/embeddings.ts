@@ -0,0 +1,207 @@
+/**
+ * Embedding providers. Every provider here speaks the OpenAI `/embeddings`
+ * wire format, so a local server (Ollama, LM Studio, vLLM, LocalAI) works as
+ * long as it exposes an OpenAI-compatible endpoint.
+ * Frontend-safe: the credential form lists these presets.
+ */
+
+import { v } from "convex/values";
+
+// Dimensions of every vector index in the schema.
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type EmbeddingProvider = "openai" | "mistral" | "voyage" | "local";
+
+export type EmbeddingProviderPreset = {
+    label: string;
+    // The local endpoint comes from the LOCAL_EMBEDDINGS_URL environment variable.
+    baseUrl?: string;
+    defaultModel: string;
+};
+
+export const EMBEDDING_PROVIDERS: Record<EmbeddingProvider, EmbeddingProviderPreset> = {
+    openai: { label: "OpenAI", baseUrl: "https://api.openai.com/v1", defaultModel: "text-embedding-3-small" },
+    mistral: { label: "Mistral", baseUrl: "https://api.mistral.ai/v1", defaultModel: "mistral-embed" },
+    voyage: { label: "Voyage AI", baseUrl: "https://api.voyageai.com/v1", defaultModel: "voyage-3" },
+    local: { label: "Local (OpenAI-compatible)", defaultModel: "nomic-embed-text" },
+};
+
+export const DEFAULT_EMBEDDING_MODEL = EMBEDDING_PROVIDERS.openai.defaultModel;
+
+export type EmbeddingSettings = {
+    provider: EmbeddingProvider;
+    model: string;
+    baseUrl: string;
+    apiKey?: string;
+};
+
+export const embeddingSettingsValidator = v.object({
+    provider: v.union(v.literal("openai"), v.literal("mistral"), v.literal("voyage"), v.literal("local")),
+    model: v.string(),
+    baseUrl: v.string(),
+    apiKey: v.optional(v.string()),
+});
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+export function normalizeEmbeddingProvider(input: unknown): EmbeddingProvider | null {
+    return typeof input === "string" && input in EMBEDDING_PROVIDERS ? (input as EmbeddingProvider) : null;
+}
+
+/**
+ * Value stored in `embeddingModel` next to each vector. Vectors are only
+ * comparable when this matches. OpenAI models keep their bare name so rows
+ * embedded before providers existed stay current.
+ */
+export function embeddingModelId(settings: Pick<EmbeddingSettings, "provider" | "model">): string {
+    return settings.provider === "openai" ? settings.model : `${settings.provider}:${settings.model}`;
+}
+
+/**
+ * Whether a stored vector can be compared with vectors of `currentModel`.
+ * Untagged vectors predate providers and were all embedded with the OpenAI default.
+ */
+export function isEmbeddingModelCurrent(storedModel: string | undefined, currentModel: string | undefined): boolean {
+    return currentModel !== undefined && (storedModel ?? DEFAULT_EMBEDDING_MODEL) === currentModel;
+}
+
+/**
+ * Every embedded table has two vector fields, each with its own index: slot
+ * "a" (`embedding`/`embeddingModel`) and slot "b" (`embeddingB`/`embeddingModelB`).
+ * Searches read one slot while a migration to a new model fills the other,
+ * so recall never drops mid-migration (see embeddings.readEmbeddingTargets).
+ */
+export type EmbeddingSlot = "a" | "b";
+
+export const EMBEDDING_SLOT_INDEXES = { a: "by_embedding", b: "by_embedding_b" } as const;
+
+export const embeddingSlotValidator = v.union(v.literal("a"), v.literal("b"));
+
+// Tag of a cleared slot "a": untagged rows there mean the OpenAI default.
+const CLEARED_SLOT_MODEL = "";
+
+export type StoredEmbeddings = {
+    embedding?: number[];
+    embeddingModel?: string;
+    embeddingB?: number[];
+    embeddingModelB?: string;
+};
+
+/**
+ * What a write does to each slot: a new vector, null to clear it, or
+ * nothing (absent) to leave it as is.
+ */
+export type SlotWrites = Partial<Record<EmbeddingSlot, { vector: number[]; model: string } | null>>;
+
+// The same, for rows that only carry the tags (knowledgeBase: vectors live in knowledgeChunks).
+export type SlotModels = Partial<Record<EmbeddingSlot, { model: string } | null>>;
+
+const slotWriteValidator = v.optional(v.union(v.null(), v.object({ vector: v.array(v.float64()), model: v.string() })));
+
+export const slotWritesValidator = v.object({ a: slotWriteValidator, b: slotWriteValidator });
+
+export function otherEmbeddingSlot(slot: EmbeddingSlot): EmbeddingSlot {
+    return slot === "a" ? "b" : "a";
+}
+
+export function slotEmbeddingModel(row: StoredEmbeddings, slot: EmbeddingSlot): string | undefined {
+    return slot === "a" ? row.embeddingModel : row.embeddingModelB;
+}
+
+/**
+ * Whether the vector in `slot` was embedded with `currentModel`.
+ */
+export function isSlotEmbeddingCurrent(row: StoredEmbeddings, slot: EmbeddingSlot, currentModel: string | undefined): boolean {
+    if (slot === "a") return isEmbeddingModelCurrent(row.embeddingModel, currentModel);
+    return row.embeddingModelB !== undefined && row.embeddingModelB === currentModel;
+}
+
+/**
+ * Model tags to patch for `models`.
+ */
+export function slotModelsPatch(models: SlotModels): Pick<StoredEmbeddings, "embeddingModel" | "embeddingModelB"> {
+    return {
+        ...(models.a !== undefined ? { embeddingModel: models.a ? models.a.model : CLEARED_SLOT_MODEL } : {}),
+        ...(models.b !== undefined ? { embeddingModelB: models.b?.model } : {}),
+    };
+}
+
+/**
+ * Row fields to patch for `writes`.
+ */
+export function slotWritesPatch(writes: SlotWrites): StoredEmbeddings {
+    return {
+        ...slotModelsPatch(writes),
+        ...(writes.a !== undefined ? { embedding: writes.a?.vector } : {}),
+        ...(writes.b !== undefined ? { embeddingB: writes.b?.vector } : {}),
+    };
+}
+
+// text-embedding-3-* can shorten its own output (Matryoshka); older models cannot.
+function supportsDimensionsParam(settings: EmbeddingSettings): boolean {
+    return settings.provider === "openai" && settings.model.startsWith("text-embedding-3");
+}
+
+/**
+ * Fits a vector to the index size. Shorter vectors are zero-padded, which
+ * leaves cosine similarity between them unchanged. Longer ones are rejected:
+ * cutting them is only meaningful for Matryoshka-trained models.
+ */
+export function fitEmbeddingDimensions(vector: number[], dimensions = EMBEDDING_DIMENSIONS): number[] {
+    if (vector.length === dimensions) return vector;
+    if (vector.length > dimensions) {
+        throw new Error(
+            `The embedding model returns ${vector.length} dimensions; the search index holds at most ${dimensions}. Choose a model with ${dimensions} dimensions or fewer.`
+        );
+    }
+    return [...vector, ...new Array<number>(dimensions - vector.length).fill(0)];
+}
+
+/**
+ * One `/embeddings` request. Vectors come back fitted to EMBEDDING_DIMENSIONS,
+ * in input order; throws on HTTP or network errors.
+ */
+export async function requestEmbeddings(
+    settings: EmbeddingSettings,
+    inputs: string[]
+): Promise<{ vectors: Array<number[] | undefined>; inputTokens?: number }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+        const response = await fetch(`${settings.baseUrl.replace(/\/+$/, "")}/embeddings`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: settings.model,
+                input: inputs,
+                ...(supportsDimensionsParam(settings) ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+            }),
+            signal: controller.signal,
+        });
+        if (!response.ok) {
+            const detail = (await response.text()).slice(0, 300);
+            throw new Error(`Embedding API Error (${response.status}): ${detail}`);
+        }
+        const payload: any = await response.json();
+        const rows: any[] = Array.isArray(payload?.data) ? payload.data : [];
+        const byIndex = new Map<number, number[]>();
+        rows.forEach((row, position) => {
+            if (Array.isArray(row?.embedding)) byIndex.set(typeof row.index === "number" ? row.index : position, row.embedding);
+        });
+        return {
+            vectors: inputs.map((_, idx) => {
+                const vector = byIndex.get(idx);
+                return vector ? fitEmbeddingDimensions(vector) : undefined;
+            }),
+            inputTokens: payload?.usage?.prompt_tokens ?? payload?.usage?.total_tokens,
+        };
+    } catch (error: any) {
+        if (error?.name === "AbortError") throw new Error("Embedding request timed out.");
+        throw error;
+    } finally {
+        clearTimeout(timer);
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * Splits knowledge entries into overlapping, heading-aware chunks. Each chunk
+ * is embedded on its own so retrieval can reach any page of a long document.
+ */
+
+export type KnowledgeChunk = {
+    index: number;
+    // Nearest heading above the chunk ("Section > Subsection" when nested headings are empty).
+    heading?: string;
+    text: string;
+};
+
+export const KNOWLEDGE_CHUNK_TARGET_CHARS = 1500;
+export const KNOWLEDGE_CHUNK_OVERLAP_CHARS = 200;
+// Bounds embedding cost per entry; text past the last chunk stays searchable lexically.
+export const KNOWLEDGE_MAX_CHUNKS = 800;
+
+const HEADING_MAX_CHARS = 90;
+
+type Section = {
+    heading?: string;
+    paragraphs: string[];
+};
+
+function normalizeInline(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+}
+
+function headingOf(line: string): string | null {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > HEADING_MAX_CHARS) return null;
+
+    const markdown = trimmed.match(/^#{1,6}\s+(.+)$/);
+    if (markdown) return normalizeInline(markdown[1].replace(/#+\s*$/, ""));
+
+    // "3.2 Refund policy", "IV. Scope" - numbered headings without a closing period.
+    if (/^(\d+(\.\d+)*|[IVXLC]+)[.)]?\s+\S/.test(trimmed) && !/[.;,:]$/.test(trimmed) && trimmed.split(/\s+/).length <= 10) {
+        return normalizeInline(trimmed);
+    }
+
+    // Short all-caps lines ("TERMS AND CONDITIONS").
+    const letters = trimmed.replace(/[^A-Za-zÀ-ÿ]/g, "");
+    if (letters.length >= 4 && letters === letters.toUpperCase() && trimmed.split(/\s+/).length <= 8) {
+        return normalizeInline(trimmed);
+    }
+
+    return null;
+}
+
+function splitSections(text: string): Section[] {
+    const lines = text.replace(/\r\n?/g, "\n").split("\n");
+    const sections: Section[] = [];
+    let current: Section = { paragraphs: [] };
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        const joined = normalizeInline(paragraph.join(" "));
+        if (joined) current.paragraphs.push(joined);
+        paragraph = [];
+    };
+
+    for (const line of lines) {
+        const heading = headingOf(line);
+        if (heading) {
+            flushParagraph();
+            if (current.paragraphs.length === 0 && current.heading) {
+                // Heading directly followed by a subheading: keep both as a breadcrumb.
+                current = { heading: `${current.heading} > ${heading}`, paragraphs: [] };
+            } else {
+                if (current.paragraphs.length > 0) sections.push(current);
+                current = { heading, paragraphs: [] };
+            }
+            continue;
+        }
+        if (!line.trim()) {
+            flushParagraph();
+            continue;
+        }
+        paragraph.push(line);
+    }
+    flushParagraph();
+    if (current.paragraphs.length > 0) sections.push(current);
+    return sections;
+}
+
+// Breaks oversized paragraphs at sentence boundaries, then hard-wraps what is left.
+function splitOversized(paragraph: string, maxChars: number): string[] {
+    if (paragraph.length <= maxChars) return [paragraph];
+    const sentences = paragraph.match(/[^.!?]+[.!?]+(\s|$)|[^.!?]+$/g) ?? [paragraph];
+    const pieces: string[] = [];
+    let buffer = "";
+    for (const raw of sentences) {
+        const sentence = raw.trim();
+        if (!sentence) continue;
+        if (sentence.length > maxChars) {
+            if (buffer) pieces.push(buffer);
+            buffer = "";
+            for (let i = 0; i < sentence.length; i += maxChars) {
+                pieces.push(sentence.slice(i, i + maxChars));
+            }
+            continue;
+        }
+        if (buffer && buffer.length + 1 + sentence.length > maxChars) {
+            pieces.push(buffer);
+            buffer = sentence;
+        } else {
+            buffer = buffer ? `${buffer} ${sentence}` : sentence;
+        }
+    }
+    if (buffer) pieces.push(buffer);
+    return pieces;
+}
+
+// The last `overlapChars` of a chunk, starting on a word boundary.
+function overlapTail(text: string, overlapChars: number): string {
+    if (overlapChars <= 0 || text.length <= overlapChars) return "";
+    const tail = text.slice(text.length - overlapChars);
+    const firstSpace = tail.indexOf(" ");
+    return firstSpace === -1 ? tail : tail.slice(firstSpace + 1);
+}
+
+export function chunkKnowledgeText(
+    text: string,
+    options: { targetChars?: number; overlapChars?: number; maxChunks?: number } = {}
+): KnowledgeChunk[] {
+    const targetChars = options.targetChars ?? KNOWLEDGE_CHUNK_TARGET_CHARS;
+    const overlapChars = Math.min(options.overlapChars ?? KNOWLEDGE_CHUNK_OVERLAP_CHARS, Math.floor(targetChars / 2));
+    const maxChunks = options.maxChunks ?? KNOWLEDGE_MAX_CHUNKS;
+
+    const chunks: KnowledgeChunk[] = [];
+    for (const section of splitSections(text)) {
+        const pieces = section.paragraphs.flatMap((paragraph) => splitOversized(paragraph, targetChars));
+        let buffer = "";
+        let hasFreshText = false;
+
+        const flush = () => {
+            if (!hasFreshText) return;
+            chunks.push({ index: chunks.length, heading: section.heading, text: buffer });
+            buffer = overlapTail(buffer, overlapChars);
+            hasFreshText = false;
+        };
+
+        for (const piece of pieces) {
+            if (hasFreshText && buffer.length + 1 + piece.length > targetChars) flush();
+            buffer = buffer ? `${buffer}\n${piece}` : piece;
+            hasFreshText = true;
+        }
+        flush();
+        if (chunks.length >= maxChunks) return chunks.slice(0, maxChunks);
+    }
+    return chunks;
+}
+
+/**
+ * Text sent to the embedding model: the entry title and section heading give
+ * short chunks the context they lose when cut out of the document.
+ */
+export function chunkEmbeddingInput(title: string, chunk: Pick<KnowledgeChunk, "heading" | "text">): string {
+    return [title, chunk.heading, chunk.text]
+        .map((part) => normalizeInline(part ?? ""))
+        .filter(Boolean)
+        .join("\n");
+}
+
+/**
+ * How a chunk is shown to agents: its section heading, then the text.
+ */
+export function formatChunkForContext(chunk: Pick<KnowledgeChunk, "heading" | "text">): string {
+    const text = normalizeInline(chunk.text);
+    return chunk.heading ? `[${chunk.heading}] ${text}` : text;
+}
@@ -0,0 +1,431 @@
+"use node";
+
+import { inflateRawSync } from "zlib";
+
+/**
+ * Text extraction for knowledge uploads. Output is plain text with Markdown
+ * headings ("# ...") and blank lines between blocks, which is the structure
+ * the knowledge chunker splits on. Node-only: DOCX and XLSX are read straight
+ * from their zip containers.
+ */
+
+export type KnowledgeFormat = "pdf" | "docx" | "xlsx" | "html" | "markdown" | "csv" | "text";
+
+// Stored in knowledgeBase.metadata.type.
+export const KNOWLEDGE_FORMAT_MIME_TYPES: Record<KnowledgeFormat, string> = {
+    pdf: "application/pdf",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    html: "text/html",
+    markdown: "text/markdown",
+    csv: "text/csv",
+    text: "text/plain",
+};
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+// Zip bomb guard: a few KB of deflate can expand to gigabytes.
+const ZIP_ENTRY_MAX_BYTES = 50 * 1024 * 1024;
+const ZIP_TOTAL_MAX_BYTES = 100 * 1024 * 1024;
+
+// Spreadsheets past this many rows per sheet are truncated with a note.
+const MAX_TABLE_ROWS = 5000;
+
+const EXTENSION_FORMATS: Record<string, KnowledgeFormat> = {
+    pdf: "pdf",
+    docx: "docx",
+    xlsx: "xlsx",
+    html: "html",
+    htm: "html",
+    md: "markdown",
+    markdown: "markdown",
+    csv: "csv",
+    tsv: "csv",
+    txt: "text",
+};
+
+const UNSUPPORTED_EXTENSIONS: Record<string, string> = {
+    doc: "docx",
+    xls: "xlsx",
+};
+
+/**
+ * File extension first, then MIME type, then the file's magic bytes.
+ */
+export function detectKnowledgeFormat(filename: string, mimeType: string | undefined, buffer: Buffer): KnowledgeFormat {
+    const extension = filename.toLowerCase().split(".").pop() ?? "";
+    if (UNSUPPORTED_EXTENSIONS[extension]) {
+        throw new Error(`Formato .${extension} não suportado. Salve o arquivo como .${UNSUPPORTED_EXTENSIONS[extension]} e envie novamente.`);
+    }
+    if (filename.includes(".") && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+    const mime = (mimeType ?? "").toLowerCase();
+    const byMime = (Object.keys(KNOWLEDGE_FORMAT_MIME_TYPES) as KnowledgeFormat[]).find(
+        (format) => KNOWLEDGE_FORMAT_MIME_TYPES[format] === mime
+    );
+    if (byMime) return byMime;
+    if (mime === "text/x-markdown") return "markdown";
+    if (mime === "text/tab-separated-values") return "csv";
+
+    if (buffer.subarray(0, 4).toString("latin1") === "%PDF") return "pdf";
+    if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER_SIGNATURE) {
+        const entries = readZipEntries(buffer);
+        if (entries.has("word/document.xml")) return "docx";
+        if (entries.has("xl/workbook.xml")) return "xlsx";
+    }
+    const head = buffer.subarray(0, 512).toString("utf8").trimStart().toLowerCase();
+    if (head.startsWith("<!doctype html") || head.startsWith("<html")) return "html";
+    return "text";
+}
+
+// --- Zip container (DOCX / XLSX) ---
+
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+    let end = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65_557); i--) {
+        if (buffer.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+            end = i;
+            break;
+        }
+    }
+    if (end === -1) throw new Error("Arquivo compactado inválido ou corrompido.");
+
+    const entryCount = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+    const entries = new Map<string, () => Buffer>();
+    let inflatedBytes = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+        if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIGNATURE) break;
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const uncompressedSize = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+
+        entries.set(name, () => {
+            if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+                throw new Error(`Entrada inválida no arquivo compactado: ${name}`);
+            }
+            const dataStart =
+                localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+            const data = buffer.subarray(dataStart, dataStart + compressedSize);
+            if (method === 0) return data;
+            if (method === 8) {
+                const limit = Math.min(ZIP_ENTRY_MAX_BYTES, ZIP_TOTAL_MAX_BYTES - inflatedBytes);
+                // The declared size can lie; maxOutputLength enforces the limit while inflating.
+                if (uncompressedSize > limit) throw new Error(`Arquivo compactado grande demais: ${name}.`);
+                let inflated: Buffer;
+                try {
+                    inflated = inflateRawSync(data, { maxOutputLength: limit });
+                } catch {
+                    throw new Error(`Arquivo compactado grande demais ou corrompido: ${name}.`);
+                }
+                inflatedBytes += inflated.length;
+                return inflated;
+            }
+            throw new Error(`Compressão não suportada (${method}) em ${name}.`);
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+function readZipText(entries: Map<string, () => Buffer>, name: string): string | null {
+    const read = entries.get(name);
+    return read ? read().toString("utf8") : null;
+}
+
+// --- Shared text helpers ---
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: "\u00a0",
+    ndash: "-",
+    mdash: "-",
+    hellip: "...",
+    laquo: "«",
+    raquo: "»",
+    copy: "©",
+    reg: "®",
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === "#") {
+            const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+// Collapses spaces per line and keeps at most one blank line between blocks.
+function tidyBlocks(text: string): string {
+    return text
+        .split("\n")
+        .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+/**
+ * Renders table rows as readable records ("Header: value; Header: value"),
+ * using the first non-empty row as the header. Callers separate records with
+ * blank lines so the chunker never splits one in half.
+ */
+function rowsToRecords(rows: string[][]): string[] {
+    const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim()));
+    if (nonEmpty.length === 0) return [];
+    const [header, ...body] = nonEmpty;
+    const columns = header.map((cell, idx) => cell.trim() || `Column ${idx + 1}`);
+    if (body.length === 0) return [columns.join(" | ")];
+
+    const records = body.slice(0, MAX_TABLE_ROWS).map((row) =>
+        row
+            .map((cell, idx) => (cell.trim() ? `${columns[idx] ?? `Column ${idx + 1}`}: ${cell.trim()}` : ""))
+            .filter(Boolean)
+            .join("; ")
+    );
+    if (body.length > MAX_TABLE_ROWS) {
+        records.push(`(${body.length - MAX_TABLE_ROWS} more rows not imported)`);
+    }
+    return records;
+}
+
+// --- DOCX ---
+
+function docxParagraphText(xml: string): string {
+    const parts: string[] = [];
+    const tokens = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\/>/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(xml)) !== null) {
+        if (match[1] !== undefined) parts.push(decodeEntities(match[1]));
+        else parts.push(match[0] === "<w:tab/>" ? "\t" : "\n");
+    }
+    return parts.join("");
+}
+
+function docxParagraph(xml: string): string {
+    const text = docxParagraphText(xml).trim();
+    if (!text) return "";
+    const style = xml.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? "";
+    const headingLevel = style.match(/^heading\s?(\d)$/i)?.[1];
+    if (headingLevel) return `${"#".repeat(Math.min(Number(headingLevel), 6))} ${text}`;
+    if (/^title$/i.test(style)) return `# ${text}`;
+    if (/<w:numPr>/.test(xml)) return `- ${text}`;
+    return text;
+}
+
+function docxTable(xml: string): string {
+    const rows = Array.from(xml.matchAll(/<w:tr[\s>][\s\S]*?<\/w:tr>/g)).map((row) =>
+        Array.from(row[0].matchAll(/<w:tc[\s>][\s\S]*?<\/w:tc>/g)).map((cell) =>
+            docxParagraphText(cell[0]).replace(/\s+/g, " ").trim()
+        )
+    );
+    return rowsToRecords(rows).join("\n\n");
+}
+
+export function extractDocx(buffer: Buffer): string {
+    const document = readZipText(readZipEntries(buffer), "word/document.xml");
+    if (!document) throw new Error("Documento DOCX sem word/document.xml.");
+
+    const body = document.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? document;
+    const blocks = Array.from(body.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[\s>][\s\S]*?<\/w:p>/g)).map((block) =>
+        block[0].startsWith("<w:tbl>") ? docxTable(block[0]) : docxParagraph(block[0])
+    );
+    return tidyBlocks(blocks.filter(Boolean).join("\n\n"));
+}
+
+// --- XLSX ---
+
+function xlsxColumnIndex(cellRef: string): number {
+    const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+    let index = 0;
+    for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+    return Math.max(0, index - 1);
+}
+
+function xlsxInlineText(xml: string): string {
+    return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+        .map((match) => decodeEntities(match[1]))
+        .join("");
+}
+
+function xlsxSheetRows(xml: string, sharedStrings: string[]): string[][] {
+    const rows: string[][] = [];
+    for (const rowMatch of xml.matchAll(/<row[\s>][\s\S]*?<\/row>/g)) {
+        const row: string[] = [];
+        for (const cell of rowMatch[0].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attributes = cell[1];
+            const content = cell[2] ?? "";
+            const ref = attributes.match(/\br="([A-Z]+\d+)"/i)?.[1];
+            const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+            const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+            let value = "";
+            if (type === "s" && raw !== undefined) value = sharedStrings[Number(raw)] ?? "";
+            else if (type === "inlineStr") value = xlsxInlineText(content);
+            else if (type === "b" && raw !== undefined) value = raw === "1" ? "TRUE" : "FALSE";
+            else if (raw !== undefined) value = decodeEntities(raw);
+
+            const column = ref ? xlsxColumnIndex(ref) : row.length;
+            while (row.length < column) row.push("");
+            row[column] = value.replace(/\s+/g, " ").trim();
+        }
+        rows.push(row);
+    }
+    return rows;
+}
+
+export function extractXlsx(buffer: Buffer): string {
+    const entries = readZipEntries(buffer);
+    const workbook = readZipText(entries, "xl/workbook.xml");
+    if (!workbook) throw new Error("Planilha XLSX sem xl/workbook.xml.");
+
+    const sharedStrings = Array.from(
+        (readZipText(entries, "xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)
+    ).map((match) => xlsxInlineText(match[1]));
+
+    const relationships = new Map<string, string>();
+    for (const rel of (readZipText(entries, "xl/_rels/workbook.xml.rels") ?? "").matchAll(/<Relationship\b[^>]*>/g)) {
+        const id = rel[0].match(/\bId="([^"]+)"/)?.[1];
+        const target = rel[0].match(/\bTarget="([^"]+)"/)?.[1];
+        if (id && target) relationships.set(id, target.replace(/^\/?(xl\/)?/, "xl/"));
+    }
+
+    const sections: string[] = [];
+    const sheets = Array.from(workbook.matchAll(/<sheet\b[^>]*>/g));
+    sheets.forEach((sheet, idx) => {
+        const name = decodeEntities(sheet[0].match(/\bname="([^"]*)"/)?.[1] ?? `Sheet ${idx + 1}`);
+        const relId = sheet[0].match(/\br:id="([^"]+)"/)?.[1];
+        const path = (relId && relationships.get(relId)) || `xl/worksheets/sheet${idx + 1}.xml`;
+        const xml = readZipText(entries, path);
+        if (!xml) return;
+        const records = rowsToRecords(xlsxSheetRows(xml, sharedStrings));
+        if (records.length === 0) return;
+        sections.push(`## ${name}\n\n${records.join("\n\n")}`);
+    });
+    return tidyBlocks(sections.join("\n\n"));
+}
+
+// --- HTML ---
+
+export function extractHtml(html: string): string {
+    let content = html
+        .replace(/<!--[\s\S]*?-->/g, " ")
+        .replace(/<(script|style|noscript|svg|template|iframe|head)\b[\s\S]*?<\/\1>/gi, " ");
+
+    // Page chrome: prefer the main content region, then drop navigation and footers.
+    const main = content.match(/<(main|article)\b[^>]*>([\s\S]*)<\/\1>/i)?.[2];
+    if (main) content = main;
+    content = content.replace(/<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, " ");
+
+    content = content
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+            `\n\n${"#".repeat(Number(level))} ${inner.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim()}\n\n`
+        )
+        .replace(/<li\b[^>]*>/gi, "\n- ")
+        .replace(/<(td|th)\b[^>]*>/gi, " | ")
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/?(p|div|section|table|tr|ul|ol|blockquote|pre|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, "\n\n")
+        .replace(/<[^>]+>/g, " ");
+
+    return tidyBlocks(decodeEntities(content).replace(/^\s*\|\s*/gm, ""));
+}
+
+// --- Markdown ---
+
+export function extractMarkdown(markdown: string): string {
+    const lines = markdown
+        .replace(/\r\n?/g, "\n")
+        .replace(/^---\n[\s\S]*?\n---\n/, "")
+        .split("\n");
+
+    const output: string[] = [];
+    for (const line of lines) {
+        // Setext headings: "Title" underlined with === or ---.
+        if (/^=+\s*$/.test(line) && output.length > 0 && output[output.length - 1].trim()) {
+            output[output.length - 1] = `# ${output[output.length - 1].trim()}`;
+            continue;
+        }
+        if (/^-+\s*$/.test(line) && output.length > 0 && output[output.length - 1].trim() && !/^#/.test(output[output.length - 1])) {
+            output[output.length - 1] = `## ${output[output.length - 1].trim()}`;
+            continue;
+        }
+        if (/^\s*(```|~~~)/.test(line)) continue;
+        if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) continue;
+        output.push(line);
+    }
+
+    const text = output
+        .join("\n")
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, "$1 ($2)")
+        .replace(/(\*\*|__)(.+?)\1/g, "$2")
+        .replace(/`([^`]+)`/g, "$1")
+        .replace(/<[^>]+>/g, " ");
+    return tidyBlocks(decodeEntities(text));
+}
+
+// --- CSV ---
+
+function detectDelimiter(firstLine: string): string {
+    const candidates = [",", ";", "\t"];
+    const counts = candidates.map((delimiter) => firstLine.split(delimiter).length - 1);
+    const best = counts.indexOf(Math.max(...counts));
+    return counts[best] > 0 ? candidates[best] : ",";
+}
+
+function parseCsv(text: string): string[][] {
+    const normalized = text.replace(/^\ufeff/, "").replace(/\r\n?/g, "\n");
+    const delimiter = detectDelimiter(normalized.split("\n")[0] ?? "");
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < normalized.length; i++) {
+        const char = normalized[i];
+        if (inQuotes) {
+            if (char === '"' && normalized[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === "") {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = "";
+        } else if (char === "\n") {
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+export function extractCsv(text: string): string {
+    return rowsToRecords(parseCsv(text)).join("\n\n");
+}
@@ -0,0 +1,52 @@
+import type { Id } from "../_generated/dataModel";
+
+/**
+ * Who can read a knowledge entry. Department entries stay in their department;
+ * org-wide entries are shared by every department of the organization unless
+ * the department overrides them with its own entry; entries in a collection
+ * only reach the agents the collection is attached to.
+ */
+
+export type KnowledgeScope = "department" | "org";
+
+// Collections an agent can search at once; each one adds a full-text query per search.
+export const MAX_AGENT_COLLECTIONS = 8;
+
+export type KnowledgeVisibility = {
+    departmentId: Id<"departments">;
+    orgId?: Id<"organizations">;
+    collectionIds: Id<"knowledgeCollections">[];
+    // Org-wide entries replaced by a department entry (overridesKnowledgeId).
+    overriddenIds: Id<"knowledgeBase">[];
+};
+
+type ScopedEntry = {
+    _id: Id<"knowledgeBase">;
+    departmentId?: Id<"departments">;
+    orgId?: Id<"organizations">;
+    scope?: KnowledgeScope;
+    collectionId?: Id<"knowledgeCollections">;
+};
+
+export function isKnowledgeVisible(entry: ScopedEntry, visibility: KnowledgeVisibility): boolean {
+    if (entry.scope !== "org") return entry.departmentId === visibility.departmentId;
+    if (!visibility.orgId || entry.orgId !== visibility.orgId) return false;
+    if (visibility.overriddenIds.includes(entry._id)) return false;
+    return entry.collectionId === undefined || visibility.collectionIds.includes(entry.collectionId);
+}
+
+/**
+ * Filter fields copied onto an entry's chunks. A chunk carries exactly one of
+ * departmentId, sharedOrgId and collectionId, so a single OR filter in the
+ * vector index covers everything an agent may read.
+ */
+export function chunkScopeFields(entry: Omit<ScopedEntry, "_id">): {
+    departmentId?: Id<"departments">;
+    orgId?: Id<"organizations">;
+    sharedOrgId?: Id<"organizations">;
+    collectionId?: Id<"knowledgeCollections">;
+} {
+    if (entry.scope !== "org") return { departmentId: entry.departmentId, orgId: entry.orgId };
+    if (entry.collectionId) return { orgId: entry.orgId, collectionId: entry.collectionId };
+    return { orgId: entry.orgId, sharedOrgId: entry.orgId };
+}
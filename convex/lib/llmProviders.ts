@@ -0,0 +1,659 @@
+import type { ActionCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { v } from "convex/values";
+import OpenAI from "openai";
+import { validateStepBudgetField } from "./stepBudget";
+
+export type LlmProvider = "openai" | "anthropic";
+
+export type LlmToolCall = {
+    id: string;
+    name: string;
+    args: Record<string, any>;
+};
+
+export type LlmToolDefinition = {
+    name: string;
+    description: string;
+    // JSON schema of the arguments object
+    parameters: Record<string, any>;
+};
+
+export type LlmChatMessage =
+    | { role: "user" | "system"; content: string }
+    | { role: "assistant"; content: string; toolCalls?: LlmToolCall[] }
+    | { role: "tool"; toolCallId: string; name: string; content: string };
+
+export type LlmChatRequest = {
+    provider: LlmProvider;
+    apiKey: string;
+    model?: string;
+    systemPrompt: string;
+    messages: LlmChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    tools?: LlmToolDefinition[];
+    // When set, the response is streamed and this receives the text accumulated so far.
+    onText?: (textSoFar: string) => Promise<void>;
+};
+
+export type LlmChatResult = {
+    provider: LlmProvider;
+    model: string;
+    content: string;
+    toolCalls: LlmToolCall[];
+    usage: {
+        inputTokens: number;
+        outputTokens: number;
+    };
+};
+
+export type LlmCredentials = {
+    provider: LlmProvider;
+    apiKey: string;
+    source: "integration" | "env";
+};
+
+export const LLM_PROVIDERS: readonly LlmProvider[] = ["openai", "anthropic"];
+
+export const DEFAULT_CHAT_MODELS: Record<LlmProvider, string> = {
+    openai: "gpt-4o",
+    anthropic: "claude-sonnet-4-5",
+};
+
+// Cheaper models used when a spending limit is set to downgrade instead of block.
+export const ECONOMY_CHAT_MODELS: Record<LlmProvider, string> = {
+    openai: "gpt-4o-mini",
+    anthropic: "claude-haiku-4-5",
+};
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 900;
+const MAX_OUTPUT_TOKENS_CAP: Record<LlmProvider, number> = {
+    openai: 16_384,
+    anthropic: 8_192,
+};
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_API_VERSION = "2023-06-01";
+
+const ENV_KEY_BY_PROVIDER: Record<LlmProvider, string> = {
+    openai: "OPENAI_API_KEY",
+    anthropic: "ANTHROPIC_API_KEY",
+};
+
+export type AgentModelSettings = {
+    llmProvider?: LlmProvider;
+    model?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    // Step budget per run (see lib/stepBudget)
+    maxToolIterations?: number;
+    maxRunSeconds?: number;
+    maxRunTokens?: number;
+};
+
+export const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Mutation args for editing per-agent model settings. `null` resets a field to the default.
+ */
+export const modelSettingsUpdateArgs = {
+    llmProvider: v.optional(v.union(v.literal("openai"), v.literal("anthropic"), v.null())),
+    model: v.optional(v.union(v.string(), v.null())),
+    temperature: v.optional(v.union(v.number(), v.null())),
+    maxOutputTokens: v.optional(v.union(v.number(), v.null())),
+    maxToolIterations: v.optional(v.union(v.number(), v.null())),
+    maxRunSeconds: v.optional(v.union(v.number(), v.null())),
+    maxRunTokens: v.optional(v.union(v.number(), v.null())),
+};
+
+type ModelSettingsInput = {
+    [K in keyof AgentModelSettings]?: AgentModelSettings[K] | null;
+};
+
+/**
+ * Validates user-provided model settings and returns a patch object
+ * (only keys that were provided; `undefined` values clear the field).
+ * `current` holds the stored settings, so a provider change is checked against the stored
+ * max output tokens and vice versa.
+ */
+export function buildModelSettingsPatch(
+    input: ModelSettingsInput,
+    current?: AgentModelSettings | null
+): Partial<AgentModelSettings> {
+    const patch: Partial<AgentModelSettings> = {};
+
+    if (input.llmProvider !== undefined) {
+        patch.llmProvider = input.llmProvider ?? undefined;
+    }
+    if (input.model !== undefined) {
+        const model = typeof input.model === "string" ? input.model.trim() : "";
+        if (model.length > 100) throw new Error("Model name must be 100 characters or less.");
+        patch.model = model || undefined;
+    }
+    if (input.temperature !== undefined) {
+        if (input.temperature !== null && (!Number.isFinite(input.temperature) || input.temperature < 0 || input.temperature > 2)) {
+            throw new Error("Temperature must be between 0 and 2.");
+        }
+        patch.temperature = input.temperature ?? undefined;
+    }
+    if (input.maxOutputTokens !== undefined) {
+        if (input.maxOutputTokens !== null && (!Number.isInteger(input.maxOutputTokens) || input.maxOutputTokens < 64)) {
+            throw new Error("Max output tokens must be an integer of at least 64.");
+        }
+        patch.maxOutputTokens = input.maxOutputTokens ?? undefined;
+    }
+    if (input.llmProvider !== undefined || input.maxOutputTokens !== undefined) {
+        const provider = normalizeLlmProvider(
+            input.llmProvider !== undefined ? input.llmProvider : current?.llmProvider
+        );
+        const maxOutputTokens = input.maxOutputTokens !== undefined ? input.maxOutputTokens : current?.maxOutputTokens;
+        // Without a pinned provider the run may land on either one, so the lowest cap applies.
+        const cap = provider
+            ? MAX_OUTPUT_TOKENS_CAP[provider]
+            : Math.min(...LLM_PROVIDERS.map((candidate) => MAX_OUTPUT_TOKENS_CAP[candidate]));
+        if (typeof maxOutputTokens === "number" && maxOutputTokens > cap) {
+            throw new Error(
+                provider
+                    ? `Max output tokens for ${providerLabel(provider)} must be at most ${cap}.`
+                    : `Max output tokens must be at most ${cap} unless a provider is selected.`
+            );
+        }
+    }
+    if (input.maxToolIterations !== undefined) {
+        if (input.maxToolIterations !== null) {
+            validateStepBudgetField("maxToolIterations", "Max tool iterations", input.maxToolIterations);
+        }
+        patch.maxToolIterations = input.maxToolIterations ?? undefined;
+    }
+    if (input.maxRunSeconds !== undefined) {
+        if (input.maxRunSeconds !== null) {
+            validateStepBudgetField("maxRunSeconds", "Max run seconds", input.maxRunSeconds);
+        }
+        patch.maxRunSeconds = input.maxRunSeconds ?? undefined;
+    }
+    if (input.maxRunTokens !== undefined) {
+        if (input.maxRunTokens !== null) {
+            validateStepBudgetField("maxRunTokens", "Max run tokens", input.maxRunTokens);
+        }
+        patch.maxRunTokens = input.maxRunTokens ?? undefined;
+    }
+
+    return patch;
+}
+
+export type ResolvedModelSettings = {
+    model?: string;
+    temperature: number;
+    maxOutputTokens?: number;
+};
+
+/**
+ * Merges agent settings over template settings over brain defaults.
+ * A pinned model is dropped when the key fallback landed on a different provider,
+ * otherwise e.g. a Claude model name would be sent to OpenAI.
+ */
+export function resolveAgentModelSettings(
+    resolvedProvider: LlmProvider,
+    agent: AgentModelSettings | null | undefined,
+    template?: AgentModelSettings | null
+): ResolvedModelSettings {
+    const configuredProvider = normalizeLlmProvider(agent?.llmProvider ?? template?.llmProvider);
+    const model = agent?.model ?? template?.model;
+
+    return {
+        model: model && (!configuredProvider || configuredProvider === resolvedProvider) ? model : undefined,
+        temperature: agent?.temperature ?? template?.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: agent?.maxOutputTokens ?? template?.maxOutputTokens,
+    };
+}
+
+export function normalizeLlmProvider(input: unknown): LlmProvider | null {
+    const normalized = typeof input === "string" ? input.trim().toLowerCase() : "";
+    if (normalized === "openai" || normalized === "anthropic") return normalized;
+    return null;
+}
+
+export function providerLabel(provider: LlmProvider): string {
+    return provider === "anthropic" ? "Anthropic" : "OpenAI";
+}
+
+// Legacy completion-style models that reject the `tools` parameter.
+const TEXT_ONLY_MODEL_PATTERNS: Record<LlmProvider, RegExp> = {
+    openai: /^(gpt-3\.5-turbo-instruct|o1-mini|o1-preview|davinci|babbage)/i,
+    anthropic: /^claude-(instant|2)/i,
+};
+
+/**
+ * Whether the brain should declare tools through the provider's structured
+ * tool-calling API instead of the text [TOOL: ...] protocol.
+ */
+export function supportsNativeToolCalls(provider: LlmProvider, model?: string): boolean {
+    const resolvedModel = model || DEFAULT_CHAT_MODELS[provider];
+    return !TEXT_ONLY_MODEL_PATTERNS[provider].test(resolvedModel);
+}
+
+function parseToolArguments(raw: unknown): Record<string, any> {
+    if (raw && typeof raw === "object" && !Array.isArray(raw)) return raw as Record<string, any>;
+    if (typeof raw !== "string" || !raw.trim()) return {};
+    try {
+        const parsed = JSON.parse(raw);
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+function clampMaxTokens(provider: LlmProvider, maxTokens?: number): number {
+    const requested =
+        typeof maxTokens === "number" && Number.isFinite(maxTokens) && maxTokens > 0
+            ? Math.floor(maxTokens)
+            : DEFAULT_MAX_OUTPUT_TOKENS;
+    return Math.min(requested, MAX_OUTPUT_TOKENS_CAP[provider]);
+}
+
+function clampTemperature(provider: LlmProvider, temperature?: number): number {
+    const value = typeof temperature === "number" && Number.isFinite(temperature) ? temperature : DEFAULT_TEMPERATURE;
+    // Anthropic accepts 0..1, OpenAI accepts 0..2.
+    const max = provider === "anthropic" ? 1 : 2;
+    return Math.max(0, Math.min(value, max));
+}
+
+type AnthropicContentBlock =
+    | { type: "text"; text: string }
+    | { type: "tool_use"; id: string; name: string; input: Record<string, any> }
+    | { type: "tool_result"; tool_use_id: string; content: string };
+
+export type AnthropicMessage = {
+    role: "user" | "assistant";
+    content: string | AnthropicContentBlock[];
+};
+
+function toAnthropicBlocks(message: LlmChatMessage): AnthropicContentBlock[] {
+    if (message.role === "tool") {
+        return [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content || "(empty)" }];
+    }
+
+    const blocks: AnthropicContentBlock[] = [];
+    const content = String(message.content ?? "").trim();
+    if (content) {
+        blocks.push({ type: "text", text: message.role === "system" ? `[SYSTEM NOTE]\n${content}` : content });
+    }
+    if (message.role === "assistant") {
+        for (const toolCall of message.toolCalls ?? []) {
+            blocks.push({ type: "tool_use", id: toolCall.id, name: toolCall.name, input: toolCall.args });
+        }
+    }
+    return blocks;
+}
+
+/**
+ * Anthropic only accepts alternating user/assistant turns (starting with user) and a
+ * top-level system prompt. Mid-conversation system notes (memory context, tool
+ * observations, reminders) are folded into user turns so they keep their position.
+ * Tool results travel as user turns and must lead their turn's content.
+ */
+export function toAnthropicMessages(messages: LlmChatMessage[]): AnthropicMessage[] {
+    const turns: Array<{ role: "user" | "assistant"; blocks: AnthropicContentBlock[] }> = [];
+
+    for (const message of messages) {
+        const blocks = toAnthropicBlocks(message);
+        if (blocks.length === 0) continue;
+        const role = message.role === "assistant" ? "assistant" : "user";
+
+        const previous = turns[turns.length - 1];
+        if (previous && previous.role === role) {
+            previous.blocks.push(...blocks);
+        } else {
+            turns.push({ role, blocks });
+        }
+    }
+
+    if (turns.length === 0 || turns[0].role !== "user") {
+        turns.unshift({ role: "user", blocks: [{ type: "text", text: "(conversation start)" }] });
+    }
+    if (turns[turns.length - 1].role !== "user") {
+        turns.push({ role: "user", blocks: [{ type: "text", text: "Continue." }] });
+    }
+
+    return turns.map(({ role, blocks }) => {
+        if (blocks.every((block) => block.type === "text")) {
+            return { role, content: blocks.map((block) => (block as { text: string }).text).join("\n\n") };
+        }
+        const toolResults = blocks.filter((block) => block.type === "tool_result");
+        const rest = blocks.filter((block) => block.type !== "tool_result");
+        return { role, content: [...toolResults, ...rest] };
+    });
+}
+
+function toOpenAiMessages(systemPrompt: string, messages: LlmChatMessage[]): any[] {
+    const out: any[] = [{ role: "system", content: systemPrompt }];
+    for (const message of messages) {
+        if (message.role === "tool") {
+            out.push({ role: "tool", tool_call_id: message.toolCallId, content: message.content });
+        } else if (message.role === "assistant" && message.toolCalls && message.toolCalls.length > 0) {
+            out.push({
+                role: "assistant",
+                content: message.content || null,
+                tool_calls: message.toolCalls.map((toolCall) => ({
+                    id: toolCall.id,
+                    type: "function",
+                    function: { name: toolCall.name, arguments: JSON.stringify(toolCall.args ?? {}) },
+                })),
+            });
+        } else {
+            out.push({ role: message.role, content: message.content });
+        }
+    }
+    return out;
+}
+
+function openAiRequestBody(request: LlmChatRequest, model: string) {
+    const tools = request.tools ?? [];
+    return {
+        model,
+        messages: toOpenAiMessages(request.systemPrompt, request.messages),
+        temperature: clampTemperature("openai", request.temperature),
+        max_tokens: clampMaxTokens("openai", request.maxTokens),
+        ...(tools.length > 0
+            ? {
+                tools: tools.map((tool) => ({
+                    type: "function" as const,
+                    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+                tool_choice: "auto" as const,
+            }
+            : {}),
+    };
+}
+
+async function chatWithOpenAi(request: LlmChatRequest): Promise<LlmChatResult> {
+    const model = request.model || DEFAULT_CHAT_MODELS.openai;
+    const openai = new OpenAI({ apiKey: request.apiKey });
+
+    const response = await openai.chat.completions.create(openAiRequestBody(request, model));
+
+    const message = response.choices[0]?.message;
+    const content = message?.content ?? "";
+    const toolCalls: LlmToolCall[] = (message?.tool_calls ?? [])
+        .filter((toolCall) => toolCall.type === "function")
+        .map((toolCall) => ({
+            id: toolCall.id,
+            name: toolCall.function.name,
+            args: parseToolArguments(toolCall.function.arguments),
+        }));
+    if (!content && toolCalls.length === 0) {
+        throw new Error("Empty response from OpenAI");
+    }
+
+    return {
+        provider: "openai",
+        model: response.model || model,
+        content,
+        toolCalls,
+        usage: {
+            inputTokens: response.usage?.prompt_tokens ?? 0,
+            outputTokens: response.usage?.completion_tokens ?? 0,
+        },
+    };
+}
+
+async function streamWithOpenAi(
+    request: LlmChatRequest,
+    onText: (textSoFar: string) => Promise<void>
+): Promise<LlmChatResult> {
+    const model = request.model || DEFAULT_CHAT_MODELS.openai;
+    const openai = new OpenAI({ apiKey: request.apiKey });
+
+    const stream = await openai.chat.completions.create({
+        ...openAiRequestBody(request, model),
+        stream: true,
+        stream_options: { include_usage: true },
+    });
+
+    let content = "";
+    let responseModel = model;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+    // Tool call ids and names arrive once; arguments arrive as JSON fragments keyed by index.
+    const partialToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+    for await (const chunk of stream) {
+        if (chunk.model) responseModel = chunk.model;
+        if (chunk.usage) {
+            usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+        const delta = chunk.choices[0]?.delta;
+        for (const toolCallDelta of delta?.tool_calls ?? []) {
+            const partial = partialToolCalls.get(toolCallDelta.index) ?? { id: "", name: "", arguments: "" };
+            partial.id = toolCallDelta.id ?? partial.id;
+            partial.name = toolCallDelta.function?.name ?? partial.name;
+            partial.arguments += toolCallDelta.function?.arguments ?? "";
+            partialToolCalls.set(toolCallDelta.index, partial);
+        }
+        if (delta?.content) {
+            content += delta.content;
+            await onText(content);
+        }
+    }
+
+    const toolCalls: LlmToolCall[] = Array.from(partialToolCalls.entries())
+        .sort(([a], [b]) => a - b)
+        .filter(([, partial]) => partial.name)
+        .map(([, partial]) => ({
+            id: partial.id,
+            name: partial.name,
+            args: parseToolArguments(partial.arguments),
+        }));
+    if (!content && toolCalls.length === 0) {
+        throw new Error("Empty response from OpenAI");
+    }
+
+    return { provider: "openai", model: responseModel, content, toolCalls, usage };
+}
+
+function anthropicRequestBody(request: LlmChatRequest, model: string) {
+    return {
+        model,
+        system: request.systemPrompt,
+        messages: toAnthropicMessages(request.messages),
+        max_tokens: clampMaxTokens("anthropic", request.maxTokens),
+        temperature: clampTemperature("anthropic", request.temperature),
+        ...(request.tools && request.tools.length > 0
+            ? {
+                tools: request.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.parameters,
+                })),
+            }
+            : {}),
+    };
+}
+
+async function postToAnthropic(request: LlmChatRequest, body: Record<string, any>): Promise<Response> {
+    const response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "x-api-key": request.apiKey,
+            "anthropic-version": ANTHROPIC_API_VERSION,
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`Anthropic API Error: ${err}`);
+    }
+    return response;
+}
+
+async function chatWithAnthropic(request: LlmChatRequest): Promise<LlmChatResult> {
+    const model = request.model || DEFAULT_CHAT_MODELS.anthropic;
+
+    const response = await postToAnthropic(request, anthropicRequestBody(request, model));
+
+    const payload: any = await response.json();
+    const blocks = Array.isArray(payload?.content) ? payload.content : [];
+    const content = blocks
+        .filter((block: any) => block?.type === "text" && typeof block.text === "string")
+        .map((block: any) => block.text)
+        .join("")
+        .trim();
+    const toolCalls: LlmToolCall[] = blocks
+        .filter((block: any) => block?.type === "tool_use" && typeof block.name === "string")
+        .map((block: any) => ({
+            id: String(block.id),
+            name: block.name,
+            args: parseToolArguments(block.input),
+        }));
+    if (!content && toolCalls.length === 0) {
+        throw new Error("Empty response from Anthropic");
+    }
+
+    return {
+        provider: "anthropic",
+        model: typeof payload?.model === "string" ? payload.model : model,
+        content,
+        toolCalls,
+        usage: {
+            inputTokens: payload?.usage?.input_tokens ?? 0,
+            outputTokens: payload?.usage?.output_tokens ?? 0,
+        },
+    };
+}
+
+/**
+ * Yields the JSON payload of each server-sent event in a streamed Messages API response.
+ */
+async function* readAnthropicEvents(response: Response): AsyncGenerator<any> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = done ? "" : events.pop() ?? "";
+        for (const event of events) {
+            const data = event
+                .split(/\r?\n/)
+                .filter((line) => line.startsWith("data:"))
+                .map((line) => line.slice(5).trim())
+                .join("");
+            if (!data) continue;
+            try {
+                yield JSON.parse(data);
+            } catch {
+                // Ignore keep-alive or malformed events.
+            }
+        }
+        if (done) return;
+    }
+}
+
+async function streamWithAnthropic(
+    request: LlmChatRequest,
+    onText: (textSoFar: string) => Promise<void>
+): Promise<LlmChatResult> {
+    const model = request.model || DEFAULT_CHAT_MODELS.anthropic;
+
+    const response = await postToAnthropic(request, { ...anthropicRequestBody(request, model), stream: true });
+
+    let content = "";
+    let responseModel = model;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    // tool_use input arrives as JSON fragments for the block at `index`.
+    const partialToolCalls = new Map<number, { id: string; name: string; input: string }>();
+    for await (const event of readAnthropicEvents(response)) {
+        if (event?.type === "message_start") {
+            if (typeof event.message?.model === "string") responseModel = event.message.model;
+            usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+        } else if (event?.type === "content_block_start" && event.content_block?.type === "tool_use") {
+            partialToolCalls.set(event.index, {
+                id: String(event.content_block.id),
+                name: String(event.content_block.name),
+                input: "",
+            });
+        } else if (event?.type === "content_block_delta") {
+            if (event.delta?.type === "text_delta" && typeof event.delta.text === "string") {
+                content += event.delta.text;
+                await onText(content);
+            } else if (event.delta?.type === "input_json_delta") {
+                const partial = partialToolCalls.get(event.index);
+                if (partial) partial.input += String(event.delta.partial_json ?? "");
+            }
+        } else if (event?.type === "message_delta") {
+            usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+        } else if (event?.type === "error") {
+            throw new Error(`Anthropic API Error: ${JSON.stringify(event.error ?? event)}`);
+        }
+    }
+
+    const toolCalls: LlmToolCall[] = Array.from(partialToolCalls.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, partial]) => ({ id: partial.id, name: partial.name, args: parseToolArguments(partial.input) }));
+    content = content.trim();
+    if (!content && toolCalls.length === 0) {
+        throw new Error("Empty response from Anthropic");
+    }
+
+    return { provider: "anthropic", model: responseModel, content, toolCalls, usage };
+}
+
+export async function chatWithProvider(request: LlmChatRequest): Promise<LlmChatResult> {
+    if (request.onText) {
+        return request.provider === "anthropic"
+            ? await streamWithAnthropic(request, request.onText)
+            : await streamWithOpenAi(request, request.onText);
+    }
+    if (request.provider === "anthropic") {
+        return await chatWithAnthropic(request);
+    }
+    return await chatWithOpenAi(request);
+}
+
+export function getEnvApiKey(provider: LlmProvider): string | null {
+    const value = process.env[ENV_KEY_BY_PROVIDER[provider]];
+    return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function getIntegrationApiKey(integration: any): string | null {
+    const config = integration?.config;
+    const key = config?.key || config?.token || config?.apiKey;
+    return typeof key === "string" && key.trim().length > 0 ? key.trim() : null;
+}
+
+/**
+ * Picks the LLM provider + key for a department (BYOK).
+ * Priority: preferred provider (agent setting) -> OpenAI -> Anthropic,
+ * first via the department/org integration, then via environment variables.
+ */
+export async function resolveLlmCredentials(
+    ctx: ActionCtx,
+    departmentId: Id<"departments">,
+    preferred?: LlmProvider | null
+): Promise<LlmCredentials> {
+    const order: LlmProvider[] = preferred
+        ? [preferred, ...LLM_PROVIDERS.filter((provider) => provider !== preferred)]
+        : [...LLM_PROVIDERS];
+
+    for (const provider of order) {
+        const integration = await ctx.runQuery(internal.integrations.getByTypeForDepartment, {
+            departmentId,
+            type: provider,
+        });
+        const apiKey = getIntegrationApiKey(integration);
+        if (apiKey) return { provider, apiKey, source: "integration" };
+    }
+
+    for (const provider of order) {
+        const apiKey = getEnvApiKey(provider);
+        if (apiKey) return { provider, apiKey, source: "env" };
+    }
+
+    throw new Error(
+        "No LLM API Key configured. Please connect OpenAI or Anthropic in Department Settings or Environment Variables."
+    );
+}
@@ -0,0 +1,388 @@
+/**
+ * Recurrence rules for task schedules: 5-field cron expressions and a subset
+ * of RFC 5545 RRULE, both evaluated in an IANA timezone.
+ * Frontend-safe: the schedule form previews upcoming runs with these helpers.
+ *
+ * Cron: "minute hour day-of-month month day-of-week" with `*`, lists, ranges,
+ * steps, month/day names and the @hourly/@daily/@weekly/@monthly/@yearly macros.
+ * RRULE: FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL, BYDAY (ordinals such
+ * as 1MO or -1FR for monthly rules), BYMONTHDAY, BYMONTH, BYHOUR, BYMINUTE,
+ * COUNT and UNTIL. Values RRULE leaves out come from the schedule start.
+ */
+
+export type ScheduleKind = "cron" | "rrule";
+
+type LocalDate = { year: number; month: number; day: number; weekday: number };
+type LocalTime = { hour: number; minute: number };
+
+type CompiledSchedule = {
+    times: LocalTime[];
+    matchesDate: (date: LocalDate) => boolean;
+    until?: number;
+    count?: number;
+};
+
+// Days scanned when looking for the next run; rules rarer than this never fire.
+const MAX_SCAN_DAYS = 366 * 5;
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const CRON_DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+const RRULE_DAY_NAMES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const CRON_MACROS: Record<string, string> = {
+    "@hourly": "0 * * * *",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@weekly": "0 0 * * 0",
+    "@monthly": "0 0 1 * *",
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+};
+
+export function isValidTimeZone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(timestamp: number, timezone: string): LocalDate & LocalTime {
+    let formatter = formatterCache.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+        });
+        formatterCache.set(timezone, formatter);
+    }
+    const parts: Record<string, number> = {};
+    for (const part of formatter.formatToParts(new Date(timestamp))) {
+        if (part.type !== "literal") parts[part.type] = Number(part.value);
+    }
+    const year = parts.year;
+    const month = parts.month;
+    const day = parts.day;
+    return {
+        year,
+        month,
+        day,
+        weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+        hour: parts.hour % 24,
+        minute: parts.minute,
+    };
+}
+
+// Offset of `timezone` from UTC at `timestamp`, in milliseconds.
+function zoneOffset(timestamp: number, timezone: string): number {
+    const local = zonedParts(timestamp, timezone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return asUtc - Math.floor(timestamp / 60_000) * 60_000;
+}
+
+/**
+ * UTC timestamp of a wall-clock time. A time repeated when clocks go back
+ * resolves to its first occurrence; a time skipped when they go forward lands
+ * just after the jump.
+ */
+function zonedTimeToUtc(date: Pick<LocalDate, "year" | "month" | "day">, time: LocalTime, timezone: string): number {
+    const wallClock = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute);
+    const halfDay = 12 * 60 * 60 * 1000;
+    const candidates = [
+        wallClock - zoneOffset(wallClock - halfDay, timezone),
+        wallClock - zoneOffset(wallClock + halfDay, timezone),
+    ];
+    const exact = candidates.filter((candidate) => {
+        const local = zonedParts(candidate, timezone);
+        return local.hour === time.hour && local.minute === time.minute && local.day === date.day;
+    });
+    return exact.length > 0 ? Math.min(...exact) : Math.max(...candidates);
+}
+
+function addDays(date: Pick<LocalDate, "year" | "month" | "day">, days: number): LocalDate {
+    const next = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return {
+        year: next.getUTCFullYear(),
+        month: next.getUTCMonth() + 1,
+        day: next.getUTCDate(),
+        weekday: next.getUTCDay(),
+    };
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function dayNumber(date: Pick<LocalDate, "year" | "month" | "day">): number {
+    return Math.floor(Date.UTC(date.year, date.month - 1, date.day) / 86_400_000);
+}
+
+function parseCronValue(raw: string, names: string[] | null, min: number): number {
+    const upper = raw.toUpperCase();
+    const named = names ? names.indexOf(upper) : -1;
+    if (named >= 0) return named + min;
+    if (!/^\d+$/.test(raw)) throw new Error(`Invalid cron value '${raw}'.`);
+    return Number(raw);
+}
+
+function parseCronField(field: string, min: number, max: number, names: string[] | null = null): Set<number> | null {
+    if (field === "*" || field === "?") return null;
+    const values = new Set<number>();
+    for (const item of field.split(",")) {
+        const [rangePart, stepPart] = item.split("/");
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step in '${item}'.`);
+
+        let start: number;
+        let end: number;
+        if (rangePart === "*") {
+            start = min;
+            end = max;
+        } else if (rangePart.includes("-")) {
+            const [from, to] = rangePart.split("-");
+            start = parseCronValue(from, names, min);
+            end = parseCronValue(to, names, min);
+        } else {
+            start = parseCronValue(rangePart, names, min);
+            end = stepPart === undefined ? start : max;
+        }
+        if (start < min || end > max || start > end) {
+            throw new Error(`Cron value '${item}' is out of range ${min}-${max}.`);
+        }
+        for (let value = start; value <= end; value += step) values.add(value);
+    }
+    return values;
+}
+
+function timesFrom(hours: Iterable<number>, minutes: Iterable<number>): LocalTime[] {
+    const times: LocalTime[] = [];
+    for (const hour of hours) {
+        for (const minute of minutes) times.push({ hour, minute });
+    }
+    return times.sort((a, b) => a.hour - b.hour || a.minute - b.minute);
+}
+
+function range(min: number, max: number): number[] {
+    return Array.from({ length: max - min + 1 }, (_, idx) => min + idx);
+}
+
+function compileCron(expression: string): CompiledSchedule {
+    const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+    const fields = normalized.split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error("Cron expressions need 5 fields: minute hour day-of-month month day-of-week.");
+    }
+    const minutes = parseCronField(fields[0], 0, 59);
+    const hours = parseCronField(fields[1], 0, 23);
+    const daysOfMonth = parseCronField(fields[2], 1, 31);
+    const months = parseCronField(fields[3], 1, 12, MONTH_NAMES);
+    const rawDaysOfWeek = parseCronField(fields[4], 0, 7, CRON_DAY_NAMES);
+    // 7 is Sunday too.
+    const daysOfWeek = rawDaysOfWeek ? new Set(Array.from(rawDaysOfWeek, (day) => day % 7)) : null;
+
+    return {
+        times: timesFrom(hours ?? range(0, 23), minutes ?? range(0, 59)),
+        matchesDate: (date) => {
+            if (months && !months.has(date.month)) return false;
+            const domMatch = daysOfMonth ? daysOfMonth.has(date.day) : true;
+            const dowMatch = daysOfWeek ? daysOfWeek.has(date.weekday) : true;
+            // Like Vixie cron: when both day fields are restricted, either one matches.
+            if (daysOfMonth && daysOfWeek) return domMatch || dowMatch;
+            return domMatch && dowMatch;
+        },
+    };
+}
+
+function parseIntList(raw: string, min: number, max: number, key: string): number[] {
+    return raw.split(",").map((item) => {
+        const value = Number(item);
+        if (!Number.isInteger(value) || value < min || value > max || (value === 0 && min < 0)) {
+            throw new Error(`Invalid ${key} value '${item}'.`);
+        }
+        return value;
+    });
+}
+
+/**
+ * A UTC date-time ("...Z") is taken as is. A date, or a date-time without "Z",
+ * is wall-clock time in the schedule's timezone; a date runs to the end of that day.
+ */
+function parseUntil(raw: string, timezone: string): number {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(raw);
+    if (!match) throw new Error(`Invalid UNTIL value '${raw}'. Use YYYYMMDD or YYYYMMDDTHHMMSSZ.`);
+    const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+    if (match[4] === undefined) {
+        const nextDay = addDays({ year, month, day }, 1);
+        return zonedTimeToUtc(nextDay, { hour: 0, minute: 0 }, timezone) - 1;
+    }
+    if (match[7] === "Z") return Date.UTC(year, month - 1, day, hour, minute, second);
+    return zonedTimeToUtc({ year, month, day }, { hour, minute }, timezone) + second * 1000;
+}
+
+function compileRrule(expression: string, anchor: LocalDate & LocalTime, timezone: string): CompiledSchedule {
+    const rule: Record<string, string> = {};
+    for (const part of expression.trim().replace(/^RRULE:/i, "").split(";")) {
+        if (!part.trim()) continue;
+        const [key, value] = part.split("=");
+        if (!key || value === undefined) throw new Error(`Invalid RRULE part '${part}'.`);
+        rule[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+
+    const freq = rule.FREQ;
+    if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+        throw new Error("RRULE needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY.");
+    }
+    const interval = rule.INTERVAL ? Number(rule.INTERVAL) : 1;
+    if (!Number.isInteger(interval) || interval < 1) throw new Error("RRULE INTERVAL must be a positive integer.");
+
+    const byDay = rule.BYDAY
+        ? rule.BYDAY.split(",").map((item) => {
+            const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+            if (!match) throw new Error(`Invalid BYDAY value '${item}'.`);
+            const ordinal = match[1] ? Number(match[1]) : undefined;
+            if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5 || freq !== "MONTHLY")) {
+                throw new Error(`BYDAY ordinals (like '${item}') are only supported with FREQ=MONTHLY.`);
+            }
+            return { weekday: RRULE_DAY_NAMES.indexOf(match[2]), ordinal };
+        })
+        : null;
+    const byMonthDay = rule.BYMONTHDAY ? parseIntList(rule.BYMONTHDAY, -31, 31, "BYMONTHDAY") : null;
+    const byMonth = rule.BYMONTH ? parseIntList(rule.BYMONTH, 1, 12, "BYMONTH") : null;
+    const byHour = rule.BYHOUR ? parseIntList(rule.BYHOUR, 0, 23, "BYHOUR") : [anchor.hour];
+    const byMinute = rule.BYMINUTE ? parseIntList(rule.BYMINUTE, 0, 59, "BYMINUTE") : [anchor.minute];
+    const count = rule.COUNT ? Number(rule.COUNT) : undefined;
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) throw new Error("RRULE COUNT must be a positive integer.");
+
+    const anchorDay = dayNumber(anchor);
+    // Weeks start on Monday, as in RFC 5545.
+    const anchorWeek = Math.floor((anchorDay - ((anchor.weekday + 6) % 7)) / 7);
+
+    const matchesDay = (date: LocalDate): boolean => {
+        if (byMonthDay) {
+            const last = daysInMonth(date.year, date.month);
+            if (!byMonthDay.some((day) => (day > 0 ? day : last + day + 1) === date.day)) return false;
+        }
+        if (byDay) {
+            const last = daysInMonth(date.year, date.month);
+            return byDay.some(({ weekday, ordinal }) => {
+                if (weekday !== date.weekday) return false;
+                if (ordinal === undefined) return true;
+                return ordinal > 0
+                    ? Math.ceil(date.day / 7) === ordinal
+                    : Math.ceil((last - date.day + 1) / 7) === -ordinal;
+            });
+        }
+        return true;
+    };
+
+    return {
+        times: timesFrom(byHour, byMinute),
+        until: rule.UNTIL ? parseUntil(rule.UNTIL, timezone) : undefined,
+        count,
+        matchesDate: (date) => {
+            const day = dayNumber(date);
+            if (day < anchorDay) return false;
+            if (byMonth && !byMonth.includes(date.month)) return false;
+            switch (freq) {
+                case "DAILY":
+                    return (day - anchorDay) % interval === 0 && matchesDay(date);
+                case "WEEKLY": {
+                    const week = Math.floor((day - ((date.weekday + 6) % 7)) / 7);
+                    if ((week - anchorWeek) % interval !== 0) return false;
+                    return byDay || byMonthDay ? matchesDay(date) : date.weekday === anchor.weekday;
+                }
+                case "MONTHLY": {
+                    const months = (date.year - anchor.year) * 12 + (date.month - anchor.month);
+                    if (months % interval !== 0) return false;
+                    return byDay || byMonthDay ? matchesDay(date) : date.day === anchor.day;
+                }
+                case "YEARLY": {
+                    if ((date.year - anchor.year) % interval !== 0) return false;
+                    if (!byMonth && date.month !== anchor.month) return false;
+                    return byDay || byMonthDay ? matchesDay(date) : date.day === anchor.day;
+                }
+            }
+        },
+    };
+}
+
+function compileSchedule(kind: ScheduleKind, expression: string, timezone: string, anchor: number): CompiledSchedule {
+    if (!isValidTimeZone(timezone)) throw new Error(`Unknown timezone '${timezone}'.`);
+    if (!expression.trim()) throw new Error("Schedule expression cannot be empty.");
+    return kind === "cron" ? compileCron(expression) : compileRrule(expression, zonedParts(anchor, timezone), timezone);
+}
+
+/**
+ * Throws with a readable message when the rule cannot be evaluated.
+ * `anchor` is the schedule start; RRULE intervals and defaults count from it.
+ */
+export function validateSchedule(kind: ScheduleKind, expression: string, timezone: string, anchor: number): void {
+    compileSchedule(kind, expression, timezone, anchor);
+}
+
+/**
+ * The next `limit` run times strictly after `after`, as UTC timestamps.
+ * `completedRuns` counts against an RRULE COUNT.
+ */
+export function upcomingRuns(
+    kind: ScheduleKind,
+    expression: string,
+    timezone: string,
+    options: { anchor: number; after: number; limit: number; completedRuns?: number }
+): number[] {
+    const compiled = compileSchedule(kind, expression, timezone, options.anchor);
+    let remaining = compiled.count === undefined ? options.limit : Math.min(options.limit, compiled.count - (options.completedRuns ?? 0));
+    const runs: number[] = [];
+    if (remaining <= 0) return runs;
+
+    const start = zonedParts(options.after, timezone);
+    let date: LocalDate = { year: start.year, month: start.month, day: start.day, weekday: start.weekday };
+    for (let scanned = 0; scanned < MAX_SCAN_DAYS; scanned++, date = addDays(date, 1)) {
+        if (!compiled.matchesDate(date)) continue;
+        for (const time of compiled.times) {
+            const at = zonedTimeToUtc(date, time, timezone);
+            if (at <= options.after || runs.includes(at)) continue;
+            if (compiled.until !== undefined && at > compiled.until) return runs;
+            runs.push(at);
+            if (--remaining === 0) return runs;
+        }
+    }
+    return runs;
+}
+
+/**
+ * Next run strictly after `after`, or null when the rule has ended.
+ */
+export function nextRunAfter(
+    kind: ScheduleKind,
+    expression: string,
+    timezone: string,
+    options: { anchor: number; after: number; completedRuns?: number }
+): number | null {
+    return upcomingRuns(kind, expression, timezone, { ...options, limit: 1 })[0] ?? null;
+}
+
+/**
+ * Fills `{{date}}`, `{{time}}`, `{{weekday}}`, `{{month}}` and `{{year}}` in a
+ * title or description template with the run time in the schedule's timezone.
+ */
+export function renderScheduleTemplate(template: string, runAt: number, timezone: string): string {
+    const local = zonedParts(runAt, timezone);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const values: Record<string, string> = {
+        date: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+        time: `${pad(local.hour)}:${pad(local.minute)}`,
+        weekday: new Intl.DateTimeFormat("en-US", { timeZone: timezone, weekday: "long" }).format(new Date(runAt)),
+        month: new Intl.DateTimeFormat("en-US", { timeZone: timezone, month: "long" }).format(new Date(runAt)),
+        year: String(local.year),
+    };
+    return template.replace(/\{\{\s*(date|time|weekday|month|year)\s*\}\}/g, (_, key: string) => values[key]);
+}
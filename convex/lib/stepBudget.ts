@@ -0,0 +1,133 @@
+import { v } from "convex/values";
+
+/**
+ * Limits for a single brain run. When a run exhausts them with work still
+ * pending it checkpoints and continues in a scheduled follow-up run, up to
+ * `maxContinuations` times.
+ */
+export type StepBudget = {
+    maxToolIterations: number;
+    maxRunMs: number;
+    maxRunTokens: number;
+    maxContinuations: number;
+};
+
+export type StepBudgetOverrides = {
+    maxToolIterations?: number;
+    maxRunSeconds?: number;
+    maxRunTokens?: number;
+    maxContinuations?: number;
+};
+
+export const DEFAULT_STEP_BUDGET: StepBudget = {
+    maxToolIterations: 4,
+    maxRunMs: 90_000,
+    maxRunTokens: 60_000,
+    maxContinuations: 3,
+};
+
+// Bounds shared by agent settings, task overrides and the UI.
+export const STEP_BUDGET_LIMITS = {
+    maxToolIterations: { min: 1, max: 10 },
+    // Longer work continues in follow-up runs; the think lock is refreshed between steps.
+    maxRunSeconds: { min: 10, max: 120 },
+    maxRunTokens: { min: 1_000, max: 1_000_000 },
+    maxContinuations: { min: 0, max: 10 },
+} as const;
+
+export type StepBudgetExhaustion = "tool_iterations" | "wall_clock" | "tokens";
+
+/**
+ * Validator for `tasks.stepBudget`.
+ */
+export const stepBudgetValidator = v.object({
+    maxToolIterations: v.optional(v.float64()),
+    maxRunSeconds: v.optional(v.float64()),
+    maxRunTokens: v.optional(v.float64()),
+    maxContinuations: v.optional(v.float64()),
+});
+
+export function validateStepBudgetField(
+    field: keyof typeof STEP_BUDGET_LIMITS,
+    label: string,
+    value: number
+): void {
+    const { min, max } = STEP_BUDGET_LIMITS[field];
+    if (!Number.isInteger(value) || value < min || value > max) {
+        throw new Error(`${label} must be an integer between ${min} and ${max}.`);
+    }
+}
+
+function clampInteger(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(Math.floor(value), max));
+}
+
+/**
+ * Task overrides win over agent settings, agent settings over template settings,
+ * and anything unset falls back to DEFAULT_STEP_BUDGET.
+ */
+export function resolveStepBudget(
+    ...layers: Array<StepBudgetOverrides | null | undefined>
+): StepBudget {
+    const pick = (key: keyof StepBudgetOverrides): number | undefined => {
+        for (const layer of layers) {
+            const value = layer?.[key];
+            if (typeof value === "number" && Number.isFinite(value)) return value;
+        }
+        return undefined;
+    };
+    const limits = STEP_BUDGET_LIMITS;
+    const maxRunSeconds = pick("maxRunSeconds");
+
+    return {
+        maxToolIterations: clampInteger(
+            pick("maxToolIterations") ?? DEFAULT_STEP_BUDGET.maxToolIterations,
+            limits.maxToolIterations.min,
+            limits.maxToolIterations.max
+        ),
+        maxRunMs:
+            maxRunSeconds !== undefined
+                ? clampInteger(maxRunSeconds, limits.maxRunSeconds.min, limits.maxRunSeconds.max) * 1000
+                : DEFAULT_STEP_BUDGET.maxRunMs,
+        maxRunTokens: clampInteger(
+            pick("maxRunTokens") ?? DEFAULT_STEP_BUDGET.maxRunTokens,
+            limits.maxRunTokens.min,
+            limits.maxRunTokens.max
+        ),
+        maxContinuations: clampInteger(
+            pick("maxContinuations") ?? DEFAULT_STEP_BUDGET.maxContinuations,
+            limits.maxContinuations.min,
+            limits.maxContinuations.max
+        ),
+    };
+}
+
+/**
+ * Tracks spend for one run. Checked between steps, so a single LLM call or tool
+ * may overshoot slightly.
+ */
+export function createStepBudgetTracker(budget: StepBudget, startedAt = Date.now()) {
+    let toolIterations = 0;
+    let tokensUsed = 0;
+
+    return {
+        recordToolIteration() {
+            toolIterations += 1;
+        },
+        recordTokens(tokens: number) {
+            tokensUsed += Math.max(0, tokens);
+        },
+        get toolIterations() {
+            return toolIterations;
+        },
+        get tokensUsed() {
+            return tokensUsed;
+        },
+        exhaustion(now = Date.now()): StepBudgetExhaustion | null {
+            if (toolIterations >= budget.maxToolIterations) return "tool_iterations";
+            if (now - startedAt >= budget.maxRunMs) return "wall_clock";
+            if (tokensUsed >= budget.maxRunTokens) return "tokens";
+            return null;
+        },
+    };
+}
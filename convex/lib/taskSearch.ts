@@ -0,0 +1,61 @@
+import { v, type Infer } from "convex/values";
+
+/**
+ * Board filters, shared by tasks:search and the saved views in taskViews.
+ * Every field is optional; an empty object matches every task.
+ */
+export const taskSearchFiltersValidator = v.object({
+    query: v.optional(v.string()),
+    assigneeSessionKey: v.optional(v.string()),
+    ownerUserId: v.optional(v.id("users")),
+    tag: v.optional(v.string()),
+    priority: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
+    createdFrom: v.optional(v.number()),
+    createdTo: v.optional(v.number()),
+    source: v.optional(v.union(v.literal("telegram"), v.literal("web"))),
+});
+
+export type TaskSearchFilters = Infer<typeof taskSearchFiltersValidator>;
+
+export type TaskSource = "telegram" | "web";
+
+type SearchableTask = {
+    description: string;
+    assigneeSessionKeys?: string[];
+    ownerUserId?: string;
+    tags?: string[];
+    priority?: string;
+    createdAt?: number;
+    _creationTime: number;
+};
+
+// Telegram threads are tasks created by the bot with the chat id in the description.
+const TELEGRAM_DESCRIPTION_REGEX = /Telegram Chat ID:\s*\d+/i;
+
+export function taskSource(task: Pick<SearchableTask, "description">): TaskSource {
+    return TELEGRAM_DESCRIPTION_REGEX.test(task.description) ? "telegram" : "web";
+}
+
+export function hasActiveTaskFilters(filters: TaskSearchFilters): boolean {
+    return Object.entries(filters).some(([, value]) => (typeof value === "string" ? value.trim().length > 0 : value !== undefined));
+}
+
+/**
+ * Structured filters only; the text part of a search is matched by the search indexes.
+ */
+export function matchesTaskFilters(task: SearchableTask, filters: TaskSearchFilters): boolean {
+    if (filters.assigneeSessionKey && !(task.assigneeSessionKeys ?? []).includes(filters.assigneeSessionKey)) {
+        return false;
+    }
+    if (filters.ownerUserId && task.ownerUserId !== filters.ownerUserId) return false;
+    if (filters.tag) {
+        const tag = filters.tag.trim().toLowerCase();
+        if (tag && !(task.tags ?? []).some((candidate) => candidate.toLowerCase() === tag)) return false;
+    }
+    if (filters.priority && (task.priority ?? "medium") !== filters.priority) return false;
+    const createdAt = task.createdAt ?? task._creationTime;
+    if (filters.createdFrom !== undefined && createdAt < filters.createdFrom) return false;
+    if (filters.createdTo !== undefined && createdAt > filters.createdTo) return false;
+    if (filters.source && taskSource(task) !== filters.source) return false;
+    return true;
+}
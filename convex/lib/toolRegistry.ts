@@ -0,0 +1,513 @@
+import type { LlmToolDefinition } from "./llmProviders";
+import type { PlanIntegrationType } from "../plans";
+
+type JsonSchema = Record<string, any>;
+
+export type ToolPlanTier = "starter" | "pro" | "business";
+
+export type ToolSpec = {
+    name: string;
+    // Label in the agent builder's capability picker
+    label: string;
+    // Short chip label + icon in the agent store / details
+    shortLabel: string;
+    icon: string;
+    // Model-facing description and JSON schema of the arguments object
+    description: string;
+    parameters: JsonSchema;
+    // Any one of these integrations makes the tool usable (empty = built-in)
+    integrations: PlanIntegrationType[];
+    minPlan: ToolPlanTier;
+    // Granting one of these tool names also grants this tool
+    aliases?: string[];
+    // Alternative argument names models tend to use, folded into the schema names
+    argAliases?: Record<string, string[]>;
+    // Offered in the allowedTools picker (internal tools are granted by the brain)
+    selectable?: boolean;
+};
+
+function objectSchema(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+    return {
+        type: "object",
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+    };
+}
+
+const str = (description: string): JsonSchema => ({ type: "string", description });
+const int = (description: string): JsonSchema => ({ type: "integer", description });
+const bool = (description: string): JsonSchema => ({ type: "boolean", description });
+const strEnum = (values: string[], description: string): JsonSchema => ({ type: "string", enum: values, description });
+const strArray = (description: string): JsonSchema => ({ type: "array", items: { type: "string" }, description });
+
+const messageIdOnly = objectSchema({ messageId: str("Gmail message id.") }, ["messageId"]);
+
+function gmailTool(name: string, shortLabel: string, description: string, parameters: JsonSchema, extra?: Partial<ToolSpec>): ToolSpec {
+    return {
+        name,
+        label: shortLabel,
+        shortLabel,
+        icon: "📬",
+        description,
+        parameters,
+        integrations: ["gmail"],
+        minPlan: "starter",
+        ...extra,
+    };
+}
+
+const TOOL_SPECS: ToolSpec[] = [
+    {
+        name: "web_search",
+        label: "Web Search (Tavily)",
+        shortLabel: "Search",
+        icon: "🔍",
+        description: "Search the web for up-to-date information.",
+        parameters: objectSchema({ query: str("Search query.") }, ["query"]),
+        integrations: ["tavily"],
+        minPlan: "starter",
+        selectable: true,
+    },
+    {
+        name: "search_upwork_jobs",
+        label: "Upwork Search",
+        shortLabel: "Upwork",
+        icon: "💼",
+        description: "Search open Upwork jobs.",
+        parameters: objectSchema(
+            {
+                query: str("Search keywords."),
+                limit: int("Maximum number of results."),
+            },
+            ["query"]
+        ),
+        integrations: ["upwork"],
+        minPlan: "pro",
+        aliases: ["upwork_search_jobs"],
+        argAliases: { query: ["q"], limit: ["maxResults"] },
+        selectable: true,
+    },
+    {
+        name: "send_email",
+        label: "Send Email (Resend)",
+        shortLabel: "Email",
+        icon: "✉️",
+        description: "Send an email through the department's email integration.",
+        parameters: objectSchema(
+            {
+                to: str("Recipient email address."),
+                subject: str("Email subject."),
+                body: str("Email body."),
+            },
+            ["to", "subject", "body"]
+        ),
+        integrations: ["resend", "gmail"],
+        minPlan: "starter",
+        aliases: ["gmail_send_email"],
+        selectable: true,
+    },
+    {
+        name: "search_knowledge",
+        label: "Search Knowledge (Vector Memory)",
+        shortLabel: "Memory",
+        icon: "🧠",
+        description: "Search Organizational Memory (knowledge base and past tasks) for historical context.",
+        parameters: objectSchema(
+            {
+                query: str("What to look for."),
+                limit: int("Maximum number of snippets (default 5)."),
+                rerank: bool("Rerank the results with an extra model call. Slower; use for broad or ambiguous questions."),
+            },
+            ["query"]
+        ),
+        integrations: [],
+        minPlan: "starter",
+        selectable: true,
+    },
+    {
+        name: "remember",
+        label: "Remember (Agent Memory)",
+        shortLabel: "Remember",
+        icon: "📌",
+        description:
+            "Store a durable fact for future tasks (a preference, a decision, a recurring detail). " +
+            "Do not store secrets or one-off task details.",
+        parameters: objectSchema(
+            {
+                content: str("The fact to remember, as one self-contained sentence."),
+                scope: strEnum(["agent", "department"], "'agent' keeps it private to you; 'department' shares it with every agent."),
+                expiresInDays: int("Forget it automatically after this many days. Omit to keep it."),
+            },
+            ["content"]
+        ),
+        integrations: [],
+        minPlan: "starter",
+        argAliases: { content: ["fact", "text"] },
+        selectable: true,
+    },
+    {
+        name: "forget",
+        label: "Forget (Agent Memory)",
+        shortLabel: "Forget",
+        icon: "🧽",
+        description: "Delete a stored memory that is wrong or outdated, by id or by describing it.",
+        parameters: objectSchema({
+            memoryId: str("Id of the memory, as shown in AGENT MEMORIES."),
+            query: str("Description of the memory to delete when the id is unknown."),
+        }),
+        integrations: [],
+        minPlan: "starter",
+        selectable: true,
+    },
+    {
+        name: "generate_image",
+        label: "Generate Image (DALL-E)",
+        shortLabel: "Design",
+        icon: "🎨",
+        description: "Generate an image from a prompt.",
+        parameters: objectSchema({
+            prompt: str("High-quality artistic prompt in English. Defaults to the task description."),
+            size: strEnum(["1024x1024", "1024x1792", "1792x1024"], "Image size."),
+            quality: strEnum(["standard", "hd"], "Image quality."),
+            style: strEnum(["vivid", "natural"], "Image style."),
+        }),
+        integrations: ["dalle", "openai"],
+        minPlan: "starter",
+        selectable: true,
+    },
+    {
+        name: "create_github_issue",
+        label: "Create GitHub Issue",
+        shortLabel: "GH Issue",
+        icon: "🐙",
+        description: "Open an issue in a GitHub repository.",
+        parameters: objectSchema(
+            {
+                owner: str("Repository owner (defaults to the integration setting)."),
+                repo: str("Repository name (defaults to the integration setting)."),
+                title: str("Issue title."),
+                body: str("Issue body in markdown."),
+                labels: strArray("Labels to apply."),
+            },
+            ["title"]
+        ),
+        integrations: ["github"],
+        minPlan: "pro",
+        selectable: true,
+    },
+    {
+        name: "create_pull_request",
+        label: "Create GitHub Pull Request",
+        shortLabel: "GH PR",
+        icon: "🔧",
+        description: "Open a pull request in a GitHub repository.",
+        parameters: objectSchema(
+            {
+                owner: str("Repository owner (defaults to the integration setting)."),
+                repo: str("Repository name (defaults to the integration setting)."),
+                title: str("Pull request title."),
+                head: str("Branch with the changes."),
+                base: str("Branch to merge into."),
+                body: str("Pull request description."),
+                draft: { type: "boolean", description: "Open as draft." },
+            },
+            ["title", "head", "base"]
+        ),
+        integrations: ["github"],
+        minPlan: "pro",
+        selectable: true,
+    },
+    {
+        name: "create_notion_page",
+        label: "Create Notion Page",
+        shortLabel: "Notion",
+        icon: "📘",
+        description: "Create a page in Notion.",
+        parameters: objectSchema(
+            {
+                parentPageId: str("Parent page id (defaults to the integration setting)."),
+                title: str("Page title."),
+                content: str("Page content."),
+            },
+            ["title"]
+        ),
+        integrations: ["notion"],
+        minPlan: "pro",
+        selectable: true,
+    },
+    {
+        name: "create_notion_database_item",
+        label: "Create Notion Database Item",
+        shortLabel: "Notion DB",
+        icon: "🗂️",
+        description: "Add an item to a Notion database.",
+        parameters: objectSchema(
+            {
+                databaseId: str("Notion database id."),
+                title: str("Item title."),
+                content: str("Item content."),
+            },
+            ["databaseId", "title"]
+        ),
+        integrations: ["notion"],
+        minPlan: "pro",
+    },
+    {
+        name: "update_notion_page",
+        label: "Update Notion Page",
+        shortLabel: "Notion Update",
+        icon: "📝",
+        description: "Append content to an existing Notion page.",
+        parameters: objectSchema(
+            {
+                pageId: str("Notion page id."),
+                content: str("Content to append."),
+            },
+            ["pageId", "content"]
+        ),
+        integrations: ["notion"],
+        minPlan: "pro",
+    },
+    {
+        name: "post_to_x",
+        label: "Post to X (Twitter)",
+        shortLabel: "X Post",
+        icon: "📣",
+        description: "Publish a post on X (Twitter).",
+        parameters: objectSchema(
+            {
+                text: str("Post text."),
+                replyToId: str("Post id to reply to."),
+            },
+            ["text"]
+        ),
+        integrations: ["twitter"],
+        minPlan: "pro",
+        selectable: true,
+    },
+    {
+        name: "delegate_task",
+        label: "Delegate Task",
+        shortLabel: "Maestro",
+        icon: "🎯",
+        description: "Create a subtask and assign it to one or more specialists of the squad.",
+        parameters: objectSchema(
+            {
+                title: str("Concise subtask title."),
+                description: str("Detailed context the specialist needs."),
+                instruction: str("Expected output and constraints."),
+                assignees: strArray("Agent names from the squad roster."),
+                priority: strEnum(["low", "medium", "high"], "Subtask priority."),
+                tags: strArray("Optional tags."),
+                dependsOn: strArray("Titles of subtasks you already delegated that must be done before this one starts."),
+            },
+            ["title", "description", "instruction", "assignees"]
+        ),
+        integrations: [],
+        minPlan: "starter",
+        argAliases: { assignees: ["assignee", "assigneeName"], dependsOn: ["depends_on", "waitFor", "blockedBy"] },
+    },
+    {
+        name: "update_task_status",
+        label: "Update Task Status",
+        shortLabel: "Status",
+        icon: "✅",
+        description: "Move your current task to review or done once the work is finished.",
+        parameters: objectSchema(
+            {
+                status: strEnum(["review", "done"], "New task status."),
+                summary: str("Short summary of the result."),
+            },
+            ["status"]
+        ),
+        integrations: [],
+        minPlan: "starter",
+    },
+    gmailTool(
+        "list_emails",
+        "Inbox",
+        "List the most recent emails in the connected Gmail inbox.",
+        objectSchema({ limit: int("How many emails to return (default 10).") }),
+        { aliases: ["gmail_list_inbox"], argAliases: { limit: ["maxResults"] } }
+    ),
+    gmailTool(
+        "get_email_details",
+        "Read Email",
+        "Read a single email from the connected Gmail inbox.",
+        objectSchema({ emailId: str("Email id returned by list_emails or search_emails.") }, ["emailId"]),
+        { aliases: ["gmail_get_message"], argAliases: { emailId: ["messageId"] } }
+    ),
+    gmailTool(
+        "search_emails",
+        "Search Email",
+        "Search the connected Gmail inbox using Gmail search syntax.",
+        objectSchema(
+            {
+                query: str("Gmail search query, e.g. 'from:alice is:unread'."),
+                limit: int("Maximum number of results."),
+            },
+            ["query"]
+        ),
+        { aliases: ["gmail_list_inbox", "list_emails"], argAliases: { query: ["q"], limit: ["maxResults"] } }
+    ),
+    gmailTool(
+        "gmail_list_inbox",
+        "Gmail Inbox",
+        "List Gmail inbox messages with optional search and pagination.",
+        objectSchema({
+            q: str("Gmail search query."),
+            maxResults: int("Maximum number of results."),
+            pageToken: str("Pagination token from a previous call."),
+        }),
+        { aliases: ["list_emails", "search_emails"] }
+    ),
+    gmailTool(
+        "gmail_get_message",
+        "Gmail Message",
+        "Fetch a Gmail message by id.",
+        objectSchema(
+            {
+                messageId: str("Gmail message id."),
+                format: strEnum(["minimal", "full", "metadata", "raw"], "Response format."),
+            },
+            ["messageId"]
+        ),
+        { aliases: ["get_email_details"] }
+    ),
+    gmailTool(
+        "gmail_list_labels",
+        "Gmail Labels",
+        "List the Gmail labels of the connected account.",
+        objectSchema({})
+    ),
+    gmailTool(
+        "gmail_get_capabilities",
+        "Gmail Capabilities",
+        "Report which Gmail operations the connected account allows.",
+        objectSchema({})
+    ),
+    gmailTool(
+        "gmail_send_email",
+        "Gmail Send",
+        "Send an email from the connected Gmail account. Provide 'text' and/or 'html'.",
+        objectSchema(
+            {
+                to: str("Recipient email address."),
+                subject: str("Email subject."),
+                text: str("Plain-text body."),
+                html: str("HTML body."),
+                cc: str("Cc recipients."),
+                bcc: str("Bcc recipients."),
+                replyTo: str("Reply-To address."),
+                threadId: str("Gmail thread id to reply in."),
+            },
+            ["to", "subject"]
+        ),
+        { aliases: ["send_email"], argAliases: { text: ["body"] } }
+    ),
+    gmailTool("gmail_mark_read", "Mark Read", "Mark a Gmail message as read.", messageIdOnly),
+    gmailTool("gmail_mark_unread", "Mark Unread", "Mark a Gmail message as unread.", messageIdOnly),
+    gmailTool("gmail_archive_message", "Archive", "Archive a Gmail message.", messageIdOnly),
+    gmailTool("gmail_unarchive_message", "Unarchive", "Move an archived Gmail message back to the inbox.", messageIdOnly),
+];
+
+export const TOOL_REGISTRY: Record<string, ToolSpec> = Object.fromEntries(
+    TOOL_SPECS.map((spec) => [spec.name, spec])
+);
+
+const PLAN_RANK: Record<ToolPlanTier, number> = { starter: 0, pro: 1, business: 2 };
+
+export function getToolSpec(name: string): ToolSpec | null {
+    return TOOL_REGISTRY[name] ?? null;
+}
+
+export function listSelectableTools(): ToolSpec[] {
+    return TOOL_SPECS.filter((spec) => spec.selectable);
+}
+
+export function isToolIncludedInPlan(plan: ToolPlanTier, toolName: string): boolean {
+    const spec = getToolSpec(toolName);
+    if (!spec) return true;
+    return PLAN_RANK[plan] >= PLAN_RANK[spec.minPlan];
+}
+
+export function hasAliasPermission(toolName: string, allowedTools?: string[]): boolean {
+    return getToolSpec(toolName)?.aliases?.some((alias) => allowedTools?.includes(alias)) ?? false;
+}
+
+export function isToolPermitted(toolName: string, allowedTools?: string[]): boolean {
+    return !allowedTools || allowedTools.includes(toolName) || hasAliasPermission(toolName, allowedTools);
+}
+
+export function toLlmToolDefinition(spec: ToolSpec): LlmToolDefinition {
+    return { name: spec.name, description: spec.description, parameters: spec.parameters };
+}
+
+function coerceArg(schema: JsonSchema, value: unknown): unknown {
+    if (value === undefined || value === null) return undefined;
+    switch (schema.type) {
+        case "string":
+            if (typeof value !== "string") return undefined;
+            if (Array.isArray(schema.enum) && !schema.enum.includes(value)) return undefined;
+            return value;
+        case "integer":
+        case "number":
+            return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+        case "boolean":
+            return typeof value === "boolean" ? value : undefined;
+        case "array":
+            if (typeof value === "string") return [value];
+            return Array.isArray(value) ? value.filter((item) => typeof item === "string") : undefined;
+        default:
+            return value;
+    }
+}
+
+function isMissing(value: unknown): boolean {
+    if (value === undefined) return true;
+    if (typeof value === "string") return value.trim().length === 0;
+    if (Array.isArray(value)) return value.length === 0;
+    return false;
+}
+
+/**
+ * Folds argument aliases, drops values that don't match the schema and enforces
+ * required fields, so handlers receive already-typed args.
+ */
+export function normalizeToolArgs(spec: ToolSpec, rawArgs: Record<string, any>): Record<string, any> {
+    const source: Record<string, any> = { ...(rawArgs ?? {}) };
+    for (const [canonical, alternates] of Object.entries(spec.argAliases ?? {})) {
+        if (source[canonical] !== undefined) continue;
+        const alternate = alternates.find((name) => source[name] !== undefined);
+        if (alternate) source[canonical] = source[alternate];
+    }
+
+    const properties: Record<string, JsonSchema> = spec.parameters?.properties ?? {};
+    const args: Record<string, any> = {};
+    for (const [key, schema] of Object.entries(properties)) {
+        const value = coerceArg(schema, source[key]);
+        if (value !== undefined) args[key] = value;
+    }
+
+    const required: string[] = spec.parameters?.required ?? [];
+    const missing = required.filter((key) => isMissing(args[key]));
+    if (missing.length > 0) {
+        throw new Error(`Tool '${spec.name}' requires ${missing.map((key) => `'${key}'`).join(", ")}.`);
+    }
+
+    return args;
+}
+
+/**
+ * Compact `name(arg, optionalArg?)` listing for the text [TOOL: ...] fallback protocol.
+ */
+export function formatToolSignatures(definitions: LlmToolDefinition[]): string {
+    return definitions
+        .map((definition) => {
+            const properties = Object.keys(definition.parameters?.properties ?? {});
+            const required = new Set<string>(definition.parameters?.required ?? []);
+            const args = properties.map((name) => (required.has(name) ? name : `${name}?`));
+            return `${definition.name}(${args.join(", ")})`;
+        })
+        .join("; ");
+}
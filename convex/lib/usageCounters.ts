@@ -0,0 +1,77 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+
+/**
+ * Monthly usage counters, one row per org (departmentId unset) and per
+ * department. Quota and spending-limit checks read these instead of summing
+ * the usage ledger on every agent run.
+ */
+
+export type UsageCounterDelta = {
+    llmTokens?: number;
+    toolCalls?: number;
+    costUsd?: number;
+};
+
+// Calendar month in UTC, e.g. "2026-10".
+export function currentUsagePeriod(now = Date.now()): string {
+    const date = new Date(now);
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export async function getUsageCounter(
+    ctx: QueryCtx | MutationCtx,
+    orgId: Id<"organizations">,
+    departmentId: Id<"departments"> | undefined,
+    period = currentUsagePeriod()
+): Promise<Doc<"usageCounters"> | null> {
+    return await ctx.db
+        .query("usageCounters")
+        .withIndex("by_org_department_period", (q) =>
+            q.eq("orgId", orgId).eq("departmentId", departmentId).eq("period", period)
+        )
+        .unique();
+}
+
+async function bumpCounter(
+    ctx: MutationCtx,
+    orgId: Id<"organizations">,
+    departmentId: Id<"departments"> | undefined,
+    period: string,
+    delta: UsageCounterDelta
+): Promise<void> {
+    const existing = await getUsageCounter(ctx, orgId, departmentId, period);
+    const now = Date.now();
+    if (existing) {
+        await ctx.db.patch("usageCounters", existing._id, {
+            llmTokens: existing.llmTokens + (delta.llmTokens ?? 0),
+            toolCalls: existing.toolCalls + (delta.toolCalls ?? 0),
+            costUsd: existing.costUsd + (delta.costUsd ?? 0),
+            updatedAt: now,
+        });
+        return;
+    }
+    await ctx.db.insert("usageCounters", {
+        orgId,
+        departmentId,
+        period,
+        llmTokens: delta.llmTokens ?? 0,
+        toolCalls: delta.toolCalls ?? 0,
+        costUsd: delta.costUsd ?? 0,
+        updatedAt: now,
+    });
+}
+
+/**
+ * Adds usage to both the org and the department counters for the current month.
+ */
+export async function bumpUsageCounters(
+    ctx: MutationCtx,
+    orgId: Id<"organizations">,
+    departmentId: Id<"departments">,
+    delta: UsageCounterDelta
+): Promise<void> {
+    const period = currentUsagePeriod();
+    await bumpCounter(ctx, orgId, undefined, period, delta);
+    await bumpCounter(ctx, orgId, departmentId, period, delta);
+}
@@ -0,0 +1,93 @@
+/**
+ * List prices used to estimate spend for cost-center chargeback. Keys are model
+ * prefixes; the longest matching prefix wins so dated snapshots
+ * (e.g. gpt-4o-2024-08-06) resolve to their family price.
+ * Frontend-safe: Billing shows these as estimates, not invoices.
+ */
+
+export type UsageKind = "chat" | "embedding" | "image";
+
+type TokenPrice = {
+    // USD per 1M tokens
+    input: number;
+    output: number;
+};
+
+const TOKEN_PRICES: Record<string, TokenPrice> = {
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4-turbo": { input: 10, output: 30 },
+    "gpt-4": { input: 30, output: 60 },
+    "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+    "o3-mini": { input: 1.1, output: 4.4 },
+    "o4-mini": { input: 1.1, output: 4.4 },
+    "claude-opus-4": { input: 15, output: 75 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-haiku-4": { input: 1, output: 5 },
+    "claude-3-7-sonnet": { input: 3, output: 15 },
+    "claude-3-5-sonnet": { input: 3, output: 15 },
+    "claude-3-5-haiku": { input: 0.8, output: 4 },
+    "claude-3-haiku": { input: 0.25, output: 1.25 },
+    "claude-3-opus": { input: 15, output: 75 },
+    "text-embedding-3-small": { input: 0.02, output: 0 },
+    "text-embedding-3-large": { input: 0.13, output: 0 },
+    "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+// USD per image, keyed by `${quality}:${size}`.
+const IMAGE_PRICES: Record<string, Record<string, number>> = {
+    "dall-e-3": {
+        "standard:1024x1024": 0.04,
+        "standard:1024x1792": 0.08,
+        "standard:1792x1024": 0.08,
+        "hd:1024x1024": 0.08,
+        "hd:1024x1792": 0.12,
+        "hd:1792x1024": 0.12,
+    },
+};
+
+function findTokenPrice(model: string): TokenPrice | null {
+    const normalized = model.trim().toLowerCase();
+    let best: { prefix: string; price: TokenPrice } | null = null;
+    for (const [prefix, price] of Object.entries(TOKEN_PRICES)) {
+        if (normalized.startsWith(prefix) && (!best || prefix.length > best.prefix.length)) {
+            best = { prefix, price };
+        }
+    }
+    return best?.price ?? null;
+}
+
+export type UsageCostInput = {
+    kind: UsageKind;
+    model: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    images?: number;
+    imageSize?: string;
+    imageQuality?: string;
+};
+
+/**
+ * Estimated USD cost, or null when the model has no known price.
+ */
+export function estimateUsageCost(input: UsageCostInput): number | null {
+    if (input.kind === "image") {
+        const prices = IMAGE_PRICES[input.model.trim().toLowerCase()];
+        const unit = prices?.[`${input.imageQuality ?? "standard"}:${input.imageSize ?? "1024x1024"}`];
+        return unit === undefined ? null : unit * (input.images ?? 1);
+    }
+
+    const price = findTokenPrice(input.model);
+    if (!price) return null;
+    return (
+        ((input.inputTokens ?? 0) * price.input + (input.outputTokens ?? 0) * price.output) / 1_000_000
+    );
+}
+
+export function formatUsd(value: number): string {
+    if (value > 0 && value < 0.01) return `$${value.toFixed(4)}`;
+    return `$${value.toFixed(2)}`;
+}
@@ -0,0 +1,163 @@
+import { v, type Infer } from "convex/values";
+
+/**
+ * Task statuses and per-department workflows.
+ *
+ * `tasks.status` stays one of the six built-in statuses: agents, approvals and
+ * dependencies reason about those. A workflow lays board columns on top of
+ * them; every column belongs to one status, and a status can have several
+ * columns ("legal review" is a review column). The first column of a status is
+ * its primary column: tasks land there unless moved to a specific column, which
+ * is stored in `tasks.workflowColumn`.
+ */
+
+export const TASK_STATUSES = ["inbox", "assigned", "in_progress", "review", "done", "blocked"] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const taskStatusValidator = v.union(
+    v.literal("inbox"),
+    v.literal("assigned"),
+    v.literal("in_progress"),
+    v.literal("review"),
+    v.literal("done"),
+    v.literal("blocked")
+);
+
+export function normalizeTaskStatus(input: string): TaskStatus {
+    const normalized = input.toLowerCase() as TaskStatus;
+    return (TASK_STATUSES as readonly string[]).includes(normalized) ? normalized : "inbox";
+}
+
+export const workflowColumnValidator = v.object({
+    key: v.string(),
+    // Empty for built-in columns, which the UI translates from the key.
+    label: v.optional(v.string()),
+    status: taskStatusValidator,
+    wipLimit: v.optional(v.number()),
+});
+
+/**
+ * `from`/`to` are column keys or "*". `allowed` lists who may make the move;
+ * omitted means anyone. Tokens:
+ * - "user": any member of the organization; "role:owner" | "role:admin" | "role:member"
+ * - "task_owner": the human owner of the task
+ * - "agent": any agent; "orchestrator": the squad lead; or an agent session key
+ */
+export const workflowTransitionValidator = v.object({
+    from: v.string(),
+    to: v.string(),
+    allowed: v.optional(v.array(v.string())),
+});
+
+export type WorkflowColumn = Infer<typeof workflowColumnValidator>;
+export type WorkflowTransition = Infer<typeof workflowTransitionValidator>;
+export type Workflow = { columns: WorkflowColumn[]; transitions: WorkflowTransition[] };
+
+export const DEFAULT_WORKFLOW: Workflow = {
+    columns: TASK_STATUSES.map((status) => ({ key: status, status })),
+    transitions: [
+        { from: "*", to: "*" },
+        // Closing skips human approval only for admins, the task owner and the squad lead.
+        { from: "*", to: "done", allowed: ["role:owner", "role:admin", "task_owner", "orchestrator"] },
+        { from: "review", to: "done", allowed: ["user", "orchestrator"] },
+    ],
+};
+
+export type TransitionActor =
+    | { type: "user"; role: "owner" | "admin" | "member"; isTaskOwner: boolean }
+    | { type: "agent"; sessionKey: string; isOrchestrator: boolean }
+    | { type: "system" };
+
+const COLUMN_KEY_REGEX = /^[a-z][a-z0-9_]{0,39}$/;
+const MAX_COLUMNS = 12;
+// Keeps WIP checks and the board's occupancy count to a bounded read.
+export const MAX_WIP_LIMIT = 500;
+const ALLOWED_TOKENS = new Set(["user", "role:owner", "role:admin", "role:member", "task_owner", "agent", "orchestrator"]);
+
+export function primaryColumnFor(workflow: Workflow, status: TaskStatus): WorkflowColumn {
+    return workflow.columns.find((column) => column.status === status) ?? { key: status, status };
+}
+
+export function isPrimaryColumn(workflow: Workflow, column: WorkflowColumn): boolean {
+    return primaryColumnFor(workflow, column.status).key === column.key;
+}
+
+/**
+ * The column a task shows in: its stored column while that still matches its status,
+ * otherwise the primary column of the status.
+ */
+export function columnForTask(workflow: Workflow, task: { status: string; workflowColumn?: string }): WorkflowColumn {
+    const status = normalizeTaskStatus(String(task.status));
+    const stored = task.workflowColumn
+        ? workflow.columns.find((column) => column.key === task.workflowColumn && column.status === status)
+        : undefined;
+    return stored ?? primaryColumnFor(workflow, status);
+}
+
+/**
+ * The most specific rule for a move: exact from+to, then exact to, then exact from, then "*" -> "*".
+ */
+export function findTransitionRule(workflow: Workflow, from: string, to: string): WorkflowTransition | null {
+    let best: WorkflowTransition | null = null;
+    let bestScore = -1;
+    for (const rule of workflow.transitions) {
+        if ((rule.from !== "*" && rule.from !== from) || (rule.to !== "*" && rule.to !== to)) continue;
+        const score = (rule.to === to ? 2 : 0) + (rule.from === from ? 1 : 0);
+        if (score > bestScore) {
+            best = rule;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+export function isTransitionAllowed(rule: WorkflowTransition | null, actor: TransitionActor): boolean {
+    if (actor.type === "system") return true;
+    if (!rule) return false;
+    if (!rule.allowed || rule.allowed.length === 0) return true;
+    return rule.allowed.some((token) => {
+        if (actor.type === "user") {
+            return token === "user" || token === `role:${actor.role}` || (token === "task_owner" && actor.isTaskOwner);
+        }
+        return token === "agent" || token === actor.sessionKey || (token === "orchestrator" && actor.isOrchestrator);
+    });
+}
+
+/**
+ * Throws on the first problem so the settings form can show it as-is.
+ */
+export function validateWorkflow(workflow: Workflow) {
+    if (workflow.columns.length === 0) throw new Error("A workflow needs at least one column.");
+    if (workflow.columns.length > MAX_COLUMNS) throw new Error(`A workflow can have at most ${MAX_COLUMNS} columns.`);
+
+    const keys = new Set<string>();
+    for (const column of workflow.columns) {
+        if (!COLUMN_KEY_REGEX.test(column.key)) {
+            throw new Error(`Column key "${column.key}" must be lowercase letters, digits or underscores.`);
+        }
+        if (keys.has(column.key)) throw new Error(`Column key "${column.key}" is used twice.`);
+        keys.add(column.key);
+        if (column.wipLimit !== undefined && (!Number.isInteger(column.wipLimit) || column.wipLimit < 1)) {
+            throw new Error(`WIP limit of "${column.key}" must be a positive whole number.`);
+        }
+        if (column.wipLimit !== undefined && column.wipLimit > MAX_WIP_LIMIT) {
+            throw new Error(`WIP limit of "${column.key}" can be at most ${MAX_WIP_LIMIT}.`);
+        }
+    }
+    for (const status of TASK_STATUSES) {
+        if (!workflow.columns.some((column) => column.status === status)) {
+            throw new Error(`Add at least one column for the "${status}" status; agents still move tasks there.`);
+        }
+    }
+
+    for (const rule of workflow.transitions) {
+        for (const end of [rule.from, rule.to]) {
+            if (end !== "*" && !keys.has(end)) throw new Error(`Transition uses unknown column "${end}".`);
+        }
+        for (const token of rule.allowed ?? []) {
+            if (!ALLOWED_TOKENS.has(token) && !token.startsWith("agent:")) {
+                throw new Error(`Unknown transition permission "${token}".`);
+            }
+        }
+    }
+}
@@ -1,9 +1,17 @@
-import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internalAction, internalMutation, internalQuery, type ActionCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
-import OpenAI from "openai";
+import { embedTexts, embedText, resolveEmbeddingTargets, type EmbeddingUsage } from "./embeddings";
+import { moveSlotEmbeddingCounts } from "./lib/embeddingCounts";
+import {
+    embeddingModelId,
+    embeddingSlotValidator,
+    slotWritesPatch,
+    slotWritesValidator,
+    type EmbeddingSlot,
+    type SlotWrites,
+} from "./lib/embeddings";
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
 const MAX_EMBED_INPUT_CHARS = 12000;
 
 function toEmbeddingInput(text: string): string {
@@ -12,6 +20,28 @@ function toEmbeddingInput(text: string): string {
     return normalized.slice(0, MAX_EMBED_INPUT_CHARS);
 }
 
+/**
+ * Slot writes for one row. With `slot`, only that slot gets a vector, from the
+ * configured model (see embeddings.migrateStep).
+ */
+async function embedRow(
+    ctx: ActionCtx,
+    input: string,
+    usage: EmbeddingUsage,
+    slot: EmbeddingSlot | undefined
+): Promise<SlotWrites> {
+    if (!slot) {
+        const result = await embedText(ctx, input, usage);
+        if (!result) throw new Error("No embedding provider is configured for this department.");
+        return result.writes;
+    }
+    const { configured } = await resolveEmbeddingTargets(ctx, usage.departmentId);
+    if (!configured) throw new Error("No embedding provider is configured for this department.");
+    const [vector] = await embedTexts(ctx, configured, [input], usage);
+    if (!vector) throw new Error("The embedding provider returned an empty vector.");
+    return { [slot]: { vector, model: embeddingModelId(configured) } };
+}
+
 /**
  * internal:memory:getTaskForEmbedding
  */
@@ -38,15 +68,16 @@ export const getDocumentForEmbedding = internalQuery({
 export const saveTaskEmbedding = internalMutation({
     args: {
         taskId: v.id("tasks"),
-        embedding: v.array(v.float64()),
-        embeddingModel: v.string(),
+        writes: slotWritesValidator,
     },
     handler: async (ctx, args) => {
+        const task = await ctx.db.get("tasks", args.taskId);
+        if (!task) return { ok: false };
         await ctx.db.patch("tasks", args.taskId, {
-            embedding: args.embedding,
-            embeddingModel: args.embeddingModel,
+            ...slotWritesPatch(args.writes),
             embeddedAt: Date.now(),
         });
+        await moveSlotEmbeddingCounts(ctx, task.departmentId, "tasks", task, args.writes);
         return { ok: true };
     },
 });
@@ -57,15 +88,16 @@ export const saveTaskEmbedding = internalMutation({
 export const saveDocumentEmbedding = internalMutation({
     args: {
         documentId: v.id("aiAssets"),
-        embedding: v.array(v.float64()),
-        embeddingModel: v.string(),
+        writes: slotWritesValidator,
     },
     handler: async (ctx, args) => {
+        const asset = await ctx.db.get("aiAssets", args.documentId);
+        if (!asset) return { ok: false };
         await ctx.db.patch("aiAssets", args.documentId, {
-            embedding: args.embedding,
-            embeddingModel: args.embeddingModel,
+            ...slotWritesPatch(args.writes),
             embeddedAt: Date.now(),
         });
+        await moveSlotEmbeddingCounts(ctx, asset.departmentId, "assets", asset, args.writes);
         return { ok: true };
     },
 });
@@ -74,7 +106,7 @@ export const saveDocumentEmbedding = internalMutation({
  * internal:memory:embedTask
  */
 export const embedTask = internalAction({
-    args: { taskId: v.id("tasks") },
+    args: { taskId: v.id("tasks"), slot: v.optional(embeddingSlotValidator) },
     handler: async (ctx, args) => {
         const task: any = await ctx.runQuery(internal.memory.getTaskForEmbedding, {
             taskId: args.taskId,
@@ -82,16 +114,6 @@ export const embedTask = internalAction({
         if (!task) return { ok: false, reason: "Task not found" };
         if (!task.departmentId) return { ok: false, reason: "Task has no departmentId" };
 
-        const integration: any = await ctx.runQuery(internal.integrations.getByTypeForDepartment, {
-            departmentId: task.departmentId,
-            type: "openai",
-        });
-        const apiKey = integration?.config?.key || integration?.config?.token;
-        if (!apiKey) {
-            throw new Error("OpenAI integration key is not configured for this department.");
-        }
-
-        const openai = new OpenAI({ apiKey });
         const input = toEmbeddingInput(
             [
                 `Task: ${task.title || ""}`,
@@ -102,20 +124,15 @@ export const embedTask = internalAction({
             ].join("\n")
         );
 
-        const result = await openai.embeddings.create({
-            model: EMBEDDING_MODEL,
+        const writes = await embedRow(
+            ctx,
             input,
-        });
-        const embedding = result.data[0]?.embedding;
-        if (!embedding) throw new Error("OpenAI returned an empty embedding for task.");
-
-        await ctx.runMutation(internal.memory.saveTaskEmbedding, {
-            taskId: args.taskId,
-            embedding,
-            embeddingModel: EMBEDDING_MODEL,
-        });
+            { departmentId: task.departmentId, taskId: args.taskId, source: "memory.embedTask" },
+            args.slot
+        );
+        await ctx.runMutation(internal.memory.saveTaskEmbedding, { taskId: args.taskId, writes });
 
-        return { ok: true, dimensions: embedding.length };
+        return { ok: true };
     },
 });
 
@@ -123,7 +140,7 @@ export const embedTask = internalAction({
  * internal:memory:embedDocument
  */
 export const embedDocument = internalAction({
-    args: { documentId: v.id("aiAssets") },
+    args: { documentId: v.id("aiAssets"), slot: v.optional(embeddingSlotValidator) },
     handler: async (ctx, args) => {
         const doc: any = await ctx.runQuery(internal.memory.getDocumentForEmbedding, {
             documentId: args.documentId,
@@ -131,16 +148,6 @@ export const embedDocument = internalAction({
         if (!doc) return { ok: false, reason: "Document not found" };
         if (!doc.departmentId) return { ok: false, reason: "Document has no departmentId" };
 
-        const integration: any = await ctx.runQuery(internal.integrations.getByTypeForDepartment, {
-            departmentId: doc.departmentId,
-            type: "openai",
-        });
-        const apiKey = integration?.config?.key || integration?.config?.token;
-        if (!apiKey) {
-            throw new Error("OpenAI integration key is not configured for this department.");
-        }
-
-        const openai = new OpenAI({ apiKey });
         const input = toEmbeddingInput(
             [
                 `Document: ${doc.title || ""}`,
@@ -149,20 +156,15 @@ export const embedDocument = internalAction({
             ].join("\n")
         );
 
-        const result = await openai.embeddings.create({
-            model: EMBEDDING_MODEL,
+        const writes = await embedRow(
+            ctx,
             input,
-        });
-        const embedding = result.data[0]?.embedding;
-        if (!embedding) throw new Error("OpenAI returned an empty embedding for document.");
-
-        await ctx.runMutation(internal.memory.saveDocumentEmbedding, {
-            documentId: args.documentId,
-            embedding,
-            embeddingModel: EMBEDDING_MODEL,
-        });
+            { departmentId: doc.departmentId, taskId: doc.taskId, source: "memory.embedDocument" },
+            args.slot
+        );
+        await ctx.runMutation(internal.memory.saveDocumentEmbedding, { documentId: args.documentId, writes });
 
-        return { ok: true, dimensions: embedding.length };
+        return { ok: true };
     },
 });
 
@@ -187,10 +189,10 @@ export const backfill = internalMutation({
         }
 
         const pendingTasks = tasks
-            .filter((t) => !t.embedding && t.departmentId)
+            .filter((t) => !t.embedding && !t.embeddingB && t.departmentId)
             .slice(0, limit);
         const pendingDocs = docs
-            .filter((d) => !d.embedding && d.departmentId)
+            .filter((d) => !d.embedding && !d.embeddingB && d.departmentId)
             .slice(0, limit);
 
         for (const task of pendingTasks) {
@@ -1,6 +1,8 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, type MutationCtx } from "./_generated/server";
 import { api, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { memoryCitationValidator, type MemoryCitation } from "./lib/citations";
 
 function extractMentions(content: string): { all: boolean; names: string[] } {
     // captura tokens do tipo @Vision, @Fury, @customer-researcher etc.
@@ -43,202 +45,251 @@ function parseTelegramUserNameFromTaskDescription(description?: string): string
     return match[1].trim();
 }
 
+const createMessageArgs = {
+    departmentId: v.id("departments"),
+    taskId: v.id("tasks"),
+    fromSessionKey: v.string(),
+    fromDisplayName: v.optional(v.string()),
+    content: v.string(),
+};
+
+type PostMessageArgs = {
+    departmentId: Id<"departments">;
+    taskId: Id<"tasks">;
+    fromSessionKey: string;
+    fromDisplayName?: string;
+    content: string;
+    draftMessageId?: Id<"messages">;
+    citations?: MemoryCitation[];
+};
+
 /**
- * messages:create
+ * Shared by messages:create and internal:messages:finalize.
  * - cria uma mensagem (comentário) ligada a uma task
  * - registra uma activity no feed global
  * - cria notifications a partir de @mentions (inclui @all)
  * - instrumenta user_ping_message para UX (quando mensagem é "ping")
+ * - com draftMessageId, finaliza o rascunho em streaming em vez de inserir outra mensagem
  */
-export const create = mutation({
-    args: {
-        departmentId: v.id("departments"),
-        taskId: v.id("tasks"),
-        fromSessionKey: v.string(),
-        fromDisplayName: v.optional(v.string()),
-        content: v.string(),
-    },
-    handler: async (ctx, args) => {
-        const now = Date.now();
+async function postMessage(ctx: MutationCtx, args: PostMessageArgs) {
+    const now = Date.now();
 
-        // garante que a task existe e pertence ao department
-        const task = await ctx.db.get(args.taskId);
-        if (!task || task.departmentId !== args.departmentId) {
-            throw new Error("Task não encontrada ou acesso negado.");
-        }
+    // garante que a task existe e pertence ao department
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.departmentId !== args.departmentId) {
+        throw new Error("Task não encontrada ou acesso negado.");
+    }
 
-        // cria a mensagem
-        const messageId = await ctx.db.insert("messages", {
+    // cria a mensagem (ou finaliza o rascunho em streaming do mesmo autor)
+    const draft = args.draftMessageId ? await ctx.db.get("messages", args.draftMessageId) : null;
+    let messageId: Id<"messages">;
+    if (draft?.isDraft && draft.taskId === args.taskId && draft.fromSessionKey === args.fromSessionKey) {
+        messageId = draft._id;
+        await ctx.db.patch("messages", messageId, {
+            content: args.content,
+            createdAt: now,
+            isDraft: undefined,
+            citations: args.citations,
+        });
+    } else {
+        messageId = await ctx.db.insert("messages", {
             departmentId: task.departmentId,
             taskId: args.taskId,
             fromSessionKey: args.fromSessionKey,
             content: args.content,
             createdAt: now,
+            citations: args.citations,
         });
+    }
 
-        // atualiza timestamp da task
-        await ctx.db.patch(args.taskId, { createdAt: now });
-
-        let agentsCache: any[] | null = null;
-        const getAgents = async () => {
-            if (agentsCache) return agentsCache;
-            agentsCache = await ctx.db
-                .query("agents")
-                .withIndex("by_departmentId", (q) => q.eq("departmentId", task.departmentId))
-                .collect();
-            return agentsCache;
-        };
-
-        const resolveActorMeta = async () => {
-            const preferred = args.fromDisplayName?.trim();
-            if (preferred) {
-                return {
-                    actorName: preferred,
-                    actorType: args.fromSessionKey.startsWith("agent:") ? "agent" as const : "user" as const,
-                };
-            }
-            if (args.fromSessionKey.startsWith("agent:")) {
-                const agents = await getAgents();
-                const agent = agents.find((a) => a.sessionKey === args.fromSessionKey);
-                return { actorName: agent?.name ?? (args.fromSessionKey.split(":").pop() || "Agent"), actorType: "agent" as const };
-            }
-            if (args.fromSessionKey.startsWith("user:telegram:")) {
-                return {
-                    actorName: parseTelegramUserNameFromTaskDescription(task.description) ?? "Telegram User",
-                    actorType: "user" as const,
-                };
-            }
-            if (args.fromSessionKey.startsWith("user:")) {
-                return { actorName: "User", actorType: "user" as const };
+    // atualiza timestamp da task
+    await ctx.db.patch(args.taskId, { createdAt: now });
+
+    let agentsCache: any[] | null = null;
+    const getAgents = async () => {
+        if (agentsCache) return agentsCache;
+        agentsCache = await ctx.db
+            .query("agents")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", task.departmentId))
+            .collect();
+        return agentsCache;
+    };
+
+    const resolveActorMeta = async () => {
+        const preferred = args.fromDisplayName?.trim();
+        if (preferred) {
+            return {
+                actorName: preferred,
+                actorType: args.fromSessionKey.startsWith("agent:") ? "agent" as const : "user" as const,
+            };
+        }
+        if (args.fromSessionKey.startsWith("agent:")) {
+            const agents = await getAgents();
+            const agent = agents.find((a) => a.sessionKey === args.fromSessionKey);
+            return { actorName: agent?.name ?? (args.fromSessionKey.split(":").pop() || "Agent"), actorType: "agent" as const };
+        }
+        if (args.fromSessionKey.startsWith("user:telegram:")) {
+            return {
+                actorName: parseTelegramUserNameFromTaskDescription(task.description) ?? "Telegram User",
+                actorType: "user" as const,
+            };
+        }
+        if (args.fromSessionKey.startsWith("user:")) {
+            return { actorName: "User", actorType: "user" as const };
+        }
+        return { actorName: args.fromSessionKey, actorType: "system" as const };
+    };
+
+    const actor = await resolveActorMeta();
+
+    // log activity entry
+    await ctx.db.insert("activities", {
+        departmentId: args.departmentId,
+        type: "comment_added",
+        message: `Novo comentário na task: ${args.content.substring(0, 50)}${args.content.length > 50 ? "..." : ""
+            }`,
+        sessionKey: args.fromSessionKey,
+        actorName: actor.actorName,
+        actorType: actor.actorType,
+        taskId: args.taskId,
+        createdAt: now,
+    });
+
+    // analytics (fire-and-forget logic if needed)
+    await ctx.db.insert("uxEvents", {
+        departmentId: args.departmentId,
+        name: "message_created",
+        ts: now,
+        flowId: args.taskId,
+        userId: args.fromSessionKey,
+        meta: { messageId },
+    });
+
+    // notifica inscritos (exceto autor)
+    await ctx.runMutation(
+        api.thread_subscriptions_notify.notifySubscribersOfMessage,
+        {
+            taskId: args.taskId,
+            messageId,
+            authorSessionKey: args.fromSessionKey,
+            contentPreview: args.content.slice(0, 300),
+        }
+    );
+
+    // registra atividade (feed global)
+    await ctx.db.insert("activities", {
+        departmentId: task.departmentId,
+        type: "message_sent",
+        message: `Mensagem em "${task.title}" por ${args.fromSessionKey}`,
+        sessionKey: args.fromSessionKey,
+        actorName: actor.actorName,
+        actorType: actor.actorType,
+        taskId: args.taskId,
+        createdAt: now,
+    });
+
+    // ---- Mentions -> Notifications ----
+    const mentions = extractMentions(args.content);
+
+    // Se não tem mentions, terminou
+    if (!mentions.all && mentions.names.length === 0) {
+        return { messageId, notified: 0 };
+    }
+
+    // carrega agents da mesma org para resolver mentions
+    const agents = await getAgents();
+
+    // resolve mentioned sessionKeys
+    const mentionedSessionKeys = new Set<string>();
+
+    if (mentions.all) {
+        for (const a of agents) {
+            if (a.sessionKey !== args.fromSessionKey) {
+                mentionedSessionKeys.add(a.sessionKey);
             }
-            return { actorName: args.fromSessionKey, actorType: "system" as const };
-        };
+        }
+    }
 
-        const actor = await resolveActorMeta();
+    if (mentions.names.length > 0) {
+        // mapeia name -> sessionKey (case-insensitive)
+        for (const name of mentions.names) {
+            const target = agents.find(
+                (a) => a.name.toLowerCase() === name.toLowerCase()
+            );
+            if (!target) continue; // ignora mention inválida
+            if (target.sessionKey === args.fromSessionKey) continue; // não notifica o autor
+            mentionedSessionKeys.add(target.sessionKey);
+        }
+    }
 
-        // log activity entry
-        await ctx.db.insert("activities", {
-            departmentId: args.departmentId,
-            type: "comment_added",
-            message: `Novo comentário na task: ${args.content.substring(0, 50)}${args.content.length > 50 ? "..." : ""
-                }`,
-            sessionKey: args.fromSessionKey,
-            actorName: actor.actorName,
-            actorType: actor.actorType,
-            taskId: args.taskId,
+    // cria notifications
+    // ✅ inclui source/sourceMessageId para permitir idempotência por mensagem+destinatário
+    let notified = 0;
+    for (const mentionedSessionKey of mentionedSessionKeys) {
+        await ctx.db.insert("notifications", {
+            departmentId: task.departmentId,
+            mentionedSessionKey,
+            content: args.content,
+            delivered: false,
             createdAt: now,
-        });
+            deliveredAt: undefined,
+            taskId: args.taskId,
 
-        // analytics (fire-and-forget logic if needed)
-        await ctx.db.insert("uxEvents", {
-            departmentId: args.departmentId,
-            name: "message_created",
-            ts: now,
-            flowId: args.taskId,
-            userId: args.fromSessionKey,
-            meta: { messageId },
+            // 🔽 idempotência por mensagem (quando você migrar para createIfNotExists)
+            source: "mention",
+            sourceMessageId: messageId,
         });
+        notified += 1;
+    }
 
-        // notifica inscritos (exceto autor)
-        await ctx.runMutation(
-            api.thread_subscriptions_notify.notifySubscribersOfMessage,
-            {
-                taskId: args.taskId,
-                messageId,
-                authorSessionKey: args.fromSessionKey,
-                contentPreview: args.content.slice(0, 300),
-            }
-        );
-
-        // registra atividade (feed global)
+    // opcional: log activity para auditoria de mentions
+    if (notified > 0) {
         await ctx.db.insert("activities", {
             departmentId: task.departmentId,
-            type: "message_sent",
-            message: `Mensagem em "${task.title}" por ${args.fromSessionKey}`,
+            type: "notifications_created",
+            message: `Notificações criadas: ${notified} (mentions)`,
             sessionKey: args.fromSessionKey,
             actorName: actor.actorName,
             actorType: actor.actorType,
             taskId: args.taskId,
             createdAt: now,
         });
+    }
 
-        // ---- Mentions -> Notifications ----
-        const mentions = extractMentions(args.content);
-
-        // Se não tem mentions, terminou
-        if (!mentions.all && mentions.names.length === 0) {
-            return { messageId, notified: 0 };
-        }
-
-        // carrega agents da mesma org para resolver mentions
-        const agents = await getAgents();
-
-        // resolve mentioned sessionKeys
-        const mentionedSessionKeys = new Set<string>();
-
-        if (mentions.all) {
-            for (const a of agents) {
-                if (a.sessionKey !== args.fromSessionKey) {
-                    mentionedSessionKeys.add(a.sessionKey);
-                }
-            }
-        }
-
-        if (mentions.names.length > 0) {
-            // mapeia name -> sessionKey (case-insensitive)
-            for (const name of mentions.names) {
-                const target = agents.find(
-                    (a) => a.name.toLowerCase() === name.toLowerCase()
-                );
-                if (!target) continue; // ignora mention inválida
-                if (target.sessionKey === args.fromSessionKey) continue; // não notifica o autor
-                mentionedSessionKeys.add(target.sessionKey);
-            }
-        }
+    // ---- Brain Trigger (Async Thinking) ----
+    await ctx.scheduler.runAfter(0, internal.brain.onNewMessage, {
+        departmentId: args.departmentId,
+        taskId: args.taskId,
+        messageId,
+        content: args.content,
+    });
 
-        // cria notifications
-        // ✅ inclui source/sourceMessageId para permitir idempotência por mensagem+destinatário
-        let notified = 0;
-        for (const mentionedSessionKey of mentionedSessionKeys) {
-            await ctx.db.insert("notifications", {
-                departmentId: task.departmentId,
-                mentionedSessionKey,
-                content: args.content,
-                delivered: false,
-                createdAt: now,
-                deliveredAt: undefined,
-                taskId: args.taskId,
-
-                // 🔽 idempotência por mensagem (quando você migrar para createIfNotExists)
-                source: "mention",
-                sourceMessageId: messageId,
-            });
-            notified += 1;
-        }
-
-        // opcional: log activity para auditoria de mentions
-        if (notified > 0) {
-            await ctx.db.insert("activities", {
-                departmentId: task.departmentId,
-                type: "notifications_created",
-                message: `Notificações criadas: ${notified} (mentions)`,
-                sessionKey: args.fromSessionKey,
-                actorName: actor.actorName,
-                actorType: actor.actorType,
-                taskId: args.taskId,
-                createdAt: now,
-            });
-        }
+    return { messageId, notified };
+}
 
-        // ---- Brain Trigger (Async Thinking) ----
-        await ctx.scheduler.runAfter(0, internal.brain.onNewMessage, {
-            departmentId: args.departmentId,
-            taskId: args.taskId,
-            messageId,
-            content: args.content,
-        });
+/**
+ * messages:create
+ * Public entry point; drafts and citations only come from agents, through internal:messages:finalize.
+ */
+export const create = mutation({
+    args: createMessageArgs,
+    handler: async (ctx, args) => {
+        return await postMessage(ctx, args);
+    },
+});
 
-        return { messageId, notified };
+/**
+ * internal:messages:finalize
+ * - resposta final do agente: finaliza o rascunho em streaming e guarda as citações
+ */
+export const finalize = internalMutation({
+    args: {
+        ...createMessageArgs,
+        draftMessageId: v.optional(v.id("messages")),
+        citations: v.optional(v.array(memoryCitationValidator)),
+    },
+    handler: async (ctx, args) => {
+        return await postMessage(ctx, args);
     },
 });
 
@@ -277,3 +328,59 @@ export const listByTask = query({
         return rows;
     },
 });
+
+/**
+ * internal:messages:createDraft
+ * - placeholder da resposta do agente, atualizado enquanto o LLM faz streaming
+ * - sem activities/notifications/brain trigger: isso acontece quando messages:finalize finaliza
+ */
+export const createDraft = internalMutation({
+    args: {
+        taskId: v.id("tasks"),
+        fromSessionKey: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const task = await ctx.db.get("tasks", args.taskId);
+        if (!task) throw new Error("Task não encontrada.");
+
+        return await ctx.db.insert("messages", {
+            departmentId: task.departmentId,
+            taskId: args.taskId,
+            fromSessionKey: args.fromSessionKey,
+            content: "",
+            createdAt: Date.now(),
+            isDraft: true,
+        });
+    },
+});
+
+/**
+ * internal:messages:updateDraft
+ * - substitui o conteúdo parcial; ignora se o rascunho já foi finalizado ou descartado
+ */
+export const updateDraft = internalMutation({
+    args: {
+        messageId: v.id("messages"),
+        content: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const draft = await ctx.db.get("messages", args.messageId);
+        if (!draft?.isDraft) return;
+        await ctx.db.patch("messages", args.messageId, { content: args.content });
+    },
+});
+
+/**
+ * internal:messages:discardDraft
+ * - remove o rascunho quando a execução termina sem resposta final (erro, checkpoint, duplicada)
+ */
+export const discardDraft = internalMutation({
+    args: {
+        messageId: v.id("messages"),
+    },
+    handler: async (ctx, args) => {
+        const draft = await ctx.db.get("messages", args.messageId);
+        if (!draft?.isDraft) return;
+        await ctx.db.delete("messages", args.messageId);
+    },
+});
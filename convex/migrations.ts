@@ -1,5 +1,11 @@
 import { mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { normalizeTaskStatus } from "./lib/workflows";
+import { inferAgentKind, normalizeAgentKind } from "./lib/agentKinds";
+import { bumpEmbeddingCount, EMBEDDING_COUNT_TABLES, type EmbeddingCountTable } from "./lib/embeddingCounts";
+import type { EmbeddingSlot } from "./lib/embeddings";
 
 /**
  * Migration: backfillActivitiesCreatedAt
@@ -79,6 +85,157 @@ export const migrateBlockedTasksToInProgress = mutation({
     },
 });
 
+/**
+ * Migration: normalizeTaskStatuses
+ * Rewrites legacy task rows so every board column can be read straight from
+ * by_dept_status_cleared_createdAt: lowercase status (unknown values -> inbox),
+ * createdAt backfilled from _creationTime, doneClearedAt only on done tasks.
+ * Runs in batches and schedules itself until the table is exhausted.
+ */
+export const normalizeTaskStatuses = mutation({
+    args: {
+        cursor: v.optional(v.union(v.string(), v.null())),
+        batchSize: v.optional(v.number()),
+    },
+    handler: async (ctx, args): Promise<{ scanned: number; patched: number; isDone: boolean }> => {
+        const batchSize = Math.max(1, Math.min(args.batchSize ?? 200, 500));
+        const page = await ctx.db
+            .query("tasks")
+            .paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+
+        let patched = 0;
+        for (const task of page.page) {
+            const status = normalizeTaskStatus(String(task.status).trim());
+            const patch: Record<string, unknown> = {};
+            if (status !== task.status) patch.status = status;
+            if (task.createdAt === undefined) patch.createdAt = task._creationTime;
+            if (status !== "done" && task.doneClearedAt !== undefined) patch.doneClearedAt = undefined;
+            if (Object.keys(patch).length === 0) continue;
+            await ctx.db.patch("tasks", task._id, patch);
+            patched += 1;
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, api.migrations.normalizeTaskStatuses, {
+                cursor: page.continueCursor,
+                batchSize,
+            });
+        }
+        return { scanned: page.page.length, patched, isDone: page.isDone };
+    },
+});
+
+/**
+ * Migration: backfillAgentKinds
+ * Stores `kind` on templates and agents created before kinds existed: templates
+ * from name/role inference, agents from their template's kind, else inference.
+ * Runs in batches over templates, then agents, and schedules itself until done.
+ */
+export const backfillAgentKinds = mutation({
+    args: {
+        table: v.optional(v.union(v.literal("agentTemplates"), v.literal("agents"))),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        batchSize: v.optional(v.number()),
+    },
+    handler: async (ctx, args): Promise<{ table: "agentTemplates" | "agents"; scanned: number; patched: number; isDone: boolean }> => {
+        const table = args.table ?? "agentTemplates";
+        const batchSize = Math.max(1, Math.min(args.batchSize ?? 200, 500));
+        let patched = 0;
+        let page;
+        if (table === "agentTemplates") {
+            page = await ctx.db.query("agentTemplates").paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+            for (const template of page.page) {
+                if (normalizeAgentKind(template.kind)) continue;
+                await ctx.db.patch("agentTemplates", template._id, { kind: inferAgentKind(template) });
+                patched += 1;
+            }
+        } else {
+            page = await ctx.db.query("agents").paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+            for (const agent of page.page) {
+                if (normalizeAgentKind(agent.kind)) continue;
+                const template = agent.templateId ? await ctx.db.get("agentTemplates", agent.templateId) : null;
+                const kind = normalizeAgentKind(template?.kind) ?? inferAgentKind(agent);
+                await ctx.db.patch("agents", agent._id, { kind });
+                patched += 1;
+            }
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, api.migrations.backfillAgentKinds, {
+                table,
+                cursor: page.continueCursor,
+                batchSize,
+            });
+        } else if (table === "agentTemplates") {
+            await ctx.scheduler.runAfter(0, api.migrations.backfillAgentKinds, { table: "agents", batchSize });
+        }
+        return { table, scanned: page.page.length, patched, isDone: page.isDone && table === "agents" };
+    },
+});
+
+const EMBEDDING_COUNT_SOURCES = {
+    knowledge: "knowledgeBase",
+    tasks: "tasks",
+    assets: "aiAssets",
+    memories: "agentMemories",
+} as const;
+
+/**
+ * Migration: backfillEmbeddingCounts
+ * Rebuilds embeddingCounts from the knowledge, task, asset and memory tables.
+ * Starting without a cursor resets the counts first; run it once after deploy.
+ * Pages run newest first, so rows inserted meanwhile are counted only by the
+ * write path. Runs in batches and schedules itself through every table.
+ */
+export const backfillEmbeddingCounts = mutation({
+    args: {
+        table: v.optional(v.union(v.literal("knowledge"), v.literal("tasks"), v.literal("assets"), v.literal("memories"))),
+        cursor: v.optional(v.union(v.string(), v.null())),
+        batchSize: v.optional(v.number()),
+    },
+    handler: async (ctx, args): Promise<{ table: EmbeddingCountTable; scanned: number; isDone: boolean }> => {
+        const table = args.table ?? EMBEDDING_COUNT_TABLES[0];
+        const batchSize = Math.max(1, Math.min(args.batchSize ?? 200, 500));
+        if (table === EMBEDDING_COUNT_TABLES[0] && !args.cursor) {
+            for (const row of await ctx.db.query("embeddingCounts").collect()) {
+                await ctx.db.delete("embeddingCounts", row._id);
+            }
+        }
+
+        const page = await ctx.db
+            .query(EMBEDDING_COUNT_SOURCES[table])
+            .order("desc")
+            .paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+        const tally = new Map<string, { departmentId: Id<"departments">; model?: string; slot: EmbeddingSlot; count: number }>();
+        const add = (departmentId: Id<"departments">, model: string | undefined, slot: EmbeddingSlot) => {
+            const key = `${departmentId}|${slot}|${model ?? ""}`;
+            const entry = tally.get(key) ?? { departmentId, model, slot, count: 0 };
+            entry.count += 1;
+            tally.set(key, entry);
+        };
+        for (const row of page.page) {
+            if (!row.departmentId) continue;
+            add(row.departmentId, row.embeddingModel, "a");
+            if (row.embeddingModelB) add(row.departmentId, row.embeddingModelB, "b");
+        }
+        for (const entry of tally.values()) {
+            await bumpEmbeddingCount(ctx, entry.departmentId, table, entry.model, entry.count, entry.slot);
+        }
+
+        const next = EMBEDDING_COUNT_TABLES[EMBEDDING_COUNT_TABLES.indexOf(table) + 1];
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, api.migrations.backfillEmbeddingCounts, {
+                table,
+                cursor: page.continueCursor,
+                batchSize,
+            });
+        } else if (next) {
+            await ctx.scheduler.runAfter(0, api.migrations.backfillEmbeddingCounts, { table: next, batchSize });
+        }
+        return { table, scanned: page.page.length, isDone: page.isDone && !next };
+    },
+});
+
 /* Legacy Migrations - Commented out to satisfy schema constraints */
 
 /**
@@ -205,6 +362,7 @@ export const migrateDocumentsToAssets = mutation({
                 embeddedAt: doc.embeddedAt,
                 orgId: doc.orgId,
             });
+            await bumpEmbeddingCount(ctx, doc.departmentId, "assets", doc.embeddingModel, 1);
             signatures.add(signature);
             inserted += 1;
         }
@@ -1,7 +1,24 @@
-import { action } from "./_generated/server";
+import { action, internalAction } from "./_generated/server";
 import { v } from "convex/values";
-import OpenAI from "openai";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { chatWithProvider, getEnvApiKey, providerLabel } from "./lib/llmProviders";
+import { recordUsage } from "./usage";
 
+// Attributes the call's token usage to a department (and optionally agent/task) in the usage ledger.
+const usageContextValidator = v.object({
+    departmentId: v.id("departments"),
+    taskId: v.optional(v.id("tasks")),
+    agentSessionKey: v.optional(v.string()),
+    source: v.optional(v.string()),
+});
+
+/**
+ * openai:chat
+ * Provider-agnostic chat completion (OpenAI or Anthropic).
+ * Kept under the historical `openai` module name so existing callers keep working.
+ */
 export const chat = action({
     args: {
         systemPrompt: v.string(),
@@ -10,32 +27,162 @@ export const chat = action({
             content: v.string(),
         })),
         apiKey: v.optional(v.string()), // [NEW] Optional override
+        provider: v.optional(v.union(v.literal("openai"), v.literal("anthropic"))),
+        model: v.optional(v.string()),
+        temperature: v.optional(v.number()),
         maxTokens: v.optional(v.number()),
+        usageContext: v.optional(usageContextValidator),
     },
-    handler: async (_ctx, args) => {
-        const apiKey = args.apiKey || process.env.OPENAI_API_KEY; // Priority: Args -> Env
+    handler: async (ctx, args) => {
+        const provider = args.provider ?? "openai";
+        const apiKey = args.apiKey || getEnvApiKey(provider); // Priority: Args -> Env
 
         if (!apiKey) {
-            throw new Error("OpenAI API Key not configured. Please set it in Department Settings or Environment Variables.");
+            throw new Error(
+                `${providerLabel(provider)} API Key not configured. Please set it in Department Settings or Environment Variables.`
+            );
         }
 
-        const openai = new OpenAI({ apiKey });
+        const result = await chatWithProvider({
+            provider,
+            apiKey,
+            model: args.model,
+            systemPrompt: args.systemPrompt,
+            messages: args.messages,
+            temperature: args.temperature,
+            maxTokens: args.maxTokens,
+        });
+
+        // Public callers can only attribute usage to departments of orgs they belong to.
+        const userId = args.usageContext ? await getAuthUserId(ctx) : null;
+        if (args.usageContext && userId) {
+            try {
+                await ctx.runMutation(internal.usage.record, {
+                    departmentId: args.usageContext.departmentId,
+                    taskId: args.usageContext.taskId,
+                    agentSessionKey: args.usageContext.agentSessionKey,
+                    kind: "chat",
+                    source: args.usageContext.source ?? "openai.chat",
+                    provider,
+                    model: result.model,
+                    inputTokens: result.usage.inputTokens,
+                    outputTokens: result.usage.outputTokens,
+                    actingUserId: userId,
+                });
+            } catch (error: unknown) {
+                console.warn("[openai.chat] usage not recorded:", error instanceof Error ? error.message : error);
+            }
+        }
+
+        return result.content;
+    },
+});
+
+// Streamed drafts are patched at most this often; Convex reactivity pushes each patch to the thread.
+const DRAFT_FLUSH_INTERVAL_MS = 300;
 
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-                { role: "system", content: args.systemPrompt },
-                ...args.messages,
-            ],
-            temperature: 0.7,
-            max_tokens: args.maxTokens ?? 900,
+// Text-protocol tool blobs are never shown; the draft stops where one starts.
+function draftPreview(content: string): string {
+    const toolIndex = content.indexOf("[TOOL");
+    return (toolIndex >= 0 ? content.slice(0, toolIndex) : content).trim();
+}
+
+const toolCallValidator = v.object({
+    id: v.string(),
+    name: v.string(),
+    args: v.any(),
+});
+
+/**
+ * internal:openai:chatWithTools
+ * Chat completion with structured tool calling. Returns the text plus any tool calls
+ * the model requested, so callers never have to parse tool blobs out of free text.
+ * With `draftMessageId`, the completion is streamed into that draft message as it arrives.
+ */
+export const chatWithTools = internalAction({
+    args: {
+        systemPrompt: v.string(),
+        messages: v.array(v.union(
+            v.object({
+                role: v.union(v.literal("user"), v.literal("system")),
+                content: v.string(),
+            }),
+            v.object({
+                role: v.literal("assistant"),
+                content: v.string(),
+                toolCalls: v.optional(v.array(toolCallValidator)),
+            }),
+            v.object({
+                role: v.literal("tool"),
+                toolCallId: v.string(),
+                name: v.string(),
+                content: v.string(),
+            })
+        )),
+        tools: v.optional(v.array(v.object({
+            name: v.string(),
+            description: v.string(),
+            parameters: v.any(),
+        }))),
+        apiKey: v.string(),
+        provider: v.union(v.literal("openai"), v.literal("anthropic")),
+        model: v.optional(v.string()),
+        temperature: v.optional(v.number()),
+        maxTokens: v.optional(v.number()),
+        usageContext: v.optional(usageContextValidator),
+        draftMessageId: v.optional(v.id("messages")),
+    },
+    handler: async (ctx, args) => {
+        const draftMessageId = args.draftMessageId;
+        let lastFlushAt = 0;
+        let lastFlushed = "";
+        const flushDraft = async (messageId: Id<"messages">, content: string) => {
+            const preview = draftPreview(content);
+            lastFlushAt = Date.now();
+            if (preview === lastFlushed) return;
+            lastFlushed = preview;
+            await ctx.runMutation(internal.messages.updateDraft, { messageId, content: preview });
+        };
+
+        const result = await chatWithProvider({
+            provider: args.provider,
+            apiKey: args.apiKey,
+            model: args.model,
+            systemPrompt: args.systemPrompt,
+            messages: args.messages,
+            temperature: args.temperature,
+            maxTokens: args.maxTokens,
+            tools: args.tools,
+            onText: draftMessageId
+                ? async (textSoFar) => {
+                    if (Date.now() - lastFlushAt < DRAFT_FLUSH_INTERVAL_MS) return;
+                    await flushDraft(draftMessageId, textSoFar);
+                }
+                : undefined,
         });
+        if (draftMessageId) {
+            await flushDraft(draftMessageId, result.content);
+        }
 
-        const content = response.choices[0].message.content;
-        if (!content) {
-            throw new Error("Empty response from OpenAI");
+        if (args.usageContext) {
+            await recordUsage(ctx, {
+                departmentId: args.usageContext.departmentId,
+                taskId: args.usageContext.taskId,
+                agentSessionKey: args.usageContext.agentSessionKey,
+                kind: "chat",
+                source: args.usageContext.source ?? "openai.chatWithTools",
+                provider: args.provider,
+                model: result.model,
+                inputTokens: result.usage.inputTokens,
+                outputTokens: result.usage.outputTokens,
+            });
         }
 
-        return content;
+        return {
+            content: result.content,
+            toolCalls: result.toolCalls,
+            model: result.model,
+            usage: result.usage,
+        };
     },
 });
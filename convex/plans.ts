@@ -1,18 +1,24 @@
 import type { MutationCtx, QueryCtx } from "./_generated/server";
 import type { Id } from "./_generated/dataModel";
+import { getToolSpec, isToolIncludedInPlan } from "./lib/toolRegistry";
+import { getUsageCounter } from "./lib/usageCounters";
 
 export const PLANS = {
   starter: {
     maxDepts: 1,
     maxAgentsPerDept: 3,
     maxDocs: 5,
-    allowedIntegrations: ["telegram", "openai", "anthropic", "tavily", "resend", "gmail"] as const,
+    maxMonthlyLlmTokens: 2_000_000,
+    maxMonthlyToolCalls: 1_000,
+    allowedIntegrations: ["telegram", "openai", "anthropic", "tavily", "resend", "gmail", "embeddings"] as const,
     allowTeamInvites: false,
   },
   pro: {
     maxDepts: 5,
     maxAgentsPerDept: 10,
     maxDocs: 50,
+    maxMonthlyLlmTokens: 20_000_000,
+    maxMonthlyToolCalls: 10_000,
     allowedIntegrations: "ALL" as const,
     allowTeamInvites: false,
   },
@@ -20,6 +26,8 @@ export const PLANS = {
     maxDepts: 999,
     maxAgentsPerDept: 999,
     maxDocs: 999,
+    maxMonthlyLlmTokens: Number.POSITIVE_INFINITY,
+    maxMonthlyToolCalls: Number.POSITIVE_INFINITY,
     allowedIntegrations: "ALL" as const,
     allowTeamInvites: true,
   },
@@ -27,7 +35,13 @@ export const PLANS = {
 
 type Ctx = MutationCtx | QueryCtx;
 type PlanName = keyof typeof PLANS;
-type LimitResource = "departments" | "agents_per_department" | "docs" | "team_invites";
+type LimitResource =
+  | "departments"
+  | "agents_per_department"
+  | "docs"
+  | "team_invites"
+  | "llm_tokens"
+  | "tool_calls";
 export type PlanIntegrationType =
   | "telegram"
   | "openai"
@@ -39,7 +53,8 @@ export type PlanIntegrationType =
   | "notion"
   | "twitter"
   | "upwork"
-  | "dalle";
+  | "dalle"
+  | "embeddings";
 
 function normalizePlan(plan: string | undefined): PlanName {
   if (plan === "pro" || plan === "business" || plan === "starter") return plan;
@@ -54,6 +69,8 @@ function featureLabel(type: PlanIntegrationType): string {
       return "Notion";
     case "dalle":
       return "DALL-E";
+    case "embeddings":
+      return "Embeddings";
     case "gmail":
       return "Gmail";
     case "twitter":
@@ -131,6 +148,19 @@ export async function checkLimit(
     }
     return;
   }
+
+  // Metered monthly from usageCounters (org-wide row).
+  if (resourceType === "llm_tokens" || resourceType === "tool_calls") {
+    const counter = await getUsageCounter(ctx, orgId, undefined);
+    const nextPlan = planName === "starter" ? "Pro" : "Business";
+    if (resourceType === "llm_tokens" && (counter?.llmTokens ?? 0) >= plan.maxMonthlyLlmTokens) {
+      throw new Error(`Monthly LLM token limit reached. Upgrade to ${nextPlan} to keep agents running this month.`);
+    }
+    if (resourceType === "tool_calls" && (counter?.toolCalls ?? 0) >= plan.maxMonthlyToolCalls) {
+      throw new Error(`Monthly tool call limit reached. Upgrade to ${nextPlan} to keep agents running this month.`);
+    }
+    return;
+  }
 }
 
 export async function assertIntegrationAllowed(
@@ -149,3 +179,26 @@ export async function assertIntegrationAllowed(
     throw new Error(`${featureLabel(integrationType)} is a Pro feature.`);
   }
 }
+
+/**
+ * Tool tiers come from the tool registry (lib/toolRegistry); unknown tools are not gated.
+ */
+export function isToolAllowedOnPlan(plan: string | undefined, toolName: string): boolean {
+  return isToolIncludedInPlan(normalizePlan(plan), toolName);
+}
+
+export async function assertToolsAllowed(
+  ctx: Ctx,
+  orgId: Id<"organizations">,
+  toolNames: string[]
+): Promise<void> {
+  const org = await ctx.db.get("organizations", orgId);
+  if (!org) throw new Error("Organization not found.");
+
+  for (const toolName of toolNames) {
+    if (!isToolAllowedOnPlan(org.plan, toolName)) {
+      const label = getToolSpec(toolName)?.label ?? toolName;
+      throw new Error(`${label} is a Pro feature.`);
+    }
+  }
+}
@@ -1,18 +1,9 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
-
-/**
- * Status possíveis de uma task
- */
-const taskStatus = v.union(
-  v.literal("inbox"),
-  v.literal("assigned"),
-  v.literal("in_progress"),
-  v.literal("review"),
-  v.literal("done"),
-  v.literal("blocked")
-);
+import { EMBEDDING_DIMENSIONS, embeddingSettingsValidator } from "./lib/embeddings";
+import { taskSearchFiltersValidator } from "./lib/taskSearch";
+import { taskStatusValidator, workflowColumnValidator, workflowTransitionValidator } from "./lib/workflows";
 
 /**
  * Status possíveis de um agente
@@ -23,6 +14,46 @@ const agentStatus = v.union(
   v.literal("blocked")
 );
 
+/**
+ * Tipo de agente: define delegação, protocolo e ferramentas forçadas no brain (ver lib/agentKinds)
+ */
+const agentKind = v.union(
+  v.literal("orchestrator"),
+  v.literal("specialist"),
+  v.literal("researcher"),
+  v.literal("designer"),
+  v.literal("inbox-manager")
+);
+
+/**
+ * Provedores de LLM suportados pelo brain
+ */
+const llmProvider = v.union(
+  v.literal("openai"),
+  v.literal("anthropic")
+);
+
+/**
+ * Configuração de modelo por agente (vazio = defaults do brain)
+ */
+const agentModelSettings = {
+  llmProvider: v.optional(llmProvider), // Preferred provider; falls back to whatever the dept has connected
+  model: v.optional(v.string()),
+  temperature: v.optional(v.float64()),
+  maxOutputTokens: v.optional(v.float64()),
+  // Step budget por run (ver lib/stepBudget)
+  maxToolIterations: v.optional(v.float64()),
+  maxRunSeconds: v.optional(v.float64()),
+  maxRunTokens: v.optional(v.float64()),
+};
+
+// Tetos mensais de gasto com LLM (org ou departamento)
+const spendingLimits = v.object({
+  monthlyTokenCap: v.optional(v.float64()),
+  monthlyCostCapUsd: v.optional(v.float64()),
+  onLimit: v.union(v.literal("block"), v.literal("downgrade")),
+});
+
 const organizationLanguage = v.union(
   v.literal("en"),
   v.literal("es"),
@@ -61,6 +92,7 @@ export default defineSchema({
     subscriptionStatus: v.optional(v.string()),
     stripeCustomerId: v.optional(v.string()),
     stripeSubscriptionId: v.optional(v.string()),
+    spendingLimits: v.optional(spendingLimits),
     createdAt: v.float64(),
   }).index("by_slug", ["slug"]),
 
@@ -100,6 +132,7 @@ export default defineSchema({
     slug: v.string(),
     orgId: v.optional(v.id("organizations")),
     plan: v.union(v.literal("free"), v.literal("pro"), v.literal("enterprise")),
+    spendingLimits: v.optional(spendingLimits),
     createdAt: v.float64(),
   })
     .index("by_slug", ["slug"])
@@ -137,6 +170,10 @@ export default defineSchema({
     createdAt: v.float64(),
     createdByUserId: v.optional(v.id("users")),
     orgId: v.optional(v.any()),
+    kind: v.optional(agentKind),
+    protocol: v.optional(v.string()), // Substitui o protocolo padrão do kind
+    forcedTools: v.optional(v.array(v.string())), // Substitui as ferramentas forçadas do kind
+    ...agentModelSettings,
   })
     .index("by_departmentId", ["departmentId"])
     .index("by_isPublic", ["isPublic"])
@@ -161,6 +198,9 @@ export default defineSchema({
     allowedTools: v.optional(v.array(v.string())),
     systemPrompt: v.optional(v.string()), // The "Soul"
     description: v.optional(v.string()), // Short description for UI display
+    kind: v.optional(agentKind), // Copiado do template; sem valor = inferido (lib/agentKinds)
+    knowledgeCollectionIds: v.optional(v.array(v.id("knowledgeCollections"))), // Coleções da org que o agente pode consultar
+    ...agentModelSettings,
   })
     .index("by_sessionKey", ["sessionKey"])
     .index("by_departmentId", ["departmentId"])
@@ -179,7 +219,9 @@ export default defineSchema({
     createdBySessionKey: v.optional(v.string()),
     createdByName: v.optional(v.string()),
     ownerUserId: v.optional(v.id("users")),
-    status: taskStatus,
+    status: taskStatusValidator,
+    // Coluna do workflow do departamento; vazio = coluna principal do status
+    workflowColumn: v.optional(v.string()),
     assigneeSessionKeys: v.array(v.string()),
     parentNotifiedAt: v.optional(v.float64()),
     brainLockOwner: v.optional(v.string()),
@@ -190,20 +232,179 @@ export default defineSchema({
     doneClearedAt: v.optional(v.float64()),
     embedding: v.optional(v.array(v.float64())),
     embeddingModel: v.optional(v.string()),
+    // Segundo slot de vetor (ver lib/embeddings.EmbeddingSlot): a migração grava nele enquanto as buscas leem o outro
+    embeddingB: v.optional(v.array(v.float64())),
+    embeddingModelB: v.optional(v.string()),
     embeddedAt: v.optional(v.float64()),
     orgId: v.optional(v.any()),
+    // Override do step budget do agente para esta task
+    stepBudget: v.optional(v.object({
+      maxToolIterations: v.optional(v.float64()),
+      maxRunSeconds: v.optional(v.float64()),
+      maxRunTokens: v.optional(v.float64()),
+      maxContinuations: v.optional(v.float64()),
+    })),
+    // Bloqueada automaticamente até todas as dependências (taskDependencies) chegarem em done
+    waitingOnDependencies: v.optional(v.boolean()),
   })
     .index("by_status", ["status"])
     .index("by_departmentId", ["departmentId"])
     .index("by_parentTaskId", ["parentTaskId"])
     .index("by_department_parentTaskId", ["departmentId", "parentTaskId"])
     .index("by_dept_status", ["departmentId", "status"])
+    // Colunas do board: tasks não limpas (doneClearedAt vazio) por createdAt
+    .index("by_dept_status_cleared_createdAt", ["departmentId", "status", "doneClearedAt", "createdAt"])
+    .index("by_dept_column_cleared_createdAt", ["departmentId", "workflowColumn", "doneClearedAt", "createdAt"])
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
-      dimensions: 1536,
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["departmentId", "status"],
+    })
+    .vectorIndex("by_embedding_b", {
+      vectorField: "embeddingB",
+      dimensions: EMBEDDING_DIMENSIONS,
       filterFields: ["departmentId", "status"],
+    })
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["departmentId"],
+    })
+    .searchIndex("search_description", {
+      searchField: "description",
+      filterFields: ["departmentId"],
     }),
 
+  /**
+   * Checkpoints do brain: estado de um run que estourou o step budget
+   * e continua num thinkInternal agendado.
+   */
+  brainCheckpoints: defineTable({
+    departmentId: v.id("departments"),
+    taskId: v.id("tasks"),
+    agentSessionKey: v.string(),
+    continuation: v.float64(), // 1 = primeiro follow-up
+    reason: v.union(
+      v.literal("tool_iterations"),
+      v.literal("wall_clock"),
+      v.literal("tokens"),
+      v.literal("spending_limit")
+    ),
+    messages: v.any(), // LlmChatMessage[] até o ponto de parada
+    pendingTurn: v.any(), // { content, toolCalls } ainda não executado
+    executedToolNames: v.array(v.string()),
+    usedLongTermMemory: v.boolean(),
+    // Fontes já numeradas no run, para manter as citações no follow-up
+    citationSources: v.optional(
+      v.array(
+        v.object({
+          kind: v.union(v.literal("knowledge"), v.literal("asset"), v.literal("task")),
+          sourceId: v.string(),
+          title: v.string(),
+          taskId: v.optional(v.string()),
+        })
+      )
+    ),
+    toolExecutionFailed: v.boolean(),
+    status: v.union(v.literal("pending"), v.literal("resumed"), v.literal("abandoned")),
+    createdAt: v.float64(),
+    resumedAt: v.optional(v.float64()), // também quando abandonado
+  })
+    .index("by_taskId", ["taskId"]),
+
+  /**
+   * Trace de execução do brain: uma linha por invocação de thinkInternal
+   */
+  agentRuns: defineTable({
+    departmentId: v.id("departments"),
+    taskId: v.id("tasks"),
+    agentSessionKey: v.string(),
+    triggerKey: v.optional(v.string()),
+    checkpointId: v.optional(v.id("brainCheckpoints")), // run retomado de um checkpoint
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("checkpointed"),
+      v.literal("failed")
+    ),
+    error: v.optional(v.string()),
+    finalResponse: v.optional(v.string()),
+    llmCalls: v.optional(v.float64()),
+    toolCalls: v.optional(v.float64()),
+    inputTokens: v.optional(v.float64()),
+    outputTokens: v.optional(v.float64()),
+    startedAt: v.float64(),
+    finishedAt: v.optional(v.float64()),
+    durationMs: v.optional(v.float64()),
+  })
+    .index("by_task_startedAt", ["taskId", "startedAt"]),
+
+  /**
+   * Passos de um agentRun: cada chamada de LLM e cada chamada de ferramenta
+   */
+  agentRunSteps: defineTable({
+    runId: v.id("agentRuns"),
+    taskId: v.id("tasks"),
+    sequence: v.float64(),
+    kind: v.union(v.literal("llm_call"), v.literal("tool_call")),
+    // llm_call
+    model: v.optional(v.string()),
+    protocol: v.optional(v.union(v.literal("native"), v.literal("text"))),
+    promptChars: v.optional(v.float64()),
+    messageCount: v.optional(v.float64()),
+    maxTokens: v.optional(v.float64()),
+    response: v.optional(v.string()), // resposta bruta (truncada)
+    requestedTools: v.optional(v.array(v.string())),
+    inputTokens: v.optional(v.float64()),
+    outputTokens: v.optional(v.float64()),
+    // tool_call
+    toolName: v.optional(v.string()),
+    toolArgs: v.optional(v.string()), // JSON (truncado)
+    observation: v.optional(v.string()), // payload do TOOL_OBSERVATION (truncado)
+    ok: v.optional(v.boolean()),
+    error: v.optional(v.string()),
+    latencyMs: v.float64(),
+    createdAt: v.float64(),
+  })
+    .index("by_run_sequence", ["runId", "sequence"]),
+
+  /**
+   * Ledger de uso de LLM/embeddings/imagens para chargeback por centro de custo
+   */
+  usageLedger: defineTable({
+    orgId: v.optional(v.id("organizations")),
+    departmentId: v.id("departments"),
+    agentSessionKey: v.optional(v.string()),
+    taskId: v.optional(v.id("tasks")),
+    kind: v.union(v.literal("chat"), v.literal("embedding"), v.literal("image")),
+    source: v.string(), // ex: "brain", "memory.embedTask", "tools.image"
+    provider: v.string(),
+    model: v.string(),
+    inputTokens: v.float64(),
+    outputTokens: v.float64(),
+    images: v.float64(),
+    costUsd: v.optional(v.float64()), // estimativa; ausente quando o modelo não tem preço conhecido
+    createdAt: v.float64(),
+  })
+    .index("by_org_createdAt", ["orgId", "createdAt"])
+    .index("by_department_createdAt", ["departmentId", "createdAt"]),
+
+  /**
+   * Contadores mensais de uso (org: departmentId vazio; depto: preenchido)
+   * usados por quotas do plano e spending limits
+   */
+  usageCounters: defineTable({
+    orgId: v.id("organizations"),
+    departmentId: v.optional(v.id("departments")),
+    period: v.string(), // "YYYY-MM" (UTC)
+    llmTokens: v.float64(),
+    toolCalls: v.float64(),
+    costUsd: v.float64(),
+    updatedAt: v.float64(),
+  })
+    .index("by_org_department_period", ["orgId", "departmentId", "period"]),
+
   /**
    * Mensagens (thread por task)
    */
@@ -213,12 +414,171 @@ export default defineSchema({
     fromSessionKey: v.string(),
     content: v.string(),
     createdAt: v.float64(),
+    // Resposta do agente ainda em streaming; vira mensagem normal em messages:create
+    isDraft: v.optional(v.boolean()),
+    // Fontes da memória de longo prazo usadas na resposta; `label` é o número citado no texto ([1], [2]...)
+    citations: v.optional(
+      v.array(
+        v.object({
+          label: v.number(),
+          kind: v.union(v.literal("knowledge"), v.literal("asset"), v.literal("task")),
+          sourceId: v.string(),
+          title: v.string(),
+          taskId: v.optional(v.string()),
+        })
+      )
+    ),
     orgId: v.optional(v.any()),
   })
     .index("by_taskId", ["taskId"])
     .index("by_createdAt", ["createdAt"])
     .index("by_departmentId", ["departmentId"])
-    .index("by_department_taskId", ["departmentId", "taskId"]),
+    .index("by_department_taskId", ["departmentId", "taskId"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["departmentId"],
+    }),
+
+  /**
+   * Re-embedding de um departamento para o modelo de embeddings atual
+   */
+  embeddingMigrations: defineTable({
+    departmentId: v.id("departments"),
+    // embeddingModel gravado nos vetores novos (ver lib/embeddings.embeddingModelId)
+    targetModel: v.string(),
+    status: v.union(v.literal("running"), v.literal("done"), v.literal("failed")),
+    phase: v.union(v.literal("knowledge"), v.literal("tasks"), v.literal("assets"), v.literal("memories")),
+    cursor: v.optional(v.string()),
+    processed: v.number(),
+    failed: v.number(),
+    lastError: v.optional(v.string()),
+    startedByUserId: v.optional(v.id("users")),
+    startedAt: v.float64(),
+    finishedAt: v.optional(v.float64()),
+  }).index("by_department_startedAt", ["departmentId", "startedAt"]),
+
+  /**
+   * Linhas com embedding por modelo (uma linha por departamento, tabela, slot e modelo)
+   */
+  embeddingCounts: defineTable({
+    departmentId: v.id("departments"),
+    table: v.union(v.literal("knowledge"), v.literal("tasks"), v.literal("assets"), v.literal("memories")),
+    // Linhas sem embeddingModel contam como o modelo padrão da OpenAI
+    model: v.string(),
+    // "b" = vetores do slot B; ausente = slot A
+    slot: v.optional(v.literal("b")),
+    count: v.number(),
+    updatedAt: v.float64(),
+  }).index("by_department_table_slot_model", ["departmentId", "table", "slot", "model"]),
+
+  /**
+   * Slot de vetor que as buscas de um departamento leem e o provedor que gerou esses vetores.
+   * Sem linha, as buscas leem o slot A com o provedor configurado.
+   */
+  embeddingIndexes: defineTable({
+    departmentId: v.id("departments"),
+    activeSlot: v.union(v.literal("a"), v.literal("b")),
+    // embeddingModel dos vetores do slot ativo
+    servingModel: v.string(),
+    // Cópia das configurações desse provedor, para embutir as consultas depois que a integração muda
+    servingSettings: embeddingSettingsValidator,
+    updatedAt: v.float64(),
+  }).index("by_departmentId", ["departmentId"]),
+
+  /**
+   * Resumo contínuo das mensagens antigas de uma thread (uma linha por task)
+   */
+  threadSummaries: defineTable({
+    departmentId: v.id("departments"),
+    taskId: v.id("tasks"),
+    summary: v.string(),
+    // createdAt da última mensagem já incluída no resumo
+    summarizedUntil: v.float64(),
+    summarizedCount: v.number(),
+    model: v.optional(v.string()),
+    createdAt: v.float64(),
+    updatedAt: v.float64(),
+  }).index("by_taskId", ["taskId"]),
+
+  /**
+   * Tarefas recorrentes: cron ou RRULE num fuso horário, criam tasks reais via tasks.create
+   */
+  taskSchedules: defineTable({
+    departmentId: v.id("departments"),
+    // Modelos com {{date}}, {{time}}, {{weekday}}, {{month}}, {{year}} (ver lib/schedules)
+    title: v.string(),
+    description: v.string(),
+    assigneeSessionKey: v.string(),
+    priority: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
+    tags: v.optional(v.array(v.string())),
+    kind: v.union(v.literal("cron"), v.literal("rrule")),
+    expression: v.string(),
+    timezone: v.string(),
+    // Início da regra: INTERVAL e valores omitidos da RRULE contam a partir daqui
+    anchorAt: v.float64(),
+    status: v.union(v.literal("active"), v.literal("paused"), v.literal("ended")),
+    // "skip": não cria nova task enquanto a anterior não estiver concluída
+    overlapPolicy: v.union(v.literal("skip"), v.literal("allow")),
+    nextRunAt: v.optional(v.float64()),
+    lastRunAt: v.optional(v.float64()),
+    lastTaskId: v.optional(v.id("tasks")),
+    runCount: v.number(),
+    createdByUserId: v.optional(v.id("users")),
+    createdAt: v.float64(),
+    updatedAt: v.optional(v.float64()),
+  })
+    .index("by_departmentId", ["departmentId"])
+    .index("by_status_nextRunAt", ["status", "nextRunAt"]),
+
+  /**
+   * Histórico de execuções de cada agendamento
+   */
+  taskScheduleRuns: defineTable({
+    scheduleId: v.id("taskSchedules"),
+    departmentId: v.id("departments"),
+    scheduledFor: v.float64(),
+    status: v.union(v.literal("created"), v.literal("skipped"), v.literal("failed")),
+    taskId: v.optional(v.id("tasks")),
+    reason: v.optional(v.string()),
+    manual: v.optional(v.boolean()),
+    createdAt: v.float64(),
+  }).index("by_schedule_createdAt", ["scheduleId", "createdAt"]),
+
+  /**
+   * Dependências entre tasks: taskId só começa quando dependsOnTaskId chega em done
+   */
+  taskDependencies: defineTable({
+    departmentId: v.id("departments"),
+    taskId: v.id("tasks"),
+    dependsOnTaskId: v.id("tasks"),
+    createdBySessionKey: v.optional(v.string()),
+    createdAt: v.float64(),
+  })
+    .index("by_taskId", ["taskId"])
+    .index("by_dependsOnTaskId", ["dependsOnTaskId"]),
+
+  /**
+   * Visões salvas do board (busca + filtros), por usuário e departamento
+   */
+  taskViews: defineTable({
+    userId: v.id("users"),
+    departmentId: v.id("departments"),
+    name: v.string(),
+    filters: taskSearchFiltersValidator,
+    createdAt: v.float64(),
+    updatedAt: v.optional(v.float64()),
+  }).index("by_user_department", ["userId", "departmentId"]),
+
+  /**
+   * Workflow do board por departamento (colunas, transições, WIP); sem linha = DEFAULT_WORKFLOW
+   */
+  workflows: defineTable({
+    departmentId: v.id("departments"),
+    columns: v.array(workflowColumnValidator),
+    transitions: v.array(workflowTransitionValidator),
+    updatedByUserId: v.optional(v.id("users")),
+    updatedAt: v.float64(),
+  }).index("by_departmentId", ["departmentId"]),
 
   /**
    * Leituras de thread (reader idempotente)
@@ -283,7 +643,7 @@ export default defineSchema({
     .index("by_department_taskId", ["departmentId", "taskId"])
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
-      dimensions: 1536,
+      dimensions: EMBEDDING_DIMENSIONS,
       filterFields: ["departmentId", "type"],
     }),
 
@@ -305,6 +665,8 @@ export default defineSchema({
     createdBySessionKey: v.optional(v.string()),
     embedding: v.optional(v.array(v.float64())),
     embeddingModel: v.optional(v.string()),
+    embeddingB: v.optional(v.array(v.float64())),
+    embeddingModelB: v.optional(v.string()),
     embeddedAt: v.optional(v.float64()),
     orgId: v.optional(v.any()),
   })
@@ -313,8 +675,17 @@ export default defineSchema({
     .index("by_department_taskId", ["departmentId", "taskId"])
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
-      dimensions: 1536,
+      dimensions: EMBEDDING_DIMENSIONS,
       filterFields: ["departmentId", "type"],
+    })
+    .vectorIndex("by_embedding_b", {
+      vectorField: "embeddingB",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["departmentId", "type"],
+    })
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["departmentId"],
     }),
 
   /**
@@ -328,6 +699,8 @@ export default defineSchema({
     departmentId: v.optional(v.id("departments")),
     embedding: v.optional(v.array(v.float64())),
     embeddingModel: v.optional(v.string()),
+    // Modelo dos trechos no slot B (embeddingModel: vetor legado e trechos no slot A)
+    embeddingModelB: v.optional(v.string()),
     metadata: v.optional(
       v.object({
         filename: v.optional(v.string()),
@@ -336,14 +709,161 @@ export default defineSchema({
     ),
     createdAt: v.float64(),
     updatedAt: v.optional(v.float64()),
+    // Versão atual (knowledgeRevisions); ausente em entradas anteriores ao versionamento
+    version: v.optional(v.number()),
+    // "org" = compartilhada com todos os departamentos da org; ausente = só do departamento.
+    // Em entradas "org", departmentId é o departamento dono (chave de embedding e uso).
+    scope: v.optional(v.union(v.literal("department"), v.literal("org"))),
+    // Só para entradas "org": restringe a leitura aos agentes ligados à coleção
+    collectionId: v.optional(v.id("knowledgeCollections")),
+    // Entrada do departamento que substitui uma entrada "org" nas buscas desse departamento
+    overridesKnowledgeId: v.optional(v.id("knowledgeBase")),
+    // Página importada por uma knowledgeSources (URL, RSS ou sitemap)
+    sourceId: v.optional(v.id("knowledgeSources")),
+    sourceUrl: v.optional(v.string()),
+    // sha256 do texto extraído; a sincronização só reindexa quando muda
+    contentHash: v.optional(v.string()),
   })
     .index("by_orgId", ["orgId"])
     .index("by_departmentId", ["departmentId"])
     .index("by_department_createdAt", ["departmentId", "createdAt"])
+    .index("by_org_scope_createdAt", ["orgId", "scope", "createdAt"])
+    .index("by_collectionId", ["collectionId"])
+    .index("by_source_url", ["sourceId", "sourceUrl"])
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
-      dimensions: 1536,
+      dimensions: EMBEDDING_DIMENSIONS,
       filterFields: ["departmentId", "orgId"],
+    })
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["departmentId", "orgId", "scope", "collectionId"],
+    }),
+
+  /**
+   * Coleções nomeadas de conhecimento da org, ligadas a agentes específicos
+   */
+  knowledgeCollections: defineTable({
+    orgId: v.id("organizations"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    createdAt: v.float64(),
+    updatedAt: v.optional(v.float64()),
+  }).index("by_orgId", ["orgId"]),
+
+  /**
+   * Fatos que os agentes guardam com a ferramenta remember (e apagam com forget)
+   */
+  agentMemories: defineTable({
+    departmentId: v.id("departments"),
+    // "agent" = só o agente autor lê; "department" = todos os agentes do departamento
+    scope: v.union(v.literal("agent"), v.literal("department")),
+    agentSessionKey: v.string(), // Agente que guardou
+    content: v.string(),
+    embedding: v.optional(v.array(v.float64())),
+    embeddingModel: v.optional(v.string()),
+    embeddingB: v.optional(v.array(v.float64())),
+    embeddingModelB: v.optional(v.string()),
+    sourceTaskId: v.optional(v.id("tasks")),
+    expiresAt: v.optional(v.float64()),
+    createdAt: v.float64(),
+    updatedAt: v.optional(v.float64()),
+  })
+    .index("by_department_createdAt", ["departmentId", "createdAt"])
+    .index("by_expiresAt", ["expiresAt"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["departmentId"],
+    })
+    .vectorIndex("by_embedding_b", {
+      vectorField: "embeddingB",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["departmentId"],
+    })
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["departmentId"],
+    }),
+
+  /**
+   * Fontes externas sincronizadas periodicamente para a knowledgeBase (cron knowledge-source-sync)
+   */
+  knowledgeSources: defineTable({
+    departmentId: v.id("departments"),
+    orgId: v.optional(v.id("organizations")),
+    kind: v.union(v.literal("url"), v.literal("rss"), v.literal("sitemap")),
+    url: v.string(),
+    title: v.optional(v.string()),
+    enabled: v.boolean(),
+    intervalHours: v.number(),
+    lastSyncAt: v.optional(v.float64()),
+    // Quando a sincronização em andamento foi disparada
+    syncStartedAt: v.optional(v.float64()),
+    lastStatus: v.optional(v.union(v.literal("running"), v.literal("ok"), v.literal("error"))),
+    lastError: v.optional(v.string()),
+    // Páginas encontradas / alteradas na última sincronização
+    lastPageCount: v.optional(v.number()),
+    lastChangedCount: v.optional(v.number()),
+    createdByUserId: v.optional(v.id("users")),
+    createdAt: v.float64(),
+    updatedAt: v.optional(v.float64()),
+  })
+    .index("by_departmentId", ["departmentId"])
+    .index("by_enabled", ["enabled"]),
+
+  /**
+   * Histórico de versões da knowledgeBase (uma linha por versão, inclusive a atual)
+   */
+  knowledgeRevisions: defineTable({
+    knowledgeId: v.id("knowledgeBase"),
+    departmentId: v.optional(v.id("departments")),
+    version: v.number(),
+    title: v.string(),
+    text: v.string(),
+    reason: v.union(v.literal("created"), v.literal("edited"), v.literal("rollback"), v.literal("synced")),
+    // Versão restaurada quando reason = "rollback"
+    restoredFromVersion: v.optional(v.number()),
+    authorUserId: v.optional(v.id("users")),
+    createdAt: v.float64(),
+  })
+    .index("by_knowledge_version", ["knowledgeId", "version"]),
+
+  /**
+   * Trechos de cada entrada da knowledgeBase, com embedding próprio.
+   * A busca semântica roda nesta tabela para alcançar qualquer página do documento.
+   */
+  knowledgeChunks: defineTable({
+    knowledgeId: v.id("knowledgeBase"),
+    orgId: v.optional(v.id("organizations")),
+    // Exatamente um dos três (lib/knowledgeScope): departamento, org inteira ou coleção
+    departmentId: v.optional(v.id("departments")),
+    sharedOrgId: v.optional(v.id("organizations")),
+    collectionId: v.optional(v.id("knowledgeCollections")),
+    chunkIndex: v.number(),
+    heading: v.optional(v.string()),
+    text: v.string(),
+    embedding: v.optional(v.array(v.float64())),
+    embeddingModel: v.optional(v.string()),
+    embeddingB: v.optional(v.array(v.float64())),
+    embeddingModelB: v.optional(v.string()),
+    createdAt: v.float64(),
+  })
+    .index("by_knowledge_chunkIndex", ["knowledgeId", "chunkIndex"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["departmentId", "orgId", "sharedOrgId", "collectionId"],
+    })
+    .vectorIndex("by_embedding_b", {
+      vectorField: "embeddingB",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["departmentId", "orgId", "sharedOrgId", "collectionId"],
+    })
+    // Termos exatos (SKUs, IDs de ticket) que a busca semântica não encontra.
+    .searchIndex("search_text", {
+      searchField: "text",
+      filterFields: ["departmentId", "sharedOrgId", "collectionId"],
     }),
 
   /**
@@ -455,7 +975,8 @@ export default defineSchema({
       v.literal("notion"),
       v.literal("twitter"),
       v.literal("upwork"),
-      v.literal("dalle")
+      v.literal("dalle"),
+      v.literal("embeddings")
     ),
     config: v.any(), // Encrypted or sensitive fields usually go here
     authType: v.optional(v.string()),
@@ -0,0 +1,199 @@
+import { internalQuery, mutation, query, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+    requireAuthenticatedUser,
+    requireDepartmentOrgAdminMembership,
+    requireOrgAdminMembership,
+    requireOrgMembership,
+} from "./lib/orgAuthorization";
+import { currentUsagePeriod, getUsageCounter } from "./lib/usageCounters";
+import { PLANS, checkLimit } from "./plans";
+
+const spendingLimitsValidator = v.object({
+    monthlyTokenCap: v.optional(v.number()),
+    monthlyCostCapUsd: v.optional(v.number()),
+    onLimit: v.union(v.literal("block"), v.literal("downgrade")),
+});
+
+type SpendingLimits = NonNullable<Doc<"organizations">["spendingLimits"]>;
+
+export type SpendingScope = "plan" | "organization" | "department";
+
+export type RunAllowance =
+    | { decision: "allow" }
+    | { decision: "downgrade"; scope: SpendingScope }
+    | { decision: "block"; scope: SpendingScope; reason: string };
+
+function validateSpendingLimits(limits: SpendingLimits): SpendingLimits {
+    const { monthlyTokenCap, monthlyCostCapUsd } = limits;
+    if (monthlyTokenCap !== undefined && (!Number.isInteger(monthlyTokenCap) || monthlyTokenCap < 1000)) {
+        throw new Error("Monthly token cap must be an integer of at least 1000.");
+    }
+    if (monthlyCostCapUsd !== undefined && (!Number.isFinite(monthlyCostCapUsd) || monthlyCostCapUsd <= 0)) {
+        throw new Error("Monthly cost cap must be a positive amount.");
+    }
+    if (monthlyTokenCap === undefined && monthlyCostCapUsd === undefined) {
+        throw new Error("Set a token cap, a cost cap, or clear the limits.");
+    }
+    return limits;
+}
+
+function isCapReached(limits: SpendingLimits | undefined, counter: Doc<"usageCounters"> | null): boolean {
+    if (!limits) return false;
+    const tokens = counter?.llmTokens ?? 0;
+    const cost = counter?.costUsd ?? 0;
+    if (limits.monthlyTokenCap !== undefined && tokens >= limits.monthlyTokenCap) return true;
+    if (limits.monthlyCostCapUsd !== undefined && cost >= limits.monthlyCostCapUsd) return true;
+    return false;
+}
+
+function usageSummary(counter: Doc<"usageCounters"> | null) {
+    return {
+        llmTokens: counter?.llmTokens ?? 0,
+        toolCalls: counter?.toolCalls ?? 0,
+        costUsd: counter?.costUsd ?? 0,
+    };
+}
+
+// Infinity does not survive the wire; unlimited quotas are returned as null.
+function finiteOrNull(value: number): number | null {
+    return Number.isFinite(value) ? value : null;
+}
+
+async function evaluateAllowance(ctx: QueryCtx, departmentId: Id<"departments">): Promise<RunAllowance> {
+    const department = await ctx.db.get("departments", departmentId);
+    if (!department?.orgId) return { decision: "allow" };
+    const orgId = department.orgId;
+
+    for (const resource of ["llm_tokens", "tool_calls"] as const) {
+        try {
+            await checkLimit(ctx, orgId, resource);
+        } catch (error: unknown) {
+            return {
+                decision: "block",
+                scope: "plan",
+                reason: error instanceof Error ? error.message : "Plan quota reached.",
+            };
+        }
+    }
+
+    const org = await ctx.db.get("organizations", orgId);
+    const scopes: Array<{ scope: SpendingScope; limits?: SpendingLimits; counter: Doc<"usageCounters"> | null }> = [
+        {
+            scope: "organization",
+            limits: org?.spendingLimits,
+            counter: await getUsageCounter(ctx, orgId, undefined),
+        },
+        {
+            scope: "department",
+            limits: department.spendingLimits,
+            counter: await getUsageCounter(ctx, orgId, departmentId),
+        },
+    ];
+
+    // A blocking cap wins over a downgrading one.
+    let downgrade: SpendingScope | null = null;
+    for (const { scope, limits, counter } of scopes) {
+        if (!limits || !isCapReached(limits, counter)) continue;
+        if (limits.onLimit === "block") {
+            return {
+                decision: "block",
+                scope,
+                reason: `Monthly ${scope} spending limit reached.`,
+            };
+        }
+        downgrade = downgrade ?? scope;
+    }
+    return downgrade ? { decision: "downgrade", scope: downgrade } : { decision: "allow" };
+}
+
+/**
+ * internal:spendingLimits:evaluateRun
+ * Called by the brain before each run: plan quotas first, then org and department caps.
+ */
+export const evaluateRun = internalQuery({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args): Promise<RunAllowance> => {
+        return await evaluateAllowance(ctx, args.departmentId);
+    },
+});
+
+/**
+ * Monthly caps for the whole organization (null clears them). Admins only.
+ */
+export const setOrganizationLimits = mutation({
+    args: {
+        orgId: v.id("organizations"),
+        limits: v.union(spendingLimitsValidator, v.null()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireOrgAdminMembership(ctx, userId, args.orgId);
+
+        await ctx.db.patch("organizations", args.orgId, {
+            spendingLimits: args.limits ? validateSpendingLimits(args.limits) : undefined,
+        });
+        return { ok: true };
+    },
+});
+
+/**
+ * Monthly caps for one department (null clears them). Admins only.
+ */
+export const setDepartmentLimits = mutation({
+    args: {
+        departmentId: v.id("departments"),
+        limits: v.union(spendingLimitsValidator, v.null()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgAdminMembership(ctx, userId, args.departmentId);
+
+        await ctx.db.patch("departments", args.departmentId, {
+            spendingLimits: args.limits ? validateSpendingLimits(args.limits) : undefined,
+        });
+        return { ok: true };
+    },
+});
+
+/**
+ * Caps and current-month usage for the org and each department.
+ */
+export const getOverview = query({
+    args: { orgId: v.id("organizations") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        const role = await requireOrgMembership(ctx, userId, args.orgId);
+
+        const org = await ctx.db.get("organizations", args.orgId);
+        if (!org) throw new Error("Organization not found.");
+        const plan = org.plan === "pro" || org.plan === "business" ? org.plan : "starter";
+
+        const departments = await ctx.db
+            .query("departments")
+            .withIndex("by_orgId", (q) => q.eq("orgId", args.orgId))
+            .collect();
+
+        return {
+            period: currentUsagePeriod(),
+            canEdit: role === "owner" || role === "admin",
+            planQuotas: {
+                llmTokens: finiteOrNull(PLANS[plan].maxMonthlyLlmTokens),
+                toolCalls: finiteOrNull(PLANS[plan].maxMonthlyToolCalls),
+            },
+            organization: {
+                limits: org.spendingLimits ?? null,
+                usage: usageSummary(await getUsageCounter(ctx, args.orgId, undefined)),
+            },
+            departments: await Promise.all(
+                departments.map(async (department) => ({
+                    _id: department._id,
+                    name: department.name,
+                    limits: department.spendingLimits ?? null,
+                    usage: usageSummary(await getUsageCounter(ctx, args.orgId, department._id)),
+                }))
+            ),
+        };
+    },
+});
@@ -2,6 +2,7 @@ import { v } from "convex/values";
 import { action, httpAction, internalMutation, query } from "./_generated/server";
 import { api, internal } from "./_generated/api";
 import { PLANS } from "./plans";
+import { getUsageCounter } from "./lib/usageCounters";
 import type { Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
 
@@ -161,6 +162,8 @@ export const billingOverview = query({
       .withIndex("by_orgId", (q) => q.eq("orgId", args.orgId))
       .collect();
 
+    const monthlyUsage = await getUsageCounter(ctx, args.orgId, undefined);
+
     return {
       orgId: args.orgId,
       plan: currentPlan,
@@ -170,6 +173,8 @@ export const billingOverview = query({
         agents: agentsTotal,
         agentsPeakPerDept,
         docs: docs.length,
+        llmTokensThisMonth: monthlyUsage?.llmTokens ?? 0,
+        toolCallsThisMonth: monthlyUsage?.toolCalls ?? 0,
       },
       limits: {
         departments: planLimits.maxDepts,
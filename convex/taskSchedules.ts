@@ -0,0 +1,414 @@
+import { internalAction, internalMutation, internalQuery, mutation, query, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { nextRunAfter, renderScheduleTemplate, upcomingRuns, validateSchedule } from "./lib/schedules";
+import {
+    requireAuthenticatedUser,
+    requireDepartmentOrgAdminMembership,
+    requireDepartmentOrgMembership,
+} from "./lib/orgAuthorization";
+
+/**
+ * Recurring tasks. The task-schedules cron calls dispatchDue every minute; each
+ * due schedule fires once (runs missed while paused or down are not replayed)
+ * and creates a real task through tasks.create, assigned to the schedule's agent.
+ */
+
+const scheduleKind = v.union(v.literal("cron"), v.literal("rrule"));
+const overlapPolicy = v.union(v.literal("skip"), v.literal("allow"));
+const taskPriority = v.union(v.literal("low"), v.literal("medium"), v.literal("high"));
+
+// Schedules fired per dispatcher tick; the rest wait for the next minute.
+const DISPATCH_BATCH_SIZE = 50;
+// Run history kept per schedule.
+const MAX_RUNS_PER_SCHEDULE = 100;
+const PREVIEW_RUNS = 3;
+const SCHEDULER_SESSION_KEY = "system:scheduler";
+
+type ScheduleRule = Pick<Doc<"taskSchedules">, "kind" | "expression" | "timezone" | "anchorAt" | "runCount">;
+
+function computeNextRun(schedule: ScheduleRule, after: number): number | null {
+    return nextRunAfter(schedule.kind, schedule.expression, schedule.timezone, {
+        anchor: schedule.anchorAt,
+        after,
+        completedRuns: schedule.runCount,
+    });
+}
+
+function validateRule(rule: Pick<ScheduleRule, "kind" | "expression" | "timezone" | "anchorAt">) {
+    validateSchedule(rule.kind, rule.expression, rule.timezone, rule.anchorAt);
+    if (computeNextRun({ ...rule, runCount: 0 }, rule.anchorAt) === null) {
+        throw new Error("This schedule never runs. Check the expression.");
+    }
+}
+
+async function requireAssignee(ctx: MutationCtx, departmentId: Id<"departments">, sessionKey: string) {
+    const agent = await ctx.db
+        .query("agents")
+        .withIndex("by_dept_sessionKey", (q) => q.eq("departmentId", departmentId).eq("sessionKey", sessionKey))
+        .first();
+    if (!agent) throw new Error("Assignee agent not found in this department.");
+    return agent;
+}
+
+async function requireScheduleAdmin(ctx: MutationCtx, id: Id<"taskSchedules">) {
+    const userId = await requireAuthenticatedUser(ctx);
+    const schedule = await ctx.db.get("taskSchedules", id);
+    if (!schedule) throw new Error("Schedule not found.");
+    await requireDepartmentOrgAdminMembership(ctx, userId, schedule.departmentId);
+    return schedule;
+}
+
+function cleanTags(tags?: string[]) {
+    return tags?.map((tag) => tag.trim()).filter(Boolean);
+}
+
+export const listByDepartment = query({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const schedules = await ctx.db
+            .query("taskSchedules")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+            .collect();
+        const agents = await ctx.db
+            .query("agents")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+            .collect();
+        const agentNames = new Map(agents.map((agent) => [agent.sessionKey, agent.name]));
+
+        const now = Date.now();
+        return schedules
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .map((schedule) => ({
+                ...schedule,
+                assigneeName: agentNames.get(schedule.assigneeSessionKey) ?? schedule.assigneeSessionKey,
+                upcoming:
+                    schedule.status === "active"
+                        ? upcomingRuns(schedule.kind, schedule.expression, schedule.timezone, {
+                            anchor: schedule.anchorAt,
+                            after: Math.max(now, (schedule.nextRunAt ?? now) - 1),
+                            limit: PREVIEW_RUNS,
+                            completedRuns: schedule.runCount,
+                        })
+                        : [],
+            }));
+    },
+});
+
+/**
+ * Run history of a schedule, newest first.
+ */
+export const listRuns = query({
+    args: {
+        scheduleId: v.id("taskSchedules"),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        const schedule = await ctx.db.get("taskSchedules", args.scheduleId);
+        if (!schedule) return [];
+        await requireDepartmentOrgMembership(ctx, userId, schedule.departmentId);
+
+        const runs = await ctx.db
+            .query("taskScheduleRuns")
+            .withIndex("by_schedule_createdAt", (q) => q.eq("scheduleId", args.scheduleId))
+            .order("desc")
+            .take(Math.max(1, Math.min(args.limit ?? 20, MAX_RUNS_PER_SCHEDULE)));
+        return await Promise.all(
+            runs.map(async (run) => {
+                const task = run.taskId ? await ctx.db.get("tasks", run.taskId) : null;
+                return { ...run, taskTitle: task?.title, taskStatus: task?.status };
+            })
+        );
+    },
+});
+
+export const create = mutation({
+    args: {
+        departmentId: v.id("departments"),
+        title: v.string(),
+        description: v.string(),
+        assigneeSessionKey: v.string(),
+        priority: v.optional(taskPriority),
+        tags: v.optional(v.array(v.string())),
+        kind: scheduleKind,
+        expression: v.string(),
+        timezone: v.string(),
+        overlapPolicy: v.optional(overlapPolicy),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgAdminMembership(ctx, userId, args.departmentId);
+        await requireAssignee(ctx, args.departmentId, args.assigneeSessionKey);
+
+        const title = args.title.trim();
+        if (!title) throw new Error("Schedule title cannot be empty.");
+        const now = Date.now();
+        const rule = { kind: args.kind, expression: args.expression.trim(), timezone: args.timezone.trim(), anchorAt: now };
+        validateRule(rule);
+
+        const id = await ctx.db.insert("taskSchedules", {
+            departmentId: args.departmentId,
+            title,
+            description: args.description.trim(),
+            assigneeSessionKey: args.assigneeSessionKey,
+            priority: args.priority,
+            tags: cleanTags(args.tags),
+            ...rule,
+            status: "active",
+            overlapPolicy: args.overlapPolicy ?? "skip",
+            nextRunAt: computeNextRun({ ...rule, runCount: 0 }, now) ?? undefined,
+            runCount: 0,
+            createdByUserId: userId,
+            createdAt: now,
+        });
+        return { id };
+    },
+});
+
+/**
+ * Edits a schedule. Changing the rule restarts it from now, so INTERVAL and
+ * COUNT count from the edit.
+ */
+export const update = mutation({
+    args: {
+        id: v.id("taskSchedules"),
+        title: v.optional(v.string()),
+        description: v.optional(v.string()),
+        assigneeSessionKey: v.optional(v.string()),
+        priority: v.optional(taskPriority),
+        tags: v.optional(v.array(v.string())),
+        kind: v.optional(scheduleKind),
+        expression: v.optional(v.string()),
+        timezone: v.optional(v.string()),
+        overlapPolicy: v.optional(overlapPolicy),
+    },
+    handler: async (ctx, args) => {
+        const schedule = await requireScheduleAdmin(ctx, args.id);
+        if (args.assigneeSessionKey !== undefined) {
+            await requireAssignee(ctx, schedule.departmentId, args.assigneeSessionKey);
+        }
+        const title = args.title?.trim();
+        if (args.title !== undefined && !title) throw new Error("Schedule title cannot be empty.");
+
+        const now = Date.now();
+        const rule = {
+            kind: args.kind ?? schedule.kind,
+            expression: args.expression?.trim() ?? schedule.expression,
+            timezone: args.timezone?.trim() ?? schedule.timezone,
+        };
+        const ruleChanged =
+            rule.kind !== schedule.kind || rule.expression !== schedule.expression || rule.timezone !== schedule.timezone;
+        const ruleFields = ruleChanged ? { ...rule, anchorAt: now, runCount: 0 } : {};
+        if (ruleChanged) validateRule({ ...rule, anchorAt: now });
+
+        const next = { ...schedule, ...ruleFields };
+        await ctx.db.patch("taskSchedules", args.id, {
+            title: title ?? schedule.title,
+            description: args.description?.trim() ?? schedule.description,
+            assigneeSessionKey: args.assigneeSessionKey ?? schedule.assigneeSessionKey,
+            priority: args.priority ?? schedule.priority,
+            tags: args.tags ? cleanTags(args.tags) : schedule.tags,
+            overlapPolicy: args.overlapPolicy ?? schedule.overlapPolicy,
+            ...ruleFields,
+            ...(ruleChanged && schedule.status !== "paused"
+                ? { status: "active" as const, nextRunAt: computeNextRun(next, now) ?? undefined }
+                : {}),
+            updatedAt: now,
+        });
+        return { ok: true };
+    },
+});
+
+/**
+ * Pauses or resumes a schedule. Runs missed while paused are not replayed.
+ */
+export const setPaused = mutation({
+    args: {
+        id: v.id("taskSchedules"),
+        paused: v.boolean(),
+    },
+    handler: async (ctx, args) => {
+        const schedule = await requireScheduleAdmin(ctx, args.id);
+        const now = Date.now();
+        if (args.paused) {
+            await ctx.db.patch("taskSchedules", args.id, { status: "paused", nextRunAt: undefined, updatedAt: now });
+            return { ok: true, nextRunAt: null };
+        }
+        const nextRunAt = computeNextRun(schedule, now);
+        await ctx.db.patch("taskSchedules", args.id, {
+            status: nextRunAt === null ? "ended" : "active",
+            nextRunAt: nextRunAt ?? undefined,
+            updatedAt: now,
+        });
+        return { ok: true, nextRunAt };
+    },
+});
+
+/**
+ * Creates the schedule's task right away, ignoring the overlap policy. The
+ * regular timetable is unchanged.
+ */
+export const runNow = mutation({
+    args: { id: v.id("taskSchedules") },
+    handler: async (ctx, args) => {
+        await requireScheduleAdmin(ctx, args.id);
+        await ctx.scheduler.runAfter(0, internal.taskSchedules.fire, {
+            scheduleId: args.id,
+            scheduledFor: Date.now(),
+            manual: true,
+        });
+        return { scheduled: true };
+    },
+});
+
+export const remove = mutation({
+    args: { id: v.id("taskSchedules") },
+    handler: async (ctx, args) => {
+        await requireScheduleAdmin(ctx, args.id);
+        const runs = await ctx.db
+            .query("taskScheduleRuns")
+            .withIndex("by_schedule_createdAt", (q) => q.eq("scheduleId", args.id))
+            .collect();
+        for (const run of runs) {
+            await ctx.db.delete("taskScheduleRuns", run._id);
+        }
+        await ctx.db.delete("taskSchedules", args.id);
+        return { ok: true };
+    },
+});
+
+/**
+ * internal:taskSchedules:dispatchDue
+ * Cron entry point: fires every active schedule whose next run has come and
+ * moves it to its following run.
+ */
+export const dispatchDue = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const now = Date.now();
+        const due = await ctx.db
+            .query("taskSchedules")
+            .withIndex("by_status_nextRunAt", (q) => q.eq("status", "active").gt("nextRunAt", 0).lte("nextRunAt", now))
+            .take(DISPATCH_BATCH_SIZE);
+
+        for (const schedule of due) {
+            const scheduledFor = schedule.nextRunAt!;
+            const runCount = schedule.runCount + 1;
+            // From `now`, not from `scheduledFor`: a late tick fires once instead of catching up.
+            const nextRunAt = computeNextRun({ ...schedule, runCount }, Math.max(now, scheduledFor));
+            await ctx.db.patch("taskSchedules", schedule._id, {
+                runCount,
+                lastRunAt: scheduledFor,
+                nextRunAt: nextRunAt ?? undefined,
+                status: nextRunAt === null ? "ended" : "active",
+            });
+            await ctx.scheduler.runAfter(0, internal.taskSchedules.fire, {
+                scheduleId: schedule._id,
+                scheduledFor,
+            });
+        }
+        return { dispatched: due.length };
+    },
+});
+
+/**
+ * internal:taskSchedules:getForRun
+ * The schedule and, for the overlap check, whether its previous task is still open.
+ */
+export const getForRun = internalQuery({
+    args: { scheduleId: v.id("taskSchedules") },
+    handler: async (ctx, args) => {
+        const schedule = await ctx.db.get("taskSchedules", args.scheduleId);
+        if (!schedule) return null;
+        const lastTask = schedule.lastTaskId ? await ctx.db.get("tasks", schedule.lastTaskId) : null;
+        const lastTaskOpen = !!lastTask && String(lastTask.status).toLowerCase() !== "done";
+        return { schedule, lastTaskOpen, lastTaskTitle: lastTask?.title };
+    },
+});
+
+/**
+ * internal:taskSchedules:recordRun
+ * Appends to the run history (trimmed to MAX_RUNS_PER_SCHEDULE).
+ */
+export const recordRun = internalMutation({
+    args: {
+        scheduleId: v.id("taskSchedules"),
+        departmentId: v.id("departments"),
+        scheduledFor: v.number(),
+        status: v.union(v.literal("created"), v.literal("skipped"), v.literal("failed")),
+        taskId: v.optional(v.id("tasks")),
+        reason: v.optional(v.string()),
+        manual: v.optional(v.boolean()),
+    },
+    handler: async (ctx, args) => {
+        await ctx.db.insert("taskScheduleRuns", { ...args, createdAt: Date.now() });
+        if (args.taskId) {
+            const schedule = await ctx.db.get("taskSchedules", args.scheduleId);
+            if (schedule) await ctx.db.patch("taskSchedules", args.scheduleId, { lastTaskId: args.taskId });
+        }
+
+        const runs = await ctx.db
+            .query("taskScheduleRuns")
+            .withIndex("by_schedule_createdAt", (q) => q.eq("scheduleId", args.scheduleId))
+            .order("desc")
+            .collect();
+        for (const run of runs.slice(MAX_RUNS_PER_SCHEDULE)) {
+            await ctx.db.delete("taskScheduleRuns", run._id);
+        }
+        return { ok: true };
+    },
+});
+
+/**
+ * internal:taskSchedules:fire
+ * Creates the task for one run, unless the overlap policy skips it.
+ */
+export const fire = internalAction({
+    args: {
+        scheduleId: v.id("taskSchedules"),
+        scheduledFor: v.number(),
+        manual: v.optional(v.boolean()),
+    },
+    handler: async (ctx, args): Promise<{ taskId: Id<"tasks"> | null }> => {
+        const loaded = await ctx.runQuery(internal.taskSchedules.getForRun, { scheduleId: args.scheduleId });
+        if (!loaded) return { taskId: null };
+        const { schedule } = loaded;
+        const record = (fields: { status: "created" | "skipped" | "failed"; taskId?: Id<"tasks">; reason?: string }) =>
+            ctx.runMutation(internal.taskSchedules.recordRun, {
+                scheduleId: schedule._id,
+                departmentId: schedule.departmentId,
+                scheduledFor: args.scheduledFor,
+                manual: args.manual,
+                ...fields,
+            });
+
+        if (!args.manual && schedule.overlapPolicy === "skip" && loaded.lastTaskOpen) {
+            await record({ status: "skipped", reason: `Previous task still open: ${loaded.lastTaskTitle ?? "untitled"}` });
+            return { taskId: null };
+        }
+
+        try {
+            const { taskId }: { taskId: Id<"tasks"> } = await ctx.runMutation(api.tasks.create, {
+                departmentId: schedule.departmentId,
+                title: renderScheduleTemplate(schedule.title, args.scheduledFor, schedule.timezone),
+                description: renderScheduleTemplate(schedule.description, args.scheduledFor, schedule.timezone),
+                createdBySessionKey: SCHEDULER_SESSION_KEY,
+                createdByName: "Scheduler",
+                ownerUserId: schedule.createdByUserId,
+                assigneeSessionKeys: [schedule.assigneeSessionKey],
+                priority: schedule.priority,
+                tags: schedule.tags,
+            });
+            await record({ status: "created", taskId });
+            return { taskId };
+        } catch (error: any) {
+            await record({ status: "failed", reason: String(error?.message || error).slice(0, 500) });
+            return { taskId: null };
+        }
+    },
+});
@@ -0,0 +1,75 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireAuthenticatedUser, requireDepartmentOrgMembership } from "./lib/orgAuthorization";
+import { taskSearchFiltersValidator } from "./lib/taskSearch";
+
+/**
+ * Saved board views: a named search + filters, private to the user who saved it.
+ */
+
+const MAX_VIEWS_PER_DEPARTMENT = 30;
+
+export const list = query({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const views = await ctx.db
+            .query("taskViews")
+            .withIndex("by_user_department", (q) => q.eq("userId", userId).eq("departmentId", args.departmentId))
+            .collect();
+        return views.sort((a, b) => a.name.localeCompare(b.name));
+    },
+});
+
+/**
+ * Saves the view; an existing view with the same name is overwritten.
+ */
+export const save = mutation({
+    args: {
+        departmentId: v.id("departments"),
+        name: v.string(),
+        filters: taskSearchFiltersValidator,
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const name = args.name.trim();
+        if (!name) throw new Error("View name is required.");
+        if (name.length > 60) throw new Error("View name must be at most 60 characters.");
+
+        const views = await ctx.db
+            .query("taskViews")
+            .withIndex("by_user_department", (q) => q.eq("userId", userId).eq("departmentId", args.departmentId))
+            .collect();
+        const now = Date.now();
+        const existing = views.find((view) => view.name.toLowerCase() === name.toLowerCase());
+        if (existing) {
+            await ctx.db.patch("taskViews", existing._id, { name, filters: args.filters, updatedAt: now });
+            return existing._id;
+        }
+        if (views.length >= MAX_VIEWS_PER_DEPARTMENT) {
+            throw new Error(`You can save up to ${MAX_VIEWS_PER_DEPARTMENT} views per department.`);
+        }
+        return await ctx.db.insert("taskViews", {
+            userId,
+            departmentId: args.departmentId,
+            name,
+            filters: args.filters,
+            createdAt: now,
+        });
+    },
+});
+
+export const remove = mutation({
+    args: { id: v.id("taskViews") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        const view = await ctx.db.get("taskViews", args.id);
+        if (!view || view.userId !== userId) throw new Error("View not found.");
+        await ctx.db.delete("taskViews", args.id);
+        return { ok: true };
+    },
+});
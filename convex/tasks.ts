@@ -1,9 +1,28 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, type MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { paginationOptsValidator, type PaginationOptions, type PaginationResult } from "convex/server";
 import { internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { findOrchestrator, isSquadLeadSession } from "./lib/agentKinds";
+import { bumpEmbeddingCount, dropEmbeddingCounts } from "./lib/embeddingCounts";
+import { requireAuthenticatedUser, requireDepartmentOrgMembership } from "./lib/orgAuthorization";
+import { STEP_BUDGET_LIMITS, stepBudgetValidator, validateStepBudgetField } from "./lib/stepBudget";
+import { matchesTaskFilters, taskSearchFiltersValidator, taskSource } from "./lib/taskSearch";
+import {
+    columnForTask,
+    findTransitionRule,
+    isPrimaryColumn,
+    isTransitionAllowed,
+    normalizeTaskStatus,
+    primaryColumnFor,
+    taskStatusValidator as taskStatus,
+    type TaskStatus,
+    type TransitionActor,
+    type Workflow,
+    type WorkflowColumn,
+} from "./lib/workflows";
+import { loadWorkflow } from "./workflows";
 
 function parseTelegramUserNameFromTaskDescription(description?: string): string | null {
     if (!description) return null;
@@ -30,25 +49,6 @@ async function resolveActorMeta(ctx: any, departmentId: any, sessionKey?: string
     }
     return { actorName: sessionKey, actorType: "system" as const };
 }
-/**
- * Status schema (reuso)
- */
-const taskStatus = v.union(
-    v.literal("inbox"),
-    v.literal("assigned"),
-    v.literal("in_progress"),
-    v.literal("review"),
-    v.literal("done"),
-    v.literal("blocked")
-);
-
-const VALID_STATUSES = ["inbox", "assigned", "in_progress", "review", "done", "blocked"] as const;
-type TaskStatus = (typeof VALID_STATUSES)[number];
-
-function normalizeTaskStatus(input: string): TaskStatus {
-    const normalized = input.toLowerCase() as TaskStatus;
-    return (VALID_STATUSES as readonly string[]).includes(normalized) ? normalized : "inbox";
-}
 
 async function getOrganizationLanguageByDepartment(
     ctx: any,
@@ -116,6 +116,33 @@ async function resolveTaskOwnerName(
     return null;
 }
 
+/**
+ * Adds the display name of each task's human owner (falls back to creator/Telegram user).
+ */
+async function withOwnerNames(ctx: any, tasks: Doc<"tasks">[]) {
+    const ownerUserIds = Array.from(
+        new Set(
+            tasks
+                .map((task) => task.ownerUserId)
+                .filter((ownerId): ownerId is Id<"users"> => ownerId !== undefined)
+        )
+    );
+    const ownerNames = new Map<Id<"users">, string>();
+    for (const ownerUserId of ownerUserIds) {
+        const ownerName = await resolveTaskOwnerName(ctx, ownerUserId);
+        if (ownerName) ownerNames.set(ownerUserId, ownerName);
+    }
+
+    return tasks.map((task) => ({
+        ...task,
+        ownerName:
+            (task.ownerUserId ? ownerNames.get(task.ownerUserId) : undefined) ??
+            task.createdByName ??
+            parseTelegramUserNameFromTaskDescription(task.description) ??
+            undefined,
+    }));
+}
+
 async function isOrgAdminOrOwner(
     ctx: any,
     userId: Id<"users">,
@@ -129,9 +156,172 @@ async function isOrgAdminOrOwner(
     return membership.role === "owner" || membership.role === "admin";
 }
 
+/**
+ * A signed-in member moving a task, for the workflow transition rules: they act with their org role.
+ */
+async function resolveUserTransitionActor(
+    ctx: any,
+    task: Doc<"tasks">,
+    userId: Id<"users"> | null
+): Promise<TransitionActor> {
+    if (!userId) throw new Error("Unauthorized");
+    const department = await ctx.db.get("departments", task.departmentId);
+    const membership = department?.orgId
+        ? await ctx.db
+            .query("orgMemberships")
+            .withIndex("by_userId_orgId", (q: any) => q.eq("userId", userId).eq("orgId", department.orgId))
+            .unique()
+        : null;
+    if (!membership) throw new Error("Unauthorized");
+    return { type: "user", role: membership.role, isTaskOwner: task.ownerUserId === userId };
+}
+
+/**
+ * Agents and automation moving a task from server code. Only internal mutations use this,
+ * so the session key is trusted: agents are recognised by it, anything else is system.
+ */
+async function resolveInternalTransitionActor(
+    ctx: any,
+    task: Doc<"tasks">,
+    sessionKey: string
+): Promise<TransitionActor> {
+    if (!sessionKey.startsWith("agent:")) return { type: "system" };
+    const agents = await ctx.db
+        .query("agents")
+        .withIndex("by_departmentId", (q: any) => q.eq("departmentId", task.departmentId))
+        .collect();
+    return { type: "agent", sessionKey, isOrchestrator: isSquadLeadSession(agents, sessionKey) };
+}
+
+/**
+ * Prerequisites of a task that have not reached "done" yet.
+ * A deleted prerequisite no longer holds anything back.
+ */
+async function findUnmetDependencies(ctx: any, taskId: Id<"tasks">): Promise<Doc<"tasks">[]> {
+    const edges = await ctx.db
+        .query("taskDependencies")
+        .withIndex("by_taskId", (q: any) => q.eq("taskId", taskId))
+        .collect();
+    const unmet: Doc<"tasks">[] = [];
+    for (const edge of edges) {
+        const prerequisite = await ctx.db.get("tasks", edge.dependsOnTaskId);
+        if (prerequisite && normalizeTaskStatus(String(prerequisite.status)) !== "done") {
+            unmet.push(prerequisite);
+        }
+    }
+    return unmet;
+}
+
+/**
+ * True when taskId is already reachable from dependsOnTaskId, so the new edge would close a loop.
+ */
+async function wouldCreateDependencyCycle(
+    ctx: any,
+    taskId: Id<"tasks">,
+    dependsOnTaskId: Id<"tasks">
+): Promise<boolean> {
+    const seen = new Set<string>();
+    const stack: Id<"tasks">[] = [dependsOnTaskId];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === taskId) return true;
+        if (seen.has(String(current))) continue;
+        seen.add(String(current));
+        const edges = await ctx.db
+            .query("taskDependencies")
+            .withIndex("by_taskId", (q: any) => q.eq("taskId", current))
+            .collect();
+        for (const edge of edges) stack.push(edge.dependsOnTaskId);
+    }
+    return false;
+}
+
+async function requireDependencyTasks(
+    ctx: any,
+    departmentId: Id<"departments">,
+    dependsOnTaskIds: Id<"tasks">[]
+): Promise<Doc<"tasks">[]> {
+    const prerequisites: Doc<"tasks">[] = [];
+    for (const dependsOnTaskId of new Set(dependsOnTaskIds)) {
+        const prerequisite = await ctx.db.get("tasks", dependsOnTaskId);
+        if (!prerequisite || prerequisite.departmentId !== departmentId) {
+            throw new Error("Dependency task not found in this department");
+        }
+        prerequisites.push(prerequisite);
+    }
+    return prerequisites;
+}
+
+/**
+ * Returns a dependency-blocked task to assigned/inbox once nothing holds it back,
+ * and wakes its assignees. No-op while any prerequisite is still open.
+ */
+async function releaseIfDependenciesMet(
+    ctx: any,
+    dependent: Doc<"tasks">,
+    bySessionKey: string,
+    message: string
+): Promise<boolean> {
+    if (!dependent.waitingOnDependencies || dependent.status !== "blocked") return false;
+    if ((await findUnmetDependencies(ctx, dependent._id)).length > 0) return false;
+
+    const assigneeSessionKeys = dependent.assigneeSessionKeys ?? [];
+    const nextStatus = assigneeSessionKeys.length > 0 ? "assigned" : "inbox";
+    await ctx.db.patch("tasks", dependent._id, {
+        status: nextStatus,
+        workflowColumn: undefined,
+        waitingOnDependencies: undefined,
+    });
+    await ctx.db.insert("activities", {
+        departmentId: dependent.departmentId,
+        type: "task_dependencies_met",
+        message: `${message} -> ${nextStatus}`,
+        sessionKey: bySessionKey,
+        actorName: "System",
+        actorType: "system",
+        taskId: dependent._id,
+        createdAt: Date.now(),
+    });
+
+    if (!dependent.departmentId) return true;
+    const language = await getOrganizationLanguageByDepartment(ctx, dependent.departmentId);
+    for (const agentSessionKey of assigneeSessionKeys) {
+        await ctx.scheduler.runAfter(0, internal.brain.thinkInternal, {
+            departmentId: dependent.departmentId,
+            taskId: dependent._id,
+            agentSessionKey,
+            triggerKey: `dependencies_met:${String(dependent._id)}:${agentSessionKey}`,
+            language,
+        });
+    }
+    return true;
+}
+
+/**
+ * Called when `task` reaches done (or is deleted): releases every dependent that was only waiting on it.
+ */
+async function releaseDependents(ctx: any, task: Doc<"tasks">, bySessionKey: string) {
+    const edges = await ctx.db
+        .query("taskDependencies")
+        .withIndex("by_dependsOnTaskId", (q: any) => q.eq("dependsOnTaskId", task._id))
+        .collect();
+    for (const edge of edges) {
+        const dependent = await ctx.db.get("tasks", edge.taskId);
+        if (!dependent) continue;
+        await releaseIfDependenciesMet(
+            ctx,
+            dependent,
+            bySessionKey,
+            `Dependencies of "${dependent.title}" are done ("${task.title}" was the last)`
+        );
+    }
+}
+
 /**
  * Create a task in PlugandSay.
  * Status starts as "assigned" if there are assignees, otherwise "inbox".
+ * With unmet dependsOnTaskIds it starts "blocked" and nobody wakes until they are done;
+ * `waitingOnDependencies` in the result tells the caller which one happened.
  */
 export const create = mutation({
     args: {
@@ -145,10 +335,15 @@ export const create = mutation({
         assigneeSessionKeys: v.array(v.string()), // Keeping this as it's used in the handler and not explicitly removed in the diff for the handler
         priority: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
         tags: v.optional(v.array(v.string())),
+        dependsOnTaskIds: v.optional(v.array(v.id("tasks"))),
     },
     handler: async (ctx, args) => {
         const now = Date.now();
         const authenticatedUserId = await getAuthUserId(ctx);
+        const prerequisites = await requireDependencyTasks(ctx, args.departmentId, args.dependsOnTaskIds ?? []);
+        const waitingOnDependencies = prerequisites.some(
+            (prerequisite) => normalizeTaskStatus(String(prerequisite.status)) !== "done"
+        );
 
         let ownerUserId: Id<"users"> | null = null;
         if (args.ownerUserId) {
@@ -166,9 +361,9 @@ export const create = mutation({
         }
 
         // Para multitenancy, garantimos que a task pertence a uma org (department)
-        const initialStatus = normalizeTaskStatus(
-            args.assigneeSessionKeys.length > 0 ? "assigned" : "inbox"
-        );
+        const initialStatus = waitingOnDependencies
+            ? "blocked"
+            : normalizeTaskStatus(args.assigneeSessionKeys.length > 0 ? "assigned" : "inbox");
         const taskId = await ctx.db.insert("tasks", {
             departmentId: args.departmentId,
             parentTaskId: args.parentTaskId,
@@ -182,14 +377,30 @@ export const create = mutation({
             priority: args.priority ?? "medium",
             tags: args.tags ?? [],
             createdAt: now,
+            waitingOnDependencies: waitingOnDependencies || undefined,
         });
+        await bumpEmbeddingCount(ctx, args.departmentId, "tasks", undefined, 1);
+
+        for (const prerequisite of prerequisites) {
+            await ctx.db.insert("taskDependencies", {
+                departmentId: args.departmentId,
+                taskId,
+                dependsOnTaskId: prerequisite._id,
+                createdBySessionKey: args.createdBySessionKey,
+                createdAt: now,
+            });
+        }
 
         const creatorSessionKey = args.createdBySessionKey ?? "agent:main:main";
         const actor =
             args.createdByName?.trim()
                 ? {
                     actorName: args.createdByName.trim(),
-                    actorType: creatorSessionKey.startsWith("agent:") ? ("agent" as const) : ("user" as const),
+                    actorType: creatorSessionKey.startsWith("agent:")
+                        ? ("agent" as const)
+                        : creatorSessionKey.startsWith("system:")
+                            ? ("system" as const)
+                            : ("user" as const),
                 }
                 : await resolveActorMeta(ctx, args.departmentId, creatorSessionKey);
 
@@ -205,26 +416,41 @@ export const create = mutation({
             createdAt: now,
         });
 
-        // Trigger Brain (Async)
-        await ctx.scheduler.runAfter(0, internal.brain.onNewTask, {
-            departmentId: args.departmentId,
-            taskId,
-            description: args.description,
-            assigneeSessionKeys: args.assigneeSessionKeys,
-        });
+        // Trigger Brain (Async); blocked tasks wake from releaseDependents instead
+        if (!waitingOnDependencies) {
+            await ctx.scheduler.runAfter(0, internal.brain.onNewTask, {
+                departmentId: args.departmentId,
+                taskId,
+                description: args.description,
+                assigneeSessionKeys: args.assigneeSessionKeys,
+            });
+        }
 
         // Long-term memory: embed every new task
         await ctx.scheduler.runAfter(0, internal.memory.embedTask, {
             taskId,
         });
 
-        return taskId;
+        return { taskId, waitingOnDependencies };
     },
 });
 
+/**
+ * Board column query: tasks still on the board (not cleared) with this status, newest first.
+ * Statuses are stored lowercase (see migrations:normalizeTaskStatuses).
+ */
+function boardColumnQuery(ctx: any, departmentId: Id<"departments">, status: TaskStatus) {
+    return ctx.db
+        .query("tasks")
+        .withIndex("by_dept_status_cleared_createdAt", (q: any) =>
+            q.eq("departmentId", departmentId).eq("status", status).eq("doneClearedAt", undefined)
+        )
+        .order("desc");
+}
+
 /**
  * List tasks by status, newest first.
- * (Usa índice by_org_status do schema)
+ * The in_progress column also shows blocked tasks.
  */
 export const listByStatus = query({
     args: {
@@ -235,49 +461,185 @@ export const listByStatus = query({
     handler: async (ctx, args) => {
         const limit = args.limit ?? 50;
         const requestedStatus = normalizeTaskStatus(args.status);
+        const statuses: TaskStatus[] = requestedStatus === "in_progress" ? ["in_progress", "blocked"] : [requestedStatus];
 
-        const tasks = await ctx.db
-            .query("tasks")
-            .withIndex("by_departmentId", (q) =>
-                q.eq("departmentId", args.departmentId)
-            )
-            .collect();
-        // Defensive filter handles legacy uppercase/mixed-case rows.
-        const filtered = tasks
-            .filter((t) => {
-                const normalizedStatus = normalizeTaskStatus(String(t.status));
-                if (requestedStatus === "in_progress") {
-                    return normalizedStatus === "in_progress" || normalizedStatus === "blocked";
-                }
-                if (requestedStatus === "done") {
-                    return normalizedStatus === "done" && !t.doneClearedAt;
-                }
-                return normalizedStatus === requestedStatus;
-            })
+        const columns: Doc<"tasks">[][] = await Promise.all(
+            statuses.map((status) => boardColumnQuery(ctx, args.departmentId, status).take(limit))
+        );
+        const tasks = columns
+            .flat()
             .sort((a, b) => (b.createdAt ?? b._creationTime) - (a.createdAt ?? a._creationTime))
             .slice(0, limit);
 
-        const ownerUserIds = Array.from(
-            new Set(
-                filtered
-                    .map((task) => task.ownerUserId)
-                    .filter((ownerId): ownerId is Id<"users"> => ownerId !== undefined)
-            )
+        return await withOwnerNames(ctx, tasks);
+    },
+});
+
+/**
+ * Tasks shown in one workflow column, newest first. The primary column of a status
+ * holds every task of that status not parked in one of its other columns.
+ */
+function workflowColumnQuery(
+    ctx: any,
+    departmentId: Id<"departments">,
+    workflow: Workflow,
+    column: WorkflowColumn
+) {
+    if (isPrimaryColumn(workflow, column)) {
+        const otherKeys = workflow.columns
+            .filter((candidate) => candidate.status === column.status && candidate.key !== column.key)
+            .map((candidate) => candidate.key);
+        const query = boardColumnQuery(ctx, departmentId, column.status);
+        if (otherKeys.length === 0) return query;
+        return query.filter((q: any) => q.and(...otherKeys.map((key) => q.neq(q.field("workflowColumn"), key))));
+    }
+    return ctx.db
+        .query("tasks")
+        .withIndex("by_dept_column_cleared_createdAt", (q: any) =>
+            q.eq("departmentId", departmentId).eq("workflowColumn", column.key).eq("doneClearedAt", undefined)
+        )
+        .order("desc")
+        .filter((q: any) => q.eq(q.field("status"), column.status));
+}
+
+/**
+ * Paginated board column (infinite scroll), by workflow column key.
+ */
+export const listByColumnPaginated = query({
+    args: {
+        departmentId: v.id("departments"),
+        column: v.string(),
+        paginationOpts: paginationOptsValidator,
+    },
+    handler: async (ctx, args) => {
+        const workflow = await loadWorkflow(ctx, args.departmentId);
+        const column = workflow.columns.find((candidate) => candidate.key === args.column);
+        if (!column) {
+            return { page: [], isDone: true, continueCursor: "" };
+        }
+        const result: PaginationResult<Doc<"tasks">> = await workflowColumnQuery(
+            ctx,
+            args.departmentId,
+            workflow,
+            column
+        ).paginate(args.paginationOpts);
+        return { ...result, page: await withOwnerNames(ctx, result.page) };
+    },
+});
+
+/**
+ * Tasks in a WIP-limited column, read up to one past the limit: enough for the board
+ * to flag an overflow its loaded page cannot see. Null for columns without a limit.
+ */
+export const columnOccupancy = query({
+    args: {
+        departmentId: v.id("departments"),
+        column: v.string(),
+    },
+    handler: async (ctx, args): Promise<number | null> => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const workflow = await loadWorkflow(ctx, args.departmentId);
+        const column = workflow.columns.find((candidate) => candidate.key === args.column);
+        if (!column?.wipLimit) return null;
+        const occupied: Doc<"tasks">[] = await workflowColumnQuery(ctx, args.departmentId, workflow, column).take(
+            column.wipLimit + 1
         );
-        const ownerNames = new Map<Id<"users">, string>();
-        for (const ownerUserId of ownerUserIds) {
-            const ownerName = await resolveTaskOwnerName(ctx, ownerUserId);
-            if (ownerName) ownerNames.set(ownerUserId, ownerName);
-        }
-
-        return filtered.map((task) => ({
-            ...task,
-            ownerName:
-                (task.ownerUserId ? ownerNames.get(task.ownerUserId) : undefined) ??
-                task.createdByName ??
-                parseTelegramUserNameFromTaskDescription(task.description) ??
-                undefined,
-        }));
+        return occupied.length;
+    },
+});
+
+const SEARCH_TEXT_LIMIT = 100;
+const SEARCH_SCAN_LIMIT = 2000;
+
+/**
+ * Board search: full text over title, description and thread messages, plus structured filters.
+ * Text matches keep relevance order (title, then description, then messages); filter-only
+ * searches walk the department newest first and stop after SEARCH_SCAN_LIMIT tasks.
+ */
+export const search = query({
+    args: {
+        departmentId: v.id("departments"),
+        filters: taskSearchFiltersValidator,
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const limit = Math.max(1, Math.min(args.limit ?? 200, 500));
+        const text = (args.filters.query ?? "").trim();
+        const matches: Array<Doc<"tasks">> = [];
+        const matchInfo = new Map<string, { matchedIn: Array<"title" | "description" | "message">; messageSnippet?: string }>();
+        let truncated = false;
+
+        const record = (task: Doc<"tasks">, field: "title" | "description" | "message", messageSnippet?: string) => {
+            const existing = matchInfo.get(String(task._id));
+            if (existing) {
+                if (!existing.matchedIn.includes(field)) existing.matchedIn.push(field);
+                existing.messageSnippet ??= messageSnippet;
+                return;
+            }
+            if (!matchesTaskFilters(task, args.filters)) return;
+            matches.push(task);
+            matchInfo.set(String(task._id), { matchedIn: [field], messageSnippet });
+        };
+
+        if (text) {
+            const [byTitle, byDescription, byMessage] = await Promise.all([
+                ctx.db
+                    .query("tasks")
+                    .withSearchIndex("search_title", (q) => q.search("title", text).eq("departmentId", args.departmentId))
+                    .take(SEARCH_TEXT_LIMIT),
+                ctx.db
+                    .query("tasks")
+                    .withSearchIndex("search_description", (q) =>
+                        q.search("description", text).eq("departmentId", args.departmentId)
+                    )
+                    .take(SEARCH_TEXT_LIMIT),
+                ctx.db
+                    .query("messages")
+                    .withSearchIndex("search_content", (q) =>
+                        q.search("content", text).eq("departmentId", args.departmentId)
+                    )
+                    .take(SEARCH_TEXT_LIMIT),
+            ]);
+            for (const task of byTitle) record(task, "title");
+            for (const task of byDescription) record(task, "description");
+            for (const message of byMessage) {
+                if (message.isDraft) continue;
+                const task = await ctx.db.get("tasks", message.taskId);
+                if (!task || task.departmentId !== args.departmentId) continue;
+                record(task, "message", message.content.slice(0, 160));
+            }
+            truncated = [byTitle, byDescription, byMessage].some((rows) => rows.length === SEARCH_TEXT_LIMIT);
+        } else {
+            let scanned = 0;
+            for await (const task of ctx.db
+                .query("tasks")
+                .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+                .order("desc")) {
+                scanned += 1;
+                if (matchesTaskFilters(task, args.filters)) matches.push(task);
+                if (matches.length > limit || scanned >= SEARCH_SCAN_LIMIT) {
+                    truncated = true;
+                    break;
+                }
+            }
+        }
+
+        const page = matches.slice(0, limit);
+        const withOwners = await withOwnerNames(ctx, page);
+        return {
+            tasks: withOwners.map((task) => ({
+                ...task,
+                source: taskSource(task),
+                matchedIn: matchInfo.get(String(task._id))?.matchedIn ?? [],
+                messageSnippet: matchInfo.get(String(task._id))?.messageSnippet,
+            })),
+            truncated: truncated || matches.length > limit,
+        };
     },
 });
 
@@ -335,6 +697,34 @@ export const debugLatest = query({
     },
 });
 
+/**
+ * Title search used to pick a prerequisite in the inspector.
+ */
+export const searchByTitle = query({
+    args: {
+        departmentId: v.id("departments"),
+        query: v.string(),
+        excludeTaskId: v.optional(v.id("tasks")),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const text = args.query.trim();
+        if (!text) return [];
+        const limit = Math.max(1, Math.min(args.limit ?? 8, 20));
+        const matches = await ctx.db
+            .query("tasks")
+            .withSearchIndex("search_title", (q) => q.search("title", text).eq("departmentId", args.departmentId))
+            .take(limit + 1);
+        return matches
+            .filter((task) => task._id !== args.excludeTaskId)
+            .slice(0, limit)
+            .map((task) => ({ _id: task._id, title: task.title, status: task.status }));
+    },
+});
+
 /**
  * Get a single task by id.
  */
@@ -353,7 +743,7 @@ export const get = query({
 });
 
 /**
- * Inspector data for one task: delegated subtasks + recent related activities.
+ * Inspector data for one task: delegated subtasks, dependency edges + recent related activities.
  */
 export const getInspectorPanel = query({
     args: {
@@ -373,6 +763,25 @@ export const getInspectorPanel = query({
             )
             .collect();
 
+        const [dependencyEdges, dependentEdges] = await Promise.all([
+            ctx.db
+                .query("taskDependencies")
+                .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
+                .collect(),
+            ctx.db
+                .query("taskDependencies")
+                .withIndex("by_dependsOnTaskId", (q) => q.eq("dependsOnTaskId", args.taskId))
+                .collect(),
+        ]);
+        const loadLinkedTasks = async (ids: Id<"tasks">[]) =>
+            (await Promise.all(ids.map((id) => ctx.db.get("tasks", id))))
+                .filter((linked): linked is Doc<"tasks"> => linked !== null)
+                .map((linked) => ({ _id: linked._id, title: linked.title, status: linked.status }));
+        const [dependencies, dependents] = await Promise.all([
+            loadLinkedTasks(dependencyEdges.map((edge) => edge.dependsOnTaskId)),
+            loadLinkedTasks(dependentEdges.map((edge) => edge.taskId)),
+        ]);
+
         const subtaskIds = new Set(subtasks.map((subtask) => String(subtask._id)));
         const recentDeptActivities = await ctx.db
             .query("activities")
@@ -394,7 +803,10 @@ export const getInspectorPanel = query({
                 status: task.status,
                 assigneeSessionKeys: task.assigneeSessionKeys ?? [],
                 ownerUserId: task.ownerUserId,
+                waitingOnDependencies: task.waitingOnDependencies ?? false,
             },
+            dependencies,
+            dependents,
             subtasks: subtasks
                 .sort((a, b) => (b.createdAt ?? b._creationTime) - (a.createdAt ?? a._creationTime))
                 .map((subtask) => ({
@@ -437,6 +849,7 @@ export const getThreadSnapshot = query({
             return {
                 task: null,
                 messages: [],
+                threadSummary: null,
                 totalMessages: 0,
                 returnedMessages: 0,
                 snapshotAt: Date.now(),
@@ -457,9 +870,21 @@ export const getThreadSnapshot = query({
                 ? messages.slice(messages.length - limit)
                 : messages;
 
+        const threadSummary = await ctx.db
+            .query("threadSummaries")
+            .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
+            .unique();
+
         return {
             task,
             messages: trimmed,
+            threadSummary: threadSummary
+                ? {
+                    summary: threadSummary.summary,
+                    summarizedCount: threadSummary.summarizedCount,
+                    updatedAt: threadSummary.updatedAt,
+                }
+                : null,
             totalMessages: messages.length,
             returnedMessages: trimmed.length,
             snapshotAt: Date.now(),
@@ -467,110 +892,164 @@ export const getThreadSnapshot = query({
     },
 });
 
+const setStatusArgs = {
+    departmentId: v.id("departments"),
+    taskId: v.id("tasks"),
+    status: taskStatus,
+    bySessionKey: v.string(), // quem executou a mudança (ex: "agent:developer:main")
+    reason: v.optional(v.string()), // opcional: motivo da mudança
+    column: v.optional(v.string()), // opcional: coluna do workflow (default: coluna principal do status)
+};
+
+type SetStatusArgs = {
+    departmentId: Id<"departments">;
+    taskId: Id<"tasks">;
+    status: TaskStatus;
+    bySessionKey: string;
+    reason?: string;
+    column?: string;
+};
+
 /**
- * Set status (general mutation).
+ * Shared by setStatus and setStatusInternal; `resolveActor` decides who is moving the task.
  */
-export const setStatus = mutation({
-    args: {
-        departmentId: v.id("departments"),
-        taskId: v.id("tasks"),
-        status: taskStatus,
-        bySessionKey: v.string(), // quem executou a mudança (ex: "agent:developer:main")
-        reason: v.optional(v.string()), // opcional: motivo da mudança
-    },
-    handler: async (ctx, args) => {
-        const now = Date.now();
-        const nextStatus = normalizeTaskStatus(args.status);
-        const authenticatedUserId = await getAuthUserId(ctx);
-        const task = await ctx.db.get("tasks", args.taskId);
-        if (!task || task.departmentId !== args.departmentId) {
-            throw new Error("Task not found in this department");
+async function applyStatusChange(
+    ctx: MutationCtx,
+    args: SetStatusArgs,
+    resolveActor: (task: Doc<"tasks">) => Promise<TransitionActor>
+): Promise<{ ok: true }> {
+    const now = Date.now();
+    const nextStatus = normalizeTaskStatus(args.status);
+    const task = await ctx.db.get("tasks", args.taskId);
+    if (!task || task.departmentId !== args.departmentId) {
+        throw new Error("Task not found in this department");
+    }
+    const transitionActor = await resolveActor(task);
+
+    const workflow = await loadWorkflow(ctx, args.departmentId);
+    const fromColumn = columnForTask(workflow, task);
+    let toColumn: WorkflowColumn;
+    if (args.column) {
+        const requested = workflow.columns.find((column) => column.key === args.column);
+        if (!requested || requested.status !== nextStatus) {
+            throw new Error(`Column "${args.column}" does not belong to status "${nextStatus}".`);
         }
+        toColumn = requested;
+    } else {
+        toColumn = fromColumn.status === nextStatus ? fromColumn : primaryColumnFor(workflow, nextStatus);
+    }
 
-        const allowDirectDoneReasons = new Set([
-            "specialist_completion_done",
-            "brain_auto_done_from_provenance",
-            "squad_lead_auto_close",
-        ]);
-
-        let canUserCloseTask = false;
-        if (nextStatus === "done" && authenticatedUserId) {
-            if (task.ownerUserId && task.ownerUserId === authenticatedUserId) {
-                canUserCloseTask = true;
-            } else {
-                const department = await ctx.db.get(task.departmentId);
-                if (department?.orgId) {
-                    canUserCloseTask = await isOrgAdminOrOwner(ctx, authenticatedUserId, department.orgId);
-                }
-            }
+    if (toColumn.key !== fromColumn.key) {
+        if (!isTransitionAllowed(findTransitionRule(workflow, fromColumn.key, toColumn.key), transitionActor)) {
+            throw new Error(
+                `Moving from "${fromColumn.key}" to "${toColumn.key}" is not allowed by this department's workflow.`
+            );
         }
-
-        if (nextStatus === "done" && !allowDirectDoneReasons.has(args.reason ?? "") && !canUserCloseTask) {
-            throw new Error("Direct move to done is disabled. Use tasks.approve from review.");
+        // WIP limits gate manual moves; agents keep working and the board shows the overflow.
+        if (transitionActor.type === "user" && toColumn.wipLimit) {
+            const occupied: Doc<"tasks">[] = await workflowColumnQuery(
+                ctx,
+                args.departmentId,
+                workflow,
+                toColumn
+            ).take(toColumn.wipLimit);
+            if (occupied.length >= toColumn.wipLimit) {
+                throw new Error(`Column "${toColumn.label || toColumn.key}" is at its WIP limit (${toColumn.wipLimit}).`);
+            }
         }
+    }
 
-        const previousStatus = normalizeTaskStatus(String(task.status));
-        const actor = await resolveActorMeta(ctx, args.departmentId, args.bySessionKey);
-        await ctx.db.patch("tasks", args.taskId, {
-            status: nextStatus,
-            doneClearedAt: nextStatus === "done" ? undefined : task.doneClearedAt,
-        });
-
-        const enteredCompletionState = nextStatus === "review" || nextStatus === "done";
-        const statusChanged = nextStatus !== previousStatus;
-
-        if (enteredCompletionState && statusChanged && task.parentTaskId) {
-            const parentTask = await ctx.db.get(task.parentTaskId);
-            if (parentTask && parentTask.departmentId === task.departmentId) {
-                const parentNotifyAt = Date.now();
-                await ctx.db.patch("tasks", args.taskId, {
-                    parentNotifiedAt: parentNotifyAt,
-                });
+    const previousStatus = normalizeTaskStatus(String(task.status));
+    const actor = await resolveActorMeta(ctx, args.departmentId, args.bySessionKey);
+    await ctx.db.patch("tasks", args.taskId, {
+        status: nextStatus,
+        workflowColumn: isPrimaryColumn(workflow, toColumn) ? undefined : toColumn.key,
+        // A cleared card that changes status comes back to the board
+        doneClearedAt: undefined,
+        // Moving a dependency-blocked task by hand overrides the wait
+        waitingOnDependencies: nextStatus === "blocked" ? task.waitingOnDependencies : undefined,
+    });
+
+    const enteredCompletionState = nextStatus === "review" || nextStatus === "done";
+    const statusChanged = nextStatus !== previousStatus;
+
+    if (nextStatus === "done" && statusChanged) {
+        await releaseDependents(ctx, task, args.bySessionKey);
+    }
 
-                const agents = await ctx.db
-                    .query("agents")
-                    .withIndex("by_departmentId", (q) => q.eq("departmentId", task.departmentId))
-                    .collect();
-                const jarvis = agents.find((a) => a.name.toLowerCase() === "jarvis");
-                const watcherSessionKey =
-                    jarvis?.sessionKey ||
-                    parentTask.assigneeSessionKeys?.[0] ||
-                    "agent:main:main";
+    if (enteredCompletionState && statusChanged && task.parentTaskId) {
+        const parentTask = await ctx.db.get(task.parentTaskId);
+        if (parentTask && parentTask.departmentId === task.departmentId) {
+            const parentNotifyAt = Date.now();
+            await ctx.db.patch("tasks", args.taskId, {
+                parentNotifiedAt: parentNotifyAt,
+            });
 
-                await ctx.scheduler.runAfter(0, internal.brain.thinkInternal, {
-                    departmentId: task.departmentId,
-                    taskId: parentTask._id,
-                    agentSessionKey: watcherSessionKey,
-                    triggerKey: `child_completed:${String(args.taskId)}:${nextStatus}`,
-                    language: await getOrganizationLanguageByDepartment(ctx, task.departmentId),
-                });
+            const agents = await ctx.db
+                .query("agents")
+                .withIndex("by_departmentId", (q) => q.eq("departmentId", task.departmentId))
+                .collect();
+            const orchestrator = findOrchestrator(agents);
+            const watcherSessionKey =
+                orchestrator?.sessionKey ||
+                parentTask.assigneeSessionKeys?.[0] ||
+                "agent:main:main";
+
+            await ctx.scheduler.runAfter(0, internal.brain.thinkInternal, {
+                departmentId: task.departmentId,
+                taskId: parentTask._id,
+                agentSessionKey: watcherSessionKey,
+                triggerKey: `child_completed:${String(args.taskId)}:${nextStatus}`,
+                language: await getOrganizationLanguageByDepartment(ctx, task.departmentId),
+            });
 
-                await ctx.db.insert("activities", {
-                    departmentId: task.departmentId,
-                    type: "parent_wake_triggered",
-                    message: `Parent task wake triggered from child "${task.title}" -> ${nextStatus}`,
-                    sessionKey: args.bySessionKey,
-                    actorName: actor.actorName,
-                    actorType: actor.actorType,
-                    taskId: args.taskId,
-                    createdAt: parentNotifyAt,
-                });
-            }
+            await ctx.db.insert("activities", {
+                departmentId: task.departmentId,
+                type: "parent_wake_triggered",
+                message: `Parent task wake triggered from child "${task.title}" -> ${nextStatus}`,
+                sessionKey: args.bySessionKey,
+                actorName: actor.actorName,
+                actorType: actor.actorType,
+                taskId: args.taskId,
+                createdAt: parentNotifyAt,
+            });
         }
+    }
 
-        await ctx.db.insert("activities", {
-            departmentId: task.departmentId,
-            type: "task_status_changed",
-            message: `Status da task "${task.title}" -> ${nextStatus}${args.reason ? ` (${args.reason})` : ""
-                }`,
-            sessionKey: args.bySessionKey,
-            actorName: actor.actorName,
-            actorType: actor.actorType,
-            taskId: args.taskId,
-            createdAt: now,
-        });
+    await ctx.db.insert("activities", {
+        departmentId: task.departmentId,
+        type: "task_status_changed",
+        message: `Status da task "${task.title}" -> ${nextStatus}${args.reason ? ` (${args.reason})` : ""
+            }`,
+        sessionKey: args.bySessionKey,
+        actorName: actor.actorName,
+        actorType: actor.actorType,
+        taskId: args.taskId,
+        createdAt: now,
+    });
+
+    return { ok: true };
+}
 
-        return { ok: true };
+/**
+ * Set status (general mutation) for signed-in members, checked against their org role.
+ */
+export const setStatus = mutation({
+    args: setStatusArgs,
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        return await applyStatusChange(ctx, args, (task) => resolveUserTransitionActor(ctx, task, userId));
+    },
+});
+
+/**
+ * internal:tasks:setStatusInternal
+ * Set status for agents (by session key) and system automation.
+ */
+export const setStatusInternal = internalMutation({
+    args: setStatusArgs,
+    handler: async (ctx, args) => {
+        return await applyStatusChange(ctx, args, (task) => resolveInternalTransitionActor(ctx, task, args.bySessionKey));
     },
 });
 
@@ -596,6 +1075,14 @@ export const approve = mutation({
             throw new Error("Only tasks in review can be approved.");
         }
 
+        const workflow = await loadWorkflow(ctx, args.departmentId);
+        const fromColumn = columnForTask(workflow, task);
+        const doneColumn = primaryColumnFor(workflow, "done");
+        const transitionActor = await resolveUserTransitionActor(ctx, task, userId);
+        if (!isTransitionAllowed(findTransitionRule(workflow, fromColumn.key, doneColumn.key), transitionActor)) {
+            throw new Error(`Approving from "${fromColumn.key}" is not allowed by this department's workflow.`);
+        }
+
         const now = Date.now();
         const user = await ctx.db.get(userId);
         const actorName =
@@ -606,6 +1093,7 @@ export const approve = mutation({
 
         await ctx.db.patch(args.taskId, {
             status: "done",
+            workflowColumn: undefined,
             doneClearedAt: undefined,
         });
 
@@ -613,6 +1101,8 @@ export const approve = mutation({
             taskId: args.taskId,
         });
 
+        await releaseDependents(ctx, task, sessionKey);
+
         if (task.parentTaskId) {
             const parentTask = await ctx.db.get(task.parentTaskId);
             if (parentTask && parentTask.departmentId === task.departmentId) {
@@ -625,9 +1115,9 @@ export const approve = mutation({
                     .query("agents")
                     .withIndex("by_departmentId", (q) => q.eq("departmentId", task.departmentId))
                     .collect();
-                const jarvis = agents.find((a) => a.name.toLowerCase() === "jarvis");
+                const orchestrator = findOrchestrator(agents);
                 const watcherSessionKey =
-                    jarvis?.sessionKey ||
+                    orchestrator?.sessionKey ||
                     parentTask.assigneeSessionKeys?.[0] ||
                     "agent:main:main";
 
@@ -681,6 +1171,8 @@ export const unblock = mutation({
     },
     handler: async (ctx, args) => {
         const now = Date.now();
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Unauthorized");
 
         const task = await ctx.db.get(args.taskId);
         if (!task || task.departmentId !== args.departmentId) {
@@ -692,9 +1184,20 @@ export const unblock = mutation({
         }
 
         const next = normalizeTaskStatus(args.nextStatus ?? "in_progress");
+        const workflow = await loadWorkflow(ctx, args.departmentId);
+        const fromColumn = columnForTask(workflow, task);
+        const toColumn = primaryColumnFor(workflow, next);
+        const transitionActor = await resolveUserTransitionActor(ctx, task, userId);
+        if (!isTransitionAllowed(findTransitionRule(workflow, fromColumn.key, toColumn.key), transitionActor)) {
+            throw new Error(`Moving from "${fromColumn.key}" to "${toColumn.key}" is not allowed by this department's workflow.`);
+        }
         const actor = await resolveActorMeta(ctx, args.departmentId, args.sessionKey);
 
-        await ctx.db.patch("tasks", args.taskId, { status: next });
+        await ctx.db.patch("tasks", args.taskId, {
+            status: next,
+            workflowColumn: undefined,
+            waitingOnDependencies: undefined,
+        });
 
         await ctx.db.insert("activities", {
             departmentId: task.departmentId,
@@ -711,6 +1214,230 @@ export const unblock = mutation({
     },
 });
 
+const dependencyArgs = {
+    departmentId: v.id("departments"),
+    taskId: v.id("tasks"),
+    dependsOnTaskId: v.id("tasks"),
+};
+
+type DependencyArgs = {
+    departmentId: Id<"departments">;
+    taskId: Id<"tasks">;
+    dependsOnTaskId: Id<"tasks">;
+    bySessionKey: string;
+};
+
+/**
+ * Shared by addDependency and addDependencyInternal. taskId only starts once dependsOnTaskId
+ * is done; a task that has not started yet is blocked right away through the workflow rules.
+ */
+async function applyAddDependency(
+    ctx: MutationCtx,
+    args: DependencyArgs,
+    resolveActor: (task: Doc<"tasks">) => Promise<TransitionActor>
+) {
+    const task = await ctx.db.get("tasks", args.taskId);
+    if (!task || task.departmentId !== args.departmentId) {
+        throw new Error("Task not found in this department");
+    }
+    const [prerequisite] = await requireDependencyTasks(ctx, args.departmentId, [args.dependsOnTaskId]);
+    if (args.taskId === args.dependsOnTaskId) {
+        throw new Error("A task cannot depend on itself.");
+    }
+
+    const existing = await ctx.db
+        .query("taskDependencies")
+        .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
+        .collect();
+    if (existing.some((edge) => edge.dependsOnTaskId === args.dependsOnTaskId)) {
+        return { ok: true, alreadyExists: true, blocked: task.status === "blocked" };
+    }
+    if (await wouldCreateDependencyCycle(ctx, args.taskId, args.dependsOnTaskId)) {
+        throw new Error(`"${prerequisite.title}" already depends on "${task.title}"; this would create a cycle.`);
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("taskDependencies", {
+        departmentId: args.departmentId,
+        taskId: args.taskId,
+        dependsOnTaskId: args.dependsOnTaskId,
+        createdBySessionKey: args.bySessionKey,
+        createdAt: now,
+    });
+
+    const currentStatus = normalizeTaskStatus(String(task.status));
+    const blocked =
+        normalizeTaskStatus(String(prerequisite.status)) !== "done" &&
+        (currentStatus === "inbox" || currentStatus === "assigned");
+    if (blocked) {
+        await applyStatusChange(
+            ctx,
+            {
+                departmentId: args.departmentId,
+                taskId: args.taskId,
+                status: "blocked",
+                bySessionKey: args.bySessionKey,
+                reason: `waiting for "${prerequisite.title}"`,
+            },
+            resolveActor
+        );
+        await ctx.db.patch("tasks", args.taskId, { waitingOnDependencies: true });
+    }
+
+    const actor = await resolveActorMeta(ctx, args.departmentId, args.bySessionKey);
+    await ctx.db.insert("activities", {
+        departmentId: args.departmentId,
+        type: "task_dependency_added",
+        message: `Task "${task.title}" now waits for "${prerequisite.title}"${blocked ? " (blocked)" : ""}`,
+        sessionKey: args.bySessionKey,
+        actorName: actor.actorName,
+        actorType: actor.actorType,
+        taskId: args.taskId,
+        createdAt: now,
+    });
+
+    return { ok: true, alreadyExists: false, blocked };
+}
+
+/**
+ * Shared by removeDependency and removeDependencyInternal. Removing the last open dependency
+ * returns the task to assigned/inbox and wakes its agent.
+ */
+async function applyRemoveDependency(ctx: MutationCtx, args: DependencyArgs) {
+    const task = await ctx.db.get("tasks", args.taskId);
+    if (!task || task.departmentId !== args.departmentId) {
+        throw new Error("Task not found in this department");
+    }
+
+    const edges = await ctx.db
+        .query("taskDependencies")
+        .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
+        .collect();
+    const edge = edges.find((candidate) => candidate.dependsOnTaskId === args.dependsOnTaskId);
+    if (!edge) {
+        return { ok: true, removed: false, released: false };
+    }
+    await ctx.db.delete("taskDependencies", edge._id);
+
+    const prerequisite = await ctx.db.get("tasks", args.dependsOnTaskId);
+    const actor = await resolveActorMeta(ctx, args.departmentId, args.bySessionKey);
+    await ctx.db.insert("activities", {
+        departmentId: args.departmentId,
+        type: "task_dependency_removed",
+        message: `Task "${task.title}" no longer waits for "${prerequisite?.title ?? "deleted task"}"`,
+        sessionKey: args.bySessionKey,
+        actorName: actor.actorName,
+        actorType: actor.actorType,
+        taskId: args.taskId,
+        createdAt: Date.now(),
+    });
+
+    const released = await releaseIfDependenciesMet(
+        ctx,
+        task,
+        args.bySessionKey,
+        `Last open dependency of "${task.title}" removed`
+    );
+    return { ok: true, removed: true, released };
+}
+
+/**
+ * tasks:addDependency
+ * - taskId só começa depois que dependsOnTaskId chegar em done
+ * - bloqueia a task na hora se ela ainda não começou e o pré-requisito está aberto
+ */
+export const addDependency = mutation({
+    args: dependencyArgs,
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+        return await applyAddDependency(
+            ctx,
+            { ...args, bySessionKey: `user:${String(userId)}` },
+            (task) => resolveUserTransitionActor(ctx, task, userId)
+        );
+    },
+});
+
+/**
+ * internal:tasks:addDependencyInternal
+ * Add a dependency for agents (by session key) and system automation.
+ */
+export const addDependencyInternal = internalMutation({
+    args: { ...dependencyArgs, bySessionKey: v.string() },
+    handler: async (ctx, args) => {
+        return await applyAddDependency(ctx, args, (task) =>
+            resolveInternalTransitionActor(ctx, task, args.bySessionKey)
+        );
+    },
+});
+
+/**
+ * tasks:removeDependency
+ * - remove a aresta; se era a última pendência, a task volta para assigned/inbox e o agente acorda
+ */
+export const removeDependency = mutation({
+    args: dependencyArgs,
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+        return await applyRemoveDependency(ctx, { ...args, bySessionKey: `user:${String(userId)}` });
+    },
+});
+
+/**
+ * internal:tasks:removeDependencyInternal
+ * Remove a dependency for agents (by session key) and system automation.
+ */
+export const removeDependencyInternal = internalMutation({
+    args: { ...dependencyArgs, bySessionKey: v.string() },
+    handler: async (ctx, args) => {
+        return await applyRemoveDependency(ctx, args);
+    },
+});
+
+/**
+ * Override the agent's step budget for this task (null clears the override).
+ */
+export const setStepBudget = mutation({
+    args: {
+        departmentId: v.id("departments"),
+        taskId: v.id("tasks"),
+        stepBudget: v.union(stepBudgetValidator, v.null()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const task = await ctx.db.get("tasks", args.taskId);
+        if (!task || task.departmentId !== args.departmentId) {
+            throw new Error("Task not found in this department");
+        }
+
+        if (args.stepBudget === null) {
+            await ctx.db.patch("tasks", args.taskId, { stepBudget: undefined });
+            return { ok: true };
+        }
+
+        const labels: Record<keyof typeof STEP_BUDGET_LIMITS, string> = {
+            maxToolIterations: "Max tool iterations",
+            maxRunSeconds: "Max run seconds",
+            maxRunTokens: "Max run tokens",
+            maxContinuations: "Max continuations",
+        };
+        for (const field of Object.keys(labels) as Array<keyof typeof STEP_BUDGET_LIMITS>) {
+            const value = args.stepBudget[field];
+            if (value !== undefined) validateStepBudgetField(field, labels[field], value);
+        }
+
+        const hasOverride = Object.values(args.stepBudget).some((value) => value !== undefined);
+        await ctx.db.patch("tasks", args.taskId, {
+            stepBudget: hasOverride ? args.stepBudget : undefined,
+        });
+        return { ok: true };
+    },
+});
+
 /**
  * Hide done cards from Kanban column while keeping them in history.
  */
@@ -721,14 +1448,7 @@ export const clearDoneColumn = mutation({
     },
     handler: async (ctx, args) => {
         const now = Date.now();
-        const tasks = await ctx.db
-            .query("tasks")
-            .withIndex("by_dept_status", (q) =>
-                q.eq("departmentId", args.departmentId).eq("status", "done")
-            )
-            .collect();
-
-        const visibleDoneTasks = tasks.filter((task) => !task.doneClearedAt);
+        const visibleDoneTasks: Doc<"tasks">[] = await boardColumnQuery(ctx, args.departmentId, "done").collect();
 
         for (const task of visibleDoneTasks) {
             await ctx.db.patch(task._id, {
@@ -831,7 +1551,18 @@ export const remove = mutation({
             throw new Error("Task not found in this department");
         }
 
-        const [messages, threadReads, subscriptions, runs, docs, allNotifications, allActivities] = await Promise.all([
+        const [
+            messages,
+            threadReads,
+            subscriptions,
+            runs,
+            docs,
+            agentRuns,
+            checkpoints,
+            threadSummaries,
+            allNotifications,
+            allActivities,
+        ] = await Promise.all([
             ctx.db
                 .query("messages")
                 .withIndex("by_department_taskId", (q) =>
@@ -854,6 +1585,18 @@ export const remove = mutation({
                 .query("documents")
                 .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
                 .collect(),
+            ctx.db
+                .query("agentRuns")
+                .withIndex("by_task_startedAt", (q) => q.eq("taskId", args.taskId))
+                .collect(),
+            ctx.db
+                .query("brainCheckpoints")
+                .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
+                .collect(),
+            ctx.db
+                .query("threadSummaries")
+                .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
+                .collect(),
             ctx.db
                 .query("notifications")
                 .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
@@ -879,10 +1622,38 @@ export const remove = mutation({
         const deletedSubscriptions = await deleteRows(subscriptions as any);
         const deletedRuns = await deleteRows(runs as any);
         const deletedDocs = await deleteRows(docs as any);
+        for (const agentRun of agentRuns) {
+            const steps = await ctx.db
+                .query("agentRunSteps")
+                .withIndex("by_run_sequence", (q) => q.eq("runId", agentRun._id))
+                .collect();
+            await deleteRows(steps as any);
+        }
+        const deletedAgentRuns = await deleteRows(agentRuns as any);
+        await deleteRows(checkpoints as any);
+        await deleteRows(threadSummaries as any);
         const deletedNotifications = await deleteRows(notifications as any);
         const deletedActivities = await deleteRows(activities as any);
 
         await ctx.db.delete(args.taskId);
+        await dropEmbeddingCounts(ctx, task.departmentId, "tasks", task);
+
+        // A deleted prerequisite stops holding its dependents back
+        await releaseDependents(ctx, task, args.bySessionKey ?? "agent:main:main");
+        const [incomingEdges, outgoingEdges] = await Promise.all([
+            ctx.db
+                .query("taskDependencies")
+                .withIndex("by_dependsOnTaskId", (q) => q.eq("dependsOnTaskId", args.taskId))
+                .collect(),
+            ctx.db
+                .query("taskDependencies")
+                .withIndex("by_taskId", (q) => q.eq("taskId", args.taskId))
+                .collect(),
+        ]);
+        for (const edge of [...incomingEdges, ...outgoingEdges]) {
+            await ctx.db.delete("taskDependencies", edge._id);
+        }
+
         const actor = await resolveActorMeta(ctx, args.departmentId, args.bySessionKey ?? null);
 
         await ctx.db.insert("activities", {
@@ -903,6 +1674,7 @@ export const remove = mutation({
             deletedSubscriptions,
             deletedRuns,
             deletedDocs,
+            deletedAgentRuns,
             deletedNotifications,
             deletedActivities,
         };
@@ -2,11 +2,13 @@ import { action, internalMutation, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
 import { api, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { findOrchestrator } from "./lib/agentKinds";
+import { bumpEmbeddingCount } from "./lib/embeddingCounts";
 
 const TOOL_BLOB_GLOBAL_REGEX = /\[TOOL:\s*[a-zA-Z0-9_-]+\s+ARG:\s*\{[\s\S]*?\}\s*\]/g;
 const MEMORY_USED_MARKER_REGEX = /\[MEMORY_USED\]\s*/g;
 const MARKDOWN_IMAGE_REGEX = /!\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/gi;
-const INTERNAL_MARKER_LINE_REGEX = /^\[[A-Z0-9_:-]{2,}\]\s*/gm;
+const INTERNAL_MARKER_LINE_REGEX = /^\[(?!\d+\])[A-Z0-9_:-]{2,}\]\s*/gm;
 
 function sanitizeTelegramText(text: string): string {
     const base = text
@@ -187,9 +189,9 @@ export const handleUpdate = internalMutation({
             .query("agents")
             .withIndex("by_departmentId", (q) => q.eq("departmentId", dept._id))
             .collect();
-        const jarvis = agents.find((a) => a.name.toLowerCase() === "jarvis");
+        const orchestrator = findOrchestrator(agents);
         const fallbackAgent = agents.find((a) => a.sessionKey === "agent:main:main") || agents[0];
-        const targetAgentSessionKey = jarvis?.sessionKey || fallbackAgent?.sessionKey || "agent:main:main";
+        const targetAgentSessionKey = orchestrator?.sessionKey || fallbackAgent?.sessionKey || "agent:main:main";
 
         // 2. Find an active task for this chat, or create a fresh one when the previous is finished.
         const chatMarker = `Telegram Chat ID: ${chat_id}`;
@@ -222,6 +224,7 @@ export const handleUpdate = internalMutation({
                 assigneeSessionKeys: [targetAgentSessionKey],
                 createdAt: Date.now(),
             });
+            await bumpEmbeddingCount(ctx, dept._id, "tasks", undefined, 1);
 
             // Log activity
             await ctx.db.insert("activities", {
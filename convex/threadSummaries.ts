@@ -0,0 +1,222 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { chatWithProvider, ECONOMY_CHAT_MODELS, resolveLlmCredentials } from "./lib/llmProviders";
+import { recordUsage } from "./usage";
+
+/**
+ * Rolling thread summaries. The brain sends the stored summary plus the last
+ * RECENT_THREAD_MESSAGES messages; once enough messages pile up past that
+ * window, the older ones are folded into the summary by an economy model.
+ */
+
+// Messages the brain sends verbatim after the summary.
+export const RECENT_THREAD_MESSAGES = 10;
+// Unsummarized messages beyond the recent window that trigger a new summary.
+const SUMMARY_TRIGGER_MESSAGES = 10;
+// Cap on unsummarized messages sent verbatim, e.g. while a long thread has no summary yet.
+const UNSUMMARIZED_THREAD_MESSAGES = 40;
+// A draft keeps the _creationTime of when its run started streaming, before its final createdAt.
+const DRAFT_LOOKBACK_MS = 15 * 60 * 1000;
+// Messages folded per LLM call; a longer backlog takes several passes.
+const MAX_SUMMARY_BATCH = 60;
+const MAX_MESSAGE_CHARS = 1500;
+const MAX_SUMMARY_TOKENS = 800;
+
+const SUMMARY_SYSTEM_PROMPT =
+    "You maintain the running summary of a support/work thread between people and AI agents. " +
+    "Merge the current summary with the new messages into one updated summary. " +
+    "Keep facts, requests, decisions, commitments, names, ids, links and open questions; drop greetings and small talk. " +
+    "Write in the language of the conversation, as short bullet points, at most 250 words. Reply with the summary only.";
+
+export type ThreadWindow = {
+    summary: Doc<"threadSummaries"> | null;
+    // Chronological, drafts excluded.
+    messages: Doc<"messages">[];
+    summaryDue: boolean;
+};
+
+async function getSummary(ctx: QueryCtx, taskId: Id<"tasks">) {
+    return await ctx.db
+        .query("threadSummaries")
+        .withIndex("by_taskId", (q) => q.eq("taskId", taskId))
+        .unique();
+}
+
+/**
+ * What the brain sends for a thread: the summary and every message it does not
+ * cover yet, up to UNSUMMARIZED_THREAD_MESSAGES. With a summary in place that is
+ * under RECENT_THREAD_MESSAGES + SUMMARY_TRIGGER_MESSAGES, so nothing falls between them.
+ */
+export async function loadThreadWindow(ctx: QueryCtx, taskId: Id<"tasks">): Promise<ThreadWindow> {
+    const summary = await getSummary(ctx, taskId);
+    const summarizedUntil = summary?.summarizedUntil ?? 0;
+    const latest = await ctx.db
+        .query("messages")
+        .withIndex("by_taskId", (q) => q.eq("taskId", taskId))
+        .order("desc")
+        .take(UNSUMMARIZED_THREAD_MESSAGES);
+
+    // An in-flight draft (e.g. a concurrent run) is not part of the conversation yet.
+    const unsummarized = latest.filter((message) => !message.isDraft && message.createdAt > summarizedUntil);
+    const messages = unsummarized.reverse();
+    return {
+        summary,
+        messages,
+        summaryDue: unsummarized.length >= RECENT_THREAD_MESSAGES + SUMMARY_TRIGGER_MESSAGES,
+    };
+}
+
+/**
+ * internal:threadSummaries:getPendingBatch
+ * Oldest messages past the recent window that the summary does not cover yet.
+ */
+export const getPendingBatch = internalQuery({
+    args: { taskId: v.id("tasks") },
+    handler: async (ctx, args) => {
+        const task = await ctx.db.get("tasks", args.taskId);
+        if (!task?.departmentId) return null;
+        const departmentId = task.departmentId;
+
+        const summary = await getSummary(ctx, args.taskId);
+        const basedOnUntil = summary?.summarizedUntil ?? 0;
+        // One past a full batch plus the recent window tells whether another pass is needed.
+        const wanted = MAX_SUMMARY_BATCH + RECENT_THREAD_MESSAGES + 1;
+        const unsummarized: Doc<"messages">[] = [];
+        const stream = ctx.db
+            .query("messages")
+            .withIndex("by_taskId", (q) =>
+                q.eq("taskId", args.taskId).gt("_creationTime", basedOnUntil - DRAFT_LOOKBACK_MS)
+            );
+        for await (const message of stream) {
+            if (message.isDraft || message.createdAt <= basedOnUntil) continue;
+            unsummarized.push(message);
+            if (unsummarized.length >= wanted) break;
+        }
+        unsummarized.sort((a, b) => a.createdAt - b.createdAt);
+        const foldable = unsummarized.slice(0, Math.max(0, unsummarized.length - RECENT_THREAD_MESSAGES));
+        const batch = foldable.slice(0, MAX_SUMMARY_BATCH);
+
+        const agents = await ctx.db
+            .query("agents")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", departmentId))
+            .collect();
+        const agentNames = new Map(agents.map((agent) => [agent.sessionKey, agent.name]));
+
+        return {
+            departmentId,
+            previousSummary: summary?.summary,
+            basedOnUntil,
+            messages: batch.map((message) => ({
+                author: agentNames.get(message.fromSessionKey) ?? message.fromSessionKey.split(":").pop() ?? "user",
+                content: message.content.slice(0, MAX_MESSAGE_CHARS),
+                createdAt: message.createdAt,
+            })),
+            hasMore: foldable.length > batch.length,
+        };
+    },
+});
+
+/**
+ * internal:threadSummaries:save
+ * Ignored when another pass moved the summary on since `basedOnUntil` was read.
+ */
+export const save = internalMutation({
+    args: {
+        departmentId: v.id("departments"),
+        taskId: v.id("tasks"),
+        summary: v.string(),
+        basedOnUntil: v.number(),
+        summarizedUntil: v.number(),
+        addedCount: v.number(),
+        model: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const existing = await getSummary(ctx, args.taskId);
+        if ((existing?.summarizedUntil ?? 0) !== args.basedOnUntil) return { saved: false };
+
+        const now = Date.now();
+        if (existing) {
+            await ctx.db.patch("threadSummaries", existing._id, {
+                summary: args.summary,
+                summarizedUntil: args.summarizedUntil,
+                summarizedCount: existing.summarizedCount + args.addedCount,
+                model: args.model,
+                updatedAt: now,
+            });
+        } else {
+            await ctx.db.insert("threadSummaries", {
+                departmentId: args.departmentId,
+                taskId: args.taskId,
+                summary: args.summary,
+                summarizedUntil: args.summarizedUntil,
+                summarizedCount: args.addedCount,
+                model: args.model,
+                createdAt: now,
+                updatedAt: now,
+            });
+        }
+        return { saved: true };
+    },
+});
+
+/**
+ * internal:threadSummaries:summarize
+ * Folds the pending batch into the thread summary; reschedules itself while a backlog remains.
+ */
+export const summarize = internalAction({
+    args: { taskId: v.id("tasks") },
+    handler: async (ctx, args): Promise<{ summarized: number }> => {
+        const batch = await ctx.runQuery(internal.threadSummaries.getPendingBatch, { taskId: args.taskId });
+        if (!batch || batch.messages.length === 0) return { summarized: 0 };
+
+        const transcript = batch.messages
+            .map((message) => `[${new Date(message.createdAt).toISOString().slice(0, 16)}] ${message.author}: ${message.content}`)
+            .join("\n");
+        const llm = await resolveLlmCredentials(ctx, batch.departmentId);
+        const model = ECONOMY_CHAT_MODELS[llm.provider];
+        const result = await chatWithProvider({
+            provider: llm.provider,
+            apiKey: llm.apiKey,
+            model,
+            systemPrompt: SUMMARY_SYSTEM_PROMPT,
+            messages: [
+                {
+                    role: "user",
+                    content:
+                        (batch.previousSummary ? `Current summary:\n${batch.previousSummary}\n\n` : "") +
+                        `New messages:\n${transcript}`,
+                },
+            ],
+            temperature: 0.2,
+            maxTokens: MAX_SUMMARY_TOKENS,
+        });
+        await recordUsage(ctx, {
+            departmentId: batch.departmentId,
+            taskId: args.taskId,
+            kind: "chat",
+            source: "threadSummaries.summarize",
+            provider: llm.provider,
+            model: result.model,
+            inputTokens: result.usage.inputTokens,
+            outputTokens: result.usage.outputTokens,
+        });
+
+        const summary = result.content.trim();
+        if (!summary) return { summarized: 0 };
+        const { saved } = await ctx.runMutation(internal.threadSummaries.save, {
+            departmentId: batch.departmentId,
+            taskId: args.taskId,
+            summary,
+            basedOnUntil: batch.basedOnUntil,
+            summarizedUntil: batch.messages[batch.messages.length - 1].createdAt,
+            addedCount: batch.messages.length,
+            model: result.model,
+        });
+        if (saved && batch.hasMore) {
+            await ctx.scheduler.runAfter(0, internal.threadSummaries.summarize, { taskId: args.taskId });
+        }
+        return { summarized: saved ? batch.messages.length : 0 };
+    },
+});
@@ -0,0 +1,179 @@
+import { internalAction, type ActionCtx } from "../_generated/server";
+import { v } from "convex/values";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { embedQuery, embedText, type QueryEmbedding } from "../embeddings";
+import { EMBEDDING_SLOT_INDEXES, type SlotWrites } from "../lib/embeddings";
+import { MAX_MEMORY_CHARS, memoryScope, type AgentMemorySummary } from "../agentMemories";
+
+// A new memory this close to a visible one re-states it instead of adding a copy.
+const DUPLICATE_SIMILARITY = 0.92;
+// `forget` by query only deletes a match at least this close; weaker ones are listed instead.
+const FORGET_SIMILARITY = 0.8;
+const FORGET_CANDIDATES = 5;
+const MAX_EXPIRY_DAYS = 365;
+
+async function embedMemoryText(
+    ctx: ActionCtx,
+    departmentId: Id<"departments">,
+    agentSessionKey: string,
+    text: string
+): Promise<{ writes: SlotWrites; query: QueryEmbedding | null } | null> {
+    try {
+        return await embedText(ctx, text, { departmentId, agentSessionKey, source: "tools.agentMemory" });
+    } catch (error: any) {
+        console.warn("[agent_memory] embedding failed, storing without vector:", error?.message || error);
+        return null;
+    }
+}
+
+async function embedMemoryQuery(
+    ctx: ActionCtx,
+    departmentId: Id<"departments">,
+    agentSessionKey: string,
+    text: string
+): Promise<QueryEmbedding | null> {
+    try {
+        return await embedQuery(ctx, text, { departmentId, agentSessionKey, source: "tools.agentMemory" });
+    } catch (error: any) {
+        console.warn("[agent_memory] query embedding failed, using full-text search:", error?.message || error);
+        return null;
+    }
+}
+
+async function findSimilarMemories(
+    ctx: ActionCtx,
+    departmentId: Id<"departments">,
+    agentSessionKey: string,
+    query: QueryEmbedding,
+    limit: number
+): Promise<Array<AgentMemorySummary & { score: number }>> {
+    const hits = await ctx.vectorSearch("agentMemories", EMBEDDING_SLOT_INDEXES[query.slot], {
+        vector: query.embedding,
+        limit: limit * 2,
+        filter: (q) => q.eq("departmentId", departmentId),
+    });
+    const visible: AgentMemorySummary[] = await ctx.runQuery(internal.agentMemories.fetchByIds, {
+        ids: hits.map((hit) => hit._id),
+        agentSessionKey,
+        slot: query.slot,
+        embeddingModel: query.model,
+    });
+    const scoreById = new Map(hits.map((hit) => [String(hit._id), hit._score]));
+    return visible
+        .map((memory) => ({ ...memory, score: scoreById.get(String(memory._id)) ?? 0 }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+/**
+ * internal:tools:agentMemory:remember
+ * Stores a fact for later runs, linked to the task it came from.
+ */
+export const remember = internalAction({
+    args: {
+        departmentId: v.id("departments"),
+        taskId: v.optional(v.id("tasks")),
+        agentSessionKey: v.string(),
+        content: v.string(),
+        scope: v.optional(memoryScope),
+        expiresInDays: v.optional(v.number()),
+    },
+    handler: async (ctx, args): Promise<{ id: Id<"agentMemories">; updated: boolean; expiresAt?: number }> => {
+        const content = args.content.replace(/\s+/g, " ").trim().slice(0, MAX_MEMORY_CHARS);
+        if (!content) {
+            throw new Error("Tool 'remember' requires a non-empty 'content' string.");
+        }
+        const scope = args.scope ?? "agent";
+        const expiresAt = args.expiresInDays && args.expiresInDays > 0
+            ? Date.now() + Math.min(args.expiresInDays, MAX_EXPIRY_DAYS) * 24 * 60 * 60 * 1000
+            : undefined;
+
+        const embedding = await embedMemoryText(ctx, args.departmentId, args.agentSessionKey, content);
+        if (embedding?.query) {
+            const [closest] = await findSimilarMemories(ctx, args.departmentId, args.agentSessionKey, embedding.query, 1);
+            if (closest && closest.score >= DUPLICATE_SIMILARITY && closest.scope === scope) {
+                await ctx.runMutation(internal.agentMemories.refresh, {
+                    id: closest._id,
+                    content,
+                    writes: embedding.writes,
+                    sourceTaskId: args.taskId,
+                    expiresAt,
+                });
+                return { id: closest._id, updated: true, expiresAt };
+            }
+        }
+
+        const { id } = await ctx.runMutation(internal.agentMemories.insert, {
+            departmentId: args.departmentId,
+            scope,
+            agentSessionKey: args.agentSessionKey,
+            content,
+            writes: embedding?.writes ?? {},
+            sourceTaskId: args.taskId,
+            expiresAt,
+        });
+        return { id, updated: false, expiresAt };
+    },
+});
+
+/**
+ * internal:tools:agentMemory:forget
+ * Deletes a memory by id, or the one closest to `query`. When no match is
+ * close enough, nothing is deleted and the candidates are returned so the
+ * agent can retry with an id.
+ */
+export const forget = internalAction({
+    args: {
+        departmentId: v.id("departments"),
+        agentSessionKey: v.string(),
+        memoryId: v.optional(v.string()),
+        query: v.optional(v.string()),
+    },
+    handler: async (
+        ctx,
+        args
+    ): Promise<{ forgotten: Array<{ id: string; content: string }>; candidates?: AgentMemorySummary[] }> => {
+        const remove = async (id: Id<"agentMemories">) => {
+            const result = await ctx.runMutation(internal.agentMemories.removeForAgent, {
+                id,
+                departmentId: args.departmentId,
+                agentSessionKey: args.agentSessionKey,
+            });
+            return result.deleted ? [{ id: String(id), content: result.content ?? "" }] : [];
+        };
+
+        const memoryId = args.memoryId?.trim();
+        if (memoryId) {
+            const forgotten = await remove(memoryId as Id<"agentMemories">);
+            if (forgotten.length === 0) throw new Error(`Memory '${memoryId}' not found or not visible to this agent.`);
+            return { forgotten };
+        }
+
+        const queryText = args.query?.trim();
+        if (!queryText) {
+            throw new Error("Tool 'forget' requires a 'memoryId' or a non-empty 'query' string.");
+        }
+
+        const embedding = await embedMemoryQuery(ctx, args.departmentId, args.agentSessionKey, queryText);
+        if (embedding) {
+            const similar = await findSimilarMemories(ctx, args.departmentId, args.agentSessionKey, embedding, FORGET_CANDIDATES);
+            if (similar[0] && similar[0].score >= FORGET_SIMILARITY) {
+                return { forgotten: await remove(similar[0]._id) };
+            }
+            return { forgotten: [], candidates: similar };
+        }
+
+        const candidates: AgentMemorySummary[] = await ctx.runQuery(internal.agentMemories.searchForAgent, {
+            departmentId: args.departmentId,
+            agentSessionKey: args.agentSessionKey,
+            query: queryText,
+            limit: FORGET_CANDIDATES,
+        });
+        // Without embeddings only an unambiguous full-text match is deleted.
+        if (candidates.length === 1) {
+            return { forgotten: await remove(candidates[0]._id) };
+        }
+        return { forgotten: [], candidates };
+    },
+});
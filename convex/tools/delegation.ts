@@ -2,6 +2,7 @@ import { internalAction, internalQuery } from "../_generated/server";
 import { v } from "convex/values";
 import { api, internal } from "../_generated/api";
 import type { Id } from "../_generated/dataModel";
+import { isSquadLeadSession } from "../lib/agentKinds";
 
 export const findRecentDelegatedTask = internalQuery({
     args: {
@@ -37,6 +38,54 @@ export const findRecentDelegatedTask = internalQuery({
     },
 });
 
+/**
+ * internal:tools:delegation:resolveDependencies
+ * Maps delegate_task `dependsOn` references (sibling subtask titles or task ids) to task ids.
+ */
+export const resolveDependencies = internalQuery({
+    args: {
+        departmentId: v.id("departments"),
+        parentTaskId: v.optional(v.id("tasks")),
+        references: v.array(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const siblings = args.parentTaskId
+            ? await ctx.db
+                .query("tasks")
+                .withIndex("by_department_parentTaskId", (q) =>
+                    q.eq("departmentId", args.departmentId).eq("parentTaskId", args.parentTaskId)
+                )
+                .collect()
+            : [];
+        // Newest first so a re-delegated title points at the latest attempt
+        siblings.sort((a, b) => (b.createdAt ?? b._creationTime) - (a.createdAt ?? a._creationTime));
+
+        const taskIds: Id<"tasks">[] = [];
+        const titles: string[] = [];
+        const unresolved: string[] = [];
+        for (const reference of args.references) {
+            const normalized = reference.trim().toLowerCase();
+            let match = siblings.find(
+                (task) => String(task._id) === reference.trim() || task.title.trim().toLowerCase() === normalized
+            );
+            if (!match) {
+                const id = ctx.db.normalizeId("tasks", reference.trim());
+                const task = id ? await ctx.db.get("tasks", id) : null;
+                if (task && task.departmentId === args.departmentId) match = task;
+            }
+            if (match) {
+                if (!taskIds.includes(match._id)) {
+                    taskIds.push(match._id);
+                    titles.push(match.title);
+                }
+            } else {
+                unresolved.push(reference);
+            }
+        }
+        return { taskIds, titles, unresolved };
+    },
+});
+
 /**
  * internal:tools:delegation:delegateTask
  * Creates a public task, assigns specialists, and posts the first instruction.
@@ -52,6 +101,8 @@ export const delegateTask = internalAction({
         instruction: v.string(),
         priority: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
         tags: v.optional(v.array(v.string())),
+        // Titles (or ids) of sibling subtasks that must reach done before this one starts
+        dependsOn: v.optional(v.array(v.string())),
     },
     handler: async (ctx, args): Promise<any> => {
         type AgentCandidate = { _id?: string; name?: string; slug?: string; sessionKey?: string };
@@ -354,6 +405,22 @@ export const delegateTask = internalAction({
                 ? `${description}\n\n[Delegation note] Unresolved assignees: ${unresolvedNames.join(", ")}`
                 : description;
 
+        const requestedDependencies = (args.dependsOn ?? []).map((reference) => reference.trim()).filter(Boolean);
+        const dependencies =
+            requestedDependencies.length > 0
+                ? await ctx.runQuery(internal.tools.delegation.resolveDependencies, {
+                    departmentId: args.departmentId,
+                    parentTaskId: args.parentTaskId,
+                    references: requestedDependencies,
+                })
+                : { taskIds: [], titles: [], unresolved: [] };
+        if (dependencies.unresolved.length > 0) {
+            throw new Error(
+                `delegate_task could not resolve dependsOn: ${dependencies.unresolved.join(", ")}. ` +
+                `Use the exact titles of subtasks you already delegated.`
+            );
+        }
+
         const existing = await ctx.runQuery(internal.tools.delegation.findRecentDelegatedTask, {
             departmentId: args.departmentId,
             parentTaskId: args.parentTaskId,
@@ -374,7 +441,7 @@ export const delegateTask = internalAction({
             };
         }
 
-        const taskId = await ctx.runMutation(api.tasks.create, {
+        const { taskId, waitingOnDependencies } = await ctx.runMutation(api.tasks.create, {
             departmentId: args.departmentId,
             parentTaskId: args.parentTaskId,
             title,
@@ -383,16 +450,20 @@ export const delegateTask = internalAction({
             assigneeSessionKeys: resolvedSessionKeys,
             priority: args.priority,
             tags: args.tags,
+            dependsOnTaskIds: dependencies.taskIds.length > 0 ? dependencies.taskIds : undefined,
         });
 
-        // Keep delegated tasks visible immediately in inbox.
-        await ctx.runMutation(api.tasks.setStatus, {
-            departmentId: args.departmentId,
-            taskId,
-            status: "inbox",
-            bySessionKey: args.delegatorSessionKey,
-            reason: "delegation_inbox_visibility",
-        });
+        // Keep delegated tasks visible immediately in inbox (blocked ones stay blocked until released).
+        if (!waitingOnDependencies) {
+            await ctx.runMutation(internal.tasks.setStatusInternal, {
+                departmentId: args.departmentId,
+                taskId,
+                status: "inbox",
+                // Routine placement of the new subtask, so it runs as system rather than under the delegator's rules.
+                bySessionKey: "system:delegation",
+                reason: "delegation_inbox_visibility",
+            });
+        }
 
         await ctx.runMutation(api.messages.create, {
             departmentId: args.departmentId,
@@ -410,6 +481,8 @@ export const delegateTask = internalAction({
             assigneesRequested: requestedAssignees,
             assigneesResolved: resolvedNames,
             unresolvedAssignees: unresolvedNames,
+            dependsOn: dependencies.titles,
+            waitingOnDependencies,
         };
     },
 });
@@ -427,10 +500,8 @@ export const updateTaskStatus = internalAction({
         summary: v.optional(v.string()),
     },
     handler: async (ctx, args): Promise<any> => {
-        const bySession = String(args.bySessionKey ?? "").toLowerCase();
-        const isSquadLead =
-            bySession.includes("jarvis") ||
-            bySession === "agent:main:main";
+        const agents = await ctx.runQuery(api.agents.listByDept, { departmentId: args.departmentId });
+        const isSquadLead = isSquadLeadSession(agents, args.bySessionKey);
         const nextStatus = args.status === "done" && isSquadLead ? "done" : "review";
         const summary = args.summary?.trim();
         if (summary) {
@@ -442,7 +513,7 @@ export const updateTaskStatus = internalAction({
             });
         }
 
-        await ctx.runMutation(api.tasks.setStatus, {
+        await ctx.runMutation(internal.tasks.setStatusInternal, {
             departmentId: args.departmentId,
             taskId: args.taskId,
             status: nextStatus,
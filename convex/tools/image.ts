@@ -2,6 +2,7 @@ import { internalAction } from "../_generated/server";
 import { v } from "convex/values";
 import { api, internal } from "../_generated/api";
 import OpenAI from "openai";
+import { recordUsage } from "../usage";
 
 /**
  * internal:tools:image:generateImage
@@ -50,6 +51,19 @@ export const generateImage = internalAction({
             n: 1,
         });
 
+        await recordUsage(ctx, {
+            departmentId: args.departmentId,
+            taskId: args.taskId,
+            agentSessionKey: args.createdBySessionKey,
+            kind: "image",
+            source: "tools.image",
+            provider: "openai",
+            model: "dall-e-3",
+            images: result.data?.length ?? 1,
+            imageSize: args.size ?? "1024x1024",
+            imageQuality: args.quality ?? "standard",
+        });
+
         const image = result.data?.[0];
         const imageUrl = image?.url ?? null;
         const revisedPrompt = image?.revised_prompt ?? prompt;
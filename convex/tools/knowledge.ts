@@ -1,15 +1,37 @@
-import { internalAction, internalQuery } from "../_generated/server";
+import { internalAction, internalQuery, type ActionCtx } from "../_generated/server";
 import { v } from "convex/values";
 import { internal } from "../_generated/api";
-import OpenAI from "openai";
+import type { Id } from "../_generated/dataModel";
+import { recordUsage } from "../usage";
+import { embedQuery } from "../embeddings";
+import { EMBEDDING_SLOT_INDEXES, isSlotEmbeddingCurrent, type EmbeddingSlot } from "../lib/embeddings";
+import { chunkKnowledgeText, formatChunkForContext } from "../lib/knowledgeChunks";
+import { chatWithProvider, ECONOMY_CHAT_MODELS, resolveLlmCredentials, type LlmCredentials } from "../lib/llmProviders";
+import { isKnowledgeVisible, MAX_AGENT_COLLECTIONS, type KnowledgeVisibility } from "../lib/knowledgeScope";
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
 const DEFAULT_LIMIT = 5;
 const MAX_LIMIT = 10;
 const SNIPPET_MAX = 1200;
 const QUERY_WINDOW = 260;
-const KNOWLEDGE_CHUNK_SIZE = 900;
 const KNOWLEDGE_MAX_CONTEXT = 5200;
+// Chunks quoted per knowledge entry in a memory snippet.
+const KNOWLEDGE_CHUNKS_PER_ENTRY = 2;
+// Convex full-text search accepts at most 16 terms.
+const MAX_SEARCH_TERMS = 16;
+
+// Reciprocal-rank fusion: every ranked list adds weight / (RRF_K + rank).
+const RRF_K = 60;
+const SOURCE_WEIGHTS: Record<"knowledge" | "asset" | "task", number> = {
+    knowledge: 1,
+    asset: 0.8,
+    task: 0.8,
+};
+// Older memories keep at least (1 - RECENCY_WEIGHT) of their score.
+const RECENCY_HALF_LIFE_DAYS = 180;
+const RECENCY_WEIGHT = 0.25;
+
+const RERANK_CANDIDATES = 12;
+const RERANK_SNIPPET_CHARS = 600;
 
 function clampLimit(limit?: number): number {
     const n = limit ?? DEFAULT_LIMIT;
@@ -54,50 +76,34 @@ function extractQuerySnippet(text: string, query: string): string {
     return `${merged.slice(0, SNIPPET_MAX)}...`;
 }
 
-function chunkText(text: string, chunkSize: number): string[] {
-    const normalized = text.replace(/\s+/g, " ").trim();
-    if (!normalized) return [];
-    const chunks: string[] = [];
-    for (let i = 0; i < normalized.length; i += chunkSize) {
-        chunks.push(normalized.slice(i, i + chunkSize));
-    }
-    return chunks;
+function tokenOverlap(text: string, queryTokens: string[]): number {
+    const tokenSet = new Set(tokenize(text));
+    return queryTokens.filter((token) => tokenSet.has(token)).length;
 }
 
-function buildKnowledgeSnippet(text: string, query: string): string {
-    const chunks = chunkText(text, KNOWLEDGE_CHUNK_SIZE);
-    if (chunks.length === 0) return "";
-    if (chunks.length === 1) return compactSnippet(chunks[0]);
-
-    const queryTokens = tokenize(query);
-    const chunkScores = chunks.map((chunk, idx) => {
-        const tokenSet = new Set(tokenize(chunk));
-        const overlap = queryTokens.filter((token) => tokenSet.has(token)).length;
-        return { idx, overlap };
-    });
-    chunkScores.sort((a, b) => b.overlap - a.overlap);
-
-    const firstIdx = 0;
-    const middleIdx = Math.floor(chunks.length / 2);
-    const endIdx = Math.max(0, chunks.length - 1);
-    const bestIdx = chunkScores[0]?.idx ?? 0;
-
-    const picked = [firstIdx, bestIdx, middleIdx, endIdx]
-        .filter((idx, pos, arr) => arr.indexOf(idx) === pos)
-        .map((idx) => chunks[idx]);
-
-    const merged = picked.join(" ... ");
+// Quotes the best chunks in document order, so a snippet reads like the source.
+function joinKnowledgeChunks(chunks: Array<{ chunkIndex: number; heading?: string; text: string }>): string {
+    const merged = [...chunks]
+        .sort((a, b) => a.chunkIndex - b.chunkIndex)
+        .map((chunk) => formatChunkForContext(chunk))
+        .join(" ... ");
     if (merged.length <= KNOWLEDGE_MAX_CONTEXT) return merged;
     return `${merged.slice(0, KNOWLEDGE_MAX_CONTEXT)}...`;
 }
 
-function titleOverlapBoost(title: string, query: string): number {
-    const titleTokens = new Set(tokenize(title));
+// Lexical path: chunks the stored text on the fly and keeps the chunks sharing the most query terms.
+function buildKnowledgeSnippet(text: string, query: string): string {
+    const chunks = chunkKnowledgeText(text);
+    if (chunks.length === 0) return "";
+    if (chunks.length === 1) return compactSnippet(chunks[0].text);
+
     const queryTokens = tokenize(query);
-    if (titleTokens.size === 0 || queryTokens.length === 0) return 0;
-    const overlap = queryTokens.filter((t) => titleTokens.has(t)).length;
-    if (overlap === 0) return 0;
-    return Math.min(0.55, overlap * 0.18);
+    const best = chunks
+        .map((chunk) => ({ chunk, overlap: tokenOverlap(`${chunk.heading ?? ""} ${chunk.text}`, queryTokens) }))
+        .sort((a, b) => b.overlap - a.overlap || a.chunk.index - b.chunk.index)
+        .slice(0, KNOWLEDGE_CHUNKS_PER_ENTRY)
+        .map(({ chunk }) => ({ chunkIndex: chunk.index, heading: chunk.heading, text: chunk.text }));
+    return joinKnowledgeChunks(best);
 }
 
 function tokenize(text: string): string[] {
@@ -146,6 +152,31 @@ export const fetchKnowledgeByIds = internalQuery({
     },
 });
 
+/**
+ * internal:tools:knowledge:fetchKnowledgeChunksByIds
+ */
+export const fetchKnowledgeChunksByIds = internalQuery({
+    args: {
+        ids: v.array(v.id("knowledgeChunks")),
+    },
+    handler: async (ctx, args) => {
+        const chunks = await Promise.all(args.ids.map((id) => ctx.db.get("knowledgeChunks", id)));
+        return chunks
+            .filter((chunk) => chunk !== null)
+            .map((chunk) => ({
+                _id: chunk._id,
+                knowledgeId: chunk.knowledgeId,
+                departmentId: chunk.departmentId,
+                orgId: chunk.orgId,
+                chunkIndex: chunk.chunkIndex,
+                heading: chunk.heading,
+                text: chunk.text,
+                embeddingModel: chunk.embeddingModel,
+                embeddingModelB: chunk.embeddingModelB,
+            }));
+    },
+});
+
 /**
  * internal:tools:knowledge:fetchTasksByIds
  */
@@ -177,15 +208,238 @@ export const listKnowledgeByDepartment = internalQuery({
     },
 });
 
+/**
+ * internal:tools:knowledge:getKnowledgeVisibility
+ * Knowledge the department (and, with `agentSessionKey`, the agent's collections) can read.
+ */
+export const getKnowledgeVisibility = internalQuery({
+    args: {
+        departmentId: v.id("departments"),
+        agentSessionKey: v.optional(v.string()),
+    },
+    handler: async (ctx, args): Promise<KnowledgeVisibility> => {
+        const department = await ctx.db.get("departments", args.departmentId);
+        const agent = args.agentSessionKey
+            ? await ctx.db
+                .query("agents")
+                .withIndex("by_dept_sessionKey", (q) =>
+                    q.eq("departmentId", args.departmentId).eq("sessionKey", args.agentSessionKey!)
+                )
+                .first()
+            : null;
+        const departmentRows = await ctx.db
+            .query("knowledgeBase")
+            .withIndex("by_department_createdAt", (q) => q.eq("departmentId", args.departmentId))
+            .collect();
+
+        return {
+            departmentId: args.departmentId,
+            orgId: department?.orgId,
+            collectionIds: (agent?.knowledgeCollectionIds ?? []).slice(0, MAX_AGENT_COLLECTIONS),
+            overriddenIds: departmentRows.flatMap((row) => (row.overridesKnowledgeId ? [row.overridesKnowledgeId] : [])),
+        };
+    },
+});
+
+// Merges per-scope result lists rank by rank, so no scope crowds out the others.
+function interleave<T>(lists: T[][]): T[] {
+    const merged: T[] = [];
+    const longest = Math.max(0, ...lists.map((list) => list.length));
+    for (let rank = 0; rank < longest; rank++) {
+        for (const list of lists) {
+            if (rank < list.length) merged.push(list[rank]);
+        }
+    }
+    return merged;
+}
+
+/**
+ * internal:tools:knowledge:lexicalSearch
+ * Full-text matches for exact terms (SKUs, ticket IDs) that embeddings miss.
+ * Knowledge is searched once per scope: the department, the organization and
+ * each collection the agent reads.
+ */
+export const lexicalSearch = internalQuery({
+    args: {
+        departmentId: v.id("departments"),
+        orgId: v.optional(v.id("organizations")),
+        collectionIds: v.optional(v.array(v.id("knowledgeCollections"))),
+        query: v.string(),
+        limit: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const orgId = args.orgId;
+        const collectionIds = args.collectionIds ?? [];
+        const [departmentChunks, orgChunks, collectionChunks, departmentTitles, orgTitles, collectionTitles, assets, tasks] = await Promise.all([
+            ctx.db
+                .query("knowledgeChunks")
+                .withSearchIndex("search_text", (q) => q.search("text", args.query).eq("departmentId", args.departmentId))
+                .take(args.limit * 2),
+            orgId
+                ? ctx.db
+                    .query("knowledgeChunks")
+                    .withSearchIndex("search_text", (q) => q.search("text", args.query).eq("sharedOrgId", orgId))
+                    .take(args.limit * 2)
+                : Promise.resolve([]),
+            Promise.all(
+                collectionIds.map((collectionId) =>
+                    ctx.db
+                        .query("knowledgeChunks")
+                        .withSearchIndex("search_text", (q) => q.search("text", args.query).eq("collectionId", collectionId))
+                        .take(args.limit)
+                )
+            ),
+            ctx.db
+                .query("knowledgeBase")
+                .withSearchIndex("search_title", (q) => q.search("title", args.query).eq("departmentId", args.departmentId))
+                .take(args.limit),
+            orgId
+                ? ctx.db
+                    .query("knowledgeBase")
+                    .withSearchIndex("search_title", (q) => q.search("title", args.query).eq("orgId", orgId).eq("scope", "org"))
+                    .take(args.limit)
+                : Promise.resolve([]),
+            Promise.all(
+                collectionIds.map((collectionId) =>
+                    ctx.db
+                        .query("knowledgeBase")
+                        .withSearchIndex("search_title", (q) => q.search("title", args.query).eq("collectionId", collectionId))
+                        .take(args.limit)
+                )
+            ),
+            ctx.db
+                .query("aiAssets")
+                .withSearchIndex("search_content", (q) => q.search("content", args.query).eq("departmentId", args.departmentId))
+                .take(args.limit),
+            ctx.db
+                .query("tasks")
+                .withSearchIndex("search_title", (q) => q.search("title", args.query).eq("departmentId", args.departmentId))
+                .take(args.limit),
+        ]);
+        const chunks = interleave([departmentChunks, orgChunks, ...collectionChunks]);
+        const knowledgeTitles = Array.from(
+            new Map(interleave([departmentTitles, orgTitles, ...collectionTitles]).map((row) => [row._id, row])).values()
+        );
+        return {
+            chunks: chunks.map((chunk) => ({
+                _id: chunk._id,
+                knowledgeId: chunk.knowledgeId,
+                chunkIndex: chunk.chunkIndex,
+                heading: chunk.heading,
+                text: chunk.text,
+            })),
+            knowledgeIds: knowledgeTitles.map((row) => row._id),
+            assetIds: assets.map((doc) => doc._id),
+            taskIds: tasks.map((task) => task._id),
+        };
+    },
+});
+
+type MemoryKind = "knowledge" | "asset" | "task";
+
+type MemoryCandidate = {
+    kind: MemoryKind;
+    id: string;
+    title: string;
+    snippet: string;
+    date: number;
+    // Task that produced an asset, for citation links.
+    taskId?: string;
+    score: number;
+    matchedBy: Set<string>;
+};
+
+type RankedList = {
+    kind: MemoryKind;
+    // "vector", "keyword" or "title"; reported back so agents can tell exact matches apart.
+    signal: string;
+    ids: string[];
+};
+
+type ChunkMatch = { _id: string; knowledgeId: string; chunkIndex: number; heading?: string; text: string };
+
+// Chunk matches in rank order, grouped under their entry (first occurrence wins the entry's rank).
+function groupChunksByEntry(chunks: ChunkMatch[]): Map<string, ChunkMatch[]> {
+    const grouped = new Map<string, ChunkMatch[]>();
+    for (const chunk of chunks) {
+        const key = String(chunk.knowledgeId);
+        grouped.set(key, [...(grouped.get(key) ?? []), chunk]);
+    }
+    return grouped;
+}
+
+function recencyFactor(date: number, now: number): number {
+    const ageDays = Math.max(0, now - date) / (24 * 60 * 60 * 1000);
+    return 1 - RECENCY_WEIGHT + RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Asks a small model to order the top fused candidates. Candidates it leaves out
+ * keep their fused order after the ranked ones; any failure keeps the fused order.
+ */
+async function rerankCandidates(
+    ctx: ActionCtx,
+    llm: LlmCredentials,
+    departmentId: Id<"departments">,
+    query: string,
+    candidates: MemoryCandidate[]
+): Promise<MemoryCandidate[]> {
+    const pool = candidates.slice(0, RERANK_CANDIDATES);
+    const listing = pool
+        .map((candidate, idx) => `[${idx}] (${candidate.kind}) ${candidate.title}\n${candidate.snippet.slice(0, RERANK_SNIPPET_CHARS)}`)
+        .join("\n\n");
+
+    try {
+        const result = await chatWithProvider({
+            provider: llm.provider,
+            apiKey: llm.apiKey,
+            model: ECONOMY_CHAT_MODELS[llm.provider],
+            temperature: 0,
+            systemPrompt:
+                'You rank search results by how well they answer the query. Reply with only JSON {"ranking": [result numbers, most relevant first]} and leave out irrelevant results.',
+            messages: [{ role: "user", content: `Query: ${query}\n\nResults:\n${listing}` }],
+        });
+        await recordUsage(ctx, {
+            departmentId,
+            kind: "chat",
+            source: "tools.searchKnowledge.rerank",
+            provider: llm.provider,
+            model: result.model,
+            inputTokens: result.usage.inputTokens,
+            outputTokens: result.usage.outputTokens,
+        });
+
+        const json = result.content.match(/\{[\s\S]*\}/)?.[0] ?? "{}";
+        const parsed = JSON.parse(json);
+        const ranking: number[] = Array.isArray(parsed?.ranking)
+            ? parsed.ranking.filter((n: unknown): n is number => Number.isInteger(n) && (n as number) >= 0 && (n as number) < pool.length)
+            : [];
+        if (ranking.length === 0) return candidates;
+
+        const ranked = Array.from(new Set(ranking)).map((idx) => pool[idx]);
+        const rankedSet = new Set(ranked);
+        for (const candidate of ranked) candidate.matchedBy.add("rerank");
+        return [...ranked, ...candidates.filter((candidate) => !rankedSet.has(candidate))];
+    } catch (error: any) {
+        console.warn("[search_knowledge] rerank failed, keeping fused order:", error?.message || error);
+        return candidates;
+    }
+}
+
 /**
  * internal:tools:knowledge:searchKnowledge
- * Searches long-term memory across knowledgeBase, aiAssets and tasks.
+ * Hybrid search over knowledgeBase (per chunk), aiAssets and tasks: vector and
+ * full-text rankings are fused with reciprocal-rank fusion, decayed by age and
+ * optionally reranked by an LLM.
  */
 export const searchKnowledge = internalAction({
     args: {
         departmentId: v.id("departments"),
+        // Calling agent; its knowledge collections join the search.
+        agentSessionKey: v.optional(v.string()),
         query: v.string(),
         limit: v.optional(v.number()),
+        rerank: v.optional(v.boolean()),
     },
     handler: async (ctx, args) => {
         const limit = clampLimit(args.limit);
@@ -201,171 +455,235 @@ export const searchKnowledge = internalAction({
         });
         if (!department) throw new Error("Department not found.");
 
-        const integration: any = await ctx.runQuery(internal.integrations.getByTypeForDepartment, {
+        // Rerank uses whichever chat provider the department (or the environment) has a key for.
+        const rerankLlm = args.rerank
+            ? await resolveLlmCredentials(ctx, args.departmentId).catch(() => null)
+            : null;
+
+        const visibility: KnowledgeVisibility = await ctx.runQuery(internal.tools.knowledge.getKnowledgeVisibility, {
             departmentId: args.departmentId,
-            type: "openai",
+            agentSessionKey: args.agentSessionKey,
         });
-        const apiKey = integration?.config?.key || integration?.config?.token;
+        const sharedOrgId = visibility.orgId;
 
+        const listLimit = Math.min(limit * 4, 40);
+        const lexical = await ctx.runQuery(internal.tools.knowledge.lexicalSearch, {
+            departmentId: args.departmentId,
+            orgId: sharedOrgId,
+            collectionIds: visibility.collectionIds,
+            query: queryText.split(/\s+/).slice(0, MAX_SEARCH_TERMS).join(" "),
+            limit: listLimit,
+        });
+
+        let chunkHits: any[] = [];
         let knowledgeHits: any[] = [];
         let assetHits: any[] = [];
         let taskHits: any[] = [];
 
-        if (apiKey) {
-            try {
-                const openai = new OpenAI({ apiKey });
-                const embeddingResponse = await openai.embeddings.create({
-                    model: EMBEDDING_MODEL,
-                    input: queryText,
-                });
-                const queryEmbedding = embeddingResponse.data[0]?.embedding;
-                if (queryEmbedding) {
-                    [knowledgeHits, assetHits, taskHits] = await Promise.all([
-                        ctx.vectorSearch("knowledgeBase", "by_embedding", {
-                            vector: queryEmbedding,
-                            limit: Math.min(limit * 4, 40),
-                            filter: (q) => q.eq("departmentId", args.departmentId),
-                        }),
-                        ctx.vectorSearch("aiAssets", "by_embedding", {
-                            vector: queryEmbedding,
-                            limit: Math.min(limit * 3, 30),
-                            filter: (q) => q.eq("departmentId", args.departmentId),
-                        }),
-                        ctx.vectorSearch("tasks", "by_embedding", {
-                            vector: queryEmbedding,
-                            limit: Math.min(limit * 3, 30),
-                            filter: (q) => q.eq("departmentId", args.departmentId),
-                        }),
-                    ]);
-                }
-            } catch (error: any) {
-                console.warn("[search_knowledge] embedding/vector path failed, using lexical fallback only:", error?.message || error);
+        // Searches read the department's active slot; vectors there from another model
+        // (org-shared chunks, rows not migrated yet) are not comparable and are dropped below.
+        let embeddingModel: string | undefined;
+        let embeddingSlot: EmbeddingSlot = "a";
+        try {
+            const query = await embedQuery(ctx, queryText, {
+                departmentId: args.departmentId,
+                agentSessionKey: args.agentSessionKey,
+                source: "tools.searchKnowledge",
+            });
+            if (query) {
+                embeddingModel = query.model;
+                embeddingSlot = query.slot;
+                const queryEmbedding = query.embedding;
+                const index = EMBEDDING_SLOT_INDEXES[query.slot];
+                [chunkHits, knowledgeHits, assetHits, taskHits] = await Promise.all([
+                    ctx.vectorSearch("knowledgeChunks", index, {
+                        vector: queryEmbedding,
+                        limit: Math.min(limit * 8, 80),
+                        filter: (q) =>
+                            q.or(
+                                q.eq("departmentId", args.departmentId),
+                                ...(sharedOrgId ? [q.eq("sharedOrgId", sharedOrgId)] : []),
+                                ...visibility.collectionIds.map((collectionId) => q.eq("collectionId", collectionId))
+                            ),
+                    }),
+                    // Entries not yet split into chunks still carry a whole-document embedding (slot "a" only).
+                    query.slot === "a"
+                        ? ctx.vectorSearch("knowledgeBase", "by_embedding", {
+                              vector: queryEmbedding,
+                              limit: listLimit,
+                              filter: (q) => q.eq("departmentId", args.departmentId),
+                          })
+                        : Promise.resolve([]),
+                    ctx.vectorSearch("aiAssets", index, {
+                        vector: queryEmbedding,
+                        limit: Math.min(limit * 3, 30),
+                        filter: (q) => q.eq("departmentId", args.departmentId),
+                    }),
+                    ctx.vectorSearch("tasks", index, {
+                        vector: queryEmbedding,
+                        limit: Math.min(limit * 3, 30),
+                        filter: (q) => q.eq("departmentId", args.departmentId),
+                    }),
+                ]);
             }
+        } catch (error: any) {
+            console.warn("[search_knowledge] embedding/vector path failed, using full-text ranking only:", error?.message || error);
         }
 
-        const docs: any[] = await ctx.runQuery(internal.tools.knowledge.fetchDocumentsByIds, {
-            ids: assetHits.map((hit) => hit._id),
-        });
-        const knowledgeRows: any[] = await ctx.runQuery(internal.tools.knowledge.fetchKnowledgeByIds, {
-            ids: knowledgeHits.map((hit) => hit._id),
-        });
-        const tasks: any[] = await ctx.runQuery(internal.tools.knowledge.fetchTasksByIds, {
-            ids: taskHits.map((hit) => hit._id),
-        });
-
-        const docById = new Map(docs.map((doc) => [doc._id, doc]));
-        const kbById = new Map(knowledgeRows.map((row) => [row._id, row]));
-        const taskById = new Map(tasks.map((task) => [task._id, task]));
+        // Vector chunk hits come back by score; legacy whole-document hits are merged in by score.
+        const chunkScoreById = new Map(chunkHits.map((hit) => [String(hit._id), hit._score as number]));
+        const vectorChunks: ChunkMatch[] = (
+            await ctx.runQuery(internal.tools.knowledge.fetchKnowledgeChunksByIds, {
+                ids: chunkHits.map((hit) => hit._id),
+            })
+        )
+            .filter((chunk: any) => isSlotEmbeddingCurrent(chunk, embeddingSlot, embeddingModel))
+            .map((chunk: any) => ({ ...chunk, _id: String(chunk._id), knowledgeId: String(chunk.knowledgeId) }))
+            .sort((a: ChunkMatch, b: ChunkMatch) => (chunkScoreById.get(b._id) ?? 0) - (chunkScoreById.get(a._id) ?? 0));
+        const keywordChunks: ChunkMatch[] = lexical.chunks.map((chunk) => ({
+            ...chunk,
+            _id: String(chunk._id),
+            knowledgeId: String(chunk.knowledgeId),
+        }));
+        const vectorChunksByEntry = groupChunksByEntry(vectorChunks);
+        const keywordChunksByEntry = groupChunksByEntry(keywordChunks);
+
+        const knowledgeVectorRanking = [
+            ...Array.from(vectorChunksByEntry.keys()).map((id) => ({ id, score: chunkScoreById.get(vectorChunksByEntry.get(id)![0]._id) ?? 0 })),
+            ...knowledgeHits.map((hit) => ({ id: String(hit._id), score: hit._score as number })),
+        ].sort((a, b) => b.score - a.score);
+
+        const rankedLists: RankedList[] = [
+            { kind: "knowledge", signal: "vector", ids: knowledgeVectorRanking.map((hit) => hit.id) },
+            { kind: "knowledge", signal: "keyword", ids: Array.from(keywordChunksByEntry.keys()) },
+            { kind: "knowledge", signal: "title", ids: lexical.knowledgeIds.map(String) },
+            { kind: "asset", signal: "vector", ids: assetHits.map((hit) => String(hit._id)) },
+            { kind: "asset", signal: "keyword", ids: lexical.assetIds.map(String) },
+            { kind: "task", signal: "vector", ids: taskHits.map((hit) => String(hit._id)) },
+            { kind: "task", signal: "title", ids: lexical.taskIds.map(String) },
+        ];
+
+        const idsOfKind = (kind: MemoryKind) =>
+            Array.from(new Set(rankedLists.filter((list) => list.kind === kind).flatMap((list) => list.ids)));
+        const [knowledgeRows, docs, tasks]: any[][] = await Promise.all([
+            ctx.runQuery(internal.tools.knowledge.fetchKnowledgeByIds, {
+                ids: idsOfKind("knowledge") as Id<"knowledgeBase">[],
+            }),
+            ctx.runQuery(internal.tools.knowledge.fetchDocumentsByIds, {
+                ids: idsOfKind("asset") as Id<"aiAssets">[],
+            }),
+            ctx.runQuery(internal.tools.knowledge.fetchTasksByIds, {
+                ids: idsOfKind("task") as Id<"tasks">[],
+            }),
+        ]);
+        const rowsByKind: Record<MemoryKind, Map<string, any>> = {
+            knowledge: new Map(knowledgeRows.map((row) => [String(row._id), row])),
+            asset: new Map(docs.map((doc) => [String(doc._id), doc])),
+            task: new Map(tasks.map((task) => [String(task._id), task])),
+        };
 
         const orgId = department.orgId;
 
-        const memoryRows: Array<{
-            kind: "knowledge" | "asset" | "task";
-            id: string;
-            title: string;
-            snippet: string;
-            date: number;
-            score: number;
-        }> = [];
-
-        for (const hit of knowledgeHits) {
-            const row = kbById.get(hit._id);
-            if (!row) continue;
-            if (row.departmentId !== args.departmentId) continue;
-            if (orgId && row.orgId && row.orgId !== orgId) continue;
-            memoryRows.push({
-                kind: "knowledge",
-                id: String(row._id),
-                title: row.title || "Untitled knowledge",
-                snippet: buildKnowledgeSnippet(String(row.text || ""), queryText),
-                date: row.updatedAt || row.createdAt || row._creationTime || Date.now(),
-                // Boost knowledge base so factual docs are prioritized.
-                score: hit._score + 0.2 + titleOverlapBoost(String(row.title ?? ""), queryText),
-            });
-        }
+        const describe = (kind: MemoryKind, id: string, row: any): Omit<MemoryCandidate, "score" | "matchedBy"> => {
+            if (kind === "knowledge") {
+                // Best vector chunk, then best keyword chunk, then the runners-up.
+                const matched = [
+                    ...(vectorChunksByEntry.get(id) ?? []).slice(0, 1),
+                    ...(keywordChunksByEntry.get(id) ?? []).slice(0, 1),
+                    ...(vectorChunksByEntry.get(id) ?? []).slice(1),
+                    ...(keywordChunksByEntry.get(id) ?? []).slice(1),
+                ];
+                const picked = Array.from(new Map(matched.map((chunk) => [chunk._id, chunk])).values()).slice(
+                    0,
+                    KNOWLEDGE_CHUNKS_PER_ENTRY
+                );
+                return {
+                    kind,
+                    id,
+                    title: row.title || "Untitled knowledge",
+                    snippet: picked.length > 0 ? joinKnowledgeChunks(picked) : buildKnowledgeSnippet(String(row.text || ""), queryText),
+                    date: row.updatedAt || row.createdAt || row._creationTime || Date.now(),
+                };
+            }
+            if (kind === "asset") {
+                return {
+                    kind,
+                    id,
+                    title: row.title || "Untitled document",
+                    snippet: extractQuerySnippet(String(row.content || ""), queryText),
+                    date: row.createdAt || row._creationTime || Date.now(),
+                    taskId: row.taskId ? String(row.taskId) : undefined,
+                };
+            }
+            return {
+                kind,
+                id,
+                title: row.title || "Untitled task",
+                snippet: extractQuerySnippet(String(row.description || ""), queryText),
+                date: row.createdAt || row._creationTime || Date.now(),
+            };
+        };
 
-        for (const hit of assetHits) {
-            const doc = docById.get(hit._id);
-            if (!doc) continue;
-            if (doc.departmentId !== args.departmentId) continue;
-            if (orgId && doc.orgId && doc.orgId !== orgId) continue;
-            memoryRows.push({
-                kind: "asset",
-                id: String(doc._id),
-                title: doc.title || "Untitled document",
-                snippet: extractQuerySnippet(String(doc.content || ""), queryText),
-                date: doc.createdAt || doc._creationTime || Date.now(),
-                score: hit._score,
-            });
-        }
+        const candidates = new Map<string, MemoryCandidate>();
+        for (const list of rankedLists) {
+            list.ids.forEach((id, rank) => {
+                const row = rowsByKind[list.kind].get(id);
+                if (!row) return;
+                if (list.signal === "vector" && !isSlotEmbeddingCurrent(row, embeddingSlot, embeddingModel)) return;
+                if (list.kind === "knowledge") {
+                    if (!isKnowledgeVisible(row, visibility)) return;
+                } else {
+                    if (row.departmentId !== args.departmentId) return;
+                    if (orgId && row.orgId && row.orgId !== orgId) return;
+                }
 
-        for (const hit of taskHits) {
-            const task = taskById.get(hit._id);
-            if (!task) continue;
-            if (task.departmentId !== args.departmentId) continue;
-            if (orgId && task.orgId && task.orgId !== orgId) continue;
-            memoryRows.push({
-                kind: "task",
-                id: String(task._id),
-                title: task.title || "Untitled task",
-                snippet: extractQuerySnippet(String(task.description || ""), queryText),
-                date: task.createdAt || task._creationTime || Date.now(),
-                score: hit._score,
+                const key = `${list.kind}:${id}`;
+                const candidate = candidates.get(key) ?? { ...describe(list.kind, id, row), score: 0, matchedBy: new Set<string>() };
+                candidate.score += SOURCE_WEIGHTS[list.kind] / (RRF_K + rank + 1);
+                candidate.matchedBy.add(list.signal);
+                candidates.set(key, candidate);
             });
         }
 
-        const lexicalKnowledge: any[] = await ctx.runQuery(internal.tools.knowledge.listKnowledgeByDepartment, {
-            departmentId: args.departmentId,
-            limit: 200,
-        });
-        const queryTokens = tokenize(queryText);
-        for (const row of lexicalKnowledge) {
-            const title = String(row.title ?? "");
-            const text = String(row.text ?? "");
-            const source = `${title}\n${text}`;
-            const sourceTokens = new Set(tokenize(source));
-            const overlap = queryTokens.filter((token) => sourceTokens.has(token)).length;
-            const minOverlap = queryTokens.length <= 4 ? 1 : 2;
-            if (overlap < minOverlap) continue;
-            memoryRows.push({
-                kind: "knowledge",
-                id: String(row._id),
-                title: title || "Untitled knowledge",
-                snippet: buildKnowledgeSnippet(text, queryText),
-                date: row.updatedAt || row.createdAt || row._creationTime || Date.now(),
-                score: 0.1 + overlap * 0.03 + titleOverlapBoost(title, queryText),
-            });
-        }
+        const now = Date.now();
+        let ranked = Array.from(candidates.values())
+            .map((candidate) => ({ ...candidate, score: candidate.score * recencyFactor(candidate.date, now) }))
+            .sort((a, b) => b.score - a.score);
 
-        const deduped = new Map<string, typeof memoryRows[number]>();
-        for (const row of memoryRows) {
-            const key = `${row.kind}:${row.id}`;
-            const current = deduped.get(key);
-            if (!current || row.score > current.score) {
-                deduped.set(key, row);
-            }
+        if (rerankLlm && ranked.length > 1) {
+            ranked = await rerankCandidates(ctx, rerankLlm, args.departmentId, queryText, ranked);
         }
 
-        const mergedRows = Array.from(deduped.values());
-        if (mergedRows.length === 0 && lexicalKnowledge.length > 0) {
-            for (const row of lexicalKnowledge.slice(0, limit)) {
-                mergedRows.push({
-                    kind: "knowledge",
-                    id: String(row._id),
-                    title: String(row.title ?? "Untitled knowledge"),
-                    snippet: buildKnowledgeSnippet(String(row.text ?? ""), queryText),
-                    date: row.updatedAt || row.createdAt || row._creationTime || Date.now(),
-                    score: 0.01,
+        if (ranked.length === 0) {
+            const recentKnowledge: any[] = await ctx.runQuery(internal.tools.knowledge.listKnowledgeByDepartment, {
+                departmentId: args.departmentId,
+                limit,
+            });
+            for (const row of recentKnowledge) {
+                if (!isKnowledgeVisible(row, visibility)) continue;
+                ranked.push({
+                    ...describe("knowledge", String(row._id), row),
+                    score: 0,
+                    matchedBy: new Set(["recent"]),
                 });
             }
         }
-        mergedRows.sort((a, b) => b.score - a.score);
-        const memories = mergedRows.slice(0, limit);
+
+        const memories = ranked.slice(0, limit).map((candidate) => ({
+            kind: candidate.kind,
+            id: candidate.id,
+            title: candidate.title,
+            snippet: candidate.snippet,
+            date: candidate.date,
+            taskId: candidate.taskId,
+            score: candidate.score,
+            matchedBy: Array.from(candidate.matchedBy),
+        }));
 
         return {
             query: queryText,
             memories,
-            totalCandidates: mergedRows.length,
+            totalCandidates: ranked.length,
             timestamp: Date.now(),
         };
     },
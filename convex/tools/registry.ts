@@ -0,0 +1,239 @@
+import { internal } from "../_generated/api";
+import type { ActionCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import type { LlmToolDefinition } from "../lib/llmProviders";
+import { TOOL_REGISTRY, getToolSpec, isToolPermitted, normalizeToolArgs, toLlmToolDefinition } from "../lib/toolRegistry";
+
+export type ToolRunContext = {
+    ctx: ActionCtx;
+    departmentId: Id<"departments">;
+    taskId: Id<"tasks">;
+    agentSessionKey: string;
+};
+
+export type ToolHandler = (run: ToolRunContext, args: Record<string, any>) => Promise<any>;
+
+/**
+ * Executable side of the tool registry. Specs (schema, integrations, plan tier)
+ * live in lib/toolRegistry so the UI can read them; this map binds each spec to
+ * the action in convex/tools/* that implements it. Args arrive already normalized.
+ */
+const TOOL_HANDLERS: Record<string, ToolHandler> = {
+    web_search: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.search.webSearch, { departmentId, query: args.query }),
+
+    search_upwork_jobs: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.upwork.searchJobs, {
+            departmentId,
+            query: args.query,
+            limit: args.limit,
+        }),
+
+    send_email: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.email.sendEmail, {
+            departmentId,
+            to: args.to,
+            subject: args.subject,
+            body: args.body,
+        }),
+
+    search_knowledge: async ({ ctx, departmentId, agentSessionKey }, args) =>
+        await ctx.runAction(internal.tools.knowledge.searchKnowledge, {
+            departmentId,
+            agentSessionKey,
+            query: args.query,
+            limit: args.limit ?? 5,
+            rerank: args.rerank === true,
+        }),
+
+    remember: async ({ ctx, departmentId, taskId, agentSessionKey }, args) =>
+        await ctx.runAction(internal.tools.agentMemory.remember, {
+            departmentId,
+            taskId,
+            agentSessionKey,
+            content: args.content ?? "",
+            scope: args.scope,
+            expiresInDays: args.expiresInDays,
+        }),
+
+    forget: async ({ ctx, departmentId, agentSessionKey }, args) =>
+        await ctx.runAction(internal.tools.agentMemory.forget, {
+            departmentId,
+            agentSessionKey,
+            memoryId: args.memoryId,
+            query: args.query,
+        }),
+
+    generate_image: async ({ ctx, departmentId, taskId, agentSessionKey }, args) => {
+        let prompt: string = args.prompt ?? "";
+        if (!prompt.trim()) {
+            const taskPromptFallback = await ctx.runQuery(internal.brain.getTaskPromptFallback, {
+                departmentId,
+                taskId,
+            });
+            prompt = taskPromptFallback?.prompt ?? "";
+        }
+        if (!prompt.trim()) {
+            throw new Error("Tool 'generate_image' requires a non-empty 'prompt' string (and task context fallback was empty).");
+        }
+
+        return await ctx.runAction(internal.tools.image.generateImage, {
+            departmentId,
+            taskId,
+            createdBySessionKey: agentSessionKey,
+            prompt,
+            size: args.size,
+            quality: args.quality,
+            style: args.style,
+        });
+    },
+
+    create_github_issue: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.github.createGithubIssue, {
+            departmentId,
+            owner: args.owner,
+            repo: args.repo,
+            title: args.title,
+            body: args.body,
+            labels: args.labels,
+        }),
+
+    create_pull_request: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.github.createPullRequest, {
+            departmentId,
+            owner: args.owner,
+            repo: args.repo,
+            title: args.title,
+            head: args.head,
+            base: args.base,
+            body: args.body,
+            draft: args.draft,
+        }),
+
+    create_notion_page: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.notion.createNotionPage, {
+            departmentId,
+            parentPageId: args.parentPageId,
+            title: args.title,
+            content: args.content,
+        }),
+
+    post_to_x: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.social.postToX, {
+            departmentId,
+            text: args.text,
+            replyToId: args.replyToId,
+        }),
+
+    delegate_task: async ({ ctx, departmentId, taskId, agentSessionKey }, args) =>
+        await ctx.runAction(internal.tools.delegation.delegateTask, {
+            departmentId,
+            parentTaskId: taskId,
+            delegatorSessionKey: agentSessionKey,
+            title: args.title,
+            description: args.description,
+            assignees: args.assignees,
+            instruction: args.instruction,
+            priority: args.priority,
+            tags: args.tags,
+            dependsOn: args.dependsOn,
+        }),
+
+    update_task_status: async ({ ctx, departmentId, taskId, agentSessionKey }, args) =>
+        await ctx.runAction(internal.tools.delegation.updateTaskStatus, {
+            departmentId,
+            taskId,
+            bySessionKey: agentSessionKey,
+            status: args.status,
+            summary: args.summary,
+        }),
+
+    list_emails: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmail.list_emails, { departmentId, limit: args.limit }),
+
+    get_email_details: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmail.get_email_details, { departmentId, emailId: args.emailId }),
+
+    search_emails: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmail.search_emails, {
+            departmentId,
+            query: args.query,
+            limit: args.limit,
+        }),
+
+    gmail_list_inbox: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailListInbox, {
+            departmentId,
+            q: args.q,
+            maxResults: args.maxResults,
+            pageToken: args.pageToken,
+        }),
+
+    gmail_get_message: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailGetMessage, {
+            departmentId,
+            messageId: args.messageId,
+            format: args.format,
+        }),
+
+    gmail_list_labels: async ({ ctx, departmentId }) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailListLabels, { departmentId }),
+
+    gmail_get_capabilities: async ({ ctx, departmentId }) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailGetCapabilities, { departmentId }),
+
+    gmail_send_email: async ({ ctx, departmentId }, args) => {
+        if (!args.text?.trim() && !args.html?.trim()) {
+            throw new Error("Tool 'gmail_send_email' requires 'to', 'subject', and at least one of 'text' or 'html'.");
+        }
+        return await ctx.runAction(internal.tools.gmailTools.gmailSendEmail, {
+            departmentId,
+            to: args.to,
+            subject: args.subject,
+            text: args.text,
+            html: args.html,
+            cc: args.cc,
+            bcc: args.bcc,
+            replyTo: args.replyTo,
+            threadId: args.threadId,
+        });
+    },
+
+    gmail_mark_read: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailMarkRead, { departmentId, messageId: args.messageId }),
+
+    gmail_mark_unread: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailMarkUnread, { departmentId, messageId: args.messageId }),
+
+    gmail_archive_message: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailArchiveMessage, { departmentId, messageId: args.messageId }),
+
+    gmail_unarchive_message: async ({ ctx, departmentId }, args) =>
+        await ctx.runAction(internal.tools.gmailTools.gmailUnarchiveMessage, { departmentId, messageId: args.messageId }),
+};
+
+export function isExecutableTool(toolName: string): boolean {
+    return Boolean(TOOL_HANDLERS[toolName] && getToolSpec(toolName));
+}
+
+/**
+ * Function definitions for every executable tool the agent is allowed to call.
+ */
+export function listExecutableToolDefinitions(allowedTools?: string[]): LlmToolDefinition[] {
+    return Object.values(TOOL_REGISTRY)
+        .filter((spec) => isExecutableTool(spec.name) && isToolPermitted(spec.name, allowedTools))
+        .map(toLlmToolDefinition);
+}
+
+export async function runRegisteredTool(
+    run: ToolRunContext,
+    toolName: string,
+    rawArgs: Record<string, any>
+): Promise<any> {
+    const spec = getToolSpec(toolName);
+    const handler = TOOL_HANDLERS[toolName];
+    if (!spec || !handler) {
+        throw new Error(`Unknown tool '${toolName}'.`);
+    }
+    return await handler(run, normalizeToolArgs(spec, rawArgs));
+}
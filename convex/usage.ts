@@ -0,0 +1,265 @@
+import { internalMutation, query, type ActionCtx, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+    requireAuthenticatedUser,
+    requireDepartmentOrgMembership,
+    requireOrgMembership,
+} from "./lib/orgAuthorization";
+import { bumpUsageCounters } from "./lib/usageCounters";
+import { estimateUsageCost, type UsageKind } from "./lib/usagePricing";
+
+// Rollups read at most this many ledger rows per window.
+const MAX_ROLLUP_ENTRIES = 10_000;
+
+export const usageKindValidator = v.union(v.literal("chat"), v.literal("embedding"), v.literal("image"));
+
+export type UsageEntry = {
+    departmentId: Id<"departments">;
+    agentSessionKey?: string;
+    taskId?: Id<"tasks">;
+    kind: UsageKind;
+    source: string;
+    provider: string;
+    model: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    images?: number;
+    imageSize?: string;
+    imageQuality?: string;
+};
+
+/**
+ * Records one billable call from an action. Accounting never fails the call it
+ * describes, so errors are logged and swallowed.
+ */
+export async function recordUsage(ctx: ActionCtx, entry: UsageEntry): Promise<void> {
+    try {
+        await ctx.runMutation(internal.usage.record, entry);
+    } catch (error: unknown) {
+        console.warn("[usage] failed to record usage:", error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+ * internal:usage:record
+ */
+export const record = internalMutation({
+    args: {
+        departmentId: v.id("departments"),
+        agentSessionKey: v.optional(v.string()),
+        taskId: v.optional(v.id("tasks")),
+        kind: usageKindValidator,
+        source: v.string(),
+        provider: v.string(),
+        model: v.string(),
+        inputTokens: v.optional(v.number()),
+        outputTokens: v.optional(v.number()),
+        images: v.optional(v.number()),
+        imageSize: v.optional(v.string()),
+        imageQuality: v.optional(v.string()),
+        // Set by public callers; the entry is only recorded for members of the department's org.
+        actingUserId: v.optional(v.id("users")),
+    },
+    handler: async (ctx, args) => {
+        const department = await ctx.db.get("departments", args.departmentId);
+        if (!department) return null;
+        if (args.actingUserId) {
+            if (!department.orgId) return null;
+            await requireOrgMembership(ctx, args.actingUserId, department.orgId);
+        }
+
+        const costUsd = estimateUsageCost({
+            kind: args.kind,
+            model: args.model,
+            inputTokens: args.inputTokens,
+            outputTokens: args.outputTokens,
+            images: args.images,
+            imageSize: args.imageSize,
+            imageQuality: args.imageQuality,
+        });
+
+        if (department.orgId) {
+            await bumpUsageCounters(ctx, department.orgId, args.departmentId, {
+                llmTokens: (args.inputTokens ?? 0) + (args.outputTokens ?? 0),
+                costUsd: costUsd ?? 0,
+            });
+        }
+
+        return await ctx.db.insert("usageLedger", {
+            orgId: department.orgId,
+            departmentId: args.departmentId,
+            agentSessionKey: args.agentSessionKey,
+            taskId: args.taskId,
+            kind: args.kind,
+            source: args.source,
+            provider: args.provider,
+            model: args.model,
+            inputTokens: args.inputTokens ?? 0,
+            outputTokens: args.outputTokens ?? 0,
+            images: args.images ?? 0,
+            costUsd: costUsd ?? undefined,
+            createdAt: Date.now(),
+        });
+    },
+});
+
+type UsageTotals = {
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    costUsd: number;
+    entries: number;
+    unpricedEntries: number;
+};
+
+function emptyTotals(): UsageTotals {
+    return { inputTokens: 0, outputTokens: 0, images: 0, costUsd: 0, entries: 0, unpricedEntries: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: Doc<"usageLedger">): void {
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.images += entry.images;
+    totals.costUsd += entry.costUsd ?? 0;
+    totals.entries += 1;
+    if (entry.costUsd === undefined) totals.unpricedEntries += 1;
+}
+
+function groupEntries(
+    entries: Doc<"usageLedger">[],
+    keyOf: (entry: Doc<"usageLedger">) => string
+): Array<{ key: string } & UsageTotals> {
+    const groups = new Map<string, UsageTotals>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        const totals = groups.get(key) ?? emptyTotals();
+        addEntry(totals, entry);
+        groups.set(key, totals);
+    }
+    return Array.from(groups.entries())
+        .map(([key, totals]) => ({ key, ...totals }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+}
+
+function startOfCurrentMonthUtc(now = Date.now()): number {
+    const date = new Date(now);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+async function agentNamesForDepartments(
+    ctx: QueryCtx,
+    departmentIds: Id<"departments">[]
+): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const departmentId of departmentIds) {
+        const agents = await ctx.db
+            .query("agents")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", departmentId))
+            .collect();
+        for (const agent of agents) {
+            names.set(`${String(departmentId)}|${agent.sessionKey}`, agent.name);
+        }
+    }
+    return names;
+}
+
+function summarize(
+    entries: Doc<"usageLedger">[],
+    departmentNames: Map<string, string>,
+    agentNames: Map<string, string>
+) {
+    const totals = emptyTotals();
+    for (const entry of entries) addEntry(totals, entry);
+
+    return {
+        totals,
+        byDepartment: groupEntries(entries, (entry) => String(entry.departmentId)).map((group) => ({
+            ...group,
+            departmentId: group.key as Id<"departments">,
+            name: departmentNames.get(group.key) ?? group.key,
+        })),
+        byAgent: groupEntries(
+            entries,
+            (entry) => `${String(entry.departmentId)}|${entry.agentSessionKey ?? ""}`
+        ).map((group) => {
+            const [departmentId, agentSessionKey] = group.key.split("|");
+            return {
+                ...group,
+                agentSessionKey: agentSessionKey || null,
+                name: agentSessionKey ? agentNames.get(group.key) ?? agentSessionKey : null,
+                departmentName: departmentNames.get(departmentId) ?? departmentId,
+            };
+        }),
+        byModel: groupEntries(entries, (entry) => `${entry.provider}|${entry.model}`).map((group) => {
+            const [provider, model] = group.key.split("|");
+            return { ...group, provider, model };
+        }),
+    };
+}
+
+/**
+ * Org-wide usage rollup for Billing. Defaults to the current calendar month (UTC).
+ */
+export const orgRollup = query({
+    args: {
+        orgId: v.id("organizations"),
+        sinceTs: v.optional(v.float64()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireOrgMembership(ctx, userId, args.orgId);
+
+        const sinceTs = args.sinceTs ?? startOfCurrentMonthUtc();
+        const entries = await ctx.db
+            .query("usageLedger")
+            .withIndex("by_org_createdAt", (q) => q.eq("orgId", args.orgId).gte("createdAt", sinceTs))
+            .take(MAX_ROLLUP_ENTRIES);
+
+        const departments = await ctx.db
+            .query("departments")
+            .withIndex("by_orgId", (q) => q.eq("orgId", args.orgId))
+            .collect();
+        const departmentNames = new Map(departments.map((department) => [String(department._id), department.name]));
+        const agentNames = await agentNamesForDepartments(ctx, departments.map((department) => department._id));
+
+        return {
+            sinceTs,
+            truncated: entries.length >= MAX_ROLLUP_ENTRIES,
+            ...summarize(entries, departmentNames, agentNames),
+        };
+    },
+});
+
+/**
+ * Department usage rollup for the metrics panel.
+ */
+export const departmentRollup = query({
+    args: {
+        departmentId: v.id("departments"),
+        windowHours: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        const { department } = await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const windowHours = Math.max(1, Math.min(args.windowHours ?? 24, 24 * 90));
+        const sinceTs = Date.now() - windowHours * 60 * 60 * 1000;
+        const entries = await ctx.db
+            .query("usageLedger")
+            .withIndex("by_department_createdAt", (q) =>
+                q.eq("departmentId", args.departmentId).gte("createdAt", sinceTs)
+            )
+            .take(MAX_ROLLUP_ENTRIES);
+
+        const departmentNames = new Map([[String(department._id), department.name]]);
+        const agentNames = await agentNamesForDepartments(ctx, [department._id]);
+
+        return {
+            sinceTs,
+            truncated: entries.length >= MAX_ROLLUP_ENTRIES,
+            ...summarize(entries, departmentNames, agentNames),
+        };
+    },
+});
@@ -0,0 +1,153 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import {
+    requireAuthenticatedUser,
+    requireDepartmentOrgAdminMembership,
+    requireDepartmentOrgMembership,
+} from "./lib/orgAuthorization";
+import {
+    DEFAULT_WORKFLOW,
+    isPrimaryColumn,
+    validateWorkflow,
+    workflowColumnValidator,
+    workflowTransitionValidator,
+    type Workflow,
+} from "./lib/workflows";
+
+/**
+ * Per-department board workflow. Departments without a row use DEFAULT_WORKFLOW.
+ */
+export async function loadWorkflow(ctx: any, departmentId: Id<"departments">): Promise<Workflow> {
+    const row = await ctx.db
+        .query("workflows")
+        .withIndex("by_departmentId", (q: any) => q.eq("departmentId", departmentId))
+        .unique();
+    if (!row) return DEFAULT_WORKFLOW;
+    return { columns: row.columns, transitions: row.transitions };
+}
+
+/**
+ * Tasks parked in a column that is gone (or now belongs elsewhere) fall back to their
+ * status' primary column.
+ */
+async function releaseRemovedColumns(
+    ctx: any,
+    departmentId: Id<"departments">,
+    previous: Workflow,
+    next: Workflow
+): Promise<number> {
+    let released = 0;
+    for (const column of previous.columns) {
+        if (isPrimaryColumn(previous, column)) continue;
+        const kept = next.columns.find((candidate) => candidate.key === column.key);
+        if (kept && kept.status === column.status && !isPrimaryColumn(next, kept)) continue;
+
+        const tasks = await ctx.db
+            .query("tasks")
+            .withIndex("by_dept_column_cleared_createdAt", (q: any) =>
+                q.eq("departmentId", departmentId).eq("workflowColumn", column.key)
+            )
+            .collect();
+        for (const task of tasks) {
+            await ctx.db.patch("tasks", task._id, { workflowColumn: undefined });
+            released += 1;
+        }
+    }
+    return released;
+}
+
+export const get = query({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgMembership(ctx, userId, args.departmentId);
+
+        const row = await ctx.db
+            .query("workflows")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+            .unique();
+        const workflow = row ?? DEFAULT_WORKFLOW;
+        return {
+            columns: workflow.columns,
+            transitions: workflow.transitions,
+            isDefault: !row,
+            updatedAt: row?.updatedAt,
+        };
+    },
+});
+
+/**
+ * Replaces the department workflow (admins only).
+ */
+export const save = mutation({
+    args: {
+        departmentId: v.id("departments"),
+        columns: v.array(workflowColumnValidator),
+        transitions: v.array(workflowTransitionValidator),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgAdminMembership(ctx, userId, args.departmentId);
+
+        const next: Workflow = {
+            columns: args.columns.map((column) => {
+                const label = column.label?.trim();
+                return {
+                    key: column.key.trim(),
+                    status: column.status,
+                    ...(label ? { label } : {}),
+                    ...(column.wipLimit !== undefined ? { wipLimit: column.wipLimit } : {}),
+                };
+            }),
+            transitions: args.transitions.map((rule) => ({
+                from: rule.from.trim(),
+                to: rule.to.trim(),
+                ...(rule.allowed ? { allowed: rule.allowed.map((token) => token.trim()).filter(Boolean) } : {}),
+            })),
+        };
+        validateWorkflow(next);
+
+        const previous = await loadWorkflow(ctx, args.departmentId);
+        const existing = await ctx.db
+            .query("workflows")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+            .unique();
+        const now = Date.now();
+        if (existing) {
+            await ctx.db.patch("workflows", existing._id, { ...next, updatedByUserId: userId, updatedAt: now });
+        } else {
+            await ctx.db.insert("workflows", {
+                departmentId: args.departmentId,
+                ...next,
+                updatedByUserId: userId,
+                updatedAt: now,
+            });
+        }
+
+        const releasedTasks = await releaseRemovedColumns(ctx, args.departmentId, previous, next);
+        return { ok: true, releasedTasks };
+    },
+});
+
+/**
+ * Drops the custom workflow; the department goes back to the six default columns.
+ */
+export const reset = mutation({
+    args: { departmentId: v.id("departments") },
+    handler: async (ctx, args) => {
+        const userId = await requireAuthenticatedUser(ctx);
+        await requireDepartmentOrgAdminMembership(ctx, userId, args.departmentId);
+
+        const existing = await ctx.db
+            .query("workflows")
+            .withIndex("by_departmentId", (q) => q.eq("departmentId", args.departmentId))
+            .unique();
+        if (!existing) return { ok: true, releasedTasks: 0 };
+
+        const previous: Workflow = { columns: existing.columns, transitions: existing.transitions };
+        await ctx.db.delete("workflows", existing._id);
+        const releasedTasks = await releaseRemovedColumns(ctx, args.departmentId, previous, DEFAULT_WORKFLOW);
+        return { ok: true, releasedTasks };
+    },
+});
@@ -1,5 +1,5 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { useQuery, useMutation, useConvexAuth } from "convex/react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation, useConvexAuth, usePaginatedQuery } from "convex/react";
 import { useTranslation } from "react-i18next";
 import { api } from "../convex/_generated/api";
 import type { Id } from "../convex/_generated/dataModel";
@@ -21,6 +21,10 @@ import { AgentSidebar } from "./components/AgentSidebar";
 import { TopNav } from "./components/TopNav";
 import { LiveActivityFeed } from "./components/LiveActivityFeed";
 import { TaskHistoryTimeline } from "./components/TaskHistoryTimeline";
+import { TaskSchedules } from "./components/TaskSchedules";
+import { BoardSearchBar } from "./components/BoardSearchBar";
+import { hasActiveTaskFilters, type TaskSearchFilters } from "../convex/lib/taskSearch";
+import { columnForTask, isPrimaryColumn, type TaskStatus, type Workflow, type WorkflowColumn } from "../convex/lib/workflows";
 import OrgSwitcher from "./components/OrgSwitcher";
 import { useOrg } from "./OrgContext";
 import { dicebearBotttsUrl } from "./lib/avatar";
@@ -36,29 +40,23 @@ import { TaskInspector } from "./components/TaskInspector";
 
 const PENDING_INVITE_TOKEN_KEY = "mission-control-pending-invite-token";
 
-type Status =
-  | "inbox"
-  | "assigned"
-  | "in_progress"
-  | "review"
-  | "done";
-
-const COLUMNS: Status[] = ["inbox", "assigned", "in_progress", "review", "done"];
-
 const PRIORITY_COLOR: Record<string, string> = {
   high: "bg-red-500",
   medium: "bg-amber-500",
   low: "bg-blue-500",
 };
 
-const STATUS_COLOR: Record<Status, string> = {
+const STATUS_COLOR: Record<TaskStatus, string> = {
   inbox: "bg-amber-400",
   assigned: "bg-blue-400",
   in_progress: "bg-emerald-400",
   review: "bg-indigo-400",
   done: "bg-gray-400",
+  blocked: "bg-red-400",
 };
 
+const COLUMN_PAGE_SIZE = 20;
+
 function isImageDocumentUrl(content: string) {
   const normalized = content.trim();
   return /^https?:\/\/\S+\.(png|jpe?g|gif|webp|svg)([?#]\S*)?$/i.test(normalized);
@@ -157,37 +155,63 @@ function TaskCard({
 }
 
 function Column({
-  status,
-  title,
+  column,
+  workflow,
   onOpenTask,
   onAddTask, // [NEW]
   onDeleteTask,
   onCleanDone,
   isCleaningDone = false,
+  searchResults,
 }: {
-  status: Status;
-  title: string;
+  column: WorkflowColumn;
+  workflow: Workflow;
   onOpenTask: (taskId: Id<"tasks">) => void;
   onAddTask?: () => void; // [NEW]
   onDeleteTask: (task: any) => void;
   onCleanDone?: () => void;
   isCleaningDone?: boolean;
+  // Board search: replaces the column query (null while the search is loading).
+  searchResults?: any[] | null;
 }) {
   const { t } = useTranslation();
   const { activeDeptId } = useDept();
   const agents = useQuery(api.agents.listByDept, activeDeptId ? { departmentId: activeDeptId } : "skip");
-  const tasks = useQuery(api.tasks.listByStatus, activeDeptId ? {
-    departmentId: activeDeptId,
-    status,
-    limit: 50,
-  } : "skip");
+  const isPaginated = Boolean(activeDeptId) && searchResults === undefined;
+  const {
+    results: columnResults,
+    status: pageStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    api.tasks.listByColumnPaginated,
+    isPaginated && activeDeptId ? { departmentId: activeDeptId, column: column.key } : "skip",
+    { initialNumItems: COLUMN_PAGE_SIZE }
+  );
+  const columnTasks = pageStatus === "LoadingFirstPage" ? undefined : columnResults;
+  const canLoadMore = isPaginated && pageStatus === "CanLoadMore";
+  const isLoadingMore = isPaginated && pageStatus === "LoadingMore";
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!canLoadMore || !sentinelRef.current) return;
+    const node = sentinelRef.current;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore(COLUMN_PAGE_SIZE);
+      },
+      { root: null, rootMargin: "220px 0px" }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [canLoadMore, loadMore]);
+
+  const tasks = searchResults === undefined ? columnTasks : searchResults ?? undefined;
   const visibleTasks = useMemo(
     () =>
-      (tasks ?? []).filter((t: any) => {
-        const normalizedStatus = String(t.status).toLowerCase();
-        return normalizedStatus === status || (status === "in_progress" && normalizedStatus === "blocked");
-      }),
-    [tasks, status]
+      searchResults === undefined
+        ? tasks ?? []
+        : (tasks ?? []).filter((t: any) => columnForTask(workflow, t).key === column.key),
+    [tasks, searchResults, workflow, column.key]
   );
   const agentBySessionKey = useMemo(() => {
     const map: Record<string, { name: string; avatar?: string }> = {};
@@ -197,15 +221,22 @@ function Column({
     return map;
   }, [agents]);
 
+  // The loaded page can be shorter than the column, so the WIP check uses the server's count.
+  const occupancy = useQuery(
+    api.tasks.columnOccupancy,
+    isPaginated && activeDeptId && column.wipLimit !== undefined ? { departmentId: activeDeptId, column: column.key } : "skip"
+  );
   const count = visibleTasks.length;
+  const isOverWipLimit =
+    column.wipLimit !== undefined && (isPaginated ? occupancy ?? count : count) > column.wipLimit;
 
   return (
     <section className="w-80 flex-shrink-0 flex flex-col max-h-full">
       <div className="flex justify-between items-center mb-5 px-2">
         <div className="flex items-center gap-2">
-          <div className={`w-2 h-2 rounded-full ${STATUS_COLOR[status]}`} />
+          <div className={`w-2 h-2 rounded-full ${STATUS_COLOR[column.status]}`} />
           <h3 className="text-xs font-bold uppercase tracking-widest text-text-secondary">
-            {t(`kanban.columns.${status}`, { defaultValue: title })}
+            {column.label?.trim() || t(`kanban.columns.${column.key}`, { defaultValue: column.key })}
           </h3>
         </div>
         <div className="flex items-center gap-2">
@@ -224,7 +255,7 @@ function Column({
               </svg>
             </button>
           )}
-          {status === "done" && onCleanDone && (
+          {onCleanDone && (
             <button
               type="button"
               onClick={(e) => {
@@ -238,8 +269,12 @@ function Column({
               {isCleaningDone ? t("kanban.cleaning") : t("kanban.clean")}
             </button>
           )}
-          <span className="bg-white border border-border-subtle px-2 py-0.5 rounded-lg text-[10px] font-mono font-bold text-text-secondary shadow-sm">
-            {count}
+          <span
+            className={`bg-white border px-2 py-0.5 rounded-lg text-[10px] font-mono font-bold shadow-sm ${isOverWipLimit ? "border-red-300 text-red-600" : "border-border-subtle text-text-secondary"
+              }`}
+            title={column.wipLimit !== undefined ? t("kanban.wipLimit", { limit: column.wipLimit }) : undefined}
+          >
+            {count}{canLoadMore ? "+" : ""}{column.wipLimit !== undefined ? `/${column.wipLimit}` : ""}
           </span>
         </div>
       </div>
@@ -264,6 +299,11 @@ function Column({
             />
           ))
         )}
+        {canLoadMore || isLoadingMore ? (
+          <div ref={sentinelRef} className="py-3 text-center text-[10px] uppercase tracking-widest text-text-secondary/60">
+            {isLoadingMore ? t("common.loading") : ""}
+          </div>
+        ) : null}
       </div>
     </section >
   );
@@ -382,6 +422,7 @@ function MainDashboard({ initialView }: { initialView: "dashboard" | "settings"
   const { activeOrgId, organizations, setActiveOrgId } = useOrg();
   const [view, setView] = useState<"dashboard" | "store" | "docs" | "knowledge" | "settings">(initialView);
   const [settingsTab, setSettingsTab] = useState<OrgSettingsTab>("integrations");
+  const [focusedKnowledgeId, setFocusedKnowledgeId] = useState<string | null>(null);
   const [isCreateTaskModalOpen, setIsCreateTaskModalOpen] = useState(false);
   const [isCreateOrgModalOpen, setIsCreateOrgModalOpen] = useState(false);
   const [isCreateDeptModalOpen, setIsCreateDeptModalOpen] = useState(false);
@@ -419,11 +460,19 @@ function MainDashboard({ initialView }: { initialView: "dashboard" | "settings"
       setSettingsTab("billing");
     };
 
+    const openKnowledgeEntry = (event: Event) => {
+      const knowledgeId = (event as CustomEvent<{ knowledgeId?: string }>).detail?.knowledgeId;
+      setView("knowledge");
+      setFocusedKnowledgeId(knowledgeId ?? null);
+    };
+
     window.addEventListener("mc:open-team-members", openTeam as EventListener);
     window.addEventListener("mc:open-billing-plan", openBilling as EventListener);
+    window.addEventListener("mc:open-knowledge-entry", openKnowledgeEntry as EventListener);
     return () => {
       window.removeEventListener("mc:open-team-members", openTeam as EventListener);
       window.removeEventListener("mc:open-billing-plan", openBilling as EventListener);
+      window.removeEventListener("mc:open-knowledge-entry", openKnowledgeEntry as EventListener);
     };
   }, []);
 
@@ -607,11 +656,11 @@ function MainDashboard({ initialView }: { initialView: "dashboard" | "settings"
           </div>
         ) : view === "knowledge" ? (
           <div className="flex-1 overflow-y-auto bg-warm-bg/20">
-            <KnowledgeBase />
+            <KnowledgeBase focusEntryId={focusedKnowledgeId} />
           </div>
         ) : (
           <div className="flex-1 overflow-y-auto bg-warm-bg/20">
-            <OrgSettings tab={settingsTab} />
+            <OrgSettings tab={settingsTab} onTabChange={setSettingsTab} />
           </div>
         )}
       </div>
@@ -912,9 +961,22 @@ function JoinInvitePage({ token }: { token: string }) {
 function MainAppContent() {
   const { t } = useTranslation();
   const { activeDeptId } = useDept();
+  const { activeOrgId, organizations } = useOrg();
+  const canManage = organizations?.some((org) => org._id === activeOrgId && (org.role === "owner" || org.role === "admin")) ?? false;
   const sessionKey = "agent:main:main";
   const agents = useQuery(api.agents.listByDept, activeDeptId ? { departmentId: activeDeptId } : "skip");
-  const [operationsView, setOperationsView] = useState<"board" | "history">("board");
+  const [operationsView, setOperationsView] = useState<"board" | "history" | "schedules">("board");
+  const [boardFilters, setBoardFilters] = useState<TaskSearchFilters>({});
+  const workflow = useQuery(api.workflows.get, activeDeptId ? { departmentId: activeDeptId } : "skip");
+  const isSearching = hasActiveTaskFilters(boardFilters);
+  const searchResults = useQuery(
+    api.tasks.search,
+    activeDeptId && isSearching ? { departmentId: activeDeptId, filters: boardFilters } : "skip"
+  );
+
+  useEffect(() => {
+    setBoardFilters({});
+  }, [activeDeptId]);
 
   const [selectedTaskId, setSelectedTaskId] = useState<Id<"tasks"> | null>(null);
   const agentBySessionKey = useMemo(() => {
@@ -991,25 +1053,64 @@ function MainAppContent() {
             >
               {t("views.history")}
             </button>
+            <button
+              type="button"
+              onClick={() => setOperationsView("schedules")}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${operationsView === "schedules"
+                ? "bg-text-primary text-white"
+                : "text-text-secondary hover:text-text-primary"
+                }`}
+            >
+              {t("views.schedules")}
+            </button>
           </div>
         </div>
 
+        {operationsView === "board" && activeDeptId ? (
+          <div className="px-8 pt-2">
+            <BoardSearchBar
+              departmentId={activeDeptId}
+              filters={boardFilters}
+              onChange={setBoardFilters}
+              resultCount={searchResults?.tasks.length}
+              truncated={searchResults?.truncated}
+            />
+          </div>
+        ) : null}
+
         {operationsView === "board" ? (
           <div className="flex-1 overflow-x-auto p-8 pt-4 scrollbar-thin">
             <div className="flex gap-6 h-full min-w-max">
-              {COLUMNS.map((c) => (
-                <Column
-                  key={c}
-                  status={c}
-                  title={t(`kanban.columns.${c}`)}
-                  onOpenTask={(id) => setSelectedTaskId(id)}
-                  onDeleteTask={onDeleteTask}
-                  onCleanDone={c === "done" ? onCleanDoneColumn : undefined}
-                  isCleaningDone={c === "done" ? isCleaningDoneColumn : false}
-                />
-              ))}
+              {workflow
+                ? workflow.columns.map((column) => {
+                  // "Clean" clears every done task, so only the first done column offers it.
+                  const canCleanDone = column.status === "done" && isPrimaryColumn(workflow, column);
+                  return (
+                    <Column
+                      key={column.key}
+                      column={column}
+                      workflow={workflow}
+                      onOpenTask={(id) => setSelectedTaskId(id)}
+                      onDeleteTask={onDeleteTask}
+                      onCleanDone={canCleanDone ? onCleanDoneColumn : undefined}
+                      isCleaningDone={canCleanDone ? isCleaningDoneColumn : false}
+                      searchResults={isSearching ? searchResults?.tasks ?? null : undefined}
+                    />
+                  );
+                })
+                : null}
             </div>
           </div>
+        ) : operationsView === "schedules" ? (
+          <div className="flex-1 overflow-y-auto p-8 pt-4 scrollbar-thin">
+            {activeDeptId ? (
+              <TaskSchedules
+                departmentId={activeDeptId}
+                canManage={canManage}
+                onOpenTask={(id) => setSelectedTaskId(id)}
+              />
+            ) : null}
+          </div>
         ) : (
           <div className="flex-1 overflow-y-auto p-8 pt-4 scrollbar-thin">
             {activeDeptId ? (
@@ -1060,6 +1161,7 @@ function MainAppContent() {
           onClose={() => setSelectedTaskId(null)}
           sessionKey={sessionKey}
           agentBySessionKey={agentBySessionKey}
+          onOpenTask={setSelectedTaskId}
         />
       ) : null}
 
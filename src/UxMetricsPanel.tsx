@@ -3,6 +3,7 @@ import { useQuery } from "convex/react";
 // Import from ../convex because this file is in src/
 import { api } from "../convex/_generated/api";
 import { useDept } from "./DeptContext";
+import { formatUsd } from "../convex/lib/usagePricing";
 
 function formatRate(x: number | null) {
     if (x === null) return "—";
@@ -25,6 +26,10 @@ export function UxMetricsPanel() {
         api.uxEvents.metrics,
         activeDeptId ? { departmentId: activeDeptId, windowHours: 24 } : "skip"
     );
+    const usage = useQuery(
+        api.usage.departmentRollup,
+        activeDeptId ? { departmentId: activeDeptId, windowHours: 24 } : "skip"
+    );
 
     if (!activeDeptId) {
         return <div style={{ padding: 16 }}>Selecione um departamento para ver métricas.</div>;
@@ -89,6 +94,34 @@ export function UxMetricsPanel() {
                 </div>
             </div>
 
+            {usage ? (
+                <div style={{ ...card, marginTop: 12 }}>
+                    <div style={{ fontWeight: 700, marginBottom: 8 }}>Uso de LLM (custo estimado)</div>
+                    <div style={row}>
+                        <span>Tokens (entrada / saída)</span>
+                        <strong>
+                            {usage.totals.inputTokens.toLocaleString()} / {usage.totals.outputTokens.toLocaleString()}
+                        </strong>
+                    </div>
+                    <div style={row}>
+                        <span>Imagens</span>
+                        <strong>{usage.totals.images}</strong>
+                    </div>
+                    <div style={row}>
+                        <span>Custo estimado</span>
+                        <strong>{formatUsd(usage.totals.costUsd)}</strong>
+                    </div>
+                    {usage.byAgent.map((agent) => (
+                        <div key={agent.key} style={smallRow}>
+                            <span>{agent.name ?? "sistema"}</span>
+                            <strong>
+                                {(agent.inputTokens + agent.outputTokens).toLocaleString()} tok · {formatUsd(agent.costUsd)}
+                            </strong>
+                        </div>
+                    ))}
+                </div>
+            ) : null}
+
             <div style={{ marginTop: 10, fontSize: 12, opacity: 0.6 }}>
                 events: {window.returnedEvents} | sinceTs: {Math.round(window.sinceTs)}
             </div>
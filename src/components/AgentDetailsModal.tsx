@@ -1,45 +1,23 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { dicebearBotttsUrl } from "../lib/avatar";
 import { useOrg } from "../OrgContext";
 import { ServiceLogo } from "./integrations/ServiceLogo";
+import { modelSettingsFormFrom, modelSettingsFormToArgs, type ModelSettingsForm } from "../lib/modelSettings";
+import ModelSettingsFields from "./ModelSettingsFields";
+import { getToolSpec } from "../../convex/lib/toolRegistry";
 
 type ToolMeta = {
     label: string;
     icon: string;
 };
 
-const TOOL_META: Record<string, ToolMeta> = {
-    web_search: { label: "Search", icon: "🔍" },
-    send_email: { label: "Email", icon: "✉️" },
-    search_knowledge: { label: "Memory", icon: "🧠" },
-    delegate_task: { label: "Maestro", icon: "🎯" },
-    generate_image: { label: "Design", icon: "🎨" },
-    create_github_issue: { label: "GH Issue", icon: "🐙" },
-    create_pull_request: { label: "GH PR", icon: "🔧" },
-    create_notion_page: { label: "Notion", icon: "📘" },
-    create_notion_database_item: { label: "Notion DB", icon: "🗂️" },
-    update_notion_page: { label: "Notion Update", icon: "📝" },
-    post_to_x: { label: "X Post", icon: "📣" },
-};
-
 function friendlyTool(tool: string): ToolMeta {
-    return TOOL_META[tool] ?? { label: tool.replace(/_/g, " "), icon: "⚙️" };
+    const spec = getToolSpec(tool);
+    return spec ? { label: spec.shortLabel, icon: spec.icon } : { label: tool.replace(/_/g, " "), icon: "⚙️" };
 }
 
-const CAPABILITY_TOOL_MAP: Record<string, string[]> = {
-    web_search: ["tavily"],
-    send_email: ["resend", "gmail"],
-    create_github_issue: ["github"],
-    create_pull_request: ["github"],
-    create_notion_page: ["notion"],
-    create_notion_database_item: ["notion"],
-    update_notion_page: ["notion"],
-    post_to_x: ["twitter"],
-    generate_image: ["dalle", "openai"],
-};
-
 function humanizeToolName(type: string) {
     if (type === "twitter") return "X";
     if (type === "dalle") return "DALL-E";
@@ -101,18 +79,29 @@ interface AgentDetailsModalProps {
     onClose: () => void;
     agent: any | null;
     isCommunity?: boolean;
+    canEditModelSettings?: boolean;
 }
 
-export default function AgentDetailsModal({ isOpen, onClose, agent, isCommunity = false }: AgentDetailsModalProps) {
+export default function AgentDetailsModal({
+    isOpen,
+    onClose,
+    agent,
+    isCommunity = false,
+    canEditModelSettings = false,
+}: AgentDetailsModalProps) {
     const { activeOrgId } = useOrg();
     const integrations = useQuery(api.integrations.listByOrg, activeOrgId ? { orgId: activeOrgId } : "skip");
     const submitReview = useMutation((api as any).reviews.submitReview);
+    const updateTemplate = useMutation(api.agentTemplates.update);
     const myReview = useQuery(
         (api as any).reviews.getMyReview,
         agent?._id ? { templateId: agent._id } : "skip"
     );
     const [isSubmittingReview, setIsSubmittingReview] = useState(false);
     const [reviewMessage, setReviewMessage] = useState<string | null>(null);
+    const [modelSettings, setModelSettings] = useState<ModelSettingsForm>(() => modelSettingsFormFrom(null));
+    const [isSavingModelSettings, setIsSavingModelSettings] = useState(false);
+    const [modelSettingsMessage, setModelSettingsMessage] = useState<string | null>(null);
     const stars = useMemo(() => [1, 2, 3, 4, 5], []);
     const capabilities: string[] = Array.isArray(agent?.capabilities) ? agent.capabilities : [];
     const connectedToolTypes = useMemo(() => {
@@ -121,13 +110,19 @@ export default function AgentDetailsModal({ isOpen, onClose, agent, isCommunity
         );
         const required = new Set<string>();
         for (const capability of capabilities) {
-            for (const toolType of CAPABILITY_TOOL_MAP[capability] ?? []) {
+            for (const toolType of getToolSpec(capability)?.integrations ?? []) {
                 if (connectedTypes.has(toolType)) required.add(toolType);
             }
         }
         return Array.from(required);
     }, [capabilities, integrations]);
 
+    useEffect(() => {
+        if (!isOpen) return;
+        setModelSettings(modelSettingsFormFrom(agent));
+        setModelSettingsMessage(null);
+    }, [isOpen, agent]);
+
     if (!isOpen || !agent) return null;
 
     const soul = parseSoulPrompt(agent?.systemPrompt || "");
@@ -148,6 +143,22 @@ export default function AgentDetailsModal({ isOpen, onClose, agent, isCommunity
         }
     };
 
+    const handleSaveModelSettings = async () => {
+        setIsSavingModelSettings(true);
+        setModelSettingsMessage(null);
+        try {
+            await updateTemplate({
+                id: agent._id,
+                ...modelSettingsFormToArgs(modelSettings),
+            });
+            setModelSettingsMessage("Model settings saved.");
+        } catch (error: any) {
+            setModelSettingsMessage(error?.message || "Failed to save model settings.");
+        } finally {
+            setIsSavingModelSettings(false);
+        }
+    };
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/45 backdrop-blur-sm p-4">
             <div className="w-full max-w-2xl rounded-3xl border border-white/25 bg-white/75 shadow-2xl backdrop-blur-md p-6 animate-in fade-in zoom-in duration-200 max-h-[90vh] overflow-y-auto scrollbar-thin">
@@ -236,6 +247,28 @@ export default function AgentDetailsModal({ isOpen, onClose, agent, isCommunity
                         </ul>
                     </section>
 
+                    {canEditModelSettings && (
+                        <section>
+                            <h3 className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70 mb-3">Model Settings</h3>
+                            <ModelSettingsFields value={modelSettings} onChange={setModelSettings} />
+                            <div className="mt-3 flex items-center gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        void handleSaveModelSettings();
+                                    }}
+                                    disabled={isSavingModelSettings}
+                                    className="px-4 py-2 rounded-xl bg-blue-600 text-white text-xs font-bold uppercase tracking-wider hover:bg-blue-700 disabled:opacity-60"
+                                >
+                                    {isSavingModelSettings ? "Saving..." : "Save"}
+                                </button>
+                                {modelSettingsMessage && (
+                                    <span className="text-xs text-text-secondary">{modelSettingsMessage}</span>
+                                )}
+                            </div>
+                        </section>
+                    )}
+
                     <section>
                         <h3 className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70 mb-2">Rate this Agent</h3>
                         <div className="flex items-center gap-2">
@@ -0,0 +1,114 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import { formatLocalizedDateTime } from "../lib/i18nTime";
+
+type AgentMemoriesPanelProps = {
+    departmentId: string;
+};
+
+/**
+ * Facts agents stored with the remember tool, for humans to review and delete.
+ */
+export function AgentMemoriesPanel({ departmentId }: AgentMemoriesPanelProps) {
+    const { t, i18n } = useTranslation();
+    const language = i18n.resolvedLanguage ?? "pt";
+    const [agentFilter, setAgentFilter] = useState("");
+    const memories = useQuery(api.agentMemories.listByDepartment, { departmentId });
+    const removeMemory = useMutation(api.agentMemories.remove);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const agents = useMemo(() => {
+        const names = new Map<string, string>();
+        for (const memory of memories ?? []) names.set(memory.agentSessionKey, memory.agentName);
+        return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+    }, [memories]);
+
+    const visible = (memories ?? []).filter((memory: any) => !agentFilter || memory.agentSessionKey === agentFilter);
+
+    async function onRemove(memory: any) {
+        if (!window.confirm(t("agentMemories.removeConfirm"))) return;
+        setBusyId(memory._id);
+        setError(null);
+        try {
+            await removeMemory({ id: memory._id });
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : t("agentMemories.removeFailed"));
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    if (!memories) return null;
+
+    return (
+        <div className="rounded-2xl border border-border-subtle bg-white/70 p-4 space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("agentMemories.title")}</h3>
+                    <p className="text-xs text-text-secondary">{t("agentMemories.subtitle")}</p>
+                </div>
+                {agents.length > 1 ? (
+                    <select
+                        value={agentFilter}
+                        onChange={(event) => setAgentFilter(event.target.value)}
+                        className="border border-border-subtle rounded-lg px-2 py-1.5 text-xs bg-white"
+                    >
+                        <option value="">{t("agentMemories.allAgents")}</option>
+                        {agents.map(([sessionKey, name]) => (
+                            <option key={sessionKey} value={sessionKey}>
+                                {name}
+                            </option>
+                        ))}
+                    </select>
+                ) : null}
+            </div>
+
+            {error && (
+                <div className="rounded-xl border border-red-200 bg-red-50 text-red-700 text-sm px-4 py-3">{error}</div>
+            )}
+
+            {visible.length === 0 ? (
+                <div className="text-xs text-text-secondary italic">{t("agentMemories.empty")}</div>
+            ) : (
+                <div className="space-y-2">
+                    {visible.map((memory: any) => (
+                        <div key={memory._id} className="rounded-xl border border-border-subtle bg-white px-3 py-2 space-y-1">
+                            <div className="flex items-start justify-between gap-2">
+                                <p className="text-sm text-text-primary whitespace-pre-wrap break-words">{memory.content}</p>
+                                <button
+                                    disabled={busyId === memory._id}
+                                    onClick={() => {
+                                        void onRemove(memory);
+                                    }}
+                                    className="shrink-0 px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-60"
+                                >
+                                    {t("knowledge.delete")}
+                                </button>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 text-[11px] text-text-secondary">
+                                <span className="font-bold text-text-primary">{memory.agentName}</span>
+                                <span className="px-1.5 py-0.5 rounded-md bg-black/5 text-[10px] font-bold uppercase tracking-wide">
+                                    {t(`agentMemories.scope.${memory.scope}`)}
+                                </span>
+                                <span>{formatLocalizedDateTime(memory.updatedAt ?? memory.createdAt, language)}</span>
+                                {memory.sourceTaskTitle ? (
+                                    <span className="truncate">{t("agentMemories.fromTask", { title: memory.sourceTaskTitle })}</span>
+                                ) : null}
+                                {memory.expiresAt ? (
+                                    <span className={memory.expired ? "text-red-600" : undefined}>
+                                        {t(memory.expired ? "agentMemories.expired" : "agentMemories.expires", {
+                                            date: formatLocalizedDateTime(memory.expiresAt, language),
+                                        })}
+                                    </span>
+                                ) : null}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
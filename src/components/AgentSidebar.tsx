@@ -25,9 +25,7 @@ export function AgentSidebar() {
     return (
         <div className="space-y-3 px-2">
             {agents.map((agent) => {
-                const isSquadLead =
-                    agent.name.toLowerCase() === "jarvis" ||
-                    agent.role.toLowerCase().includes("squad lead");
+                const isSquadLead = agent.kind === "orchestrator";
 
                 return (
                 <div key={agent._id} className="glass-card border-0 shadow-sm bg-white p-3 flex items-center gap-3 group transition-all relative">
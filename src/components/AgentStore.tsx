@@ -11,6 +11,7 @@ import DropdownMenu from "./DropdownMenu";
 import { dicebearBotttsUrl } from "../lib/avatar";
 import { ServiceLogo } from "./integrations/ServiceLogo";
 import { openUpgradeModalFromError } from "../lib/upgradeModal";
+import { getToolSpec } from "../../convex/lib/toolRegistry";
 
 type ToolMeta = {
     label: string;
@@ -34,40 +35,22 @@ type AgentTemplateItem = {
     rating?: number;
 };
 
-const TOOL_META: Record<string, ToolMeta> = {
-    web_search: { label: "Search", icon: "🔍" },
-    send_email: { label: "Email", icon: "✉️" },
-    search_knowledge: { label: "Memory", icon: "🧠" },
-    delegate_task: { label: "Maestro", icon: "🎯" },
-    generate_image: { label: "Design", icon: "🎨" },
-    create_github_issue: { label: "GH Issue", icon: "🐙" },
-    create_pull_request: { label: "GH PR", icon: "🔧" },
-    create_notion_page: { label: "Notion", icon: "📘" },
-    create_notion_database_item: { label: "Notion DB", icon: "🗂️" },
-    update_notion_page: { label: "Notion Update", icon: "📝" },
-    post_to_x: { label: "X Post", icon: "📣" },
-};
-
 function friendlyTool(tool: string): ToolMeta {
-    return TOOL_META[tool] ?? { label: tool.replace(/_/g, " "), icon: "⚙️" };
+    const spec = getToolSpec(tool);
+    return spec ? { label: spec.shortLabel, icon: spec.icon } : { label: tool.replace(/_/g, " "), icon: "⚙️" };
 }
 
-const CAPABILITY_TOOL_MAP: Record<string, string[]> = {
-    web_search: ["tavily"],
-    send_email: ["resend_or_gmail"],
-    create_github_issue: ["github"],
-    create_pull_request: ["github"],
-    create_notion_page: ["notion"],
-    create_notion_database_item: ["notion"],
-    update_notion_page: ["notion"],
-    post_to_x: ["twitter"],
-    generate_image: ["dalle_or_openai"],
-};
+// Integrations a capability needs; tools usable with any of several integrations
+// collapse into one "a_or_b" requirement.
+function capabilityRequirements(capability: string): string[] {
+    const integrations = getToolSpec(capability)?.integrations ?? [];
+    if (integrations.length === 0) return [];
+    return [integrations.join("_or_")];
+}
 
-const TOOL_ALIASES: Record<string, string[]> = {
-    resend_or_gmail: ["resend", "gmail"],
-    dalle_or_openai: ["dalle", "openai"],
-};
+function requirementOptions(requirement: string): string[] {
+    return requirement.split("_or_");
+}
 
 function humanizeToolName(type: string) {
     if (type === "resend_or_gmail") return "Resend or Gmail";
@@ -130,9 +113,9 @@ const AgentStore: React.FC = () => {
 
         const missingTools = new Set<string>();
         for (const capability of enabledCapabilities) {
-            const requirements = CAPABILITY_TOOL_MAP[capability] ?? [];
+            const requirements = capabilityRequirements(capability);
             for (const requirement of requirements) {
-                const options = TOOL_ALIASES[requirement] ?? [requirement];
+                const options = requirementOptions(requirement);
                 const satisfied = options.some((option) => connectedTypes.has(option));
                 if (!satisfied) {
                     if (options.length > 1) {
@@ -227,9 +210,9 @@ const AgentStore: React.FC = () => {
         const toolTypes = new Set<string>();
 
         for (const capability of enabledCapabilities) {
-            const requiredTools = CAPABILITY_TOOL_MAP[capability] ?? [];
+            const requiredTools = capabilityRequirements(capability);
             for (const toolType of requiredTools) {
-                const options = TOOL_ALIASES[toolType] ?? [toolType];
+                const options = requirementOptions(toolType);
                 for (const option of options) {
                     if (connectedTypes.has(option)) {
                         toolTypes.add(option);
@@ -504,6 +487,15 @@ const AgentStore: React.FC = () => {
                             description: editingTemplate.description,
                             systemPrompt: editingTemplate.systemPrompt,
                             capabilities: editingTemplate.capabilities,
+                            kind: editingTemplate.kind,
+                            protocol: editingTemplate.protocol,
+                            llmProvider: editingTemplate.llmProvider,
+                            model: editingTemplate.model,
+                            temperature: editingTemplate.temperature,
+                            maxOutputTokens: editingTemplate.maxOutputTokens,
+                            maxToolIterations: editingTemplate.maxToolIterations,
+                            maxRunSeconds: editingTemplate.maxRunSeconds,
+                            maxRunTokens: editingTemplate.maxRunTokens,
                         }
                         : null
                 }
@@ -514,6 +506,9 @@ const AgentStore: React.FC = () => {
                 onClose={() => setIsDetailsOpen(false)}
                 agent={selectedAgent}
                 isCommunity={detailsIsCommunity}
+                canEditModelSettings={
+                    !detailsIsCommunity && (currentUserId === selectedAgent?.creatorId || isOrgAdmin)
+                }
             />
 
             {blockedHire ? (
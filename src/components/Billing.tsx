@@ -1,6 +1,8 @@
 import React, { useMemo, useState } from "react";
 import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { formatUsd } from "../../convex/lib/usagePricing";
 import { useOrg } from "../OrgContext";
 import { useTranslation } from "react-i18next";
 import i18n, { normalizeSupportedLanguage, type SupportedLanguage } from "../i18n/config";
@@ -66,6 +68,287 @@ function ProgressRow({
   );
 }
 
+type UsageRollupRow = {
+  key: string;
+  label: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number;
+};
+
+function UsageRollupTable({ title, rows }: { title: string; rows: UsageRollupRow[] }) {
+  const { t } = useTranslation();
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-[11px] font-bold uppercase tracking-wider text-text-secondary">{title}</div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-left text-text-secondary">
+              <th className="py-1 pr-3 font-medium" />
+              <th className="py-1 pr-3 font-medium text-right">{t("billing.llmUsageTokens")}</th>
+              <th className="py-1 pr-3 font-medium text-right">{t("billing.llmUsageImages")}</th>
+              <th className="py-1 font-medium text-right">{t("billing.llmUsageCost")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-black/5">
+                <td className="py-1.5 pr-3 text-text-primary">{row.label}</td>
+                <td className="py-1.5 pr-3 text-right">{(row.inputTokens + row.outputTokens).toLocaleString()}</td>
+                <td className="py-1.5 pr-3 text-right">{row.images}</td>
+                <td className="py-1.5 text-right font-bold">{formatUsd(row.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function LlmUsageSection({ orgId }: { orgId: Id<"organizations"> }) {
+  const { t } = useTranslation();
+  const rollup = useQuery(api.usage.orgRollup, { orgId });
+
+  return (
+    <section className="rounded-2xl border border-border-subtle bg-white/70 p-5 space-y-4">
+      <div className="space-y-1">
+        <div className="text-sm font-bold uppercase tracking-wider">{t("billing.llmUsageTitle")}</div>
+        <p className="text-xs text-text-secondary">{t("billing.llmUsageHint")}</p>
+      </div>
+
+      {!rollup ? (
+        <div className="text-xs text-text-secondary">{t("common.loading")}</div>
+      ) : rollup.totals.entries === 0 ? (
+        <div className="text-xs text-text-secondary">{t("billing.llmUsageEmpty")}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="rounded-xl border border-border-subtle bg-white px-3 py-2">
+              <div className="text-[11px] text-text-secondary">{t("billing.llmUsageTokens")}</div>
+              <div className="text-lg font-black">
+                {(rollup.totals.inputTokens + rollup.totals.outputTokens).toLocaleString()}
+              </div>
+            </div>
+            <div className="rounded-xl border border-border-subtle bg-white px-3 py-2">
+              <div className="text-[11px] text-text-secondary">{t("billing.llmUsageImages")}</div>
+              <div className="text-lg font-black">{rollup.totals.images}</div>
+            </div>
+            <div className="rounded-xl border border-border-subtle bg-white px-3 py-2">
+              <div className="text-[11px] text-text-secondary">{t("billing.llmUsageCost")}</div>
+              <div className="text-lg font-black">{formatUsd(rollup.totals.costUsd)}</div>
+            </div>
+          </div>
+
+          <UsageRollupTable
+            title={t("billing.llmUsageByDepartment")}
+            rows={rollup.byDepartment.map((row) => ({ ...row, label: row.name }))}
+          />
+          <UsageRollupTable
+            title={t("billing.llmUsageByAgent")}
+            rows={rollup.byAgent.map((row) => ({
+              ...row,
+              label: `${row.name ?? t("billing.llmUsageUnassigned")} · ${row.departmentName}`,
+            }))}
+          />
+          <UsageRollupTable
+            title={t("billing.llmUsageByModel")}
+            rows={rollup.byModel.map((row) => ({ ...row, label: `${row.model} (${row.provider})` }))}
+          />
+
+          {rollup.totals.unpricedEntries > 0 ? (
+            <div className="text-[11px] text-text-secondary">
+              {t("billing.llmUsageUnpriced", { count: rollup.totals.unpricedEntries })}
+            </div>
+          ) : null}
+          {rollup.truncated ? (
+            <div className="text-[11px] text-amber-700">{t("billing.llmUsageTruncated")}</div>
+          ) : null}
+        </>
+      )}
+    </section>
+  );
+}
+
+type SpendingLimitsValue = {
+  monthlyTokenCap?: number;
+  monthlyCostCapUsd?: number;
+  onLimit: "block" | "downgrade";
+};
+
+function SpendingLimitRow({
+  label,
+  limits,
+  usage,
+  canEdit,
+  onSave,
+}: {
+  label: string;
+  limits: SpendingLimitsValue | null;
+  usage: { llmTokens: number; costUsd: number };
+  canEdit: boolean;
+  onSave: (limits: SpendingLimitsValue | null) => Promise<unknown>;
+}) {
+  const { t } = useTranslation();
+  const [tokenCap, setTokenCap] = useState(limits?.monthlyTokenCap?.toString() ?? "");
+  const [costCap, setCostCap] = useState(limits?.monthlyCostCapUsd?.toString() ?? "");
+  const [onLimit, setOnLimit] = useState<SpendingLimitsValue["onLimit"]>(limits?.onLimit ?? "block");
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function save(next: SpendingLimitsValue | null) {
+    try {
+      setIsSaving(true);
+      await onSave(next);
+      if (!next) {
+        setTokenCap("");
+        setCostCap("");
+        setOnLimit("block");
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save spending limits.";
+      window.alert(message);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleSave() {
+    const parsedTokenCap = tokenCap.trim() ? Number(tokenCap) : undefined;
+    const parsedCostCap = costCap.trim() ? Number(costCap) : undefined;
+    if (parsedTokenCap === undefined && parsedCostCap === undefined) {
+      void save(null);
+      return;
+    }
+    void save({ monthlyTokenCap: parsedTokenCap, monthlyCostCapUsd: parsedCostCap, onLimit });
+  }
+
+  const inputClass =
+    "w-full rounded-lg border border-border-subtle bg-white px-2 py-1.5 text-xs font-mono text-text-primary focus:outline-none focus:ring-1 ring-blue-500 disabled:opacity-60";
+
+  return (
+    <div className="rounded-xl border border-border-subtle bg-white px-3 py-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs font-bold text-text-primary">{label}</span>
+        <span className="text-[11px] font-mono text-text-secondary">
+          {t("billing.spendingUsed", { tokens: usage.llmTokens.toLocaleString(), cost: formatUsd(usage.costUsd) })}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-[1fr_1fr_1fr_auto]">
+        <label className="space-y-1">
+          <span className="text-[11px] text-text-secondary">{t("billing.spendingTokenCap")}</span>
+          <input
+            type="number"
+            min={1000}
+            step={1000}
+            value={tokenCap}
+            placeholder={t("billing.spendingNoLimit")}
+            disabled={!canEdit || isSaving}
+            onChange={(event) => setTokenCap(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-text-secondary">{t("billing.spendingCostCap")}</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={costCap}
+            placeholder={t("billing.spendingNoLimit")}
+            disabled={!canEdit || isSaving}
+            onChange={(event) => setCostCap(event.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-text-secondary">{t("billing.spendingOnLimit")}</span>
+          <select
+            value={onLimit}
+            disabled={!canEdit || isSaving}
+            onChange={(event) => setOnLimit(event.target.value === "downgrade" ? "downgrade" : "block")}
+            className={inputClass}
+          >
+            <option value="block">{t("billing.spendingBlock")}</option>
+            <option value="downgrade">{t("billing.spendingDowngrade")}</option>
+          </select>
+        </label>
+        {canEdit ? (
+          <div className="flex items-end gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="rounded-lg bg-black px-3 py-1.5 text-xs font-bold text-white disabled:opacity-60"
+            >
+              {t("billing.spendingSave")}
+            </button>
+            {limits ? (
+              <button
+                type="button"
+                onClick={() => {
+                  void save(null);
+                }}
+                disabled={isSaving}
+                className="rounded-lg border border-border-subtle px-3 py-1.5 text-xs font-bold text-text-secondary disabled:opacity-60"
+              >
+                {t("billing.spendingClear")}
+              </button>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function SpendingLimitsSection({ orgId }: { orgId: Id<"organizations"> }) {
+  const { t } = useTranslation();
+  const overview = useQuery(api.spendingLimits.getOverview, { orgId });
+  const setOrganizationLimits = useMutation(api.spendingLimits.setOrganizationLimits);
+  const setDepartmentLimits = useMutation(api.spendingLimits.setDepartmentLimits);
+
+  return (
+    <section className="rounded-2xl border border-border-subtle bg-white/70 p-5 space-y-4">
+      <div className="space-y-1">
+        <div className="text-sm font-bold uppercase tracking-wider">{t("billing.spendingLimitsTitle")}</div>
+        <p className="text-xs text-text-secondary">{t("billing.spendingLimitsHint")}</p>
+      </div>
+
+      {!overview ? (
+        <div className="text-xs text-text-secondary">{t("common.loading")}</div>
+      ) : (
+        <div className="space-y-3">
+          {!overview.canEdit ? (
+            <div className="text-[11px] text-text-secondary">{t("billing.spendingAdminOnly")}</div>
+          ) : null}
+          <SpendingLimitRow
+            key={`org:${overview.period}`}
+            label={t("billing.spendingOrganization")}
+            limits={overview.organization.limits}
+            usage={overview.organization.usage}
+            canEdit={overview.canEdit}
+            onSave={(limits) => setOrganizationLimits({ orgId, limits })}
+          />
+          {overview.departments.map((department) => (
+            <SpendingLimitRow
+              key={`${department._id}:${overview.period}`}
+              label={department.name}
+              limits={department.limits}
+              usage={department.usage}
+              canEdit={overview.canEdit}
+              onSave={(limits) => setDepartmentLimits({ departmentId: department._id, limits })}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
 const Billing: React.FC = () => {
   const { activeOrgId, organizations } = useOrg();
   const { t } = useTranslation();
@@ -107,6 +390,18 @@ const Billing: React.FC = () => {
       current: billing.usage.docs,
       limit: currentPlan.limits.knowledgeDocs,
     },
+    {
+      key: "llmTokens",
+      label: t("billing.llmTokensMonth"),
+      current: billing.usage.llmTokensThisMonth,
+      limit: currentPlan.limits.monthlyLlmTokens,
+    },
+    {
+      key: "toolCalls",
+      label: t("billing.toolCallsMonth"),
+      current: billing.usage.toolCallsThisMonth,
+      limit: currentPlan.limits.monthlyToolCalls,
+    },
   ] as const;
 
   const reachedLimits = usageRows.filter(
@@ -204,6 +499,10 @@ const Billing: React.FC = () => {
         ) : null}
       </section>
 
+      <LlmUsageSection orgId={activeOrgId} />
+
+      <SpendingLimitsSection orgId={activeOrgId} />
+
       <section className="rounded-3xl border border-border-subtle/70 bg-white px-4 py-8 md:px-8 md:py-10">
         <div className="space-y-7">
           <header className="mx-auto max-w-3xl space-y-3 text-center">
@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { hasActiveTaskFilters, type TaskSearchFilters } from "../../convex/lib/taskSearch";
+import { useOrg } from "../OrgContext";
+
+type BoardSearchBarProps = {
+    departmentId: Id<"departments">;
+    filters: TaskSearchFilters;
+    onChange: (filters: TaskSearchFilters) => void;
+    resultCount?: number;
+    truncated?: boolean;
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateInput(value?: number): string {
+    if (value === undefined) return "";
+    const date = new Date(value);
+    const pad = (part: number) => String(part).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Local midnight of the picked day; "to" dates include the whole day.
+function fromDateInput(value: string, endOfDay: boolean): number | undefined {
+    if (!value) return undefined;
+    const [year, month, day] = value.split("-").map(Number);
+    const start = new Date(year, month - 1, day).getTime();
+    return endOfDay ? start + DAY_MS - 1 : start;
+}
+
+/**
+ * Search, filters and saved views for the board.
+ */
+export function BoardSearchBar({ departmentId, filters, onChange, resultCount, truncated }: BoardSearchBarProps) {
+    const { t } = useTranslation();
+    const { activeOrgId } = useOrg();
+    const agents = useQuery(api.agents.listByDept, { departmentId });
+    const members = useQuery(api.organizations.listMembers, activeOrgId ? { orgId: activeOrgId } : "skip");
+    const views = useQuery(api.taskViews.list, { departmentId });
+    const saveView = useMutation(api.taskViews.save);
+    const removeView = useMutation(api.taskViews.remove);
+
+    const [text, setText] = useState(filters.query ?? "");
+    const [syncedQuery, setSyncedQuery] = useState(filters.query);
+    const [selectedViewId, setSelectedViewId] = useState<string>("");
+
+    // Saved views and "clear" replace the query from outside.
+    if (filters.query !== syncedQuery) {
+        setSyncedQuery(filters.query);
+        setText(filters.query ?? "");
+    }
+
+    useEffect(() => {
+        const query = text.trim() ? text : undefined;
+        if ((query ?? "") === (filters.query ?? "")) return;
+        const timer = window.setTimeout(() => {
+            onChange({ ...filters, query });
+        }, SEARCH_DEBOUNCE_MS);
+        return () => window.clearTimeout(timer);
+    }, [text, filters, onChange]);
+
+    const update = (patch: Partial<TaskSearchFilters>) => {
+        setSelectedViewId("");
+        onChange({ ...filters, ...patch });
+    };
+
+    async function onSaveView() {
+        const selected = views?.find((view) => view._id === selectedViewId);
+        const name = window.prompt(t("boardSearch.viewNamePrompt"), selected?.name ?? "");
+        if (!name?.trim()) return;
+        try {
+            const id = await saveView({ departmentId, name, filters });
+            setSelectedViewId(String(id));
+        } catch (error: unknown) {
+            window.alert(error instanceof Error ? error.message : t("boardSearch.saveError"));
+        }
+    }
+
+    async function onRemoveView() {
+        const selected = views?.find((view) => view._id === selectedViewId);
+        if (!selected) return;
+        if (!window.confirm(t("boardSearch.removeViewConfirm", { name: selected.name }))) return;
+        await removeView({ id: selected._id });
+        setSelectedViewId("");
+    }
+
+    const active = hasActiveTaskFilters(filters);
+    const fieldClass = "border border-border-subtle rounded-lg px-2 py-1.5 text-xs bg-white";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    value={text}
+                    onChange={(event) => {
+                        setSelectedViewId("");
+                        setText(event.target.value);
+                    }}
+                    placeholder={t("boardSearch.placeholder")}
+                    className="flex-1 min-w-[16rem] border border-border-subtle rounded-lg px-3 py-1.5 text-sm bg-white"
+                />
+                <select
+                    value={selectedViewId}
+                    onChange={(event) => {
+                        const view = views?.find((candidate) => candidate._id === event.target.value);
+                        setSelectedViewId(event.target.value);
+                        if (view) onChange(view.filters);
+                    }}
+                    className={fieldClass}
+                >
+                    <option value="">{t("boardSearch.savedViews")}</option>
+                    {(views ?? []).map((view) => (
+                        <option key={view._id} value={view._id}>
+                            {view.name}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    disabled={!active}
+                    onClick={() => { void onSaveView(); }}
+                    className="px-2.5 py-1.5 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5 disabled:opacity-50"
+                >
+                    {t("boardSearch.saveView")}
+                </button>
+                {selectedViewId ? (
+                    <button
+                        type="button"
+                        onClick={() => { void onRemoveView(); }}
+                        className="px-2.5 py-1.5 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50"
+                    >
+                        {t("boardSearch.removeView")}
+                    </button>
+                ) : null}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={filters.assigneeSessionKey ?? ""}
+                    onChange={(event) => update({ assigneeSessionKey: event.target.value || undefined })}
+                    className={fieldClass}
+                >
+                    <option value="">{t("boardSearch.anyAgent")}</option>
+                    {(agents ?? []).map((agent) => (
+                        <option key={agent._id} value={agent.sessionKey}>
+                            {agent.name}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={filters.ownerUserId ?? ""}
+                    onChange={(event) => update({ ownerUserId: (event.target.value || undefined) as Id<"users"> | undefined })}
+                    className={fieldClass}
+                >
+                    <option value="">{t("boardSearch.anyOwner")}</option>
+                    {(members ?? []).map((member) => (
+                        <option key={member._id} value={member.userId}>
+                            {member.name}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    value={filters.tag ?? ""}
+                    onChange={(event) => update({ tag: event.target.value || undefined })}
+                    placeholder={t("boardSearch.tag")}
+                    className={`${fieldClass} w-28`}
+                />
+                <select
+                    value={filters.priority ?? ""}
+                    onChange={(event) => update({ priority: (event.target.value || undefined) as TaskSearchFilters["priority"] })}
+                    className={fieldClass}
+                >
+                    <option value="">{t("boardSearch.anyPriority")}</option>
+                    {(["high", "medium", "low"] as const).map((priority) => (
+                        <option key={priority} value={priority}>
+                            {t(`boardSearch.priority.${priority}`)}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={filters.source ?? ""}
+                    onChange={(event) => update({ source: (event.target.value || undefined) as TaskSearchFilters["source"] })}
+                    className={fieldClass}
+                >
+                    <option value="">{t("boardSearch.anySource")}</option>
+                    <option value="telegram">Telegram</option>
+                    <option value="web">{t("boardSearch.sourceWeb")}</option>
+                </select>
+                <label className="flex items-center gap-1 text-[11px] text-text-secondary">
+                    {t("boardSearch.from")}
+                    <input
+                        type="date"
+                        value={toDateInput(filters.createdFrom)}
+                        onChange={(event) => update({ createdFrom: fromDateInput(event.target.value, false) })}
+                        className={fieldClass}
+                    />
+                </label>
+                <label className="flex items-center gap-1 text-[11px] text-text-secondary">
+                    {t("boardSearch.to")}
+                    <input
+                        type="date"
+                        value={toDateInput(filters.createdTo)}
+                        onChange={(event) => update({ createdTo: fromDateInput(event.target.value, true) })}
+                        className={fieldClass}
+                    />
+                </label>
+                {active ? (
+                    <>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setSelectedViewId("");
+                                onChange({});
+                            }}
+                            className="px-2.5 py-1.5 rounded-lg text-[11px] font-bold uppercase tracking-wide text-text-secondary hover:text-text-primary"
+                        >
+                            {t("boardSearch.clear")}
+                        </button>
+                        {resultCount !== undefined ? (
+                            <span className="text-[11px] text-text-secondary">
+                                {t(truncated ? "boardSearch.resultsTruncated" : "boardSearch.results", { count: resultCount })}
+                            </span>
+                        ) : null}
+                    </>
+                ) : null}
+            </div>
+        </div>
+    );
+}
@@ -4,6 +4,15 @@ import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { dicebearBotttsUrl, normalizeAvatarSeed, randomAvatarSeed } from "../lib/avatar";
 import { openUpgradeModalFromError } from "../lib/upgradeModal";
+import {
+    modelSettingsFormFrom,
+    modelSettingsFormToArgs,
+    type AgentModelSettingsInput,
+    type ModelSettingsForm,
+} from "../lib/modelSettings";
+import ModelSettingsFields from "./ModelSettingsFields";
+import { listSelectableTools } from "../../convex/lib/toolRegistry";
+import { AGENT_KINDS, AGENT_KIND_PROFILES, type AgentKind } from "../../convex/lib/agentKinds";
 
 interface CreateAgentModalProps {
     isOpen: boolean;
@@ -17,20 +26,16 @@ interface CreateAgentModalProps {
         description: string;
         systemPrompt?: string;
         capabilities?: string[];
-    } | null;
+        kind?: AgentKind;
+        protocol?: string;
+    } & AgentModelSettingsInput | null;
 }
 
-const AVAILABLE_TOOLS = [
-    { id: "web_search", label: "Web Search (Tavily)" },
-    { id: "search_upwork_jobs", label: "Upwork Search" },
-    { id: "send_email", label: "Send Email (Resend)" },
-    { id: "search_knowledge", label: "Search Knowledge (Vector Memory)" },
-    { id: "generate_image", label: "Generate Image (DALL-E)" },
-    { id: "create_github_issue", label: "Create GitHub Issue" },
-    { id: "create_pull_request", label: "Create GitHub Pull Request" },
-    { id: "create_notion_page", label: "Create Notion Page" },
-    { id: "post_to_x", label: "Post to X (Twitter)" },
-];
+const AVAILABLE_TOOLS = listSelectableTools().map((tool) => ({
+    id: tool.name,
+    label: tool.label,
+    isPro: tool.minPlan !== "starter",
+}));
 
 const PERSONALITY_PLACEHOLDER = `You keep information structured, findable, and current.
 You remove ambiguity from internal knowledge systems.
@@ -107,6 +112,9 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
     const [goodAt, setGoodAt] = useState("");
     const [caresAbout, setCaresAbout] = useState("");
     const [allowedTools, setAllowedTools] = useState<string[]>([]);
+    const [kind, setKind] = useState<AgentKind>("specialist");
+    const [protocol, setProtocol] = useState("");
+    const [modelSettings, setModelSettings] = useState<ModelSettingsForm>(() => modelSettingsFormFrom(null));
     const [isSubmitting, setIsSubmitting] = useState(false);
     const isEditMode = Boolean(templateId);
 
@@ -120,6 +128,9 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
         setGoodAt(parsedInitial.goodAt);
         setCaresAbout(parsedInitial.caresAbout);
         setAllowedTools(initialData?.capabilities ?? []);
+        setKind(initialData?.kind ?? "specialist");
+        setProtocol(initialData?.protocol ?? "");
+        setModelSettings(modelSettingsFormFrom(initialData));
     }, [isOpen, initialData, parsedInitial]);
 
     if (!isOpen) return null;
@@ -148,6 +159,9 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
                     description: description.trim(),
                     systemPrompt: soul,
                     capabilities,
+                    kind,
+                    protocol,
+                    ...modelSettingsFormToArgs(modelSettings),
                 });
             } else {
                 await createCustom({
@@ -158,6 +172,9 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
                     description: description.trim(),
                     systemPrompt: soul,
                     allowedTools: capabilities,
+                    kind,
+                    protocol,
+                    ...modelSettingsFormToArgs(modelSettings),
                 });
             }
             setName("");
@@ -168,6 +185,9 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
             setGoodAt("");
             setCaresAbout("");
             setAllowedTools([]);
+            setKind("specialist");
+            setProtocol("");
+            setModelSettings(modelSettingsFormFrom(null));
             onClose();
         } catch (error: unknown) {
             if (openUpgradeModalFromError(error)) return;
@@ -271,6 +291,34 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
                         </div>
                     </div>
 
+                    {/* Behavior Section */}
+                    <div className="space-y-4">
+                        <div className="text-xs font-bold uppercase tracking-wider text-gray-500">Behavior</div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Agent Kind</label>
+                            <select
+                                value={kind}
+                                onChange={e => setKind(e.target.value as AgentKind)}
+                                className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all bg-white"
+                            >
+                                {AGENT_KINDS.map((option) => (
+                                    <option key={option} value={option}>{AGENT_KIND_PROFILES[option].label}</option>
+                                ))}
+                            </select>
+                            <p className="mt-1 text-xs text-gray-400">{AGENT_KIND_PROFILES[kind].description}</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Protocol (optional)</label>
+                            <textarea
+                                value={protocol}
+                                onChange={e => setProtocol(e.target.value)}
+                                placeholder="Extra rules the brain injects on every run. Leave empty to use the kind's default."
+                                rows={3}
+                                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all resize-none font-mono text-sm"
+                            />
+                        </div>
+                    </div>
+
                     {/* Personality Section */}
                     <div className="space-y-4">
                         <div className="text-xs font-bold uppercase tracking-wider text-gray-500">Personality (Soul)</div>
@@ -312,6 +360,12 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
                         </div>
                     </div>
 
+                    {/* Model Section */}
+                    <div className="space-y-4">
+                        <div className="text-xs font-bold uppercase tracking-wider text-gray-500">Model</div>
+                        <ModelSettingsFields value={modelSettings} onChange={setModelSettings} />
+                    </div>
+
                     {/* Capabilities Section */}
                     <div className="space-y-4">
                         <div className="text-xs font-bold uppercase tracking-wider text-gray-500">Capabilities</div>
@@ -325,6 +379,9 @@ export default function CreateAgentModal({ isOpen, onClose, departmentId, templa
                                         className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
                                     />
                                     <span className="ml-3 text-sm font-medium text-gray-700">{tool.label}</span>
+                                    {tool.isPro && (
+                                        <span className="ml-auto text-[10px] font-bold uppercase tracking-wider text-amber-600">Pro</span>
+                                    )}
                                 </label>
                             ))}
                         </div>
@@ -25,7 +25,7 @@ export default function CreateTaskModal({ isOpen, onClose, departmentId }: Creat
         if (!content) return;
         const generatedTitle =
             content.length > 90 ? `${content.slice(0, 87).trimEnd()}...` : content;
-        const jarvis = (agents ?? []).find((agent: any) => String(agent.name ?? "").toLowerCase() === "jarvis");
+        const orchestrator = (agents ?? []).find((agent) => agent.kind === "orchestrator");
 
         setIsSubmitting(true);
         try {
@@ -35,7 +35,7 @@ export default function CreateTaskModal({ isOpen, onClose, departmentId }: Creat
                 description: content,
                 createdBySessionKey: "user:web",
                 createdByName: (viewer?.name as string | undefined) ?? (viewer?.email as string | undefined),
-                assigneeSessionKeys: jarvis?.sessionKey ? [jarvis.sessionKey] : [],
+                assigneeSessionKeys: orchestrator?.sessionKey ? [orchestrator.sessionKey] : [],
                 priority: "medium", // Default
                 tags: [],
             });
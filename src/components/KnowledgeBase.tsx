@@ -1,15 +1,49 @@
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useAction, useMutation, useQuery } from "convex/react";
 import { useTranslation } from "react-i18next";
 import { api } from "../../convex/_generated/api";
 import { useDept } from "../DeptContext";
+import { useOrg } from "../OrgContext";
 import { formatLocalizedDateTime } from "../lib/i18nTime";
 import { openUpgradeModalFromError } from "../lib/upgradeModal";
+import { KnowledgeRevisions } from "./KnowledgeRevisions";
+import { KnowledgeSources } from "./KnowledgeSources";
+import { AgentMemoriesPanel } from "./AgentMemoriesPanel";
 
-export default function KnowledgeBase() {
+const KNOWLEDGE_UPLOAD_ACCEPT = [
+    ".txt", ".md", ".markdown", ".csv", ".tsv", ".pdf", ".docx", ".xlsx", ".html", ".htm",
+    "text/plain", "text/markdown", "text/csv", "text/html", "application/pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+].join(",");
+
+// Short labels for the formats stored in metadata.type by knowledgeNode.ingestFile.
+const KNOWLEDGE_FORMAT_LABELS: Record<string, string> = {
+    "application/pdf": "PDF",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "DOCX",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "XLSX",
+    "text/html": "HTML",
+    "text/markdown": "Markdown",
+    "text/csv": "CSV",
+    "text/plain": "TXT",
+};
+
+function knowledgeFormatLabel(type: string | undefined): string | null {
+    if (!type || type === "text/manual") return null;
+    return KNOWLEDGE_FORMAT_LABELS[type] ?? type;
+}
+
+type KnowledgeBaseProps = {
+    // Entry to scroll to and highlight, e.g. when opened from a message citation.
+    focusEntryId?: string | null;
+};
+
+export default function KnowledgeBase({ focusEntryId = null }: KnowledgeBaseProps) {
     const { t, i18n } = useTranslation();
     const language = i18n.resolvedLanguage ?? "pt";
     const { activeDeptId } = useDept();
+    const { activeOrgId, organizations } = useOrg();
+    const canShare = organizations?.some((org) => org._id === activeOrgId && (org.role === "owner" || org.role === "admin")) ?? false;
     const fileInputRef = useRef<HTMLInputElement | null>(null);
 
     const entries = useQuery(
@@ -20,6 +54,17 @@ export default function KnowledgeBase() {
     const ingestText = useAction((api as any).knowledge.ingestText);
     const ingestFile = useAction((api as any).knowledgeNode.ingestFile);
     const removeEntry = useMutation((api as any).knowledge.remove);
+    const updateEntry = useMutation(api.knowledge.update);
+    const startEmbeddingMigration = useMutation(api.embeddings.startMigration);
+    const setSharing = useMutation(api.knowledge.setSharing);
+    const sharedEntries = useQuery(
+        api.knowledge.listOrgShared,
+        activeOrgId && activeDeptId ? { orgId: activeOrgId, departmentId: activeDeptId } : "skip"
+    );
+    const embeddingStatus = useQuery(
+        api.embeddings.status,
+        activeDeptId ? { departmentId: activeDeptId } : "skip"
+    );
 
     const [showTextForm, setShowTextForm] = useState(false);
     const [title, setTitle] = useState("");
@@ -27,6 +72,17 @@ export default function KnowledgeBase() {
     const [busy, setBusy] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [message, setMessage] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editTitle, setEditTitle] = useState("");
+    const [editText, setEditText] = useState("");
+    const [historyId, setHistoryId] = useState<string | null>(null);
+    // Org-wide entry the text form replaces for this department.
+    const [overrideOf, setOverrideOf] = useState<any>(null);
+
+    useEffect(() => {
+        if (!focusEntryId || !entries) return;
+        document.getElementById(`knowledge-entry-${focusEntryId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, [focusEntryId, entries]);
 
     async function onAddText() {
         if (!activeDeptId) return;
@@ -44,9 +100,11 @@ export default function KnowledgeBase() {
                 departmentId: activeDeptId,
                 title: title.trim() || t("knowledge.manualKnowledge"),
                 text: cleanText,
+                overridesKnowledgeId: overrideOf?._id,
             });
             setTitle("");
             setText("");
+            setOverrideOf(null);
             setShowTextForm(false);
             setMessage(t("knowledge.entryCreated"));
         } catch (err: unknown) {
@@ -58,6 +116,72 @@ export default function KnowledgeBase() {
         }
     }
 
+    function startEditing(entry: any) {
+        setEditingId(entry._id);
+        setEditTitle(entry.title);
+        setEditText(entry.text);
+        setHistoryId(null);
+    }
+
+    async function onSaveEdit(id: string) {
+        if (!editText.trim()) {
+            setError(t("knowledge.textRequired"));
+            return;
+        }
+        setBusy(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const result = await updateEntry({ id, title: editTitle, text: editText });
+            setEditingId(null);
+            if (result.changed) {
+                setMessage(
+                    result.reembedding
+                        ? t("knowledge.entryUpdatedReembedding", { version: result.version })
+                        : t("knowledge.entryUpdated", { version: result.version })
+                );
+            }
+        } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : t("knowledge.updateFailed");
+            setError(message || t("knowledge.updateFailed"));
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    function startOverride(entry: any) {
+        setOverrideOf(entry);
+        setTitle(entry.title);
+        setText(entry.text);
+        setShowTextForm(true);
+        window.scrollTo({ top: 0, behavior: "smooth" });
+    }
+
+    async function onShareWithOrg(id: string) {
+        if (!window.confirm(t("knowledge.shareWithOrgConfirm"))) return;
+        setError(null);
+        setMessage(null);
+        try {
+            await setSharing({ id, scope: "org" });
+            setMessage(t("knowledge.sharedWithOrg"));
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : t("knowledge.updateFailed"));
+        }
+    }
+
+    async function onReembedAll() {
+        if (!activeDeptId) return;
+        setError(null);
+        setMessage(null);
+        try {
+            await startEmbeddingMigration({ departmentId: activeDeptId });
+            setMessage(t("knowledge.reembedStarted"));
+        } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : t("knowledge.reembedFailed");
+            setError(message || t("knowledge.reembedFailed"));
+        }
+    }
+
     async function onUploadFile(file: File) {
         if (!activeDeptId) return;
         setBusy(true);
@@ -104,7 +228,10 @@ export default function KnowledgeBase() {
                 </div>
                 <div className="flex items-center gap-2">
                     <button
-                        onClick={() => setShowTextForm((v) => !v)}
+                        onClick={() => {
+                            setOverrideOf(null);
+                            setShowTextForm((v) => !v);
+                        }}
                         className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide bg-text-primary text-white hover:opacity-90"
                     >
                         {t("knowledge.addText")}
@@ -118,7 +245,7 @@ export default function KnowledgeBase() {
                     <input
                         ref={fileInputRef}
                         type="file"
-                        accept=".txt,.csv,.pdf,text/plain,text/csv,application/pdf"
+                        accept={KNOWLEDGE_UPLOAD_ACCEPT}
                         className="hidden"
                         onChange={(event) => {
                             const file = event.target.files?.[0];
@@ -132,6 +259,9 @@ export default function KnowledgeBase() {
 
             {showTextForm && (
                 <div className="rounded-2xl border border-border-subtle bg-white/70 p-4 space-y-3">
+                    {overrideOf ? (
+                        <div className="text-xs text-blue-700">{t("knowledge.overridingShared", { title: overrideOf.title })}</div>
+                    ) : null}
                     <input
                         value={title}
                         onChange={(event) => setTitle(event.target.value)}
@@ -147,7 +277,10 @@ export default function KnowledgeBase() {
                     />
                     <div className="flex items-center justify-end gap-2">
                         <button
-                            onClick={() => setShowTextForm(false)}
+                            onClick={() => {
+                                setOverrideOf(null);
+                                setShowTextForm(false);
+                            }}
                             className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide border border-border-subtle"
                         >
                             {t("common.cancel")}
@@ -176,6 +309,44 @@ export default function KnowledgeBase() {
                 </div>
             )}
 
+            {activeDeptId ? <KnowledgeSources departmentId={activeDeptId} canManage={canShare} /> : null}
+            {activeDeptId ? <AgentMemoriesPanel departmentId={activeDeptId} /> : null}
+
+            {embeddingStatus && embeddingStatus.model === null ? (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 text-amber-800 text-sm px-4 py-3">
+                    {t("knowledge.noEmbeddingProvider")}
+                </div>
+            ) : null}
+            {embeddingStatus?.migration?.status === "running" ? (
+                <div className="rounded-xl border border-sky-200 bg-sky-50 text-sky-800 text-sm px-4 py-3">
+                    {t("knowledge.migrationRunning", {
+                        model: embeddingStatus.migration.targetModel,
+                        processed: embeddingStatus.migration.processed,
+                        failed: embeddingStatus.migration.failed,
+                    })}
+                </div>
+            ) : embeddingStatus?.model && (embeddingStatus.totalStale > 0 || embeddingStatus.servingModel !== embeddingStatus.model) ? (
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 text-amber-800 text-sm px-4 py-3">
+                    <div className="space-y-1">
+                        <div>{t("knowledge.staleEmbeddings", { count: embeddingStatus.totalStale, model: embeddingStatus.model })}</div>
+                        {embeddingStatus.servingModel && embeddingStatus.servingModel !== embeddingStatus.model ? (
+                            <div className="text-xs">{t("knowledge.searchesServing", { model: embeddingStatus.servingModel })}</div>
+                        ) : null}
+                        {embeddingStatus.migration?.status === "failed" && embeddingStatus.migration.lastError ? (
+                            <div className="text-xs">{t("knowledge.migrationFailed", { error: embeddingStatus.migration.lastError })}</div>
+                        ) : null}
+                    </div>
+                    <button
+                        onClick={() => {
+                            void onReembedAll();
+                        }}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide bg-amber-600 text-white hover:opacity-90"
+                    >
+                        {t("knowledge.reembedAll")}
+                    </button>
+                </div>
+            ) : null}
+
             {!entries ? (
                     <div className="p-6 rounded-2xl border border-border-subtle bg-white/60 text-sm text-text-secondary">
                     {t("knowledge.loadingEntries")}
@@ -187,32 +358,174 @@ export default function KnowledgeBase() {
             ) : (
                 <div className="space-y-3">
                     {entries.map((entry: any) => (
-                        <div key={entry._id} className="rounded-2xl border border-border-subtle bg-white/70 p-4">
+                        <div
+                            key={entry._id}
+                            id={`knowledge-entry-${entry._id}`}
+                            className={`rounded-2xl border bg-white/70 p-4 ${entry._id === focusEntryId ? "border-blue-400 ring-2 ring-blue-200" : "border-border-subtle"}`}
+                        >
                             <div className="flex items-start justify-between gap-4">
                                 <div className="min-w-0">
-                                    <div className="text-sm font-bold text-text-primary truncate">{entry.title}</div>
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <div className="text-sm font-bold text-text-primary truncate">{entry.title}</div>
+                                        {knowledgeFormatLabel(entry.metadata?.type) ? (
+                                            <span
+                                                className="shrink-0 px-1.5 py-0.5 rounded-md bg-blue-50 border border-blue-200 text-[10px] font-bold uppercase tracking-wide text-blue-700"
+                                                title={t("knowledge.format")}
+                                            >
+                                                {knowledgeFormatLabel(entry.metadata?.type)}
+                                            </span>
+                                        ) : null}
+                                        {entry.overridesKnowledgeId ? (
+                                            <span className="shrink-0 px-1.5 py-0.5 rounded-md bg-amber-50 border border-amber-200 text-[10px] font-bold uppercase tracking-wide text-amber-700">
+                                                {t("knowledge.overridesShared")}
+                                            </span>
+                                        ) : null}
+                                    </div>
                                     <div className="text-xs text-text-secondary mt-1">
-                                        {t("knowledge.source")}: {entry.source} | {t("knowledge.date")}: {entry.createdAt ? formatLocalizedDateTime(entry.createdAt, language) : "-"}
+                                        {t("knowledge.source")}: {entry.source} | {t("knowledge.date")}: {entry.createdAt ? formatLocalizedDateTime(entry.createdAt, language) : "-"} | {t("knowledge.version")}: v{entry.version ?? 1}
                                     </div>
-                                    {entry.metadata?.filename ? (
+                                    {entry.sourceUrl ? (
+                                        <a
+                                            href={entry.sourceUrl}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="block text-[11px] font-mono text-blue-700 hover:underline mt-1 break-all"
+                                        >
+                                            {entry.sourceUrl}
+                                        </a>
+                                    ) : entry.metadata?.filename ? (
                                         <div className="text-[11px] font-mono text-text-secondary mt-1 break-all">
                                             {entry.metadata.filename}
                                         </div>
                                     ) : null}
                                 </div>
+                                <div className="flex shrink-0 items-center gap-2">
+                                    <button
+                                        onClick={() => (editingId === entry._id ? setEditingId(null) : startEditing(entry))}
+                                        className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                    >
+                                        {t("knowledge.edit")}
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            setHistoryId(historyId === entry._id ? null : entry._id);
+                                            setEditingId(null);
+                                        }}
+                                        className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                    >
+                                        {t("knowledge.history")}
+                                    </button>
+                                    {canShare && !entry.overridesKnowledgeId ? (
+                                        <button
+                                            onClick={() => {
+                                                void onShareWithOrg(entry._id);
+                                            }}
+                                            title={t("knowledge.shareWithOrgHint")}
+                                            className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                        >
+                                            {t("knowledge.shareWithOrg")}
+                                        </button>
+                                    ) : null}
+                                    <button
+                                        onClick={() => {
+                                            void removeEntry({ id: entry._id });
+                                        }}
+                                        className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50"
+                                    >
+                                        {t("knowledge.delete")}
+                                    </button>
+                                </div>
+                            </div>
+                            {editingId === entry._id ? (
+                                <div className="mt-4 space-y-3">
+                                    <input
+                                        value={editTitle}
+                                        onChange={(event) => setEditTitle(event.target.value)}
+                                        placeholder={t("knowledge.titlePlaceholder")}
+                                        className="w-full border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white"
+                                    />
+                                    <textarea
+                                        value={editText}
+                                        onChange={(event) => setEditText(event.target.value)}
+                                        rows={12}
+                                        className="w-full border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white font-mono"
+                                    />
+                                    <div className="flex items-center justify-end gap-2">
+                                        <button
+                                            onClick={() => setEditingId(null)}
+                                            className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide border border-border-subtle"
+                                        >
+                                            {t("common.cancel")}
+                                        </button>
+                                        <button
+                                            disabled={busy}
+                                            onClick={() => {
+                                                void onSaveEdit(entry._id);
+                                            }}
+                                            className="px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide bg-emerald-600 text-white disabled:opacity-60"
+                                        >
+                                            {t("common.save")}
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : null}
+                            {historyId === entry._id ? (
+                                <div className="mt-4 pt-3 border-t border-border-subtle">
+                                    <KnowledgeRevisions
+                                        entry={entry}
+                                        onError={setError}
+                                        onRolledBack={(version) => setMessage(t("knowledge.rolledBack", { version }))}
+                                    />
+                                </div>
+                            ) : null}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {sharedEntries && sharedEntries.length > 0 ? (
+                <div className="space-y-3">
+                    <div>
+                        <h3 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("knowledge.sharedTitle")}</h3>
+                        <p className="text-xs text-text-secondary">{t("knowledge.sharedSubtitle")}</p>
+                    </div>
+                    {sharedEntries.map((entry: any) => (
+                        <div
+                            key={entry._id}
+                            id={`knowledge-entry-${entry._id}`}
+                            className={`flex flex-wrap items-center justify-between gap-3 rounded-2xl border bg-white/50 px-4 py-3 ${entry._id === focusEntryId ? "border-blue-400 ring-2 ring-blue-200" : "border-border-subtle"}`}
+                        >
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <div className={`text-sm font-bold truncate ${entry.overriddenBy ? "text-text-secondary line-through" : "text-text-primary"}`}>
+                                        {entry.title}
+                                    </div>
+                                    {entry.collectionName ? (
+                                        <span className="shrink-0 px-1.5 py-0.5 rounded-md bg-violet-50 border border-violet-200 text-[10px] font-bold uppercase tracking-wide text-violet-700">
+                                            {entry.collectionName}
+                                        </span>
+                                    ) : null}
+                                </div>
+                                <div className="text-xs text-text-secondary mt-1">
+                                    {entry.overriddenBy
+                                        ? t("knowledge.overriddenHere")
+                                        : entry.collectionName
+                                            ? t("knowledge.collectionOnly")
+                                            : t("knowledge.sharedWithAll")}
+                                </div>
+                            </div>
+                            {!entry.overriddenBy && !entry.collectionId ? (
                                 <button
-                                    onClick={() => {
-                                        void removeEntry({ id: entry._id });
-                                    }}
-                                    className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50"
+                                    onClick={() => startOverride(entry)}
+                                    className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
                                 >
-                                    {t("knowledge.delete")}
+                                    {t("knowledge.override")}
                                 </button>
-                            </div>
+                            ) : null}
                         </div>
                     ))}
                 </div>
-            )}
+            ) : null}
         </div>
     );
 }
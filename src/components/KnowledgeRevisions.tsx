@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import { formatLocalizedDateTime } from "../lib/i18nTime";
+import { diffLines } from "../lib/textDiff";
+
+type KnowledgeRevisionsProps = {
+    entry: { _id: string; title: string; text: string };
+    onError: (message: string) => void;
+    onRolledBack: (version: number) => void;
+};
+
+const DIFF_LINE_CLASSES = {
+    same: "text-text-secondary",
+    added: "bg-emerald-50 text-emerald-800",
+    removed: "bg-red-50 text-red-700 line-through decoration-red-300",
+} as const;
+
+const DIFF_LINE_MARKERS = { same: " ", added: "+", removed: "-" } as const;
+
+export function KnowledgeRevisions({ entry, onError, onRolledBack }: KnowledgeRevisionsProps) {
+    const { t, i18n } = useTranslation();
+    const language = i18n.resolvedLanguage ?? "pt";
+    const revisions = useQuery(api.knowledge.listRevisions, { id: entry._id });
+    const rollback = useMutation(api.knowledge.rollback);
+    const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const selected = revisions?.find((revision: any) => revision.version === selectedVersion) ?? null;
+
+    async function onRollback(version: number) {
+        if (!window.confirm(t("knowledge.rollbackConfirm", { version }))) return;
+        setBusy(true);
+        try {
+            const result = await rollback({ id: entry._id, version });
+            setSelectedVersion(null);
+            onRolledBack(result.version);
+        } catch (err: unknown) {
+            onError(err instanceof Error ? err.message : t("knowledge.rollbackFailed"));
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    if (!revisions) {
+        return <div className="text-xs text-text-secondary">{t("knowledge.loadingHistory")}</div>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <ol className="space-y-1">
+                {revisions.map((revision: any) => (
+                    <li key={revision._id}>
+                        <button
+                            type="button"
+                            onClick={() => setSelectedVersion(revision.version === selectedVersion ? null : revision.version)}
+                            className={`w-full flex flex-wrap items-center gap-2 text-left text-xs px-2 py-1 rounded-lg ${revision.version === selectedVersion ? "bg-blue-50 border border-blue-200" : "hover:bg-black/5"}`}
+                        >
+                            <span className="font-mono font-bold text-text-primary">v{revision.version}</span>
+                            <span className="text-text-secondary">
+                                {revision.reason === "rollback"
+                                    ? t("knowledge.revisionRollback", { version: revision.restoredFromVersion })
+                                    : t(`knowledge.revisionReason.${revision.reason}`)}
+                            </span>
+                            <span className="text-text-secondary">{formatLocalizedDateTime(revision.createdAt, language)}</span>
+                            {revision.authorName ? <span className="text-text-secondary">· {revision.authorName}</span> : null}
+                            {revision.isCurrent ? (
+                                <span className="px-1.5 py-0.5 rounded-md bg-emerald-50 border border-emerald-200 text-[10px] font-bold uppercase tracking-wide text-emerald-700">
+                                    {t("knowledge.currentVersion")}
+                                </span>
+                            ) : null}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+
+            {selected && !selected.isCurrent ? (
+                <div className="rounded-xl border border-border-subtle bg-white p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="text-[11px] font-bold uppercase tracking-wide text-text-secondary">
+                            {t("knowledge.diffTitle", { version: selected.version })}
+                        </div>
+                        <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => {
+                                void onRollback(selected.version);
+                            }}
+                            className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-amber-300 text-amber-700 hover:bg-amber-50 disabled:opacity-60"
+                        >
+                            {t("knowledge.rollback")}
+                        </button>
+                    </div>
+                    {selected.title !== entry.title ? (
+                        <div className="text-xs font-mono">
+                            <div className={DIFF_LINE_CLASSES.removed}>- {selected.title}</div>
+                            <div className={DIFF_LINE_CLASSES.added}>+ {entry.title}</div>
+                        </div>
+                    ) : null}
+                    <pre className="max-h-80 overflow-auto text-[11px] font-mono whitespace-pre-wrap break-words">
+                        {diffLines(selected.text, entry.text).map((line, idx) => (
+                            <div key={idx} className={DIFF_LINE_CLASSES[line.kind]}>
+                                {DIFF_LINE_MARKERS[line.kind]} {line.text}
+                            </div>
+                        ))}
+                    </pre>
+                </div>
+            ) : null}
+        </div>
+    );
+}
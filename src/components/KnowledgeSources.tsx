@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import { formatLocalizedDateTime } from "../lib/i18nTime";
+
+type KnowledgeSourcesProps = {
+    departmentId: string;
+    canManage: boolean;
+};
+
+type SourceKind = "url" | "rss" | "sitemap";
+
+const SOURCE_KINDS: SourceKind[] = ["url", "rss", "sitemap"];
+const INTERVAL_OPTIONS_HOURS = [6, 24, 24 * 7];
+
+const STATUS_CLASSES: Record<string, string> = {
+    running: "bg-blue-50 border-blue-200 text-blue-700",
+    ok: "bg-emerald-50 border-emerald-200 text-emerald-700",
+    error: "bg-red-50 border-red-200 text-red-700",
+};
+
+/**
+ * URLs, RSS feeds and sitemaps synced into the knowledge base on a schedule.
+ */
+export function KnowledgeSources({ departmentId, canManage }: KnowledgeSourcesProps) {
+    const { t, i18n } = useTranslation();
+    const language = i18n.resolvedLanguage ?? "pt";
+    const sources = useQuery(api.knowledgeSources.listByDepartment, { departmentId });
+    const createSource = useMutation(api.knowledgeSources.create);
+    const syncNow = useMutation(api.knowledgeSources.syncNow);
+    const setEnabled = useMutation(api.knowledgeSources.setEnabled);
+    const removeSource = useMutation(api.knowledgeSources.remove);
+
+    const [kind, setKind] = useState<SourceKind>("url");
+    const [url, setUrl] = useState("");
+    const [intervalHours, setIntervalHours] = useState(24);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    async function run(action: () => Promise<unknown>) {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : t("knowledgeSources.actionFailed"));
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    function onRemove(source: any) {
+        if (!window.confirm(t("knowledgeSources.removeConfirm", { url: source.url }))) return;
+        const deletePages = window.confirm(t("knowledgeSources.deletePagesConfirm"));
+        void run(() => removeSource({ id: source._id, deletePages }));
+    }
+
+    if (!sources || (sources.length === 0 && !canManage)) return null;
+
+    return (
+        <div className="rounded-2xl border border-border-subtle bg-white/70 p-4 space-y-3">
+            <div>
+                <h3 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("knowledgeSources.title")}</h3>
+                <p className="text-xs text-text-secondary">{t("knowledgeSources.subtitle")}</p>
+            </div>
+
+            {canManage ? (
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={kind}
+                        onChange={(event) => setKind(event.target.value as SourceKind)}
+                        className="border border-border-subtle rounded-lg px-2 py-2 text-sm bg-white"
+                    >
+                        {SOURCE_KINDS.map((value) => (
+                            <option key={value} value={value}>
+                                {t(`knowledgeSources.kinds.${value}`)}
+                            </option>
+                        ))}
+                    </select>
+                    <input
+                        value={url}
+                        onChange={(event) => setUrl(event.target.value)}
+                        placeholder="https://docs.example.com/sitemap.xml"
+                        className="flex-1 min-w-[16rem] border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white font-mono"
+                    />
+                    <select
+                        value={intervalHours}
+                        onChange={(event) => setIntervalHours(Number(event.target.value))}
+                        className="border border-border-subtle rounded-lg px-2 py-2 text-sm bg-white"
+                    >
+                        {INTERVAL_OPTIONS_HOURS.map((hours) => (
+                            <option key={hours} value={hours}>
+                                {t(`knowledgeSources.intervals.${hours}`)}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        disabled={busy || !url.trim()}
+                        onClick={() => {
+                            void run(async () => {
+                                await createSource({ departmentId, kind, url, intervalHours });
+                                setUrl("");
+                            });
+                        }}
+                        className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-text-primary text-white disabled:opacity-60"
+                    >
+                        {t("knowledgeSources.add")}
+                    </button>
+                </div>
+            ) : null}
+
+            {error && (
+                <div className="rounded-xl border border-red-200 bg-red-50 text-red-700 text-sm px-4 py-3">{error}</div>
+            )}
+
+            {sources.length === 0 ? (
+                <div className="text-xs text-text-secondary italic">{t("knowledgeSources.empty")}</div>
+            ) : (
+                <div className="space-y-2">
+                    {sources.map((source: any) => (
+                        <div key={source._id} className="rounded-xl border border-border-subtle bg-white px-3 py-2 space-y-1">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <div className="min-w-0 flex items-center gap-2">
+                                    <span className="shrink-0 px-1.5 py-0.5 rounded-md bg-black/5 text-[10px] font-bold uppercase tracking-wide text-text-secondary">
+                                        {t(`knowledgeSources.kinds.${source.kind}`)}
+                                    </span>
+                                    <span className="text-sm font-bold text-text-primary truncate">{source.title || source.url}</span>
+                                    {source.lastStatus ? (
+                                        <span className={`shrink-0 px-1.5 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-wide ${STATUS_CLASSES[source.lastStatus] ?? ""}`}>
+                                            {t(`knowledgeSources.status.${source.lastStatus}`)}
+                                        </span>
+                                    ) : null}
+                                    {!source.enabled ? (
+                                        <span className="shrink-0 text-[10px] font-bold uppercase tracking-wide text-text-secondary">
+                                            {t("knowledgeSources.paused")}
+                                        </span>
+                                    ) : null}
+                                </div>
+                                {canManage ? (
+                                    <div className="flex shrink-0 items-center gap-2">
+                                        <button
+                                            disabled={busy || source.lastStatus === "running"}
+                                            onClick={() => {
+                                                void run(() => syncNow({ id: source._id }));
+                                            }}
+                                            className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5 disabled:opacity-60"
+                                        >
+                                            {t("knowledgeSources.syncNow")}
+                                        </button>
+                                        <button
+                                            disabled={busy}
+                                            onClick={() => {
+                                                void run(() => setEnabled({ id: source._id, enabled: !source.enabled }));
+                                            }}
+                                            className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                        >
+                                            {source.enabled ? t("knowledgeSources.pause") : t("knowledgeSources.resume")}
+                                        </button>
+                                        <button
+                                            disabled={busy}
+                                            onClick={() => onRemove(source)}
+                                            className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50"
+                                        >
+                                            {t("knowledge.delete")}
+                                        </button>
+                                    </div>
+                                ) : null}
+                            </div>
+                            <div className="text-[11px] font-mono text-text-secondary break-all">{source.url}</div>
+                            <div className="text-[11px] text-text-secondary">
+                                {t("knowledgeSources.lastSync")}: {source.lastSyncAt ? formatLocalizedDateTime(source.lastSyncAt, language) : "-"}
+                                {source.lastPageCount !== undefined
+                                    ? ` | ${t("knowledgeSources.pages", { count: source.lastPageCount, changed: source.lastChangedCount ?? 0 })}`
+                                    : ""}
+                                {` | ${t(`knowledgeSources.intervals.${source.intervalHours}`, { defaultValue: t("knowledgeSources.everyHours", { count: source.intervalHours }) })}`}
+                            </div>
+                            {source.lastError ? (
+                                <div className="text-[11px] text-red-600 break-words">{source.lastError}</div>
+                            ) : null}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,66 @@
+import { useTranslation } from "react-i18next";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { MemoryCitation } from "../../convex/lib/citations";
+
+type MessageCitationsProps = {
+  citations: MemoryCitation[];
+  onOpenTask?: (taskId: Id<"tasks">) => void;
+};
+
+const CITATION_KIND_ICONS: Record<MemoryCitation["kind"], string> = {
+  knowledge: "🧠",
+  asset: "📄",
+  task: "🗂️",
+};
+
+// Knowledge entries open in the Knowledge Base view; tasks and task-produced assets open in the inspector.
+function citationTarget(citation: MemoryCitation): { kind: "knowledge" | "task"; id: string } | null {
+  if (citation.kind === "knowledge") return { kind: "knowledge", id: citation.sourceId };
+  if (citation.kind === "task") return { kind: "task", id: citation.sourceId };
+  return citation.taskId ? { kind: "task", id: citation.taskId } : null;
+}
+
+export function MessageCitations({ citations, onOpenTask }: MessageCitationsProps) {
+  const { t } = useTranslation();
+  const sorted = [...citations].sort((a, b) => a.label - b.label);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border-subtle/70 space-y-1">
+      <div className="text-[9px] font-bold uppercase tracking-[0.15em] text-text-secondary/70">
+        {t("kanban.drawer.sources")}
+      </div>
+      <ol className="space-y-0.5">
+        {sorted.map((citation) => {
+          const target = citationTarget(citation);
+          const canOpen = target !== null && (target.kind === "knowledge" || onOpenTask !== undefined);
+          return (
+            <li key={`${citation.kind}:${citation.sourceId}`} className="flex items-start gap-1.5 text-[11px] text-text-secondary">
+              <span className="font-mono font-bold text-text-primary/70">[{citation.label}]</span>
+              <span aria-hidden="true">{CITATION_KIND_ICONS[citation.kind]}</span>
+              {canOpen ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (target.kind === "knowledge") {
+                      window.dispatchEvent(
+                        new CustomEvent("mc:open-knowledge-entry", { detail: { knowledgeId: target.id } })
+                      );
+                    } else {
+                      onOpenTask?.(target.id as Id<"tasks">);
+                    }
+                  }}
+                  title={t("kanban.drawer.openSource")}
+                  className="text-left text-blue-700 hover:underline break-words"
+                >
+                  {citation.title}
+                </button>
+              ) : (
+                <span className="break-words">{citation.title}</span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
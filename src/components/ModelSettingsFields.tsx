@@ -0,0 +1,123 @@
+import {
+    DEFAULT_MODEL_BY_PROVIDER,
+    LLM_PROVIDER_OPTIONS,
+    type LlmProviderChoice,
+    type ModelSettingsForm,
+} from "../lib/modelSettings";
+import { DEFAULT_STEP_BUDGET, STEP_BUDGET_LIMITS } from "../../convex/lib/stepBudget";
+
+interface ModelSettingsFieldsProps {
+    value: ModelSettingsForm;
+    onChange: (next: ModelSettingsForm) => void;
+}
+
+const INPUT_CLASS =
+    "w-full px-4 py-2 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm bg-white";
+
+export default function ModelSettingsFields({ value, onChange }: ModelSettingsFieldsProps) {
+    const update = (patch: Partial<ModelSettingsForm>) => onChange({ ...value, ...patch });
+    const modelPlaceholder =
+        value.llmProvider === "auto"
+            ? `Default (${DEFAULT_MODEL_BY_PROVIDER.openai} / ${DEFAULT_MODEL_BY_PROVIDER.anthropic})`
+            : `Default (${DEFAULT_MODEL_BY_PROVIDER[value.llmProvider]})`;
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">LLM Provider</label>
+                <select
+                    value={value.llmProvider}
+                    onChange={e => update({ llmProvider: e.target.value as LlmProviderChoice | "auto" })}
+                    className={INPUT_CLASS}
+                >
+                    {LLM_PROVIDER_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-400">If the preferred provider has no key, the agent falls back to the other one.</p>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+                <input
+                    type="text"
+                    value={value.model}
+                    onChange={e => update({ model: e.target.value })}
+                    placeholder={modelPlaceholder}
+                    maxLength={100}
+                    className={INPUT_CLASS}
+                />
+                <p className="mt-1 text-xs text-gray-400">Only used when the agent runs on the provider above.</p>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Temperature</label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={value.temperature}
+                        onChange={e => update({ temperature: e.target.value })}
+                        placeholder="0.7"
+                        className={INPUT_CLASS}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Max output tokens</label>
+                    <input
+                        type="number"
+                        min={64}
+                        max={value.llmProvider === "openai" ? 16384 : 8192}
+                        step={1}
+                        value={value.maxOutputTokens}
+                        onChange={e => update({ maxOutputTokens: e.target.value })}
+                        placeholder="900"
+                        className={INPUT_CLASS}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Max tool iterations</label>
+                    <input
+                        type="number"
+                        min={STEP_BUDGET_LIMITS.maxToolIterations.min}
+                        max={STEP_BUDGET_LIMITS.maxToolIterations.max}
+                        step={1}
+                        value={value.maxToolIterations}
+                        onChange={e => update({ maxToolIterations: e.target.value })}
+                        placeholder={String(DEFAULT_STEP_BUDGET.maxToolIterations)}
+                        className={INPUT_CLASS}
+                    />
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Max run time (seconds)</label>
+                    <input
+                        type="number"
+                        min={STEP_BUDGET_LIMITS.maxRunSeconds.min}
+                        max={STEP_BUDGET_LIMITS.maxRunSeconds.max}
+                        step={1}
+                        value={value.maxRunSeconds}
+                        onChange={e => update({ maxRunSeconds: e.target.value })}
+                        placeholder={String(DEFAULT_STEP_BUDGET.maxRunMs / 1000)}
+                        className={INPUT_CLASS}
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Max tokens per run</label>
+                    <input
+                        type="number"
+                        min={STEP_BUDGET_LIMITS.maxRunTokens.min}
+                        max={STEP_BUDGET_LIMITS.maxRunTokens.max}
+                        step={1000}
+                        value={value.maxRunTokens}
+                        onChange={e => update({ maxRunTokens: e.target.value })}
+                        placeholder={String(DEFAULT_STEP_BUDGET.maxRunTokens)}
+                        className={INPUT_CLASS}
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-gray-400">Leave a field empty to use the default. Lower limits keep terse agents cheap; research agents can get longer outputs. When a run hits its step budget it pauses and continues in a follow-up run.</p>
+        </div>
+    );
+}
@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import { useOrg } from "../OrgContext";
+import { useDept } from "../DeptContext";
+import { formatLocalizedDateTime } from "../lib/i18nTime";
+import { openUpgradeModalFromError } from "../lib/upgradeModal";
+
+/**
+ * Organization-wide knowledge: entries shared by every department and named
+ * collections that only the agents they are attached to can search.
+ */
+const OrgKnowledgeSettings: React.FC = () => {
+    const { t, i18n } = useTranslation();
+    const language = i18n.resolvedLanguage ?? "pt";
+    const { activeOrgId, organizations } = useOrg();
+    const { activeDeptId } = useDept();
+
+    const collections = useQuery(api.knowledgeCollections.list, activeOrgId ? { orgId: activeOrgId } : "skip");
+    const agents = useQuery(api.knowledgeCollections.listAgents, activeOrgId ? { orgId: activeOrgId } : "skip");
+    const entries = useQuery(api.knowledge.listOrgShared, activeOrgId ? { orgId: activeOrgId } : "skip");
+    const createCollection = useMutation(api.knowledgeCollections.create);
+    const updateCollection = useMutation(api.knowledgeCollections.update);
+    const removeCollection = useMutation(api.knowledgeCollections.remove);
+    const setAgentAccess = useMutation(api.knowledgeCollections.setAgentAccess);
+    const setSharing = useMutation(api.knowledge.setSharing);
+    const removeEntry = useMutation(api.knowledge.remove);
+    const ingestText = useAction(api.knowledge.ingestText);
+
+    const [collectionName, setCollectionName] = useState("");
+    const [collectionDescription, setCollectionDescription] = useState("");
+    const [title, setTitle] = useState("");
+    const [text, setText] = useState("");
+    const [entryCollectionId, setEntryCollectionId] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const activeOrg = useMemo(
+        () => organizations?.find((org) => org._id === activeOrgId),
+        [organizations, activeOrgId]
+    );
+    const canManage = activeOrg?.role === "owner" || activeOrg?.role === "admin";
+
+    if (!activeOrgId) return <div className="p-8">{t("orgKnowledge.selectOrganization")}</div>;
+    if (collections === undefined || entries === undefined) {
+        return <div className="p-8 text-sm text-text-secondary">{t("orgKnowledge.loading")}</div>;
+    }
+
+    const run = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err: unknown) {
+            if (openUpgradeModalFromError(err)) return;
+            setError(err instanceof Error ? err.message : t("orgKnowledge.actionFailed"));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const onCreateCollection = () =>
+        run(async () => {
+            await createCollection({
+                orgId: activeOrgId,
+                name: collectionName,
+                description: collectionDescription || undefined,
+            });
+            setCollectionName("");
+            setCollectionDescription("");
+        });
+
+    const onRenameCollection = (collection: any) => {
+        const name = window.prompt(t("orgKnowledge.renamePrompt"), collection.name);
+        if (!name?.trim()) return;
+        void run(() => updateCollection({ id: collection._id, name, description: collection.description }));
+    };
+
+    const onRemoveCollection = (collection: any) => {
+        if (!window.confirm(t("orgKnowledge.removeCollectionConfirm", { name: collection.name }))) return;
+        void run(() => removeCollection({ id: collection._id }));
+    };
+
+    const onAddEntry = () =>
+        run(async () => {
+            if (!activeDeptId) throw new Error(t("orgKnowledge.departmentRequired"));
+            if (!text.trim()) throw new Error(t("knowledge.textRequired"));
+            await ingestText({
+                departmentId: activeDeptId,
+                title: title.trim() || t("knowledge.manualKnowledge"),
+                text,
+                scope: "org",
+                collectionId: entryCollectionId || undefined,
+            });
+            setTitle("");
+            setText("");
+        });
+
+    return (
+        <div className="p-8 max-w-5xl mx-auto space-y-8">
+            <header>
+                <h1 className="text-2xl font-bold">{t("orgKnowledge.title")}</h1>
+                <p className="text-sm text-text-secondary">{t("orgKnowledge.subtitle")}</p>
+            </header>
+
+            {error && (
+                <div className="rounded-xl border border-red-200 bg-red-50 text-red-700 text-sm px-4 py-3">{error}</div>
+            )}
+
+            <section className="space-y-3">
+                <h2 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("orgKnowledge.collections")}</h2>
+                <p className="text-xs text-text-secondary">{t("orgKnowledge.collectionsHint")}</p>
+                {canManage ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            value={collectionName}
+                            onChange={(event) => setCollectionName(event.target.value)}
+                            placeholder={t("orgKnowledge.collectionName")}
+                            className="border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white"
+                        />
+                        <input
+                            value={collectionDescription}
+                            onChange={(event) => setCollectionDescription(event.target.value)}
+                            placeholder={t("orgKnowledge.collectionDescription")}
+                            className="flex-1 min-w-[12rem] border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white"
+                        />
+                        <button
+                            disabled={busy || !collectionName.trim()}
+                            onClick={() => {
+                                void onCreateCollection();
+                            }}
+                            className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-text-primary text-white disabled:opacity-60"
+                        >
+                            {t("orgKnowledge.createCollection")}
+                        </button>
+                    </div>
+                ) : null}
+                {collections.length === 0 ? (
+                    <div className="p-4 rounded-2xl border border-dashed border-border-subtle text-sm text-text-secondary italic">
+                        {t("orgKnowledge.noCollections")}
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {collections.map((collection: any) => (
+                            <div key={collection._id} className="rounded-2xl border border-border-subtle bg-white/70 p-4 space-y-3">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-bold text-text-primary">{collection.name}</div>
+                                        {collection.description ? (
+                                            <div className="text-xs text-text-secondary mt-0.5">{collection.description}</div>
+                                        ) : null}
+                                        <div className="text-[11px] text-text-secondary mt-1">
+                                            {t("orgKnowledge.entryCount", { count: collection.entryCount })}
+                                        </div>
+                                    </div>
+                                    {canManage ? (
+                                        <div className="flex shrink-0 items-center gap-2">
+                                            <button
+                                                onClick={() => onRenameCollection(collection)}
+                                                className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                            >
+                                                {t("orgKnowledge.rename")}
+                                            </button>
+                                            <button
+                                                onClick={() => onRemoveCollection(collection)}
+                                                className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50"
+                                            >
+                                                {t("knowledge.delete")}
+                                            </button>
+                                        </div>
+                                    ) : null}
+                                </div>
+                                <div>
+                                    <div className="text-[10px] font-bold uppercase tracking-[0.15em] text-text-secondary/70 mb-1">
+                                        {t("orgKnowledge.agents")}
+                                    </div>
+                                    {!agents || agents.length === 0 ? (
+                                        <div className="text-xs text-text-secondary italic">{t("orgKnowledge.noAgents")}</div>
+                                    ) : (
+                                        <div className="flex flex-wrap gap-2">
+                                            {agents.map((agent: any) => {
+                                                const attached = agent.knowledgeCollectionIds.includes(collection._id);
+                                                return (
+                                                    <label
+                                                        key={agent._id}
+                                                        className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-lg border text-xs ${attached ? "border-blue-400 bg-blue-50" : "border-border-subtle"}`}
+                                                    >
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={attached}
+                                                            disabled={!canManage || busy}
+                                                            onChange={(event) => {
+                                                                const enabled = event.target.checked;
+                                                                void run(() =>
+                                                                    setAgentAccess({ id: collection._id, agentId: agent._id, enabled })
+                                                                );
+                                                            }}
+                                                        />
+                                                        <span>{agent.name}</span>
+                                                        <span className="text-text-secondary">· {agent.departmentName}</span>
+                                                    </label>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            <section className="space-y-3">
+                <h2 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("orgKnowledge.sharedEntries")}</h2>
+                <p className="text-xs text-text-secondary">{t("orgKnowledge.sharedEntriesHint")}</p>
+                {canManage ? (
+                    <div className="rounded-2xl border border-border-subtle bg-white/70 p-4 space-y-3">
+                        <input
+                            value={title}
+                            onChange={(event) => setTitle(event.target.value)}
+                            placeholder={t("knowledge.titlePlaceholder")}
+                            className="w-full border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white"
+                        />
+                        <textarea
+                            value={text}
+                            onChange={(event) => setText(event.target.value)}
+                            placeholder={t("knowledge.textPlaceholder")}
+                            rows={6}
+                            className="w-full border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white font-mono"
+                        />
+                        <div className="flex flex-wrap items-center justify-end gap-2">
+                            <select
+                                value={entryCollectionId}
+                                onChange={(event) => setEntryCollectionId(event.target.value)}
+                                className="border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white"
+                            >
+                                <option value="">{t("orgKnowledge.allDepartments")}</option>
+                                {collections.map((collection: any) => (
+                                    <option key={collection._id} value={collection._id}>
+                                        {collection.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                disabled={busy}
+                                onClick={() => {
+                                    void onAddEntry();
+                                }}
+                                className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-emerald-600 text-white disabled:opacity-60"
+                            >
+                                {t("orgKnowledge.addSharedEntry")}
+                            </button>
+                        </div>
+                    </div>
+                ) : null}
+                {entries.length === 0 ? (
+                    <div className="p-4 rounded-2xl border border-dashed border-border-subtle text-sm text-text-secondary italic">
+                        {t("orgKnowledge.noSharedEntries")}
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                        {entries.map((entry: any) => (
+                            <div key={entry._id} className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-border-subtle bg-white/70 px-4 py-3">
+                                <div className="min-w-0">
+                                    <div className="text-sm font-bold text-text-primary truncate">{entry.title}</div>
+                                    <div className="text-xs text-text-secondary mt-0.5">
+                                        {t("knowledge.source")}: {entry.source} | {t("knowledge.date")}: {formatLocalizedDateTime(entry.createdAt, language)}
+                                    </div>
+                                </div>
+                                <div className="flex shrink-0 items-center gap-2">
+                                    <select
+                                        value={entry.collectionId ?? ""}
+                                        disabled={!canManage || busy}
+                                        onChange={(event) => {
+                                            const collectionId = event.target.value || undefined;
+                                            void run(() => setSharing({ id: entry._id, scope: "org", collectionId }));
+                                        }}
+                                        className="border border-border-subtle rounded-lg px-2 py-1 text-xs bg-white"
+                                    >
+                                        <option value="">{t("orgKnowledge.allDepartments")}</option>
+                                        {collections.map((collection: any) => (
+                                            <option key={collection._id} value={collection._id}>
+                                                {collection.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {canManage ? (
+                                        <>
+                                            <button
+                                                onClick={() => {
+                                                    void run(() => setSharing({ id: entry._id, scope: "department" }));
+                                                }}
+                                                title={t("orgKnowledge.unshareHint")}
+                                                className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                            >
+                                                {t("orgKnowledge.unshare")}
+                                            </button>
+                                            <button
+                                                onClick={() => {
+                                                    void run(() => removeEntry({ id: entry._id }));
+                                                }}
+                                                className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50"
+                                            >
+                                                {t("knowledge.delete")}
+                                            </button>
+                                        </>
+                                    ) : null}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default OrgKnowledgeSettings;
@@ -3,23 +3,36 @@ import { useTranslation } from "react-i18next";
 import DeptSettings from "./DeptSettings";
 import TeamSettings from "./TeamSettings";
 import Billing from "./Billing";
+import OrgKnowledgeSettings from "./OrgKnowledgeSettings";
+import { WorkflowSettings } from "./WorkflowSettings";
 
-export type OrgSettingsTab = "integrations" | "team" | "billing";
+export type OrgSettingsTab = "integrations" | "knowledge" | "workflow" | "team" | "billing";
 
-const OrgSettings: React.FC<{ tab: OrgSettingsTab }> = ({ tab }) => {
+// Tabs reachable from the settings header; team and billing open from the user menu.
+const HEADER_TABS: OrgSettingsTab[] = ["integrations", "knowledge", "workflow"];
+
+const OrgSettings: React.FC<{ tab: OrgSettingsTab; onTabChange?: (tab: OrgSettingsTab) => void }> = ({ tab, onTabChange }) => {
   const { t } = useTranslation();
-  const tabTitle = tab === "integrations"
-    ? t("settings.integrations")
-    : tab === "team"
-      ? t("settings.team")
-      : t("settings.billing");
+  const tabTitle = (value: OrgSettingsTab) => t(`settings.${value}`);
 
   return (
     <div className="space-y-4">
-      <div className="px-8 pt-6 text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">
-        {tabTitle}
+      <div className="px-8 pt-6 flex items-center gap-4 text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">
+        {HEADER_TABS.includes(tab) && onTabChange
+          ? HEADER_TABS.map((value) => (
+            <button
+              key={value}
+              onClick={() => onTabChange(value)}
+              className={`uppercase tracking-[0.2em] ${value === tab ? "text-text-primary" : "hover:text-text-primary"}`}
+            >
+              {tabTitle(value)}
+            </button>
+          ))
+          : tabTitle(tab)}
       </div>
       {tab === "integrations" ? <DeptSettings /> : null}
+      {tab === "knowledge" ? <OrgKnowledgeSettings /> : null}
+      {tab === "workflow" ? <WorkflowSettings /> : null}
       {tab === "team" ? <TeamSettings /> : null}
       {tab === "billing" ? <Billing /> : null}
     </div>
@@ -0,0 +1,144 @@
+import { useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { formatLocalizedDateTime } from "../lib/i18nTime";
+
+type AgentBySessionKey = Record<string, { name: string; avatar?: string }>;
+
+type RunTracePanelProps = {
+  departmentId: Id<"departments">;
+  taskId: Id<"tasks">;
+  agentBySessionKey: AgentBySessionKey;
+};
+
+function runStatusClass(status: string): string {
+  if (status === "completed") return "bg-emerald-100 text-emerald-700 border-emerald-200";
+  if (status === "checkpointed") return "bg-amber-100 text-amber-700 border-amber-200";
+  if (status === "failed") return "bg-red-100 text-red-700 border-red-200";
+  return "bg-blue-100 text-blue-700 border-blue-200";
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return "…";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function prettyJson(raw?: string): string {
+  if (!raw) return "";
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+export function RunTracePanel({ departmentId, taskId, agentBySessionKey }: RunTracePanelProps) {
+  const { t, i18n } = useTranslation();
+  const language = i18n.resolvedLanguage ?? "pt";
+  const runs = useQuery(api.agentRuns.listByTask, { departmentId, taskId });
+
+  if (!runs) {
+    return (
+      <div className="p-4 rounded-2xl border border-border-subtle bg-white/40 text-xs text-text-secondary">
+        {t("kanban.drawer.runTraceLoading")}
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="p-4 rounded-2xl border border-dashed border-border-subtle bg-white/20 text-xs text-text-secondary italic">
+        {t("kanban.drawer.runTraceEmpty")}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {runs.map((run) => {
+        const agentName = agentBySessionKey[run.agentSessionKey]?.name ?? run.agentSessionKey;
+        return (
+          <details key={run._id} className="glass-card p-5 space-y-4">
+            <summary className="cursor-pointer list-none space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm font-semibold text-text-primary truncate">{agentName}</div>
+                <span className={`text-[10px] font-bold uppercase tracking-[0.12em] border rounded-full px-2 py-1 ${runStatusClass(run.status)}`}>
+                  {run.status}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-mono text-text-secondary/70">
+                <span>{formatLocalizedDateTime(run.startedAt, language)}</span>
+                <span>{formatDuration(run.durationMs)}</span>
+                {run.model || run.provider ? <span>{run.model ?? run.provider}</span> : null}
+                <span>LLM ×{run.llmCalls ?? 0}</span>
+                <span>Tools ×{run.toolCalls ?? 0}</span>
+                <span>{(run.inputTokens ?? 0) + (run.outputTokens ?? 0)} tok</span>
+              </div>
+              {run.triggerKey ? (
+                <div className="text-[10px] font-mono text-text-secondary/60 break-all">
+                  {t("kanban.drawer.runTraceTrigger")}: {run.triggerKey}
+                </div>
+              ) : null}
+              {run.error ? <div className="text-xs text-red-700">{run.error}</div> : null}
+            </summary>
+
+            <div className="mt-4 space-y-3">
+              {run.steps.map((step) => (
+                <div key={step._id} className="rounded-xl border border-border-subtle bg-white/70 px-3 py-2.5 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="text-[10px] uppercase tracking-[0.14em] font-bold text-text-secondary/70">
+                      #{step.sequence + 1}{" "}
+                      {step.kind === "llm_call"
+                        ? `${t("kanban.drawer.runTraceLlmCall")} · ${step.protocol ?? ""}`
+                        : `${t("kanban.drawer.runTraceToolCall")} · ${step.toolName ?? ""}`}
+                    </div>
+                    <div className="text-[10px] font-mono text-text-secondary/60">{formatDuration(step.latencyMs)}</div>
+                  </div>
+                  {step.kind === "llm_call" ? (
+                    <>
+                      <div className="text-[10px] font-mono text-text-secondary/70">
+                        {step.messageCount ?? 0} msgs · {step.promptChars ?? 0} chars · max {step.maxTokens ?? 0}
+                        {step.inputTokens !== undefined ? ` · ${step.inputTokens} in / ${step.outputTokens ?? 0} out` : ""}
+                        {step.requestedTools && step.requestedTools.length > 0 ? ` · → ${step.requestedTools.join(", ")}` : ""}
+                      </div>
+                      {step.response ? (
+                        <div>
+                          <div className="text-[10px] font-bold uppercase tracking-[0.12em] text-text-secondary/60">
+                            {t("kanban.drawer.runTraceResponse")}
+                          </div>
+                          <pre className="whitespace-pre-wrap break-words text-[11px] text-text-primary/90 font-mono max-h-60 overflow-y-auto">{step.response}</pre>
+                        </div>
+                      ) : null}
+                    </>
+                  ) : (
+                    <>
+                      <div>
+                        <div className="text-[10px] font-bold uppercase tracking-[0.12em] text-text-secondary/60">
+                          {t("kanban.drawer.runTraceArgs")}
+                        </div>
+                        <pre className="whitespace-pre-wrap break-words text-[11px] text-text-primary/90 font-mono max-h-40 overflow-y-auto">{prettyJson(step.toolArgs)}</pre>
+                      </div>
+                      <div>
+                        <div className="text-[10px] font-bold uppercase tracking-[0.12em] text-text-secondary/60">
+                          {t("kanban.drawer.runTraceObservation")}
+                        </div>
+                        <pre className="whitespace-pre-wrap break-words text-[11px] text-text-primary/90 font-mono max-h-60 overflow-y-auto">{prettyJson(step.observation)}</pre>
+                      </div>
+                    </>
+                  )}
+                  {step.error ? <div className="text-xs text-red-700 break-words">{step.error}</div> : null}
+                </div>
+              ))}
+              {run.finalResponse ? (
+                <div className="rounded-xl border border-emerald-200 bg-emerald-50/60 px-3 py-2.5 text-xs text-text-primary/90 whitespace-pre-wrap">
+                  {run.finalResponse}
+                </div>
+              ) : null}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
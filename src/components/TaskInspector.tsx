@@ -3,31 +3,30 @@ import { useAction, useMutation, useQuery } from "convex/react";
 import { useTranslation } from "react-i18next";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { columnForTask, findTransitionRule, isTransitionAllowed, type WorkflowColumn } from "../../convex/lib/workflows";
 import { useOrg } from "../OrgContext";
 import { dicebearBotttsUrl } from "../lib/avatar";
 import { formatLocalizedDateTime, formatLocalizedTime } from "../lib/i18nTime";
 import { ServiceLogo } from "./integrations/ServiceLogo";
+import { MessageCitations } from "./MessageCitations";
+import { RunTracePanel } from "./RunTracePanel";
 
 type Status = "inbox" | "assigned" | "in_progress" | "review" | "done";
 
 type AgentBySessionKey = Record<string, { name: string; avatar?: string }>;
 
+type InspectorTab = "overview" | "trace";
+
 type TaskInspectorProps = {
   departmentId: Id<"departments">;
   taskId: Id<"tasks"> | null;
   onClose: () => void;
   sessionKey: string;
   agentBySessionKey: AgentBySessionKey;
+  // Opens another task in the inspector (citation links).
+  onOpenTask?: (taskId: Id<"tasks">) => void;
 };
 
-const STATUS_UPDATE_OPTIONS: Array<{ value: Status }> = [
-  { value: "inbox" },
-  { value: "assigned" },
-  { value: "in_progress" },
-  { value: "review" },
-  { value: "done" },
-];
-
 const TOOL_NAME_REGEX = /\[TOOL:\s*([a-zA-Z0-9_-]+)/g;
 
 const TOOL_BADGE_META: Record<string, { label: string; service?: string; icon?: string }> = {
@@ -97,6 +96,7 @@ function extractToolNames(messages: Array<{ content?: string }>): string[] {
 }
 
 function subtaskStatusMeta(rawStatus: string): { label: string; className: string } {
+  if (rawStatus.toLowerCase() === "blocked") return { label: "Blocked", className: "bg-red-100 text-red-700 border-red-200" };
   const status = normalizeUiTaskStatus(rawStatus);
   if (status === "done") return { label: "Done", className: "bg-emerald-100 text-emerald-700 border-emerald-200" };
   if (status === "review") return { label: "Review", className: "bg-indigo-100 text-indigo-700 border-indigo-200" };
@@ -111,6 +111,7 @@ export function TaskInspector({
   onClose,
   sessionKey,
   agentBySessionKey,
+  onOpenTask,
 }: TaskInspectorProps) {
   const { t, i18n } = useTranslation();
   const language = i18n.resolvedLanguage ?? "pt";
@@ -131,27 +132,47 @@ export function TaskInspector({
 
   const currentUserId = useQuery(api.organizations.currentUserId);
   const createMessage = useMutation(api.messages.create);
+  const workflow = useQuery(api.workflows.get, { departmentId });
   const setStatus = useMutation(api.tasks.setStatus);
   const approveTask = useMutation(api.tasks.approve);
+  const addDependency = useMutation(api.tasks.addDependency);
+  const removeDependency = useMutation(api.tasks.removeDependency);
   const requestThink = useAction(api.brain.think);
 
   const [draft, setDraft] = useState("");
-  const [statusDraft, setStatusDraft] = useState<Status>("assigned");
+  const [columnDraft, setColumnDraft] = useState("");
   const [statusBusy, setStatusBusy] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [isRequestingReanalysis, setIsRequestingReanalysis] = useState(false);
+  const [activeTab, setActiveTab] = useState<InspectorTab>("overview");
+  const [dependencySearch, setDependencySearch] = useState("");
+  const [dependencyBusy, setDependencyBusy] = useState(false);
+  const dependencyCandidates = useQuery(
+    api.tasks.searchByTitle,
+    taskId && dependencySearch.trim() ? { departmentId, query: dependencySearch, excludeTaskId: taskId } : "skip"
+  );
 
   const activeOrg = useMemo(
     () => organizations?.find((org) => org._id === activeOrgId),
     [organizations, activeOrgId]
   );
 
-  const canSetDoneDirectly = useMemo(() => {
+  const currentColumn = useMemo(
+    () => (workflow && snapshot?.task ? columnForTask(workflow, snapshot.task) : undefined),
+    [workflow, snapshot?.task]
+  );
+
+  // Mirrors the server-side transition check so forbidden columns are disabled up front.
+  const canMoveTo = useMemo(() => {
     const ownerUserId = snapshot?.task?.ownerUserId as Id<"users"> | undefined;
     const isTaskOwner = Boolean(ownerUserId && currentUserId && ownerUserId === currentUserId);
-    const isOrgAdmin = activeOrg?.role === "owner" || activeOrg?.role === "admin";
-    return isTaskOwner || isOrgAdmin;
-  }, [snapshot?.task?.ownerUserId, currentUserId, activeOrg?.role]);
+    const role = activeOrg?.role === "owner" || activeOrg?.role === "admin" ? activeOrg.role : "member";
+    return (column: WorkflowColumn) => {
+      if (!workflow || !currentColumn || column.key === currentColumn.key) return true;
+      const rule = findTransitionRule(workflow, currentColumn.key, column.key);
+      return isTransitionAllowed(rule, { type: "user", role, isTaskOwner });
+    };
+  }, [workflow, currentColumn, snapshot?.task?.ownerUserId, currentUserId, activeOrg?.role]);
 
   const extractedTools = useMemo(
     () => extractToolNames((snapshot?.messages ?? []) as Array<{ content?: string }>),
@@ -159,10 +180,10 @@ export function TaskInspector({
   );
 
   useEffect(() => {
-    const status = snapshot?.task?.status;
-    if (!status) return;
-    setStatusDraft(normalizeUiTaskStatus(status));
-  }, [snapshot?.task?._id, snapshot?.task?.status]);
+    const columnKey = currentColumn?.key;
+    if (!columnKey) return;
+    setColumnDraft(columnKey);
+  }, [snapshot?.task?._id, currentColumn?.key]);
 
   if (!taskId) return null;
   const selectedTaskId = taskId;
@@ -183,8 +204,10 @@ export function TaskInspector({
   }
 
   async function onSaveStatus() {
-    if (statusDraft === "done" && !canSetDoneDirectly) {
-      window.alert(t("app.statusDoneAlert"));
+    const column = workflow?.columns.find((candidate) => candidate.key === columnDraft);
+    if (!column) return;
+    if (!canMoveTo(column)) {
+      window.alert(column.status === "done" ? t("app.statusDoneAlert") : t("kanban.drawer.transitionNotAllowed"));
       return;
     }
 
@@ -193,10 +216,13 @@ export function TaskInspector({
       await setStatus({
         departmentId,
         taskId: selectedTaskId,
-        status: statusDraft,
+        status: column.status,
+        column: column.key,
         bySessionKey: sessionKey,
         reason: "ui_change",
       });
+    } catch (error: unknown) {
+      window.alert(error instanceof Error ? error.message : t("kanban.drawer.transitionNotAllowed"));
     } finally {
       setStatusBusy(false);
     }
@@ -209,7 +235,6 @@ export function TaskInspector({
         departmentId,
         taskId: selectedTaskId,
       });
-      setStatusDraft("done");
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : t("app.approveError");
       window.alert(message || t("app.approveError"));
@@ -218,6 +243,23 @@ export function TaskInspector({
     }
   }
 
+  async function onChangeDependency(dependsOnTaskId: Id<"tasks">, action: "add" | "remove") {
+    setDependencyBusy(true);
+    try {
+      const args = { departmentId, taskId: selectedTaskId, dependsOnTaskId };
+      if (action === "add") {
+        await addDependency(args);
+        setDependencySearch("");
+      } else {
+        await removeDependency(args);
+      }
+    } catch (error: unknown) {
+      window.alert(error instanceof Error ? error.message : t("kanban.drawer.dependencyError"));
+    } finally {
+      setDependencyBusy(false);
+    }
+  }
+
   async function onRequestReanalysis() {
     setIsRequestingReanalysis(true);
     try {
@@ -242,6 +284,9 @@ export function TaskInspector({
 
   const latestActivities = inspectorPanel?.recentActivities ?? [];
   const delegatedSubtasks = inspectorPanel?.subtasks ?? [];
+  const dependencies = inspectorPanel?.dependencies ?? [];
+  const dependents = inspectorPanel?.dependents ?? [];
+  const linkedIds = new Set(dependencies.map((dependency) => String(dependency._id)));
 
   return (
     <div className="fixed inset-y-0 right-0 w-[520px] bg-white shadow-2xl border-l border-border-subtle z-50 flex flex-col transform transition-transform animate-in slide-in-from-right duration-300">
@@ -260,233 +305,357 @@ export function TaskInspector({
         </button>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-thin">
-        <div className="grid grid-cols-1 gap-6">
-          <div className="glass-card p-5 space-y-4">
-            <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">{t("kanban.drawer.lifecycleStatus")}</div>
-            <div className="flex gap-3">
-              <select
-                value={statusDraft}
-                onChange={(event) => setStatusDraft(normalizeUiTaskStatus(event.target.value))}
-                className="flex-1 bg-white border border-border-subtle rounded-xl px-4 py-2.5 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-black/5 transition-all shadow-sm"
-              >
-                {STATUS_UPDATE_OPTIONS.map(({ value }) => {
-                  const disabled = value === "done" ? !canSetDoneDirectly : false;
-                  return (
-                    <option key={value} value={value} disabled={disabled}>
-                      {value === "done" && disabled
-                        ? `${t(`status.${value}`)} (${t("kanban.drawer.approvalOnly")})`
-                        : t(`status.${value}`)}
-                    </option>
-                  );
-                })}
-              </select>
-              <button
-                onClick={() => { void onSaveStatus(); }}
-                disabled={statusBusy}
-                className="px-6 py-2.5 bg-text-primary text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-50 hover:bg-black transition-all shadow-md active:scale-95"
-              >
-                {t("common.update")}
-              </button>
-            </div>
-            {normalizeUiTaskStatus(snapshot?.task?.status) === "review" ? (
-              <button
-                onClick={() => { void onApproveTask(); }}
-                disabled={isApproving}
-                className="w-full py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-50 hover:bg-emerald-700 transition-all shadow-md"
-              >
-                {isApproving ? t("kanban.drawer.approving") : t("kanban.drawer.approve")}
-              </button>
-            ) : null}
-          </div>
+      <div className="px-8 pt-4 flex gap-2 border-b border-border-subtle">
+        {(["overview", "trace"] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 -mb-px border-b-2 text-[10px] font-bold uppercase tracking-[0.15em] transition-all ${
+              activeTab === tab
+                ? "border-text-primary text-text-primary"
+                : "border-transparent text-text-secondary/60 hover:text-text-primary"
+            }`}
+          >
+            {tab === "overview" ? t("kanban.drawer.tabOverview") : t("kanban.drawer.tabRunTrace")}
+          </button>
+        ))}
+      </div>
 
-          <div className="glass-card p-5 space-y-5">
-            <div className="flex justify-between items-center">
-              <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">Raciocínio do Agente</div>
-              <div className="text-[10px] font-mono opacity-40 uppercase tracking-tighter">
-                TXN_{selectedTaskId.toString().slice(-6)}
+      <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-thin">
+        {activeTab === "trace" ? (
+          <RunTracePanel departmentId={departmentId} taskId={selectedTaskId} agentBySessionKey={agentBySessionKey} />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 gap-6">
+              <div className="glass-card p-5 space-y-4">
+                <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">{t("kanban.drawer.lifecycleStatus")}</div>
+                <div className="flex gap-3">
+                  <select
+                    value={columnDraft}
+                    onChange={(event) => setColumnDraft(event.target.value)}
+                    className="flex-1 bg-white border border-border-subtle rounded-xl px-4 py-2.5 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-black/5 transition-all shadow-sm"
+                  >
+                    {(workflow?.columns ?? []).map((column) => {
+                      const disabled = !canMoveTo(column);
+                      const label = column.label?.trim() || t(`status.${column.key}`, { defaultValue: column.key });
+                      return (
+                        <option key={column.key} value={column.key} disabled={disabled}>
+                          {disabled
+                            ? `${label} (${t(column.status === "done" ? "kanban.drawer.approvalOnly" : "kanban.drawer.transitionNotAllowed")})`
+                            : label}
+                        </option>
+                      );
+                    })}
+                  </select>
+                  <button
+                    onClick={() => { void onSaveStatus(); }}
+                    disabled={statusBusy}
+                    className="px-6 py-2.5 bg-text-primary text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-50 hover:bg-black transition-all shadow-md active:scale-95"
+                  >
+                    {t("common.update")}
+                  </button>
+                </div>
+                {normalizeUiTaskStatus(snapshot?.task?.status) === "review" ? (
+                  <button
+                    onClick={() => { void onApproveTask(); }}
+                    disabled={isApproving}
+                    className="w-full py-2.5 bg-emerald-600 text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-50 hover:bg-emerald-700 transition-all shadow-md"
+                  >
+                    {isApproving ? t("kanban.drawer.approving") : t("kanban.drawer.approve")}
+                  </button>
+                ) : null}
               </div>
-            </div>
 
-            {latestActivities.length === 0 ? (
-              <div className="rounded-2xl border border-dashed border-border-subtle bg-white/40 px-4 py-3 text-xs text-text-secondary">
-                Nenhuma atividade recente registrada para esta task.
+              <div className="glass-card p-5 space-y-4">
+                <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">{t("kanban.drawer.dependencies")}</div>
+                {inspectorPanel?.task?.waitingOnDependencies ? (
+                  <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+                    {t("kanban.drawer.waitingOnDependencies")}
+                  </div>
+                ) : null}
+                {dependencies.length === 0 ? (
+                  <div className="rounded-xl border border-dashed border-border-subtle bg-white/40 px-3 py-2 text-xs text-text-secondary">
+                    {t("kanban.drawer.noDependencies")}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {dependencies.map((dependency) => {
+                      const statusMeta = subtaskStatusMeta(String(dependency.status ?? ""));
+                      return (
+                        <div key={dependency._id} className="flex items-center justify-between gap-3 rounded-xl border border-border-subtle bg-white/70 px-3 py-2">
+                          <button
+                            onClick={() => onOpenTask?.(dependency._id)}
+                            className="min-w-0 truncate text-left text-sm font-semibold text-text-primary hover:underline"
+                          >
+                            {dependency.title}
+                          </button>
+                          <div className="flex shrink-0 items-center gap-2">
+                            <span className={`text-[10px] font-bold uppercase tracking-[0.12em] border rounded-full px-2 py-1 ${statusMeta.className}`}>
+                              {statusMeta.label}
+                            </span>
+                            <button
+                              onClick={() => { void onChangeDependency(dependency._id, "remove"); }}
+                              disabled={dependencyBusy}
+                              className="text-[10px] font-bold uppercase tracking-wide text-red-600 hover:underline disabled:opacity-50"
+                            >
+                              {t("kanban.drawer.removeDependency")}
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <input
+                    value={dependencySearch}
+                    onChange={(event) => setDependencySearch(event.target.value)}
+                    placeholder={t("kanban.drawer.addDependencyPlaceholder")}
+                    className="w-full bg-white border border-border-subtle rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black/5"
+                  />
+                  {(dependencyCandidates ?? [])
+                    .filter((candidate) => !linkedIds.has(String(candidate._id)))
+                    .map((candidate) => (
+                      <button
+                        key={candidate._id}
+                        onClick={() => { void onChangeDependency(candidate._id, "add"); }}
+                        disabled={dependencyBusy}
+                        className="w-full flex items-center justify-between gap-3 rounded-xl border border-border-subtle bg-white px-3 py-2 text-left text-xs hover:bg-black/5 disabled:opacity-50"
+                      >
+                        <span className="truncate font-semibold text-text-primary">{candidate.title}</span>
+                        <span className="shrink-0 text-text-secondary">{t(`status.${candidate.status}`)}</span>
+                      </button>
+                    ))}
+                </div>
+                {dependents.length > 0 ? (
+                  <div className="text-[11px] text-text-secondary">
+                    {t("kanban.drawer.unblocks")}:{" "}
+                    {dependents.map((dependent, index) => (
+                      <span key={dependent._id}>
+                        {index > 0 ? ", " : ""}
+                        <button onClick={() => onOpenTask?.(dependent._id)} className="font-semibold text-text-primary hover:underline">
+                          {dependent.title}
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
               </div>
-            ) : (
-              <div className="space-y-2.5">
-                {latestActivities.slice(0, 6).map((activity) => (
-                  <div key={activity._id} className="rounded-xl border border-border-subtle bg-white/70 px-3 py-2.5">
-                    <div className="flex items-center justify-between gap-3">
-                      <div className="text-[10px] uppercase tracking-[0.14em] font-bold text-text-secondary/70">
-                        {String(activity.actorName ?? activity.type ?? "Agente")}
-                      </div>
-                      <div className="text-[10px] font-mono text-text-secondary/60">
-                        {formatLocalizedTime(activity.createdAt, language)}
+
+              <div className="glass-card p-5 space-y-5">
+                <div className="flex justify-between items-center">
+                  <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">Raciocínio do Agente</div>
+                  <div className="text-[10px] font-mono opacity-40 uppercase tracking-tighter">
+                    TXN_{selectedTaskId.toString().slice(-6)}
+                  </div>
+                </div>
+
+                {latestActivities.length === 0 ? (
+                  <div className="rounded-2xl border border-dashed border-border-subtle bg-white/40 px-4 py-3 text-xs text-text-secondary">
+                    Nenhuma atividade recente registrada para esta task.
+                  </div>
+                ) : (
+                  <div className="space-y-2.5">
+                    {latestActivities.slice(0, 6).map((activity) => (
+                      <div key={activity._id} className="rounded-xl border border-border-subtle bg-white/70 px-3 py-2.5">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="text-[10px] uppercase tracking-[0.14em] font-bold text-text-secondary/70">
+                            {String(activity.actorName ?? activity.type ?? "Agente")}
+                          </div>
+                          <div className="text-[10px] font-mono text-text-secondary/60">
+                            {formatLocalizedTime(activity.createdAt, language)}
+                          </div>
+                        </div>
+                        <div className="mt-1 text-xs leading-relaxed text-text-primary/90">{activity.message}</div>
                       </div>
-                    </div>
-                    <div className="mt-1 text-xs leading-relaxed text-text-primary/90">{activity.message}</div>
+                    ))}
                   </div>
-                ))}
+                )}
+
+                <button
+                  onClick={() => { void onRequestReanalysis(); }}
+                  disabled={isRequestingReanalysis}
+                  className="w-full py-3 bg-text-primary text-white rounded-2xl font-bold text-xs uppercase tracking-[0.2em] disabled:opacity-50 hover:bg-black transition-all shadow-lg active:scale-95"
+                >
+                  {isRequestingReanalysis ? "REANALISANDO..." : "SOLICITAR RE-ANÁLISE"}
+                </button>
               </div>
-            )}
-
-            <button
-              onClick={() => { void onRequestReanalysis(); }}
-              disabled={isRequestingReanalysis}
-              className="w-full py-3 bg-text-primary text-white rounded-2xl font-bold text-xs uppercase tracking-[0.2em] disabled:opacity-50 hover:bg-black transition-all shadow-lg active:scale-95"
-            >
-              {isRequestingReanalysis ? "REANALISANDO..." : "SOLICITAR RE-ANÁLISE"}
-            </button>
-          </div>
 
-          <div className="glass-card p-5 space-y-4">
-            <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">Ferramentas utilizadas</div>
-            {extractedTools.length === 0 ? (
-              <div className="rounded-xl border border-dashed border-border-subtle bg-white/40 px-3 py-2 text-xs text-text-secondary">
-                Ainda não há uso de ferramentas registrado nesta task.
-              </div>
-            ) : (
-              <div className="flex flex-wrap gap-2">
-                {extractedTools.map((toolName) => {
-                  const meta = TOOL_BADGE_META[toolName] ?? { icon: "🛠️", label: toolName };
-                  return (
-                    <span
-                      key={toolName}
-                      className="inline-flex items-center gap-1.5 rounded-full border border-border-subtle bg-white px-2.5 py-1 text-[11px] font-semibold text-text-secondary"
-                    >
-                      {meta.service ? (
-                        <ServiceLogo service={meta.service} className="w-4 h-4 border-none shadow-none" />
-                      ) : (
-                        <span>{meta.icon ?? "🛠️"}</span>
-                      )}
-                      <span>{meta.label}</span>
-                    </span>
-                  );
-                })}
+              <div className="glass-card p-5 space-y-4">
+                <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">Ferramentas utilizadas</div>
+                {extractedTools.length === 0 ? (
+                  <div className="rounded-xl border border-dashed border-border-subtle bg-white/40 px-3 py-2 text-xs text-text-secondary">
+                    Ainda não há uso de ferramentas registrado nesta task.
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {extractedTools.map((toolName) => {
+                      const meta = TOOL_BADGE_META[toolName] ?? { icon: "🛠️", label: toolName };
+                      return (
+                        <span
+                          key={toolName}
+                          className="inline-flex items-center gap-1.5 rounded-full border border-border-subtle bg-white px-2.5 py-1 text-[11px] font-semibold text-text-secondary"
+                        >
+                          {meta.service ? (
+                            <ServiceLogo service={meta.service} className="w-4 h-4 border-none shadow-none" />
+                          ) : (
+                            <span>{meta.icon ?? "🛠️"}</span>
+                          )}
+                          <span>{meta.label}</span>
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
 
-          <div className="glass-card p-5 space-y-4">
-            <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">Subtarefas Delegadas</div>
-            {delegatedSubtasks.length === 0 ? (
-              <div className="rounded-xl border border-dashed border-border-subtle bg-white/40 px-3 py-2 text-xs text-text-secondary">
-                Nenhuma subtask delegada para esta tarefa.
-              </div>
-            ) : (
-              <div className="space-y-3">
-                {delegatedSubtasks.map((subtask) => {
-                  const statusMeta = subtaskStatusMeta(String(subtask.status ?? ""));
-                  const assignees = (subtask.assigneeSessionKeys ?? []) as string[];
-                  const assigneeLabels = assignees.map((session) => agentBySessionKey[session]?.name ?? session);
-                  return (
-                    <div key={subtask._id} className="rounded-2xl border border-border-subtle bg-white/70 p-3 space-y-2">
-                      <div className="flex items-start justify-between gap-3">
-                        <div className="text-sm font-semibold text-text-primary leading-snug">{subtask.title}</div>
-                        <span className={`text-[10px] font-bold uppercase tracking-[0.12em] border rounded-full px-2 py-1 ${statusMeta.className}`}>
-                          {statusMeta.label}
-                        </span>
-                      </div>
-                      <div className="text-[11px] text-text-secondary">
-                        Especialista: {assigneeLabels.length > 0 ? assigneeLabels.join(", ") : "Não atribuído"}
-                      </div>
-                      <div className="text-[10px] font-mono text-text-secondary/60">
-                        {formatLocalizedDateTime(subtask.createdAt, language)}
-                      </div>
-                    </div>
-                  );
-                })}
+              <div className="glass-card p-5 space-y-4">
+                <div className="text-[10px] font-bold uppercase tracking-[0.2em] text-text-secondary/70">Subtarefas Delegadas</div>
+                {delegatedSubtasks.length === 0 ? (
+                  <div className="rounded-xl border border-dashed border-border-subtle bg-white/40 px-3 py-2 text-xs text-text-secondary">
+                    Nenhuma subtask delegada para esta tarefa.
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {delegatedSubtasks.map((subtask) => {
+                      const statusMeta = subtaskStatusMeta(String(subtask.status ?? ""));
+                      const assignees = (subtask.assigneeSessionKeys ?? []) as string[];
+                      const assigneeLabels = assignees.map((session) => agentBySessionKey[session]?.name ?? session);
+                      return (
+                        <div key={subtask._id} className="rounded-2xl border border-border-subtle bg-white/70 p-3 space-y-2">
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="text-sm font-semibold text-text-primary leading-snug">{subtask.title}</div>
+                            <span className={`text-[10px] font-bold uppercase tracking-[0.12em] border rounded-full px-2 py-1 ${statusMeta.className}`}>
+                              {statusMeta.label}
+                            </span>
+                          </div>
+                          <div className="text-[11px] text-text-secondary">
+                            Especialista: {assigneeLabels.length > 0 ? assigneeLabels.join(", ") : "Não atribuído"}
+                          </div>
+                          <div className="text-[10px] font-mono text-text-secondary/60">
+                            {formatLocalizedDateTime(subtask.createdAt, language)}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
 
-        <div className="space-y-4">
-          <div className="text-[10px] font-bold uppercase tracking-[0.15em] text-text-secondary/70 px-2">{t("kanban.drawer.threadCommunications")}</div>
-          <div className="space-y-4">
-            {snapshot?.messages
-              .filter((message) => !isToolBlobContent(message.content))
-              .map((message) => {
-                const sessionMeta = agentBySessionKey[message.fromSessionKey];
-                const displayName = sessionMeta?.name || message.fromSessionKey.split(":").pop() || "User";
-                const avatarSeed = sessionMeta?.avatar || displayName;
-                return (
-                  <div key={message._id} className="p-5 rounded-3xl bg-warm-bg/30 border border-border-subtle group hover:border-text-primary/10 transition-colors shadow-sm">
-                    <div className="flex justify-between items-start mb-3">
-                      <div className="flex items-center gap-2">
-                        <div className="w-6 h-6 rounded-full border border-border-subtle overflow-hidden bg-slate-100 p-0.5">
-                          <img
-                            src={dicebearBotttsUrl(avatarSeed)}
-                            alt={`${displayName} avatar`}
-                            className="w-full h-full object-cover"
-                          />
+            <div className="space-y-4">
+              <div className="text-[10px] font-bold uppercase tracking-[0.15em] text-text-secondary/70 px-2">{t("kanban.drawer.threadCommunications")}</div>
+              {snapshot?.threadSummary ? (
+                <div className="p-4 rounded-2xl border border-border-subtle bg-white/60 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-text-primary">{t("kanban.drawer.threadSummary")}</span>
+                    <span className="text-[10px] font-mono text-text-secondary opacity-60">
+                      {t("kanban.drawer.threadSummaryCoverage", { count: snapshot.threadSummary.summarizedCount })} ·{" "}
+                      {formatLocalizedDateTime(snapshot.threadSummary.updatedAt, language)}
+                    </span>
+                  </div>
+                  <div className="text-xs leading-relaxed text-text-primary/80 whitespace-pre-wrap">{snapshot.threadSummary.summary}</div>
+                </div>
+              ) : null}
+              <div className="space-y-4">
+                {snapshot?.messages
+                  .filter((message) => !isToolBlobContent(message.content))
+                  .map((message) => {
+                    const sessionMeta = agentBySessionKey[message.fromSessionKey];
+                    const displayName = sessionMeta?.name || message.fromSessionKey.split(":").pop() || "User";
+                    const avatarSeed = sessionMeta?.avatar || displayName;
+                    return (
+                      <div key={message._id} className="p-5 rounded-3xl bg-warm-bg/30 border border-border-subtle group hover:border-text-primary/10 transition-colors shadow-sm">
+                        <div className="flex justify-between items-start mb-3">
+                          <div className="flex items-center gap-2">
+                            <div className="w-6 h-6 rounded-full border border-border-subtle overflow-hidden bg-slate-100 p-0.5">
+                              <img
+                                src={dicebearBotttsUrl(avatarSeed)}
+                                alt={`${displayName} avatar`}
+                                className="w-full h-full object-cover"
+                              />
+                            </div>
+                            <span className="text-[10px] font-bold uppercase tracking-wider text-text-primary bg-accent-cream px-2 py-0.5 rounded shadow-sm">{displayName}</span>
+                            {hasMemoryUsedMarker(message.content) || (message.citations?.length ?? 0) > 0 ? (
+                              <span className="text-[9px] font-bold uppercase tracking-wider text-blue-700 bg-blue-100 px-2 py-0.5 rounded-full border border-blue-200">
+                                {t("kanban.drawer.memory")}
+                              </span>
+                            ) : null}
+                          </div>
+                          {message.isDraft ? (
+                            <span className="text-[9px] font-bold uppercase tracking-wider text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full border border-emerald-200 animate-pulse">
+                              {t("kanban.drawer.agentTyping")}
+                            </span>
+                          ) : (
+                            <span className="text-[10px] font-mono font-bold text-text-secondary opacity-40">
+                              {formatLocalizedTime(message.createdAt, language)}
+                            </span>
+                          )}
                         </div>
-                        <span className="text-[10px] font-bold uppercase tracking-wider text-text-primary bg-accent-cream px-2 py-0.5 rounded shadow-sm">{displayName}</span>
-                        {hasMemoryUsedMarker(message.content) ? (
-                          <span className="text-[9px] font-bold uppercase tracking-wider text-blue-700 bg-blue-100 px-2 py-0.5 rounded-full border border-blue-200">
-                            {t("kanban.drawer.memory")}
-                          </span>
+                        {message.isDraft && !message.content ? (
+                          <div className="text-sm leading-relaxed text-text-secondary italic animate-pulse">...</div>
+                        ) : (
+                          <div className="text-sm leading-relaxed text-text-primary/90">{stripMemoryUsedMarker(message.content)}</div>
+                        )}
+                        {!message.isDraft && message.citations && message.citations.length > 0 ? (
+                          <MessageCitations citations={message.citations} onOpenTask={onOpenTask} />
                         ) : null}
                       </div>
-                      <span className="text-[10px] font-mono font-bold text-text-secondary opacity-40">
-                        {formatLocalizedTime(message.createdAt, language)}
-                      </span>
-                    </div>
-                    <div className="text-sm leading-relaxed text-text-primary/90">{stripMemoryUsedMarker(message.content)}</div>
-                  </div>
-                );
-              })}
-          </div>
-        </div>
-
-        <div className="space-y-4">
-          <div className="text-[10px] font-bold uppercase tracking-[0.15em] text-text-secondary/70 px-2">{t("kanban.drawer.docs")}</div>
-          {!docs ? (
-            <div className="p-4 rounded-2xl border border-border-subtle bg-white/40 text-xs text-text-secondary">
-              {t("kanban.drawer.loadingDocs")}
-            </div>
-          ) : docs.length === 0 ? (
-            <div className="p-4 rounded-2xl border border-dashed border-border-subtle bg-white/20 text-xs text-text-secondary italic">
-              {t("kanban.drawer.noDocs")}
+                    );
+                  })}
+              </div>
             </div>
-          ) : (
+
             <div className="space-y-4">
-              {docs.map((doc) => {
-                const content = String(doc.content ?? "").trim();
-                const imageDoc = isImageDocumentUrl(content);
-                return (
-                  <div key={doc._id} className="p-4 rounded-2xl border border-border-subtle bg-white/60 space-y-3">
-                    <div className="flex items-center justify-between">
-                      <div className="text-xs font-bold text-text-primary">{doc.title}</div>
-                      <div className="text-[10px] font-mono text-text-secondary opacity-60">
-                        {formatLocalizedDateTime(doc.createdAt, language)}
-                      </div>
-                    </div>
-                    {imageDoc ? (
-                      <div className="space-y-2">
-                        <img
-                          src={content}
-                          alt={doc.title}
-                          className="w-full rounded-xl border border-border-subtle bg-white"
-                        />
-                        <a
-                          href={content}
-                          target="_blank"
-                          rel="noreferrer"
-                          className="text-xs font-mono text-blue-700 underline break-all"
-                        >
-                          {content}
-                        </a>
+              <div className="text-[10px] font-bold uppercase tracking-[0.15em] text-text-secondary/70 px-2">{t("kanban.drawer.docs")}</div>
+              {!docs ? (
+                <div className="p-4 rounded-2xl border border-border-subtle bg-white/40 text-xs text-text-secondary">
+                  {t("kanban.drawer.loadingDocs")}
+                </div>
+              ) : docs.length === 0 ? (
+                <div className="p-4 rounded-2xl border border-dashed border-border-subtle bg-white/20 text-xs text-text-secondary italic">
+                  {t("kanban.drawer.noDocs")}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {docs.map((doc) => {
+                    const content = String(doc.content ?? "").trim();
+                    const imageDoc = isImageDocumentUrl(content);
+                    return (
+                      <div key={doc._id} className="p-4 rounded-2xl border border-border-subtle bg-white/60 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div className="text-xs font-bold text-text-primary">{doc.title}</div>
+                          <div className="text-[10px] font-mono text-text-secondary opacity-60">
+                            {formatLocalizedDateTime(doc.createdAt, language)}
+                          </div>
+                        </div>
+                        {imageDoc ? (
+                          <div className="space-y-2">
+                            <img
+                              src={content}
+                              alt={doc.title}
+                              className="w-full rounded-xl border border-border-subtle bg-white"
+                            />
+                            <a
+                              href={content}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-xs font-mono text-blue-700 underline break-all"
+                            >
+                              {content}
+                            </a>
+                          </div>
+                        ) : (
+                          <pre className="whitespace-pre-wrap text-xs text-text-primary/90 font-mono">{content}</pre>
+                        )}
                       </div>
-                    ) : (
-                      <pre className="whitespace-pre-wrap text-xs text-text-primary/90 font-mono">{content}</pre>
-                    )}
-                  </div>
-                );
-              })}
+                    );
+                  })}
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </div>
 
       <div className="p-8 border-t border-border-subtle bg-white/80 backdrop-blur-md">
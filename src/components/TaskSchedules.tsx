@@ -0,0 +1,392 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { upcomingRuns, type ScheduleKind } from "../../convex/lib/schedules";
+import { formatLocalizedDateTime } from "../lib/i18nTime";
+
+type TaskSchedulesProps = {
+    departmentId: Id<"departments">;
+    canManage: boolean;
+    onOpenTask: (id: Id<"tasks">) => void;
+};
+
+type Priority = "low" | "medium" | "high";
+
+type ScheduleForm = {
+    title: string;
+    description: string;
+    assigneeSessionKey: string;
+    priority: Priority;
+    kind: ScheduleKind;
+    expression: string;
+    timezone: string;
+    overlapPolicy: "skip" | "allow";
+};
+
+const PRESETS: Array<{ key: string; kind: ScheduleKind; expression: string }> = [
+    { key: "weekdays9", kind: "cron", expression: "0 9 * * 1-5" },
+    { key: "monday9", kind: "cron", expression: "0 9 * * MON" },
+    { key: "firstOfMonth", kind: "cron", expression: "0 9 1 * *" },
+    { key: "lastFriday", kind: "rrule", expression: "FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=16;BYMINUTE=0" },
+];
+
+const TEMPLATE_PLACEHOLDERS = ["date", "time", "weekday", "month", "year"].map((name) => `{{${name}}}`).join(", ");
+
+const RUN_STATUS_CLASSES: Record<string, string> = {
+    created: "bg-emerald-50 border-emerald-200 text-emerald-700",
+    skipped: "bg-amber-50 border-amber-200 text-amber-700",
+    failed: "bg-red-50 border-red-200 text-red-700",
+};
+
+function browserTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+function emptyForm(): ScheduleForm {
+    return {
+        title: "",
+        description: "",
+        assigneeSessionKey: "",
+        priority: "medium",
+        kind: "cron",
+        expression: PRESETS[0].expression,
+        timezone: browserTimeZone(),
+        overlapPolicy: "skip",
+    };
+}
+
+function ScheduleRuns({ scheduleId, onOpenTask }: { scheduleId: Id<"taskSchedules">; onOpenTask: (id: Id<"tasks">) => void }) {
+    const { t, i18n } = useTranslation();
+    const language = i18n.resolvedLanguage ?? "pt";
+    const runs = useQuery(api.taskSchedules.listRuns, { scheduleId, limit: 20 });
+
+    if (!runs) return <div className="text-[11px] text-text-secondary">{t("taskSchedules.loadingRuns")}</div>;
+    if (runs.length === 0) return <div className="text-[11px] text-text-secondary italic">{t("taskSchedules.noRuns")}</div>;
+
+    return (
+        <div className="space-y-1">
+            {runs.map((run: any) => (
+                <div key={run._id} className="flex flex-wrap items-center gap-2 text-[11px] text-text-secondary">
+                    <span className={`px-1.5 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-wide ${RUN_STATUS_CLASSES[run.status] ?? ""}`}>
+                        {t(`taskSchedules.runStatus.${run.status}`)}
+                    </span>
+                    <span>{formatLocalizedDateTime(run.scheduledFor, language)}</span>
+                    {run.manual ? <span>{t("taskSchedules.manualRun")}</span> : null}
+                    {run.taskId ? (
+                        <button onClick={() => onOpenTask(run.taskId)} className="font-semibold text-text-primary hover:underline truncate">
+                            {run.taskTitle ?? t("taskSchedules.deletedTask")}
+                        </button>
+                    ) : null}
+                    {run.reason ? <span className="break-words">{run.reason}</span> : null}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Recurring tasks: a cron or RRULE timetable that creates a task for an agent
+ * on every run.
+ */
+export function TaskSchedules({ departmentId, canManage, onOpenTask }: TaskSchedulesProps) {
+    const { t, i18n } = useTranslation();
+    const language = i18n.resolvedLanguage ?? "pt";
+    const schedules = useQuery(api.taskSchedules.listByDepartment, { departmentId });
+    const agents = useQuery(api.agents.listByDept, { departmentId });
+    const createSchedule = useMutation(api.taskSchedules.create);
+    const updateSchedule = useMutation(api.taskSchedules.update);
+    const setPaused = useMutation(api.taskSchedules.setPaused);
+    const runNow = useMutation(api.taskSchedules.runNow);
+    const removeSchedule = useMutation(api.taskSchedules.remove);
+
+    const [form, setForm] = useState<ScheduleForm | null>(null);
+    const [editingId, setEditingId] = useState<Id<"taskSchedules"> | null>(null);
+    const [historyId, setHistoryId] = useState<Id<"taskSchedules"> | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const preview = useMemo(() => {
+        if (!form) return null;
+        try {
+            const now = Date.now();
+            return { runs: upcomingRuns(form.kind, form.expression, form.timezone, { anchor: now, after: now, limit: 3 }), error: null };
+        } catch (err: unknown) {
+            return { runs: [], error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [form]);
+
+    async function run(action: () => Promise<unknown>) {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : t("taskSchedules.actionFailed"));
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    function startCreate() {
+        setEditingId(null);
+        setForm({ ...emptyForm(), assigneeSessionKey: agents?.[0]?.sessionKey ?? "" });
+    }
+
+    function startEdit(schedule: any) {
+        setEditingId(schedule._id);
+        setForm({
+            title: schedule.title,
+            description: schedule.description,
+            assigneeSessionKey: schedule.assigneeSessionKey,
+            priority: schedule.priority ?? "medium",
+            kind: schedule.kind,
+            expression: schedule.expression,
+            timezone: schedule.timezone,
+            overlapPolicy: schedule.overlapPolicy,
+        });
+    }
+
+    function onSave() {
+        if (!form) return;
+        void run(async () => {
+            if (editingId) {
+                await updateSchedule({ id: editingId, ...form });
+            } else {
+                await createSchedule({ departmentId, ...form });
+            }
+            setForm(null);
+            setEditingId(null);
+        });
+    }
+
+    function onRemove(schedule: any) {
+        if (!window.confirm(t("taskSchedules.removeConfirm", { title: schedule.title }))) return;
+        void run(() => removeSchedule({ id: schedule._id }));
+    }
+
+    const update = (patch: Partial<ScheduleForm>) => setForm((current) => (current ? { ...current, ...patch } : current));
+
+    if (!schedules) {
+        return <div className="text-sm text-text-secondary">{t("taskSchedules.loading")}</div>;
+    }
+
+    return (
+        <div className="max-w-4xl space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("taskSchedules.title")}</h3>
+                    <p className="text-xs text-text-secondary">{t("taskSchedules.subtitle")}</p>
+                </div>
+                {canManage && !form ? (
+                    <button
+                        onClick={startCreate}
+                        className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-text-primary text-white"
+                    >
+                        {t("taskSchedules.new")}
+                    </button>
+                ) : null}
+            </div>
+
+            {error && (
+                <div className="rounded-xl border border-red-200 bg-red-50 text-red-700 text-sm px-4 py-3">{error}</div>
+            )}
+
+            {form ? (
+                <div className="rounded-2xl border border-border-subtle bg-white p-4 space-y-3">
+                    <input
+                        value={form.title}
+                        onChange={(event) => update({ title: event.target.value })}
+                        placeholder={t("taskSchedules.titlePlaceholder", { placeholder: "{{date}}" })}
+                        className="w-full border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white"
+                    />
+                    <textarea
+                        value={form.description}
+                        onChange={(event) => update({ description: event.target.value })}
+                        placeholder={t("taskSchedules.descriptionPlaceholder")}
+                        rows={3}
+                        className="w-full border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white"
+                    />
+                    <p className="text-[11px] text-text-secondary">{t("taskSchedules.templateHint", { placeholders: TEMPLATE_PLACEHOLDERS })}</p>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={form.assigneeSessionKey}
+                            onChange={(event) => update({ assigneeSessionKey: event.target.value })}
+                            className="border border-border-subtle rounded-lg px-2 py-2 text-sm bg-white"
+                        >
+                            <option value="">{t("taskSchedules.pickAgent")}</option>
+                            {(agents ?? []).map((agent) => (
+                                <option key={agent._id} value={agent.sessionKey}>
+                                    {agent.name}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={form.priority}
+                            onChange={(event) => update({ priority: event.target.value as Priority })}
+                            className="border border-border-subtle rounded-lg px-2 py-2 text-sm bg-white"
+                        >
+                            {(["low", "medium", "high"] as Priority[]).map((priority) => (
+                                <option key={priority} value={priority}>
+                                    {t(`taskSchedules.priority.${priority}`)}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={form.overlapPolicy}
+                            onChange={(event) => update({ overlapPolicy: event.target.value as "skip" | "allow" })}
+                            className="border border-border-subtle rounded-lg px-2 py-2 text-sm bg-white"
+                        >
+                            <option value="skip">{t("taskSchedules.overlap.skip")}</option>
+                            <option value="allow">{t("taskSchedules.overlap.allow")}</option>
+                        </select>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        {PRESETS.map((preset) => (
+                            <button
+                                key={preset.key}
+                                onClick={() => update({ kind: preset.kind, expression: preset.expression })}
+                                className="px-2.5 py-1 rounded-lg text-[11px] font-semibold border border-border-subtle hover:bg-black/5"
+                            >
+                                {t(`taskSchedules.presets.${preset.key}`)}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={form.kind}
+                            onChange={(event) => update({ kind: event.target.value as ScheduleKind })}
+                            className="border border-border-subtle rounded-lg px-2 py-2 text-sm bg-white"
+                        >
+                            <option value="cron">Cron</option>
+                            <option value="rrule">RRULE</option>
+                        </select>
+                        <input
+                            value={form.expression}
+                            onChange={(event) => update({ expression: event.target.value })}
+                            placeholder={form.kind === "cron" ? "0 9 * * MON" : "FREQ=WEEKLY;BYDAY=MO;BYHOUR=9"}
+                            className="flex-1 min-w-[14rem] border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white font-mono"
+                        />
+                        <input
+                            value={form.timezone}
+                            onChange={(event) => update({ timezone: event.target.value })}
+                            placeholder="America/Sao_Paulo"
+                            className="w-48 border border-border-subtle rounded-lg px-3 py-2 text-sm bg-white font-mono"
+                        />
+                    </div>
+                    {preview?.error ? (
+                        <div className="text-[11px] text-red-600">{preview.error}</div>
+                    ) : preview ? (
+                        <div className="text-[11px] text-text-secondary">
+                            {t("taskSchedules.nextRuns")}: {preview.runs.map((at) => formatLocalizedDateTime(at, language)).join(" · ") || "-"}
+                        </div>
+                    ) : null}
+
+                    <div className="flex items-center justify-end gap-2">
+                        <button
+                            onClick={() => {
+                                setForm(null);
+                                setEditingId(null);
+                            }}
+                            className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                        >
+                            {t("common.cancel")}
+                        </button>
+                        <button
+                            disabled={busy || !form.title.trim() || !form.assigneeSessionKey || !!preview?.error}
+                            onClick={onSave}
+                            className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-text-primary text-white disabled:opacity-60"
+                        >
+                            {editingId ? t("common.save") : t("common.create")}
+                        </button>
+                    </div>
+                </div>
+            ) : null}
+
+            {schedules.length === 0 ? (
+                <div className="p-6 rounded-2xl border border-dashed border-border-subtle bg-white/30 text-sm text-text-secondary italic">
+                    {t("taskSchedules.empty")}
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {schedules.map((schedule: any) => (
+                        <div key={schedule._id} className="rounded-xl border border-border-subtle bg-white px-3 py-2 space-y-1">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <div className="min-w-0 flex items-center gap-2">
+                                    <span className="text-sm font-bold text-text-primary truncate">{schedule.title}</span>
+                                    <span className="shrink-0 px-1.5 py-0.5 rounded-md bg-black/5 text-[10px] font-bold uppercase tracking-wide text-text-secondary">
+                                        {t(`taskSchedules.status.${schedule.status}`)}
+                                    </span>
+                                </div>
+                                <div className="flex shrink-0 items-center gap-2">
+                                    <button
+                                        onClick={() => setHistoryId(historyId === schedule._id ? null : schedule._id)}
+                                        className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                    >
+                                        {t("taskSchedules.history")}
+                                    </button>
+                                    {canManage ? (
+                                        <>
+                                            <button
+                                                disabled={busy}
+                                                onClick={() => {
+                                                    void run(() => runNow({ id: schedule._id }));
+                                                }}
+                                                className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5 disabled:opacity-60"
+                                            >
+                                                {t("taskSchedules.runNow")}
+                                            </button>
+                                            {schedule.status !== "ended" ? (
+                                                <button
+                                                    disabled={busy}
+                                                    onClick={() => {
+                                                        void run(() => setPaused({ id: schedule._id, paused: schedule.status === "active" }));
+                                                    }}
+                                                    className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                                >
+                                                    {schedule.status === "active" ? t("taskSchedules.pause") : t("taskSchedules.resume")}
+                                                </button>
+                                            ) : null}
+                                            <button
+                                                disabled={busy}
+                                                onClick={() => startEdit(schedule)}
+                                                className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5"
+                                            >
+                                                {t("taskSchedules.edit")}
+                                            </button>
+                                            <button
+                                                disabled={busy}
+                                                onClick={() => onRemove(schedule)}
+                                                className="px-2.5 py-1 rounded-lg text-[11px] font-bold uppercase tracking-wide border border-red-200 text-red-600 hover:bg-red-50"
+                                            >
+                                                {t("common.delete")}
+                                            </button>
+                                        </>
+                                    ) : null}
+                                </div>
+                            </div>
+                            <div className="text-[11px] text-text-secondary">
+                                <span className="font-mono">{schedule.expression}</span>
+                                {` | ${schedule.timezone} | ${schedule.assigneeName} | ${t(`taskSchedules.overlap.${schedule.overlapPolicy}`)}`}
+                            </div>
+                            <div className="text-[11px] text-text-secondary">
+                                {t("taskSchedules.lastRun")}: {schedule.lastRunAt ? formatLocalizedDateTime(schedule.lastRunAt, language) : "-"}
+                                {schedule.upcoming.length > 0
+                                    ? ` | ${t("taskSchedules.nextRuns")}: ${schedule.upcoming.map((at: number) => formatLocalizedDateTime(at, language)).join(" · ")}`
+                                    : ""}
+                            </div>
+                            {historyId === schedule._id ? (
+                                <div className="pt-1 border-t border-border-subtle">
+                                    <ScheduleRuns scheduleId={schedule._id} onOpenTask={onOpenTask} />
+                                </div>
+                            ) : null}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
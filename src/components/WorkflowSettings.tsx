@@ -0,0 +1,321 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useTranslation } from "react-i18next";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { MAX_WIP_LIMIT, TASK_STATUSES, type TaskStatus, type Workflow } from "../../convex/lib/workflows";
+import { useDept } from "../DeptContext";
+import { useOrg } from "../OrgContext";
+
+type ColumnDraft = { key: string; label: string; status: TaskStatus; wipLimit: string };
+type TransitionDraft = { from: string; to: string; allowed: string };
+type WorkflowDraft = {
+    departmentId: Id<"departments">;
+    columns: ColumnDraft[];
+    transitions: TransitionDraft[];
+};
+
+const PERMISSION_TOKENS = "user, role:owner, role:admin, role:member, task_owner, agent, orchestrator, agent:<name>:main";
+
+function toDraft(departmentId: Id<"departments">, workflow: Workflow): WorkflowDraft {
+    return {
+        departmentId,
+        columns: workflow.columns.map((column) => ({
+            key: column.key,
+            label: column.label ?? "",
+            status: column.status,
+            wipLimit: column.wipLimit !== undefined ? String(column.wipLimit) : "",
+        })),
+        transitions: workflow.transitions.map((rule) => ({
+            from: rule.from,
+            to: rule.to,
+            allowed: (rule.allowed ?? []).join(", "),
+        })),
+    };
+}
+
+function fromDraft(draft: WorkflowDraft) {
+    return {
+        departmentId: draft.departmentId,
+        columns: draft.columns.map((column) => ({
+            key: column.key.trim(),
+            label: column.label.trim() || undefined,
+            status: column.status,
+            wipLimit: column.wipLimit.trim() ? Number(column.wipLimit) : undefined,
+        })),
+        transitions: draft.transitions.map((rule) => {
+            const allowed = rule.allowed.split(",").map((token) => token.trim()).filter(Boolean);
+            return { from: rule.from, to: rule.to, allowed: allowed.length > 0 ? allowed : undefined };
+        }),
+    };
+}
+
+/**
+ * Board workflow of the active department: columns, allowed moves and WIP limits.
+ */
+export function WorkflowSettings() {
+    const { t } = useTranslation();
+    const { activeDeptId } = useDept();
+    const { activeOrgId, organizations } = useOrg();
+    const workflow = useQuery(api.workflows.get, activeDeptId ? { departmentId: activeDeptId } : "skip");
+    const saveWorkflow = useMutation(api.workflows.save);
+    const resetWorkflow = useMutation(api.workflows.reset);
+
+    // Unsaved edits; null (or a draft of another department) shows the saved workflow.
+    const [editing, setEditing] = useState<WorkflowDraft | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const canManage = useMemo(() => {
+        const activeOrg = organizations?.find((org) => org._id === activeOrgId);
+        return activeOrg?.role === "owner" || activeOrg?.role === "admin";
+    }, [organizations, activeOrgId]);
+
+    if (!activeDeptId) return <div className="p-8 text-sm text-text-secondary">{t("workflow.selectDepartment")}</div>;
+    if (!workflow) return <div className="p-8 text-sm text-text-secondary">{t("workflow.loading")}</div>;
+
+    const draft = editing?.departmentId === activeDeptId ? editing : toDraft(activeDeptId, workflow);
+    const dirty = editing?.departmentId === activeDeptId;
+    const columnKeys = draft.columns.map((column) => column.key).filter(Boolean);
+
+    const update = (patch: Partial<Omit<WorkflowDraft, "departmentId">>) => {
+        setNotice(null);
+        setEditing({ ...draft, ...patch });
+    };
+    const updateColumn = (index: number, patch: Partial<ColumnDraft>) =>
+        update({ columns: draft.columns.map((column, i) => (i === index ? { ...column, ...patch } : column)) });
+    const moveColumn = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= draft.columns.length) return;
+        const columns = [...draft.columns];
+        [columns[index], columns[target]] = [columns[target], columns[index]];
+        update({ columns });
+    };
+    const updateTransition = (index: number, patch: Partial<TransitionDraft>) =>
+        update({ transitions: draft.transitions.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+
+    const run = async (action: () => Promise<{ releasedTasks: number }>) => {
+        setBusy(true);
+        setError(null);
+        setNotice(null);
+        try {
+            const result = await action();
+            setEditing(null);
+            setNotice(
+                result.releasedTasks > 0
+                    ? t("workflow.savedWithReleased", { count: result.releasedTasks })
+                    : t("workflow.saved")
+            );
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : t("workflow.saveError"));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const onReset = () => {
+        if (!window.confirm(t("workflow.resetConfirm"))) return;
+        void run(() => resetWorkflow({ departmentId: activeDeptId }));
+    };
+
+    const fieldClass = "border border-border-subtle rounded-lg px-2 py-1.5 text-xs bg-white disabled:bg-black/5";
+    const iconButtonClass = "px-2 py-1 rounded-md text-[11px] font-bold border border-border-subtle hover:bg-black/5 disabled:opacity-40";
+    const endpointOptions = ["*", ...columnKeys];
+
+    return (
+        <div className="px-8 pb-8 max-w-4xl space-y-6">
+            <div className="space-y-1">
+                <p className="text-xs text-text-secondary">{t("workflow.subtitle")}</p>
+                {workflow.isDefault && !dirty ? (
+                    <p className="text-[11px] text-text-secondary italic">{t("workflow.usingDefault")}</p>
+                ) : null}
+                {!canManage ? <p className="text-[11px] text-text-secondary italic">{t("workflow.adminOnly")}</p> : null}
+            </div>
+
+            {error ? <div className="rounded-xl border border-red-200 bg-red-50 text-red-700 text-sm px-4 py-3">{error}</div> : null}
+            {notice ? <div className="rounded-xl border border-emerald-200 bg-emerald-50 text-emerald-700 text-sm px-4 py-3">{notice}</div> : null}
+
+            <section className="rounded-2xl border border-border-subtle bg-white p-4 space-y-3">
+                <div>
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("workflow.columns")}</h3>
+                    <p className="text-[11px] text-text-secondary">{t("workflow.columnsHint")}</p>
+                </div>
+                {draft.columns.map((column, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                        <input
+                            value={column.key}
+                            disabled={!canManage}
+                            onChange={(event) => updateColumn(index, { key: event.target.value.toLowerCase() })}
+                            placeholder={t("workflow.key")}
+                            className={`${fieldClass} w-36 font-mono`}
+                        />
+                        <input
+                            value={column.label}
+                            disabled={!canManage}
+                            onChange={(event) => updateColumn(index, { label: event.target.value })}
+                            placeholder={t(`kanban.columns.${column.key}`, { defaultValue: t("workflow.label") })}
+                            className={`${fieldClass} flex-1 min-w-[10rem]`}
+                        />
+                        <select
+                            value={column.status}
+                            disabled={!canManage}
+                            onChange={(event) => updateColumn(index, { status: event.target.value as TaskStatus })}
+                            className={fieldClass}
+                        >
+                            {TASK_STATUSES.map((status) => (
+                                <option key={status} value={status}>
+                                    {t(`status.${status}`)}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_WIP_LIMIT}
+                            value={column.wipLimit}
+                            disabled={!canManage}
+                            onChange={(event) => updateColumn(index, { wipLimit: event.target.value })}
+                            placeholder={t("workflow.wipLimit")}
+                            className={`${fieldClass} w-24`}
+                        />
+                        <button type="button" disabled={!canManage || index === 0} onClick={() => moveColumn(index, -1)} className={iconButtonClass}>
+                            ↑
+                        </button>
+                        <button
+                            type="button"
+                            disabled={!canManage || index === draft.columns.length - 1}
+                            onClick={() => moveColumn(index, 1)}
+                            className={iconButtonClass}
+                        >
+                            ↓
+                        </button>
+                        <button
+                            type="button"
+                            disabled={!canManage}
+                            onClick={() => update({ columns: draft.columns.filter((_, i) => i !== index) })}
+                            className={`${iconButtonClass} text-red-600`}
+                            title={t("common.delete")}
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+                {canManage ? (
+                    <button
+                        type="button"
+                        onClick={() =>
+                            update({
+                                columns: [
+                                    ...draft.columns,
+                                    { key: `column_${draft.columns.length + 1}`, label: "", status: "in_progress", wipLimit: "" },
+                                ],
+                            })
+                        }
+                        className="px-2.5 py-1 rounded-lg text-[11px] font-semibold border border-border-subtle hover:bg-black/5"
+                    >
+                        {t("workflow.addColumn")}
+                    </button>
+                ) : null}
+            </section>
+
+            <section className="rounded-2xl border border-border-subtle bg-white p-4 space-y-3">
+                <div>
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-text-secondary">{t("workflow.transitions")}</h3>
+                    <p className="text-[11px] text-text-secondary">{t("workflow.transitionsHint", { tokens: PERMISSION_TOKENS })}</p>
+                </div>
+                {draft.transitions.map((rule, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={rule.from}
+                            disabled={!canManage}
+                            onChange={(event) => updateTransition(index, { from: event.target.value })}
+                            className={`${fieldClass} font-mono`}
+                        >
+                            {endpointOptions.map((key) => (
+                                <option key={key} value={key}>
+                                    {key === "*" ? t("workflow.anyColumn") : key}
+                                </option>
+                            ))}
+                        </select>
+                        <span className="text-xs text-text-secondary">→</span>
+                        <select
+                            value={rule.to}
+                            disabled={!canManage}
+                            onChange={(event) => updateTransition(index, { to: event.target.value })}
+                            className={`${fieldClass} font-mono`}
+                        >
+                            {endpointOptions.map((key) => (
+                                <option key={key} value={key}>
+                                    {key === "*" ? t("workflow.anyColumn") : key}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            value={rule.allowed}
+                            disabled={!canManage}
+                            onChange={(event) => updateTransition(index, { allowed: event.target.value })}
+                            placeholder={t("workflow.allowedPlaceholder")}
+                            className={`${fieldClass} flex-1 min-w-[14rem] font-mono`}
+                        />
+                        <button
+                            type="button"
+                            disabled={!canManage}
+                            onClick={() => update({ transitions: draft.transitions.filter((_, i) => i !== index) })}
+                            className={`${iconButtonClass} text-red-600`}
+                            title={t("common.delete")}
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+                {draft.transitions.length === 0 ? (
+                    <p className="text-[11px] text-amber-700">{t("workflow.noTransitions")}</p>
+                ) : null}
+                {canManage ? (
+                    <button
+                        type="button"
+                        onClick={() => update({ transitions: [...draft.transitions, { from: "*", to: "*", allowed: "" }] })}
+                        className="px-2.5 py-1 rounded-lg text-[11px] font-semibold border border-border-subtle hover:bg-black/5"
+                    >
+                        {t("workflow.addTransition")}
+                    </button>
+                ) : null}
+            </section>
+
+            {canManage ? (
+                <div className="flex items-center justify-end gap-2">
+                    <button
+                        type="button"
+                        disabled={busy || workflow.isDefault}
+                        onClick={onReset}
+                        className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5 disabled:opacity-50"
+                    >
+                        {t("workflow.resetToDefault")}
+                    </button>
+                    {dirty ? (
+                        <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => {
+                                setEditing(null);
+                                setError(null);
+                            }}
+                            className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide border border-border-subtle hover:bg-black/5 disabled:opacity-50"
+                        >
+                            {t("common.cancel")}
+                        </button>
+                    ) : null}
+                    <button
+                        type="button"
+                        disabled={busy || !dirty}
+                        onClick={() => { void run(() => saveWorkflow(fromDraft(draft))); }}
+                        className="px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-text-primary text-white disabled:opacity-60"
+                    >
+                        {busy ? t("workflow.saving") : t("common.save")}
+                    </button>
+                </div>
+            ) : null}
+        </div>
+    );
+}
@@ -10,6 +10,7 @@ const SERVICES = [
     { value: "upwork", label: "Upwork" },
     { value: "tavily", label: "Tavily" },
     { value: "resend", label: "Resend" },
+    { value: "embeddings", label: "Embeddings" },
 ] as const;
 
 type CredentialGalleryModalProps = {
@@ -8,6 +8,7 @@ import { ServiceLogo } from "./ServiceLogo";
 import { GitHubCredentialModal } from "./GitHubCredentialModal";
 import type { IntegrationLike } from "./types";
 import { openUpgradeModalFromError } from "../../lib/upgradeModal";
+import { EMBEDDING_PROVIDERS, normalizeEmbeddingProvider, type EmbeddingProvider } from "../../../convex/lib/embeddings";
 
 type CredentialModalProps = {
     isOpen: boolean;
@@ -70,6 +71,8 @@ function titleForService(service: string) {
             return "Tavily API";
         case "dalle":
             return "DALL-E API";
+        case "embeddings":
+            return "Embeddings API";
         default:
             return "Credential";
     }
@@ -93,6 +96,9 @@ export function CredentialModal({ isOpen, service, orgId, departmentId, integrat
     const [twitterAccessToken, setTwitterAccessToken] = useState("");
     const [twitterAccessSecret, setTwitterAccessSecret] = useState("");
     const [genericApiKey, setGenericApiKey] = useState("");
+    const [embeddingProvider, setEmbeddingProvider] = useState<EmbeddingProvider>("local");
+    const [embeddingModel, setEmbeddingModel] = useState("");
+    const [embeddingApiKey, setEmbeddingApiKey] = useState("");
     const [gmailPowers, setGmailPowers] = useState<GmailOAuthPower[]>(DEFAULT_GMAIL_POWERS);
 
     const [isSubmitting, setIsSubmitting] = useState(false);
@@ -141,6 +147,12 @@ export function CredentialModal({ isOpen, service, orgId, departmentId, integrat
             setTwitterAccessSecret(integration?.config?.accessSecret ?? "");
             return;
         }
+        if (service === "embeddings") {
+            setEmbeddingProvider(normalizeEmbeddingProvider(integration?.config?.provider) ?? "local");
+            setEmbeddingModel(integration?.config?.model ?? "");
+            setEmbeddingApiKey(integration?.config?.apiKey ?? "");
+            return;
+        }
         if (GENERIC_API_KEY_SERVICES.has(service)) {
             setGenericApiKey(integration?.config?.token ?? integration?.config?.key ?? "");
         }
@@ -358,6 +370,28 @@ export function CredentialModal({ isOpen, service, orgId, departmentId, integrat
         } as any);
     };
 
+    const handleSaveEmbeddings = async () => {
+        setError(null);
+        if (embeddingProvider !== "local" && !embeddingApiKey.trim()) {
+            setError("API Key is required.");
+            return;
+        }
+        await saveCredential({
+            orgId,
+            departmentId,
+            name: `Embeddings (${EMBEDDING_PROVIDERS[embeddingProvider].label})`,
+            type: "embeddings",
+            config: {
+                provider: embeddingProvider,
+                model: embeddingModel.trim() || undefined,
+                apiKey: embeddingApiKey.trim() || undefined,
+            },
+            authType: "apikey",
+            oauthStatus: "connected",
+            lastError: "",
+        });
+    };
+
     const handleSaveGenericApiKey = async () => {
         setError(null);
         if (!genericApiKey.trim()) {
@@ -669,6 +703,61 @@ export function CredentialModal({ isOpen, service, orgId, departmentId, integrat
                                 </>
                             )}
 
+                            {service === "embeddings" && (
+                                <>
+                                    <div className="space-y-1">
+                                        <label className="text-[11px] uppercase tracking-wider font-semibold text-text-secondary">Provider</label>
+                                        <select
+                                            value={embeddingProvider}
+                                            onChange={(e) => setEmbeddingProvider(normalizeEmbeddingProvider(e.target.value) ?? "local")}
+                                            className="w-full rounded-xl border border-border-subtle px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+                                        >
+                                            {(Object.keys(EMBEDDING_PROVIDERS) as EmbeddingProvider[]).map((provider) => (
+                                                <option key={provider} value={provider}>
+                                                    {EMBEDDING_PROVIDERS[provider].label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {embeddingProvider === "local" && (
+                                        <p className="text-[11px] text-text-secondary">
+                                            Uses the OpenAI-compatible endpoint (Ollama, LM Studio, vLLM) set in the LOCAL_EMBEDDINGS_URL environment variable.
+                                        </p>
+                                    )}
+                                    <div className="space-y-1">
+                                        <label className="text-[11px] uppercase tracking-wider font-semibold text-text-secondary">Model</label>
+                                        <input
+                                            value={embeddingModel}
+                                            onChange={(e) => setEmbeddingModel(e.target.value)}
+                                            placeholder={EMBEDDING_PROVIDERS[embeddingProvider].defaultModel}
+                                            className="w-full rounded-xl border border-border-subtle px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+                                        />
+                                        <p className="text-[11px] text-text-secondary">Changing the model asks to re-embed the knowledge base.</p>
+                                    </div>
+                                    <div className="space-y-1">
+                                        <label className="text-[11px] uppercase tracking-wider font-semibold text-text-secondary">
+                                            API Key{embeddingProvider === "local" ? " (optional)" : ""}
+                                        </label>
+                                        <input
+                                            type="password"
+                                            value={embeddingApiKey}
+                                            onChange={(e) => setEmbeddingApiKey(e.target.value)}
+                                            placeholder="Enter API key"
+                                            className="w-full rounded-xl border border-border-subtle px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+                                        />
+                                    </div>
+                                    <button
+                                        onClick={() => {
+                                            void handleSaveEmbeddings();
+                                        }}
+                                        disabled={isSubmitting}
+                                        className="w-full rounded-xl bg-text-primary px-4 py-2.5 text-sm font-semibold text-white hover:opacity-90 disabled:opacity-50"
+                                    >
+                                        {isSubmitting ? "Saving..." : "Save Credential"}
+                                    </button>
+                                </>
+                            )}
+
                             {GENERIC_API_KEY_SERVICES.has(service) && (
                                 <>
                                     <div className="space-y-1">
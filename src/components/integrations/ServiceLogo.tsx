@@ -10,7 +10,8 @@ type SupportedService =
     | "tavily"
     | "resend"
     | "anthropic"
-    | "dalle";
+    | "dalle"
+    | "embeddings";
 
 type LogoConfig = {
     label: string;
@@ -62,6 +63,7 @@ const LOGO_CONFIG: Record<SupportedService, LogoConfig> = {
     twitter: { label: "X", bg: "bg-white", source: "cdn", slug: "x" },
     upwork: { label: "Upwork", bg: "bg-white", source: "cdn", slug: "upwork", color: "14a800" },
     dalle: { label: "DALL-E", bg: "bg-white", source: "inline" },
+    embeddings: { label: "Embeddings", bg: "bg-white", source: "inline" },
 };
 
 // Mantive seus SVGs inline como fallback (caso algum CDN falhe)
@@ -95,6 +97,18 @@ function TavilyLogo() {
     );
 }
 
+function EmbeddingsLogo() {
+    return (
+        <svg viewBox="0 0 64 64" xmlns="http://www.w3.org/2000/svg">
+            <rect width="64" height="64" rx="14" fill="#4F46E5" />
+            <circle cx="20" cy="22" r="5" fill="white" />
+            <circle cx="44" cy="18" r="5" fill="white" />
+            <circle cx="30" cy="44" r="5" fill="white" />
+            <path d="M20 22L44 18M20 22L30 44M44 18L30 44" stroke="white" strokeWidth="2.5" opacity="0.7" />
+        </svg>
+    );
+}
+
 function FallbackLogo() {
     return (
         <svg viewBox="0 0 64 64" aria-hidden="true">
@@ -114,6 +128,8 @@ function InlineLogo({ service }: { service: string }) {
             return <ResendLogo />;
         case "tavily":
             return <TavilyLogo />;
+        case "embeddings":
+            return <EmbeddingsLogo />;
         default:
             return <FallbackLogo />;
     }
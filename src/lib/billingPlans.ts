@@ -16,6 +16,8 @@ export interface PlanLimits {
   knowledgeDocs: number;
   customAgents: number;
   teamInvites: number;
+  monthlyLlmTokens: number;
+  monthlyToolCalls: number;
 }
 
 export interface PlanFlags {
@@ -55,6 +57,8 @@ export const PRICING_PLANS: Record<PlanId, Plan> = {
       knowledgeDocs: 5,
       customAgents: 0,
       teamInvites: 0,
+      monthlyLlmTokens: 2_000_000,
+      monthlyToolCalls: 1_000,
     },
     flags: {
       teamInvitesAllowed: false,
@@ -78,6 +82,8 @@ export const PRICING_PLANS: Record<PlanId, Plan> = {
       knowledgeDocs: 50,
       customAgents: 10,
       teamInvites: 0,
+      monthlyLlmTokens: 20_000_000,
+      monthlyToolCalls: 10_000,
     },
     flags: {
       teamInvitesAllowed: false,
@@ -102,6 +108,8 @@ export const PRICING_PLANS: Record<PlanId, Plan> = {
       knowledgeDocs: 100,
       customAgents: UNLIMITED,
       teamInvites: UNLIMITED,
+      monthlyLlmTokens: UNLIMITED,
+      monthlyToolCalls: UNLIMITED,
     },
     flags: {
       teamInvitesAllowed: true,
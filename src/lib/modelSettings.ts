@@ -0,0 +1,67 @@
+export type LlmProviderChoice = "openai" | "anthropic";
+
+export const LLM_PROVIDER_OPTIONS: Array<{ id: LlmProviderChoice | "auto"; label: string }> = [
+    { id: "auto", label: "Auto (use the department's connected key)" },
+    { id: "openai", label: "OpenAI" },
+    { id: "anthropic", label: "Anthropic (Claude)" },
+];
+
+export const DEFAULT_MODEL_BY_PROVIDER: Record<LlmProviderChoice, string> = {
+    openai: "gpt-4o",
+    anthropic: "claude-sonnet-4-5",
+};
+
+export type AgentModelSettingsInput = {
+    llmProvider?: LlmProviderChoice;
+    model?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    maxToolIterations?: number;
+    maxRunSeconds?: number;
+    maxRunTokens?: number;
+};
+
+// Form state keeps raw strings so an empty input means "use the default".
+export type ModelSettingsForm = {
+    llmProvider: LlmProviderChoice | "auto";
+    model: string;
+    temperature: string;
+    maxOutputTokens: string;
+    maxToolIterations: string;
+    maxRunSeconds: string;
+    maxRunTokens: string;
+};
+
+export function modelSettingsFormFrom(settings?: AgentModelSettingsInput | null): ModelSettingsForm {
+    return {
+        llmProvider: settings?.llmProvider ?? "auto",
+        model: settings?.model ?? "",
+        temperature: settings?.temperature?.toString() ?? "",
+        maxOutputTokens: settings?.maxOutputTokens?.toString() ?? "",
+        maxToolIterations: settings?.maxToolIterations?.toString() ?? "",
+        maxRunSeconds: settings?.maxRunSeconds?.toString() ?? "",
+        maxRunTokens: settings?.maxRunTokens?.toString() ?? "",
+    };
+}
+
+function parseOptionalNumber(raw: string): number | null {
+    const trimmed = raw.trim();
+    if (!trimmed) return null;
+    const value = Number(trimmed);
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Converts form state into mutation args. `null` clears a field back to the brain default.
+ */
+export function modelSettingsFormToArgs(form: ModelSettingsForm) {
+    return {
+        llmProvider: form.llmProvider === "auto" ? null : form.llmProvider,
+        model: form.model.trim() || null,
+        temperature: parseOptionalNumber(form.temperature),
+        maxOutputTokens: parseOptionalNumber(form.maxOutputTokens),
+        maxToolIterations: parseOptionalNumber(form.maxToolIterations),
+        maxRunSeconds: parseOptionalNumber(form.maxRunSeconds),
+        maxRunTokens: parseOptionalNumber(form.maxRunTokens),
+    };
+}
@@ -0,0 +1,68 @@
+export type DiffLine = {
+    kind: "same" | "added" | "removed";
+    text: string;
+};
+
+// LCS table size limit; larger changes fall back to "all removed, all added".
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Line diff from `before` to `after`. The common prefix and suffix are kept
+ * as-is and only the changed middle goes through LCS.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.replace(/\r\n?/g, "\n").split("\n");
+    const b = after.replace(/\r\n?/g, "\n").split("\n");
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const head: DiffLine[] = a.slice(0, start).map((text) => ({ kind: "same", text }));
+    const tail: DiffLine[] = a.slice(endA).map((text) => ({ kind: "same", text }));
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    if (midA.length * midB.length > MAX_DIFF_CELLS) {
+        return [
+            ...head,
+            ...midA.map((text): DiffLine => ({ kind: "removed", text })),
+            ...midB.map((text): DiffLine => ({ kind: "added", text })),
+            ...tail,
+        ];
+    }
+
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..].
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lengths[i][j] = midA[i] === midB[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+        if (midA[i] === midB[j]) {
+            middle.push({ kind: "same", text: midA[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            middle.push({ kind: "removed", text: midA[i++] });
+        } else {
+            middle.push({ kind: "added", text: midB[j++] });
+        }
+    }
+    while (i < midA.length) middle.push({ kind: "removed", text: midA[i++] });
+    while (j < midB.length) middle.push({ kind: "added", text: midB[j++] });
+
+    return [...head, ...middle, ...tail];
+}